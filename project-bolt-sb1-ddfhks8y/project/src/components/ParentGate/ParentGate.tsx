@@ -0,0 +1,93 @@
+/**
+ * Parent gate for grown-up only areas
+ * Asks a multiplication question a young child is unlikely to answer
+ */
+
+import React, { useState } from 'react';
+import { Lock } from 'lucide-react';
+import Button from '../Button/Button';
+import Card from '../Card/Card';
+import { isParentGateUnlocked, unlockParentGate } from './parentGateSession';
+
+export interface ParentGateProps {
+  children: React.ReactNode;
+  title?: string;
+  description?: string;
+  onUnlock?: () => void;
+}
+
+const createQuestion = () => {
+  const a = 3 + Math.floor(Math.random() * 7);
+  const b = 3 + Math.floor(Math.random() * 7);
+  return { a, b, answer: a * b };
+};
+
+const ParentGate: React.FC<ParentGateProps> = ({
+  children,
+  title = 'Grown-ups Only',
+  description = 'Please ask a grown-up to answer this question to continue.',
+  onUnlock,
+}) => {
+  const [unlocked, setUnlocked] = useState(isParentGateUnlocked);
+  const [question, setQuestion] = useState(createQuestion);
+  const [answer, setAnswer] = useState('');
+  const [showError, setShowError] = useState(false);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    if (Number(answer.trim()) === question.answer) {
+      unlockParentGate();
+      setUnlocked(true);
+      onUnlock?.();
+      return;
+    }
+
+    // A fresh question each time stops guessing through the answers
+    setQuestion(createQuestion());
+    setAnswer('');
+    setShowError(true);
+  };
+
+  if (unlocked) {
+    return <>{children}</>;
+  }
+
+  return (
+    <div className="max-w-md mx-auto">
+      <Card variant="elevated" padding="large" className="text-center">
+        <div className="w-16 h-16 bg-purple-100 rounded-2xl flex items-center justify-center mx-auto mb-4">
+          <Lock className="h-8 w-8 text-purple-600" />
+        </div>
+        <h2 className="text-xl font-bold text-gray-900 mb-2 font-primary">{title}</h2>
+        <p className="text-gray-600 mb-6">{description}</p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <label htmlFor="parent-gate-answer" className="block text-lg font-medium text-gray-900">
+            What is {question.a} × {question.b}?
+          </label>
+          <input
+            id="parent-gate-answer"
+            type="text"
+            inputMode="numeric"
+            autoComplete="off"
+            value={answer}
+            onChange={(event) => setAnswer(event.target.value)}
+            className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl text-center text-lg focus-ring"
+            aria-describedby={showError ? 'parent-gate-error' : undefined}
+          />
+          {showError && (
+            <p id="parent-gate-error" className="text-sm text-red-600" role="alert">
+              That's not quite right. Here's a new question.
+            </p>
+          )}
+          <Button type="submit" variant="primary" size="touch" fullWidth>
+            Continue
+          </Button>
+        </form>
+      </Card>
+    </div>
+  );
+};
+
+export default ParentGate;
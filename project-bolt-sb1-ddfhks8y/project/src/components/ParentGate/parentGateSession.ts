@@ -0,0 +1,28 @@
+/**
+ * Parent gate unlock state
+ * Unlocking lasts for the rest of the browser session
+ */
+
+const UNLOCK_KEY = 'curmunchkins-parent-gate';
+
+/**
+ * Whether a parent has already passed the gate this session
+ */
+export const isParentGateUnlocked = (): boolean => {
+  try {
+    return sessionStorage.getItem(UNLOCK_KEY) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Remember that a parent passed the gate
+ */
+export const unlockParentGate = (): void => {
+  try {
+    sessionStorage.setItem(UNLOCK_KEY, 'true');
+  } catch {
+    // Still unlocked for this visit if session storage is unavailable
+  }
+};
@@ -15,6 +15,8 @@ export { default as Button } from './Button/Button';
 export { default as Card } from './Card/Card';
 export { default as Modal } from './Modal/Modal';
 export { default as Loading } from './Loading/Loading';
+export { default as ParentGate } from './ParentGate/ParentGate';
+export { isParentGateUnlocked } from './ParentGate/parentGateSession';
 
 // Error handling components
 export { default as ErrorBoundary } from './ErrorBoundary/ErrorBoundary';
@@ -25,4 +27,5 @@ export type { ButtonProps } from './Button/Button';
 export type { CardProps } from './Card/Card';
 export type { ModalProps } from './Modal/Modal';
 export type { LoadingProps } from './Loading/Loading';
+export type { ParentGateProps } from './ParentGate/ParentGate';
 export type { ErrorFallbackProps } from './ErrorBoundary/ErrorFallback';
\ No newline at end of file
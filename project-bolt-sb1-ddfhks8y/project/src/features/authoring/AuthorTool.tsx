@@ -0,0 +1,342 @@
+/**
+ * Story authoring tool for parents and therapists
+ * Edits a story as a node graph with live validation, saves drafts to IndexedDB,
+ * previews in the real StoryViewer and exports the published JSON format
+ */
+
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { Plus, Play, Download, FileText, Trash2, ArrowLeft, Copy } from 'lucide-react';
+import { Button, Card } from '@/components';
+import { useStoryStore, useVoiceStore } from '@/stores';
+import { saveDraft, getAllDrafts, deleteDraft } from '@/services/storage';
+import type { AttachmentType, MunchieCharacter, StoryContent, StoryDraft, StoryManifestEntry } from '@/types';
+import StoryViewer from '@/features/storytelling/StoryViewer';
+import { validateStoryGraph } from '@/features/storytelling/storyValidator';
+import { loadStoryManifest } from '@/features/storytelling/storyManifest';
+import { runAutomatedSafetyCheck } from '@/features/storytelling/contentSafety';
+import { storyLoader } from '@/features/storytelling/storyLoader';
+import StoryGraph from './StoryGraph';
+import NodeEditor from './NodeEditor';
+import StoryDetailsEditor from './StoryDetailsEditor';
+import ValidationPanel from './ValidationPanel';
+import { addNode, createEmptyStory, downloadStoryJson } from './storyDraft';
+import { generateStoryFromTemplate } from './storyGenerator';
+import { STORY_TEMPLATES, getStoryTemplate } from './storyTemplates';
+import { ATTACHMENT_TYPES, CHARACTERS, formatOption } from './authoringOptions';
+
+// Wait for a pause in typing before writing the draft
+const AUTOSAVE_DELAY = 1000;
+
+type SaveState = 'saved' | 'saving' | 'unsaved' | 'error';
+
+const AuthorTool: React.FC = () => {
+  const { loadPreviewStory, unloadStory } = useStoryStore();
+  const { stopNarration } = useVoiceStore();
+
+  const [drafts, setDrafts] = useState<StoryDraft[]>([]);
+  const [publishedStories, setPublishedStories] = useState<StoryManifestEntry[]>([]);
+  const [story, setStory] = useState<StoryContent | null>(null);
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [saveState, setSaveState] = useState<SaveState>('saved');
+  const [newCharacter, setNewCharacter] = useState<MunchieCharacter>('silo');
+  const [newAttachment, setNewAttachment] = useState<AttachmentType>('fidget_feet');
+  const [newTemplateId, setNewTemplateId] = useState('');
+
+  const refreshDrafts = useCallback(async () => {
+    setDrafts(await getAllDrafts());
+  }, []);
+
+  // Load saved drafts and the published stories that can be used as a starting point
+  useEffect(() => {
+    refreshDrafts();
+
+    loadStoryManifest()
+      .then(manifest => setPublishedStories(manifest.stories))
+      .catch(error => console.error('Failed to load story manifest:', error));
+  }, [refreshDrafts]);
+
+  // Autosave the draft shortly after each change
+  useEffect(() => {
+    if (!story || saveState !== 'unsaved') {
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      setSaveState('saving');
+      try {
+        await saveDraft(story);
+        setSaveState('saved');
+        refreshDrafts();
+      } catch {
+        setSaveState('error');
+      }
+    }, AUTOSAVE_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [story, saveState, refreshDrafts]);
+
+  const report = useMemo(() => (story ? validateStoryGraph(story) : null), [story]);
+  const safetyCheck = useMemo(() => (story ? runAutomatedSafetyCheck(story) : undefined), [story]);
+
+  const errorNodeIds = useMemo(
+    () => new Set((report?.errors || []).flatMap(issue => (issue.nodeId ? [issue.nodeId] : []))),
+    [report]
+  );
+  const warningNodeIds = useMemo(
+    () => new Set((report?.warnings || []).flatMap(issue => (issue.nodeId ? [issue.nodeId] : []))),
+    [report]
+  );
+
+  const handleChange = (updated: StoryContent) => {
+    setStory(updated);
+    setSaveState('unsaved');
+  };
+
+  const openStory = (opened: StoryContent, isNew: boolean) => {
+    setStory(opened);
+    setSelectedNodeId(opened.startNodeId);
+    setSaveState(isNew ? 'unsaved' : 'saved');
+  };
+
+  const handleCreateDraft = () => {
+    const template = getStoryTemplate(newTemplateId);
+    if (!template) {
+      openStory(createEmptyStory(newCharacter, newAttachment), true);
+      return;
+    }
+
+    const { story: generated, report: generatedReport } = generateStoryFromTemplate(template, newCharacter, newAttachment);
+    if (!generatedReport.isValid) {
+      console.warn(`Template "${template.id}" produced ${generatedReport.errors.length} validation errors`);
+    }
+    openStory(generated, true);
+  };
+
+  const handleCopyPublished = async (storyId: string) => {
+    const published = await storyLoader.loadStory(storyId);
+    if (!published) {
+      return;
+    }
+
+    // Copies get their own ID so the draft never overwrites the published story
+    openStory({ ...published, id: `${published.id}-draft-${Date.now().toString(36)}` }, true);
+  };
+
+  const handleDeleteDraft = async (storyId: string) => {
+    try {
+      await deleteDraft(storyId);
+      await refreshDrafts();
+    } catch (error) {
+      console.error('Failed to delete draft:', error);
+    }
+  };
+
+  const handleAddNode = () => {
+    if (!story) {
+      return;
+    }
+
+    const result = addNode(story, selectedNodeId ?? undefined);
+    handleChange(result.story);
+    setSelectedNodeId(result.nodeId);
+  };
+
+  const handlePreview = async () => {
+    if (!story) {
+      return;
+    }
+
+    await loadPreviewStory(story);
+    setIsPreviewing(true);
+  };
+
+  const handleExitPreview = () => {
+    stopNarration();
+    unloadStory();
+    setIsPreviewing(false);
+  };
+
+  const handleClose = () => {
+    setStory(null);
+    setSelectedNodeId(null);
+  };
+
+  // Preview in the same viewer children use
+  if (isPreviewing) {
+    return <StoryViewer preview onExit={handleExitPreview} />;
+  }
+
+  // Draft picker
+  if (!story || !report) {
+    return (
+      <div className="author-tool max-w-4xl mx-auto space-y-6">
+        <Card variant="elevated" padding="large">
+          <h2 className="text-xl font-bold text-gray-900 mb-4 font-primary">New story</h2>
+          <div className="grid md:grid-cols-4 gap-3 items-end">
+            <div>
+              <label htmlFor="new-character" className="block text-sm font-medium text-gray-700 mb-1">Character</label>
+              <select
+                id="new-character"
+                className="w-full px-3 py-2 border-2 border-gray-200 rounded-lg text-sm focus-ring"
+                value={newCharacter}
+                onChange={(event) => setNewCharacter(event.target.value as MunchieCharacter)}
+              >
+                {CHARACTERS.map(character => (
+                  <option key={character} value={character}>{formatOption(character)}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="new-attachment" className="block text-sm font-medium text-gray-700 mb-1">Attachment</label>
+              <select
+                id="new-attachment"
+                className="w-full px-3 py-2 border-2 border-gray-200 rounded-lg text-sm focus-ring"
+                value={newAttachment}
+                onChange={(event) => setNewAttachment(event.target.value as AttachmentType)}
+              >
+                {ATTACHMENT_TYPES.map(attachment => (
+                  <option key={attachment} value={attachment}>{formatOption(attachment)}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="new-template" className="block text-sm font-medium text-gray-700 mb-1">Template</label>
+              <select
+                id="new-template"
+                className="w-full px-3 py-2 border-2 border-gray-200 rounded-lg text-sm focus-ring"
+                value={newTemplateId}
+                onChange={(event) => setNewTemplateId(event.target.value)}
+              >
+                <option value="">Blank story</option>
+                {STORY_TEMPLATES.map(template => (
+                  <option key={template.id} value={template.id}>{template.name}</option>
+                ))}
+              </select>
+            </div>
+            <Button variant="primary" size="medium" icon={Plus} onClick={handleCreateDraft}>
+              Start writing
+            </Button>
+          </div>
+        </Card>
+
+        <Card variant="default" padding="large">
+          <h2 className="text-xl font-bold text-gray-900 mb-4 font-primary">Drafts</h2>
+          {drafts.length === 0 ? (
+            <p className="text-gray-600">No drafts yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {drafts.map(draft => (
+                <li key={draft.id} className="flex items-center justify-between py-3">
+                  <div>
+                    <p className="font-medium text-gray-900">{draft.story.metadata.title}</p>
+                    <p className="text-sm text-gray-600">
+                      Edited {new Date(draft.updatedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="ghost" size="small" icon={FileText} onClick={() => openStory(draft.story, false)}>
+                      Open
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="small"
+                      icon={Trash2}
+                      onClick={() => handleDeleteDraft(draft.id)}
+                      aria-label={`Delete ${draft.story.metadata.title}`}
+                    >
+                      Delete
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+
+        {publishedStories.length > 0 && (
+          <Card variant="default" padding="large">
+            <h2 className="text-xl font-bold text-gray-900 mb-4 font-primary">Start from a published story</h2>
+            <ul className="divide-y divide-gray-100">
+              {publishedStories.map(entry => (
+                <li key={entry.id} className="flex items-center justify-between py-3">
+                  <p className="font-medium text-gray-900">{entry.title}</p>
+                  <Button variant="ghost" size="small" icon={Copy} onClick={() => handleCopyPublished(entry.id)}>
+                    Copy to draft
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </Card>
+        )}
+      </div>
+    );
+  }
+
+  const selectedNode = selectedNodeId ? story.nodes[selectedNodeId] ?? null : null;
+
+  return (
+    <div className="author-tool space-y-6">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="small" icon={ArrowLeft} onClick={handleClose}>
+            Drafts
+          </Button>
+          <span className="text-sm text-gray-600" aria-live="polite">
+            {saveState === 'saved' && 'Draft saved'}
+            {saveState === 'saving' && 'Saving…'}
+            {saveState === 'unsaved' && 'Unsaved changes'}
+            {saveState === 'error' && 'Could not save draft'}
+          </span>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="ghost" size="small" icon={Plus} onClick={handleAddNode}>
+            Add node
+          </Button>
+          <Button variant="secondary" size="small" icon={Play} onClick={handlePreview} disabled={!report.isValid}>
+            Preview
+          </Button>
+          <Button variant="primary" size="small" icon={Download} onClick={() => downloadStoryJson(story)}>
+            Export JSON
+          </Button>
+        </div>
+      </div>
+
+      <Card variant="default" padding="large">
+        <StoryDetailsEditor story={story} onChange={handleChange} />
+      </Card>
+
+      <div className="grid lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <StoryGraph
+            story={story}
+            selectedNodeId={selectedNodeId}
+            errorNodeIds={errorNodeIds}
+            warningNodeIds={warningNodeIds}
+            onSelectNode={setSelectedNodeId}
+            className="min-h-[240px]"
+          />
+          <Card variant="default" padding="medium">
+            <ValidationPanel report={report} safetyCheck={safetyCheck} onSelectNode={setSelectedNodeId} />
+          </Card>
+        </div>
+
+        <Card variant="default" padding="medium">
+          {selectedNode ? (
+            <NodeEditor
+              story={story}
+              node={selectedNode}
+              onChange={handleChange}
+              onSelectNode={setSelectedNodeId}
+            />
+          ) : (
+            <p className="text-gray-600">Select a node in the graph to edit it.</p>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AuthorTool;
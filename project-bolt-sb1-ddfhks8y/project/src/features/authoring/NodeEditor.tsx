@@ -0,0 +1,425 @@
+/**
+ * Editor for a single story node
+ * Covers the segment text and voice, visual cues, voice prompts and the node's branches
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Plus, Trash2, Flag, GitBranch } from 'lucide-react';
+import { Button } from '@/components';
+import type { StoryContent, StoryNode, VisualCue, VoicePrompt } from '@/types';
+import {
+  addBranch,
+  addNode,
+  createVisualCue,
+  createVoicePrompt,
+  removeBranch,
+  removeNode,
+  renameNode,
+  updateBranch,
+  updateNode,
+  updateSegment,
+} from './storyDraft';
+import {
+  EMOTIONS,
+  FALLBACK_ACTIONS,
+  SENSORY_STRATEGIES,
+  VISUAL_CUE_INTENSITIES,
+  VISUAL_CUE_TYPES,
+  formatOption,
+} from './authoringOptions';
+
+interface NodeEditorProps {
+  story: StoryContent;
+  node: StoryNode;
+  onChange: (story: StoryContent) => void;
+  onSelectNode: (nodeId: string | null) => void;
+  className?: string;
+}
+
+const inputClass = 'w-full px-3 py-2 border-2 border-gray-200 rounded-lg text-sm focus-ring';
+const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+
+const NodeEditor: React.FC<NodeEditorProps> = ({
+  story,
+  node,
+  onChange,
+  onSelectNode,
+  className = '',
+}) => {
+  const { content } = node;
+
+  // Renaming waits for blur so branches aren't rewritten on every keystroke
+  const [nodeIdInput, setNodeIdInput] = useState(node.id);
+  useEffect(() => {
+    setNodeIdInput(node.id);
+  }, [node.id]);
+
+  const commitRename = () => {
+    const newId = nodeIdInput.trim();
+    if (!newId || newId === node.id || story.nodes[newId]) {
+      setNodeIdInput(node.id);
+      return;
+    }
+    onChange(renameNode(story, node.id, newId));
+    onSelectNode(newId);
+  };
+
+  const updateCue = (index: number, changes: Partial<VisualCue>) => {
+    onChange(updateSegment(story, node.id, {
+      visualCues: content.visualCues.map((cue, i) => (i === index ? { ...cue, ...changes } : cue)),
+    }));
+  };
+
+  const updatePrompt = (index: number, changes: Partial<VoicePrompt>) => {
+    onChange(updateSegment(story, node.id, {
+      voicePrompts: (content.voicePrompts || []).map((prompt, i) => (i === index ? { ...prompt, ...changes } : prompt)),
+    }));
+  };
+
+  const removePrompt = (index: number) => {
+    const voicePrompts = (content.voicePrompts || []).filter((_, i) => i !== index);
+    onChange(updateSegment(story, node.id, { voicePrompts: voicePrompts.length > 0 ? voicePrompts : undefined }));
+  };
+
+  const handleAddBranchToNewNode = () => {
+    const result = addNode(story, node.id);
+    onChange(result.story);
+    onSelectNode(result.nodeId);
+  };
+
+  const handleRemoveNode = () => {
+    onChange(removeNode(story, node.id));
+    onSelectNode(null);
+  };
+
+  const otherNodeIds = Object.keys(story.nodes);
+
+  return (
+    <div className={`node-editor space-y-6 ${className}`}>
+      {/* Node identity */}
+      <section className="space-y-3">
+        <div>
+          <label htmlFor="node-id" className={labelClass}>Node ID</label>
+          <input
+            id="node-id"
+            className={inputClass}
+            value={nodeIdInput}
+            onChange={(event) => setNodeIdInput(event.target.value)}
+            onBlur={commitRename}
+          />
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="ghost"
+            size="small"
+            icon={Flag}
+            onClick={() => onChange({ ...story, startNodeId: node.id })}
+            disabled={story.startNodeId === node.id}
+          >
+            {story.startNodeId === node.id ? 'Start node' : 'Make start node'}
+          </Button>
+          <Button variant="danger" size="small" icon={Trash2} onClick={handleRemoveNode}>
+            Remove node
+          </Button>
+        </div>
+      </section>
+
+      {/* Segment */}
+      <section className="space-y-3">
+        <div>
+          <label htmlFor="node-text" className={labelClass}>Narration</label>
+          <textarea
+            id="node-text"
+            className={inputClass}
+            rows={5}
+            value={content.text}
+            onChange={(event) => onChange(updateSegment(story, node.id, { text: event.target.value }))}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label htmlFor="node-emotion" className={labelClass}>Voice emotion</label>
+            <select
+              id="node-emotion"
+              className={inputClass}
+              value={content.voiceEmotion}
+              onChange={(event) => onChange(updateSegment(story, node.id, {
+                voiceEmotion: event.target.value as StoryNode['content']['voiceEmotion'],
+              }))}
+            >
+              {EMOTIONS.map(emotion => (
+                <option key={emotion} value={emotion}>{formatOption(emotion)}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="node-strategy" className={labelClass}>Sensory strategy</label>
+            <select
+              id="node-strategy"
+              className={inputClass}
+              value={node.sensoryStrategy}
+              onChange={(event) => onChange(updateNode(story, node.id, {
+                sensoryStrategy: event.target.value as StoryNode['sensoryStrategy'],
+              }))}
+            >
+              {SENSORY_STRATEGIES.map(strategy => (
+                <option key={strategy} value={strategy}>{formatOption(strategy)}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="node-duration" className={labelClass}>Duration (seconds)</label>
+            <input
+              id="node-duration"
+              type="number"
+              min={0}
+              className={inputClass}
+              value={content.duration}
+              onChange={(event) => onChange(updateSegment(story, node.id, { duration: Number(event.target.value) }))}
+            />
+          </div>
+          <div>
+            <label htmlFor="node-pause" className={labelClass}>Pause after (seconds)</label>
+            <input
+              id="node-pause"
+              type="number"
+              min={0}
+              className={inputClass}
+              value={content.pauseAfter ?? 0}
+              onChange={(event) => onChange(updateSegment(story, node.id, { pauseAfter: Number(event.target.value) }))}
+            />
+          </div>
+        </div>
+        <div className="flex gap-6">
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              className="mr-2"
+              checked={node.isEndNode}
+              onChange={(event) => onChange(updateNode(story, node.id, { isEndNode: event.target.checked }))}
+            />
+            Ending
+          </label>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              className="mr-2"
+              checked={node.isOptional ?? false}
+              onChange={(event) => onChange(updateNode(story, node.id, { isOptional: event.target.checked || undefined }))}
+            />
+            Optional (may be skipped for short attention spans)
+          </label>
+        </div>
+      </section>
+
+      {/* Visual cues */}
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="font-bold text-gray-900">Visual cues</h4>
+          <Button
+            variant="ghost"
+            size="small"
+            icon={Plus}
+            onClick={() => onChange(updateSegment(story, node.id, {
+              visualCues: [...content.visualCues, createVisualCue(story)],
+            }))}
+          >
+            Add cue
+          </Button>
+        </div>
+        {content.visualCues.map((cue, index) => (
+          <div key={index} className="grid grid-cols-2 gap-2 p-3 bg-gray-50 rounded-lg">
+            <select
+              className={inputClass}
+              aria-label="Cue type"
+              value={cue.type}
+              onChange={(event) => updateCue(index, { type: event.target.value as VisualCue['type'] })}
+            >
+              {VISUAL_CUE_TYPES.map(type => (
+                <option key={type} value={type}>{formatOption(type)}</option>
+              ))}
+            </select>
+            <select
+              className={inputClass}
+              aria-label="Cue intensity"
+              value={cue.intensity}
+              onChange={(event) => updateCue(index, { intensity: event.target.value as VisualCue['intensity'] })}
+            >
+              {VISUAL_CUE_INTENSITIES.map(intensity => (
+                <option key={intensity} value={intensity}>{formatOption(intensity)}</option>
+              ))}
+            </select>
+            <input
+              className={`${inputClass} col-span-2`}
+              aria-label="Cue target selector"
+              value={cue.target}
+              onChange={(event) => updateCue(index, { target: event.target.value })}
+            />
+            <input
+              type="number"
+              min={0}
+              className={inputClass}
+              aria-label="Cue duration in milliseconds"
+              value={cue.duration}
+              onChange={(event) => updateCue(index, { duration: Number(event.target.value) })}
+            />
+            <input
+              type="number"
+              min={0}
+              className={inputClass}
+              aria-label="Cue delay in milliseconds"
+              value={cue.delay ?? 0}
+              onChange={(event) => updateCue(index, { delay: Number(event.target.value) || undefined })}
+            />
+            <Button
+              variant="ghost"
+              size="small"
+              icon={Trash2}
+              className="col-span-2"
+              onClick={() => onChange(updateSegment(story, node.id, {
+                visualCues: content.visualCues.filter((_, i) => i !== index),
+              }))}
+            >
+              Remove cue
+            </Button>
+          </div>
+        ))}
+      </section>
+
+      {/* Voice prompts */}
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="font-bold text-gray-900">Voice prompts</h4>
+          <Button
+            variant="ghost"
+            size="small"
+            icon={Plus}
+            onClick={() => onChange(updateSegment(story, node.id, {
+              voicePrompts: [...(content.voicePrompts || []), createVoicePrompt()],
+            }))}
+          >
+            Add prompt
+          </Button>
+        </div>
+        {(content.voicePrompts || []).map((prompt, index) => (
+          <div key={index} className="space-y-2 p-3 bg-gray-50 rounded-lg">
+            <input
+              className={inputClass}
+              aria-label="Prompt text"
+              placeholder="What the character asks"
+              value={prompt.text}
+              onChange={(event) => updatePrompt(index, { text: event.target.value })}
+            />
+            <input
+              className={inputClass}
+              aria-label="Expected responses, separated by commas"
+              placeholder="Expected responses, separated by commas"
+              value={prompt.expectedResponses.join(', ')}
+              onChange={(event) => updatePrompt(index, {
+                expectedResponses: event.target.value.split(',').map(response => response.trim()).filter(Boolean),
+              })}
+            />
+            <input
+              className={inputClass}
+              aria-label="Encouragement"
+              placeholder="Encouragement if the child doesn't answer"
+              value={prompt.encouragement}
+              onChange={(event) => updatePrompt(index, { encouragement: event.target.value })}
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                type="number"
+                min={0}
+                className={inputClass}
+                aria-label="Timeout in seconds"
+                value={prompt.timeout / 1000}
+                onChange={(event) => updatePrompt(index, { timeout: Number(event.target.value) * 1000 })}
+              />
+              <select
+                className={inputClass}
+                aria-label="Fallback action"
+                value={prompt.fallbackAction}
+                onChange={(event) => updatePrompt(index, {
+                  fallbackAction: event.target.value as VoicePrompt['fallbackAction'],
+                })}
+              >
+                {FALLBACK_ACTIONS.map(action => (
+                  <option key={action} value={action}>{formatOption(action)}</option>
+                ))}
+              </select>
+            </div>
+            <Button variant="ghost" size="small" icon={Trash2} onClick={() => removePrompt(index)}>
+              Remove prompt
+            </Button>
+          </div>
+        ))}
+      </section>
+
+      {/* Branches */}
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="font-bold text-gray-900">Branches</h4>
+          <div className="flex gap-2">
+            <Button
+              variant="ghost"
+              size="small"
+              icon={GitBranch}
+              onClick={() => onChange(addBranch(story, node.id, {
+                condition: 'continue',
+                targetSegmentId: story.startNodeId,
+                weight: 1,
+              }))}
+            >
+              Add branch
+            </Button>
+            <Button variant="ghost" size="small" icon={Plus} onClick={handleAddBranchToNewNode}>
+              Branch to new node
+            </Button>
+          </div>
+        </div>
+        {node.branches.map((branch, index) => (
+          <div key={index} className="grid grid-cols-6 gap-2 items-center p-3 bg-gray-50 rounded-lg">
+            <input
+              className={`${inputClass} col-span-2`}
+              aria-label="Branch condition"
+              value={branch.condition}
+              onChange={(event) => onChange(updateBranch(story, node.id, index, { condition: event.target.value }))}
+            />
+            <select
+              className={`${inputClass} col-span-2`}
+              aria-label="Branch target"
+              value={branch.targetSegmentId}
+              onChange={(event) => onChange(updateBranch(story, node.id, index, { targetSegmentId: event.target.value }))}
+            >
+              {!story.nodes[branch.targetSegmentId] && (
+                <option value={branch.targetSegmentId}>{branch.targetSegmentId} (missing)</option>
+              )}
+              {otherNodeIds.map(nodeId => (
+                <option key={nodeId} value={nodeId}>{nodeId}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={0}
+              step={0.1}
+              className={inputClass}
+              aria-label="Branch weight"
+              value={branch.weight}
+              onChange={(event) => onChange(updateBranch(story, node.id, index, { weight: Number(event.target.value) }))}
+            />
+            <button
+              type="button"
+              className="p-2 text-gray-500 hover:text-red-600 rounded-lg focus-ring"
+              aria-label="Remove branch"
+              onClick={() => onChange(removeBranch(story, node.id, index))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </section>
+    </div>
+  );
+};
+
+export default NodeEditor;
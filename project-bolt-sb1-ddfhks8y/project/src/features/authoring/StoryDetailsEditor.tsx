@@ -0,0 +1,173 @@
+/**
+ * Editor for a story draft's character, attachment and metadata
+ */
+
+import React from 'react';
+import type { MunchieCharacter, StoryContent, StoryMetadata } from '@/types';
+import {
+  ATTACHMENT_TYPES,
+  CHARACTERS,
+  DIFFICULTY_LEVELS,
+  formatOption,
+} from './authoringOptions';
+
+interface StoryDetailsEditorProps {
+  story: StoryContent;
+  onChange: (story: StoryContent) => void;
+  className?: string;
+}
+
+const inputClass = 'w-full px-3 py-2 border-2 border-gray-200 rounded-lg text-sm focus-ring';
+const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+
+const StoryDetailsEditor: React.FC<StoryDetailsEditorProps> = ({ story, onChange, className = '' }) => {
+  const { metadata } = story;
+
+  const updateMetadata = (changes: Partial<StoryMetadata>) => {
+    onChange({ ...story, metadata: { ...metadata, ...changes } });
+  };
+
+  const narrators = story.narrators || [];
+
+  const toggleNarrator = (character: MunchieCharacter, enabled: boolean) => {
+    const updated = enabled
+      ? [...narrators, character]
+      : narrators.filter(narrator => narrator !== character);
+    onChange({ ...story, narrators: updated.length > 0 ? updated : undefined });
+  };
+
+  return (
+    <div className={`story-details-editor grid md:grid-cols-2 gap-3 ${className}`}>
+      <div className="md:col-span-2">
+        <label htmlFor="story-title" className={labelClass}>Title</label>
+        <input
+          id="story-title"
+          className={inputClass}
+          value={metadata.title}
+          onChange={(event) => updateMetadata({ title: event.target.value })}
+        />
+      </div>
+      <div className="md:col-span-2">
+        <label htmlFor="story-description" className={labelClass}>Description</label>
+        <textarea
+          id="story-description"
+          className={inputClass}
+          rows={2}
+          value={metadata.description}
+          onChange={(event) => updateMetadata({ description: event.target.value })}
+        />
+      </div>
+      <div>
+        <label htmlFor="story-character" className={labelClass}>Character</label>
+        <select
+          id="story-character"
+          className={inputClass}
+          value={story.characterId}
+          onChange={(event) => onChange({ ...story, characterId: event.target.value as StoryContent['characterId'] })}
+        >
+          {CHARACTERS.map(character => (
+            <option key={character} value={character}>{formatOption(character)}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label htmlFor="story-attachment" className={labelClass}>Attachment</label>
+        <select
+          id="story-attachment"
+          className={inputClass}
+          value={story.attachmentId}
+          onChange={(event) => onChange({ ...story, attachmentId: event.target.value })}
+        >
+          {ATTACHMENT_TYPES.map(attachment => (
+            <option key={attachment} value={attachment}>{formatOption(attachment)}</option>
+          ))}
+        </select>
+      </div>
+      <fieldset className="md:col-span-2">
+        <legend className={labelClass}>Can also be narrated by</legend>
+        <div className="flex flex-wrap gap-3">
+          {CHARACTERS.filter(character => character !== story.characterId).map(character => (
+            <label key={character} className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={narrators.includes(character)}
+                onChange={(event) => toggleNarrator(character, event.target.checked)}
+                className="rounded border-gray-300 text-purple-600 focus:ring-purple-500 mr-1"
+              />
+              {formatOption(character)}
+            </label>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mt-1">Write {'{character}'} where the narrator&apos;s name goes.</p>
+      </fieldset>
+      <div>
+        <label htmlFor="story-difficulty" className={labelClass}>Difficulty</label>
+        <select
+          id="story-difficulty"
+          className={inputClass}
+          value={metadata.difficultyLevel}
+          onChange={(event) => updateMetadata({
+            difficultyLevel: event.target.value as StoryMetadata['difficultyLevel'],
+          })}
+        >
+          {DIFFICULTY_LEVELS.map(level => (
+            <option key={level} value={level}>{formatOption(level)}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label htmlFor="story-duration" className={labelClass}>Estimated duration (minutes)</label>
+        <input
+          id="story-duration"
+          type="number"
+          min={0}
+          className={inputClass}
+          value={metadata.estimatedDuration}
+          onChange={(event) => updateMetadata({ estimatedDuration: Number(event.target.value) })}
+        />
+      </div>
+      <div>
+        <label htmlFor="story-age-min" className={labelClass}>Youngest age</label>
+        <input
+          id="story-age-min"
+          type="number"
+          min={0}
+          className={inputClass}
+          value={metadata.ageRange.min}
+          onChange={(event) => updateMetadata({ ageRange: { ...metadata.ageRange, min: Number(event.target.value) } })}
+        />
+      </div>
+      <div>
+        <label htmlFor="story-age-max" className={labelClass}>Oldest age</label>
+        <input
+          id="story-age-max"
+          type="number"
+          min={0}
+          className={inputClass}
+          value={metadata.ageRange.max}
+          onChange={(event) => updateMetadata({ ageRange: { ...metadata.ageRange, max: Number(event.target.value) } })}
+        />
+      </div>
+      <div>
+        <label htmlFor="story-id" className={labelClass}>Story ID</label>
+        <input
+          id="story-id"
+          className={inputClass}
+          value={story.id}
+          readOnly
+        />
+      </div>
+      <div>
+        <label htmlFor="story-version" className={labelClass}>Version</label>
+        <input
+          id="story-version"
+          className={inputClass}
+          value={story.version}
+          onChange={(event) => onChange({ ...story, version: event.target.value })}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default StoryDetailsEditor;
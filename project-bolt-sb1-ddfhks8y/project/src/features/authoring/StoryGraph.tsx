@@ -0,0 +1,168 @@
+/**
+ * Node graph view of a story draft
+ * Lays nodes out in columns by distance from the start node and draws the branches between them
+ */
+
+import React, { useMemo } from 'react';
+import type { StoryContent } from '@/types';
+
+interface StoryGraphProps {
+  story: StoryContent;
+  selectedNodeId: string | null;
+  errorNodeIds: Set<string>;
+  warningNodeIds: Set<string>;
+  onSelectNode: (nodeId: string) => void;
+  className?: string;
+}
+
+interface NodePosition {
+  x: number;
+  y: number;
+}
+
+const NODE_WIDTH = 160;
+const NODE_HEIGHT = 56;
+const COLUMN_GAP = 64;
+const ROW_GAP = 24;
+
+/**
+ * Place each node in the column of its shortest distance from the start node
+ * Nodes the start node can't reach go in a final column so they stay visible.
+ */
+const layoutGraph = (story: StoryContent): Record<string, NodePosition> => {
+  const depths = new Map<string, number>();
+  const queue: string[] = [];
+
+  if (story.nodes[story.startNodeId]) {
+    depths.set(story.startNodeId, 0);
+    queue.push(story.startNodeId);
+  }
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    for (const branch of story.nodes[nodeId].branches) {
+      if (story.nodes[branch.targetSegmentId] && !depths.has(branch.targetSegmentId)) {
+        depths.set(branch.targetSegmentId, depths.get(nodeId)! + 1);
+        queue.push(branch.targetSegmentId);
+      }
+    }
+  }
+
+  const unreachableColumn = depths.size > 0 ? Math.max(...depths.values()) + 1 : 0;
+  const columns: string[][] = [];
+  for (const nodeId of Object.keys(story.nodes)) {
+    const column = depths.get(nodeId) ?? unreachableColumn;
+    (columns[column] ??= []).push(nodeId);
+  }
+
+  const positions: Record<string, NodePosition> = {};
+  columns.forEach((nodeIds, column) => {
+    nodeIds.forEach((nodeId, row) => {
+      positions[nodeId] = {
+        x: column * (NODE_WIDTH + COLUMN_GAP),
+        y: row * (NODE_HEIGHT + ROW_GAP),
+      };
+    });
+  });
+
+  return positions;
+};
+
+const StoryGraph: React.FC<StoryGraphProps> = ({
+  story,
+  selectedNodeId,
+  errorNodeIds,
+  warningNodeIds,
+  onSelectNode,
+  className = '',
+}) => {
+  const positions = useMemo(() => layoutGraph(story), [story]);
+
+  const coordinates = Object.values(positions);
+  const width = Math.max(0, ...coordinates.map(position => position.x)) + NODE_WIDTH;
+  const height = Math.max(0, ...coordinates.map(position => position.y)) + NODE_HEIGHT;
+
+  const edges = Object.values(story.nodes).flatMap(node =>
+    node.branches
+      .filter(branch => positions[branch.targetSegmentId])
+      .map((branch, index) => ({
+        key: `${node.id}-${index}-${branch.targetSegmentId}`,
+        from: positions[node.id],
+        to: positions[branch.targetSegmentId],
+        label: branch.condition,
+      }))
+  );
+
+  return (
+    <div className={`story-graph overflow-auto bg-gray-50 rounded-xl p-4 ${className}`}>
+      <div className="relative" style={{ width, height }}>
+        <svg className="absolute inset-0" width={width} height={height} aria-hidden="true">
+          <defs>
+            <marker id="story-graph-arrow" markerWidth="8" markerHeight="8" refX="8" refY="4" orient="auto">
+              <path d="M0,0 L8,4 L0,8 z" fill="#9ca3af" />
+            </marker>
+          </defs>
+          {edges.map(edge => {
+            const startX = edge.from.x + NODE_WIDTH;
+            const startY = edge.from.y + NODE_HEIGHT / 2;
+            const endX = edge.to.x;
+            const endY = edge.to.y + NODE_HEIGHT / 2;
+
+            // Branches that loop back or stay in the column curve around the nodes
+            const isBackward = endX <= edge.from.x;
+            const bend = isBackward ? COLUMN_GAP * 1.5 : (endX - startX) / 2;
+            const path = isBackward
+              ? `M${startX},${startY} C${startX + bend},${startY - NODE_HEIGHT} ${endX - bend},${endY - NODE_HEIGHT} ${endX},${endY}`
+              : `M${startX},${startY} C${startX + bend},${startY} ${endX - bend},${endY} ${endX},${endY}`;
+
+            return (
+              <path
+                key={edge.key}
+                d={path}
+                fill="none"
+                stroke="#9ca3af"
+                strokeWidth={2}
+                markerEnd="url(#story-graph-arrow)"
+              >
+                <title>{edge.label}</title>
+              </path>
+            );
+          })}
+        </svg>
+
+        {Object.values(story.nodes).map(node => {
+          const position = positions[node.id];
+          const isSelected = node.id === selectedNodeId;
+          const borderClass = errorNodeIds.has(node.id)
+            ? 'border-red-400'
+            : warningNodeIds.has(node.id)
+              ? 'border-amber-400'
+              : isSelected
+                ? 'border-purple-500'
+                : 'border-gray-200';
+
+          return (
+            <button
+              key={node.id}
+              type="button"
+              onClick={() => onSelectNode(node.id)}
+              className={`absolute text-left px-3 py-2 bg-white rounded-xl border-2 shadow-soft focus-ring transition-colors ${borderClass} ${isSelected ? 'ring-2 ring-purple-300' : ''}`}
+              style={{ left: position.x, top: position.y, width: NODE_WIDTH, height: NODE_HEIGHT }}
+              aria-pressed={isSelected}
+            >
+              <span className="block text-sm font-bold text-gray-900 truncate">
+                {node.id === story.startNodeId ? '▶ ' : ''}{node.id}
+                {node.isEndNode ? ' ■' : ''}
+              </span>
+              <span className="block text-xs text-gray-600 truncate">
+                {node.content.text || 'No text yet'}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default StoryGraph;
@@ -0,0 +1,95 @@
+/**
+ * Live validation results for a story draft
+ * Lists graph errors and warnings; clicking one selects the node it is about
+ */
+
+import React from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle, Shield } from 'lucide-react';
+import type { ContentSafetyCheck, StoryValidationIssue, StoryValidationReport } from '@/types';
+
+interface ValidationPanelProps {
+  report: StoryValidationReport;
+  safetyCheck?: ContentSafetyCheck; // Automated first pass, shown so authors can fix flags before review
+  onSelectNode: (nodeId: string) => void;
+  className?: string;
+}
+
+const formatSeconds = (seconds: number | null): string => {
+  if (seconds === null) {
+    return '—';
+  }
+  return seconds >= 60 ? `${Math.round(seconds / 60)} min` : `${Math.round(seconds)}s`;
+};
+
+const ValidationPanel: React.FC<ValidationPanelProps> = ({ report, safetyCheck, onSelectNode, className = '' }) => {
+  const renderIssue = (issue: StoryValidationIssue, index: number) => {
+    const Icon = issue.severity === 'error' ? AlertCircle : AlertTriangle;
+    const colorClass = issue.severity === 'error' ? 'text-red-700' : 'text-amber-700';
+
+    return (
+      <li key={`${issue.code}-${issue.nodeId ?? ''}-${index}`}>
+        <button
+          type="button"
+          className={`w-full flex items-start text-left text-sm p-2 rounded-lg hover:bg-gray-50 focus-ring ${colorClass}`}
+          onClick={() => issue.nodeId && onSelectNode(issue.nodeId)}
+          disabled={!issue.nodeId}
+        >
+          <Icon className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{issue.message}</span>
+        </button>
+      </li>
+    );
+  };
+
+  return (
+    <div className={`validation-panel ${className}`} aria-live="polite">
+      <div className="flex items-center mb-3">
+        {report.isValid ? (
+          <CheckCircle className="h-5 w-5 text-green-600 mr-2" />
+        ) : (
+          <AlertCircle className="h-5 w-5 text-red-600 mr-2" />
+        )}
+        <h4 className="font-bold text-gray-900">
+          {report.isValid ? 'Ready to publish' : `${report.errors.length} problem${report.errors.length === 1 ? '' : 's'} to fix`}
+        </h4>
+      </div>
+
+      <p className="text-xs text-gray-600 mb-3">
+        {report.stats.reachableNodes} of {report.stats.totalNodes} nodes reachable ·
+        {' '}{report.stats.endNodes} ending{report.stats.endNodes === 1 ? '' : 's'} ·
+        {' '}shortest path {formatSeconds(report.stats.shortestPathSeconds)} ·
+        {' '}longest {formatSeconds(report.stats.longestPathSeconds)}
+      </p>
+
+      {(report.errors.length > 0 || report.warnings.length > 0) && (
+        <ul className="space-y-1 max-h-64 overflow-auto">
+          {report.errors.map(renderIssue)}
+          {report.warnings.map(renderIssue)}
+        </ul>
+      )}
+
+      {safetyCheck && (
+        <div className="mt-4 pt-4 border-t border-gray-100">
+          <div className="flex items-center mb-2">
+            <Shield className={`h-5 w-5 mr-2 ${safetyCheck.safetyRating === 'safe' ? 'text-green-600' : 'text-amber-600'}`} />
+            <h4 className="font-bold text-gray-900">
+              {safetyCheck.safetyRating === 'safe' ? 'No content safety flags' : 'Needs a content review'}
+            </h4>
+          </div>
+          {safetyCheck.sensoryConsiderations.length > 0 && (
+            <ul className="space-y-1 text-sm text-amber-700 max-h-48 overflow-auto">
+              {safetyCheck.sensoryConsiderations.map(consideration => (
+                <li key={consideration} className="flex items-start p-2">
+                  <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                  <span>{consideration}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ValidationPanel;
@@ -0,0 +1,46 @@
+/**
+ * Choices offered by the authoring tool's select fields
+ */
+
+import type {
+  AttachmentType,
+  EmotionType,
+  MunchieCharacter,
+  SensoryStrategy,
+  StoryMetadata,
+  VisualCue,
+  VoicePrompt,
+} from '@/types';
+
+export const CHARACTERS: MunchieCharacter[] = [
+  'silo', 'blip', 'pip', 'tally', 'tumble', 'echo', 'sway', 'ponder',
+];
+
+export const ATTACHMENT_TYPES: AttachmentType[] = [
+  'fidget_feet', 'weighted_arms', 'bouncy_braids', 'squeeze_belly',
+  'texture_hands', 'sound_ears', 'light_eyes', 'scent_nose',
+];
+
+export const SENSORY_STRATEGIES: SensoryStrategy[] = [
+  'proprioceptive_input', 'deep_pressure', 'tactile_exploration', 'vestibular_movement',
+  'auditory_processing', 'visual_organization', 'olfactory_grounding', 'interoceptive_awareness',
+];
+
+export const EMOTIONS: EmotionType[] = [
+  'calm', 'excited', 'curious', 'gentle', 'encouraging', 'understanding', 'playful', 'reassuring',
+];
+
+export const DIFFICULTY_LEVELS: StoryMetadata['difficultyLevel'][] = ['beginner', 'intermediate', 'advanced'];
+
+export const VISUAL_CUE_TYPES: VisualCue['type'][] = ['highlight', 'glow', 'pulse', 'bounce', 'animation'];
+
+export const VISUAL_CUE_INTENSITIES: VisualCue['intensity'][] = ['subtle', 'moderate', 'strong'];
+
+export const FALLBACK_ACTIONS: VoicePrompt['fallbackAction'][] = ['continue', 'repeat', 'skip'];
+
+/**
+ * Turn an option value such as 'fidget_feet' into a readable label
+ */
+export const formatOption = (value: string): string => {
+  return value.replace(/_/g, ' ').replace(/^\w/, letter => letter.toUpperCase());
+};
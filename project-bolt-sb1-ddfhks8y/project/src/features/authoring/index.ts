@@ -0,0 +1,30 @@
+/**
+ * Central export point for story authoring features
+ */
+
+// Export components
+export { default as AuthorTool } from './AuthorTool';
+export { default as StoryGraph } from './StoryGraph';
+export { default as NodeEditor } from './NodeEditor';
+export { default as StoryDetailsEditor } from './StoryDetailsEditor';
+export { default as ValidationPanel } from './ValidationPanel';
+
+// Export draft helpers
+export {
+  createEmptyStory,
+  addNode,
+  removeNode,
+  renameNode,
+  updateNode,
+  updateSegment,
+  addBranch,
+  updateBranch,
+  removeBranch,
+  exportStoryJson,
+  downloadStoryJson,
+} from './storyDraft';
+export { generateStoryFromTemplate } from './storyGenerator';
+export { STORY_TEMPLATES, getStoryTemplate } from './storyTemplates';
+
+// Export types
+export type { GeneratedStory } from './storyGenerator';
@@ -0,0 +1,290 @@
+/**
+ * Story draft editing for the authoring tool
+ * Immutable helpers for changing a story's node graph, plus JSON export
+ * in the same format as the published files in public/stories/
+ */
+
+import type {
+  AttachmentType,
+  MunchieCharacter,
+  StoryBranch,
+  StoryContent,
+  StoryNode,
+  VisualCue,
+  VoicePrompt,
+} from '@/types';
+
+/**
+ * Create a new node ID that is not used in the story yet
+ */
+export const createNodeId = (story: StoryContent, base = 'node'): string => {
+  let index = Object.keys(story.nodes).length + 1;
+  while (story.nodes[`${base}-${index}`]) {
+    index++;
+  }
+  return `${base}-${index}`;
+};
+
+/**
+ * Create a blank node for the story's attachment
+ */
+export const createNode = (id: string, attachmentType: AttachmentType): StoryNode => ({
+  id,
+  attachmentType,
+  content: {
+    id: `${id}-segment`,
+    text: '',
+    voiceEmotion: 'calm',
+    visualCues: [],
+    duration: 10,
+    pauseAfter: 2,
+  },
+  branches: [],
+  sensoryStrategy: 'proprioceptive_input',
+  isEndNode: false,
+});
+
+/**
+ * Create a story with a single start node to build on
+ */
+export const createEmptyStory = (
+  characterId: MunchieCharacter,
+  attachmentType: AttachmentType
+): StoryContent => {
+  const now = Date.now();
+  const startNode = { ...createNode('intro', attachmentType), isEndNode: true };
+
+  return {
+    id: `${characterId}-${attachmentType.replace(/_/g, '-')}-${now.toString(36)}`,
+    attachmentId: attachmentType,
+    characterId,
+    metadata: {
+      title: 'Untitled Story',
+      description: '',
+      estimatedDuration: 1,
+      difficultyLevel: 'beginner',
+      sensoryFocus: [],
+      therapeuticGoals: [],
+      ageRange: {
+        min: 4,
+        max: 12,
+      },
+    },
+    startNodeId: startNode.id,
+    nodes: {
+      [startNode.id]: startNode,
+    },
+    version: '0.1.0',
+    lastModified: now,
+    createdAt: now,
+  };
+};
+
+/**
+ * Add a node, optionally branching to it from an existing node
+ */
+export const addNode = (story: StoryContent, fromNodeId?: string): { story: StoryContent; nodeId: string } => {
+  const nodeId = createNodeId(story);
+  const node = createNode(nodeId, story.nodes[fromNodeId ?? '']?.attachmentType ?? story.attachmentId as AttachmentType);
+  const nodes = { ...story.nodes, [nodeId]: node };
+
+  const updated = { ...story, nodes };
+  return {
+    story: fromNodeId && nodes[fromNodeId]
+      ? addBranch(updated, fromNodeId, { condition: 'continue', targetSegmentId: nodeId, weight: 1 })
+      : updated,
+    nodeId,
+  };
+};
+
+/**
+ * Remove a node and every branch leading to it
+ * The start node moves to the first remaining node if it was removed.
+ */
+export const removeNode = (story: StoryContent, nodeId: string): StoryContent => {
+  if (!story.nodes[nodeId]) {
+    return story;
+  }
+
+  const nodes: Record<string, StoryNode> = {};
+  for (const [id, node] of Object.entries(story.nodes)) {
+    if (id === nodeId) {
+      continue;
+    }
+    nodes[id] = node.branches.some(branch => branch.targetSegmentId === nodeId)
+      ? { ...node, branches: node.branches.filter(branch => branch.targetSegmentId !== nodeId) }
+      : node;
+  }
+
+  return {
+    ...story,
+    nodes,
+    startNodeId: story.startNodeId === nodeId ? Object.keys(nodes)[0] ?? '' : story.startNodeId,
+  };
+};
+
+/**
+ * Rename a node, updating branches and the start node that point at it
+ */
+export const renameNode = (story: StoryContent, nodeId: string, newId: string): StoryContent => {
+  const node = story.nodes[nodeId];
+  if (!node || !newId || newId === nodeId || story.nodes[newId]) {
+    return story;
+  }
+
+  const nodes: Record<string, StoryNode> = {};
+  for (const [id, current] of Object.entries(story.nodes)) {
+    const renamed = id === nodeId ? { ...current, id: newId } : current;
+    nodes[renamed.id] = {
+      ...renamed,
+      branches: renamed.branches.map(branch =>
+        branch.targetSegmentId === nodeId ? { ...branch, targetSegmentId: newId } : branch
+      ),
+    };
+  }
+
+  return {
+    ...story,
+    nodes,
+    startNodeId: story.startNodeId === nodeId ? newId : story.startNodeId,
+  };
+};
+
+/**
+ * Apply changes to a node
+ */
+export const updateNode = (story: StoryContent, nodeId: string, changes: Partial<StoryNode>): StoryContent => {
+  const node = story.nodes[nodeId];
+  if (!node) {
+    return story;
+  }
+
+  return {
+    ...story,
+    nodes: {
+      ...story.nodes,
+      [nodeId]: { ...node, ...changes, id: nodeId },
+    },
+  };
+};
+
+/**
+ * Apply changes to a node's segment
+ */
+export const updateSegment = (
+  story: StoryContent,
+  nodeId: string,
+  changes: Partial<StoryNode['content']>
+): StoryContent => {
+  const node = story.nodes[nodeId];
+  if (!node) {
+    return story;
+  }
+
+  return updateNode(story, nodeId, { content: { ...node.content, ...changes } });
+};
+
+/**
+ * Add a branch from one node to another
+ */
+export const addBranch = (story: StoryContent, nodeId: string, branch: StoryBranch): StoryContent => {
+  const node = story.nodes[nodeId];
+  if (!node) {
+    return story;
+  }
+
+  // A node that leads somewhere is no longer an ending
+  return updateNode(story, nodeId, { branches: [...node.branches, branch], isEndNode: false });
+};
+
+/**
+ * Change one of a node's branches
+ */
+export const updateBranch = (
+  story: StoryContent,
+  nodeId: string,
+  index: number,
+  changes: Partial<StoryBranch>
+): StoryContent => {
+  const node = story.nodes[nodeId];
+  if (!node || !node.branches[index]) {
+    return story;
+  }
+
+  return updateNode(story, nodeId, {
+    branches: node.branches.map((branch, i) => (i === index ? { ...branch, ...changes } : branch)),
+  });
+};
+
+/**
+ * Remove one of a node's branches
+ */
+export const removeBranch = (story: StoryContent, nodeId: string, index: number): StoryContent => {
+  const node = story.nodes[nodeId];
+  if (!node) {
+    return story;
+  }
+
+  return updateNode(story, nodeId, { branches: node.branches.filter((_, i) => i !== index) });
+};
+
+/**
+ * Defaults for a new visual cue, pointing at the narrating character
+ */
+export const createVisualCue = (story: StoryContent): VisualCue => ({
+  type: 'highlight',
+  target: `#character-${story.characterId}`,
+  duration: 2000,
+  intensity: 'subtle',
+});
+
+/**
+ * Defaults for a new voice prompt
+ */
+export const createVoicePrompt = (): VoicePrompt => ({
+  text: '',
+  expectedResponses: [],
+  timeout: 10000,
+  fallbackAction: 'continue',
+  encouragement: '',
+});
+
+/**
+ * Serialize a story the way the published story files are written
+ */
+export const exportStoryJson = (story: StoryContent): string => {
+  return JSON.stringify(story, null, 2);
+};
+
+/**
+ * Download a story as a JSON file ready to drop into public/stories/
+ */
+export const downloadStoryJson = (story: StoryContent): void => {
+  const blob = new Blob([exportStoryJson(story)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${story.id}.json`;
+  link.click();
+
+  URL.revokeObjectURL(url);
+};
+
+export default {
+  createNodeId,
+  createNode,
+  createEmptyStory,
+  addNode,
+  removeNode,
+  renameNode,
+  updateNode,
+  updateSegment,
+  addBranch,
+  updateBranch,
+  removeBranch,
+  createVisualCue,
+  createVoicePrompt,
+  exportStoryJson,
+  downloadStoryJson,
+};
@@ -0,0 +1,213 @@
+/**
+ * Story generator for the authoring tool
+ * Turns a StoryTemplate into a StoryContent skeleton for any character and attachment,
+ * with IDs, branches, sensory strategies and character-appropriate emotions filled in
+ */
+
+import type {
+  AttachmentType,
+  EmotionType,
+  MunchieCharacter,
+  SensoryStrategy,
+  StoryBranch,
+  StoryContent,
+  StoryNode,
+  StoryTemplate,
+  StoryValidationReport,
+  VisualCue,
+} from '@/types';
+import { getCharacterVoiceModel } from '@/services/elevenlabs/voiceModels';
+import { validateStoryGraph } from '@/features/storytelling/storyValidator';
+
+export interface GeneratedStory {
+  story: StoryContent;
+  report: StoryValidationReport;
+}
+
+// The sensory need each attachment is designed around
+const ATTACHMENT_STRATEGIES: Record<AttachmentType, SensoryStrategy> = {
+  fidget_feet: 'proprioceptive_input',
+  weighted_arms: 'deep_pressure',
+  bouncy_braids: 'vestibular_movement',
+  squeeze_belly: 'interoceptive_awareness',
+  texture_hands: 'tactile_exploration',
+  sound_ears: 'auditory_processing',
+  light_eyes: 'visual_organization',
+  scent_nose: 'olfactory_grounding',
+};
+
+// Emotions that suit each part of a story, best first
+const OPENING_EMOTIONS: EmotionType[] = ['excited', 'curious', 'playful', 'calm'];
+const PROMPT_EMOTIONS: EmotionType[] = ['curious', 'encouraging', 'playful', 'gentle'];
+const CLOSING_EMOTIONS: EmotionType[] = ['encouraging', 'reassuring', 'understanding', 'gentle'];
+
+// Starter text when a template node has none
+const DEFAULT_TEXT = '{name} tells the next part of the story here.';
+
+/**
+ * Pick the first preferred emotion the character can express, falling back to
+ * cycling through the character's range so neighbouring nodes vary
+ */
+const pickEmotion = (range: EmotionType[], preferred: EmotionType[], position: number): EmotionType => {
+  const match = preferred.find(emotion => range.includes(emotion));
+  if (match) {
+    return match;
+  }
+  return range[position % range.length] ?? 'calm';
+};
+
+/**
+ * Turn an attachment type such as 'fidget_feet' into 'fidget feet'
+ */
+const formatAttachment = (attachmentType: AttachmentType): string => attachmentType.replace(/_/g, ' ');
+
+/**
+ * Fill the {name} and {attachment} tokens used by template text
+ */
+const fillTokens = (text: string, name: string, attachmentType: AttachmentType): string => {
+  return text
+    .replace(/\{name\}/g, name)
+    .replace(/\{attachment\}/g, formatAttachment(attachmentType));
+};
+
+/**
+ * Give every template node a unique ID, keeping the template's own IDs where possible
+ */
+const assignNodeIds = (template: StoryTemplate): string[] => {
+  const used = new Set<string>();
+  return template.nodeTemplates.map((nodeTemplate, index) => {
+    let nodeId = nodeTemplate.id || `step-${index + 1}`;
+    let suffix = 2;
+    while (used.has(nodeId)) {
+      nodeId = `${nodeTemplate.id || `step-${index + 1}`}-${suffix++}`;
+    }
+    used.add(nodeId);
+    return nodeId;
+  });
+};
+
+/**
+ * Generate a story skeleton from a template and run it through the story validator
+ * Template nodes without branches lead on to the next node; nodes with voice prompts
+ * also get a timeout branch so a quiet child is never stuck.
+ */
+export const generateStoryFromTemplate = (
+  template: StoryTemplate,
+  characterId: MunchieCharacter,
+  attachmentType: AttachmentType
+): GeneratedStory => {
+  const voiceModel = getCharacterVoiceModel(characterId);
+  const emotionalRange = voiceModel.personality.emotionalRange;
+  const nodeIds = assignNodeIds(template);
+  const templateIds = template.nodeTemplates.map((nodeTemplate, index) => nodeTemplate.id || nodeIds[index]);
+
+  // The template's strategy only fits when it is used with the attachment it was written for
+  const defaultStrategy = template.attachmentType === attachmentType
+    ? template.sensoryStrategy
+    : ATTACHMENT_STRATEGIES[attachmentType];
+
+  const nodes: Record<string, StoryNode> = {};
+  template.nodeTemplates.forEach((nodeTemplate, index) => {
+    const nodeId = nodeIds[index];
+    const nextNodeId = nodeIds[index + 1];
+    const isLast = index === nodeIds.length - 1;
+    const templateContent = nodeTemplate.content;
+    const voicePrompts = templateContent?.voicePrompts?.map(prompt => ({
+      ...prompt,
+      text: fillTokens(prompt.text, voiceModel.name, attachmentType),
+      expectedResponses: prompt.expectedResponses
+        .map(response => fillTokens(response, voiceModel.name, attachmentType).toLowerCase()),
+      encouragement: fillTokens(prompt.encouragement, voiceModel.name, attachmentType),
+    }));
+
+    // Template branches point at template node IDs; map them to the generated ones
+    let branches: StoryBranch[] = (nodeTemplate.branches || [])
+      .map(branch => ({
+        ...branch,
+        targetSegmentId: nodeIds[templateIds.indexOf(branch.targetSegmentId)] ?? branch.targetSegmentId,
+      }));
+    const isEndNode = nodeTemplate.isEndNode ?? (isLast && branches.length === 0);
+    if (branches.length === 0 && !isEndNode && nextNodeId) {
+      branches = voicePrompts?.length
+        ? [
+          { condition: 'voice_response', targetSegmentId: nextNodeId, weight: 1 },
+          { condition: 'timeout', targetSegmentId: nextNodeId, weight: 1 },
+        ]
+        : [{ condition: 'continue', targetSegmentId: nextNodeId, weight: 1 }];
+    }
+
+    // Keep the template's emotion when it suits the character, otherwise use one from their range
+    const roleEmotions = index === 0
+      ? OPENING_EMOTIONS
+      : isEndNode
+        ? CLOSING_EMOTIONS
+        : voicePrompts?.length
+          ? PROMPT_EMOTIONS
+          : [];
+    const templateEmotion = templateContent?.voiceEmotion;
+    const voiceEmotion = templateEmotion && emotionalRange.includes(templateEmotion)
+      ? templateEmotion
+      : pickEmotion(emotionalRange, roleEmotions, index);
+
+    const visualCues: VisualCue[] = (templateContent?.visualCues || []).map(cue => ({
+      ...cue,
+      target: cue.target || `#character-${characterId}`,
+    }));
+
+    nodes[nodeId] = {
+      ...nodeTemplate,
+      id: nodeId,
+      attachmentType,
+      content: {
+        duration: 15,
+        pauseAfter: 2,
+        ...templateContent,
+        id: `${nodeId}-segment`,
+        text: fillTokens(templateContent?.text || DEFAULT_TEXT, voiceModel.name, attachmentType),
+        voiceEmotion,
+        visualCues,
+        voicePrompts,
+      },
+      branches,
+      sensoryStrategy: nodeTemplate.sensoryStrategy ?? defaultStrategy,
+      isEndNode,
+    };
+  });
+
+  const now = Date.now();
+  const story: StoryContent = {
+    id: `${characterId}-${attachmentType.replace(/_/g, '-')}-${template.id}-${now.toString(36)}`,
+    attachmentId: attachmentType,
+    characterId,
+    metadata: {
+      title: `${voiceModel.name}'s ${template.name}`,
+      description: template.description,
+      estimatedDuration: 1,
+      difficultyLevel: template.difficultyLevel,
+      sensoryFocus: [...new Set(Object.values(nodes).map(node => node.sensoryStrategy))],
+      therapeuticGoals: [],
+      ageRange: {
+        min: 4,
+        max: 12,
+      },
+    },
+    startNodeId: nodeIds[0] ?? '',
+    nodes,
+    version: '0.1.0',
+    lastModified: now,
+    createdAt: now,
+  };
+
+  // Size the estimate to the generated timings so it starts out consistent
+  const { stats } = validateStoryGraph(story);
+  story.metadata.estimatedDuration = Math.max(1, Math.round((stats.longestPathSeconds ?? 0) / 60));
+
+  return {
+    story,
+    report: validateStoryGraph(story),
+  };
+};
+
+export default {
+  generateStoryFromTemplate,
+};
@@ -0,0 +1,180 @@
+/**
+ * Built-in story templates for the authoring tool
+ * Text may use {name} for the character's name and {attachment} for the attachment,
+ * filled in when a story is generated
+ */
+
+import type { StoryTemplate } from '@/types';
+
+export const STORY_TEMPLATES: StoryTemplate[] = [
+  {
+    id: 'discovery',
+    name: 'Attachment Discovery',
+    description: 'The character finds their attachment, tries it out and shares how it helps',
+    characterId: 'silo',
+    attachmentType: 'fidget_feet',
+    sensoryStrategy: 'proprioceptive_input',
+    estimatedCreationTime: 20,
+    difficultyLevel: 'beginner',
+    nodeTemplates: [
+      {
+        id: 'intro',
+        content: {
+          id: 'intro-segment',
+          text: "Hi there! I'm {name}, and today I found something special: my {attachment}!",
+          voiceEmotion: 'excited',
+          visualCues: [
+            { type: 'bounce', target: '', duration: 2000, intensity: 'moderate' },
+          ],
+          voicePrompts: [
+            {
+              text: "Say 'hi {name}' to come exploring with me!",
+              expectedResponses: ['hi', 'hello', 'hi {name}'],
+              timeout: 10000,
+              fallbackAction: 'continue',
+              encouragement: "That's okay, let's explore together!",
+            },
+          ],
+          duration: 12,
+          pauseAfter: 2,
+        },
+      },
+      {
+        id: 'explore',
+        content: {
+          id: 'explore-segment',
+          text: 'I wonder what my {attachment} can do. Let me take a closer look.',
+          voiceEmotion: 'curious',
+          visualCues: [],
+          duration: 15,
+          pauseAfter: 2,
+        },
+      },
+      {
+        id: 'try-it',
+        content: {
+          id: 'try-it-segment',
+          text: "Let's try it together. Can you copy me?",
+          voiceEmotion: 'calm',
+          visualCues: [
+            { type: 'glow', target: '', duration: 3000, intensity: 'subtle' },
+          ],
+          voicePrompts: [
+            {
+              text: "Tell me when you're ready!",
+              expectedResponses: ['ready', 'yes', 'done'],
+              timeout: 12000,
+              fallbackAction: 'continue',
+              encouragement: 'Take all the time you need.',
+            },
+          ],
+          duration: 20,
+          pauseAfter: 3,
+        },
+      },
+      {
+        id: 'reflect',
+        content: {
+          id: 'reflect-segment',
+          text: 'How does your body feel now? Mine feels a little calmer.',
+          voiceEmotion: 'gentle',
+          visualCues: [],
+          duration: 15,
+          pauseAfter: 3,
+        },
+      },
+      {
+        id: 'ending',
+        isEndNode: true,
+        content: {
+          id: 'ending-segment',
+          text: 'Thanks for exploring with me! My {attachment} is always here when I need it.',
+          voiceEmotion: 'encouraging',
+          visualCues: [],
+          duration: 12,
+          pauseAfter: 2,
+        },
+      },
+    ],
+  },
+  {
+    id: 'calm-down',
+    name: 'Calm-Down Break',
+    description: 'A short regulation routine the character leads when feelings get big',
+    characterId: 'sway',
+    attachmentType: 'squeeze_belly',
+    sensoryStrategy: 'interoceptive_awareness',
+    estimatedCreationTime: 10,
+    difficultyLevel: 'beginner',
+    nodeTemplates: [
+      {
+        id: 'notice',
+        content: {
+          id: 'notice-segment',
+          text: "Sometimes my feelings get really big. When that happens, I use my {attachment}.",
+          voiceEmotion: 'understanding',
+          visualCues: [],
+          duration: 12,
+          pauseAfter: 2,
+        },
+      },
+      {
+        id: 'breathe',
+        content: {
+          id: 'breathe-segment',
+          text: "Let's breathe in slowly... and out slowly. One more time.",
+          voiceEmotion: 'calm',
+          visualCues: [
+            { type: 'pulse', target: '', duration: 4000, intensity: 'subtle' },
+          ],
+          duration: 20,
+          pauseAfter: 4,
+        },
+      },
+      {
+        id: 'check-in',
+        content: {
+          id: 'check-in-segment',
+          text: 'How are you feeling now?',
+          voiceEmotion: 'gentle',
+          visualCues: [],
+          voicePrompts: [
+            {
+              text: "You can say 'better' or 'still big'.",
+              expectedResponses: ['better', 'still big', 'good', 'okay'],
+              timeout: 12000,
+              fallbackAction: 'continue',
+              encouragement: "That's okay. Feelings take time.",
+            },
+          ],
+          duration: 10,
+          pauseAfter: 2,
+        },
+      },
+      {
+        id: 'ending',
+        isEndNode: true,
+        content: {
+          id: 'ending-segment',
+          text: 'You did a great job looking after your feelings today.',
+          voiceEmotion: 'reassuring',
+          visualCues: [],
+          duration: 10,
+          pauseAfter: 2,
+        },
+      },
+    ],
+  },
+];
+
+/**
+ * Find a built-in template by ID
+ */
+export const getStoryTemplate = (templateId: string): StoryTemplate | null => {
+  return STORY_TEMPLATES.find(template => template.id === templateId) ?? null;
+};
+
+export default {
+  STORY_TEMPLATES,
+  getStoryTemplate,
+};
@@ -7,6 +7,8 @@ import React, { useRef, useEffect, useState } from 'react';
 import { Camera, SwitchCamera, Flashlight, FlashlightOff } from 'lucide-react';
 import { useScannerStore } from '@/stores';
 import { Button } from '@/components';
+import { useMessages } from '@/i18n';
+import { createQRDecoder, createVideoFrameSource } from './qrDecoder';
 
 const CameraView: React.FC = () => {
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -22,6 +24,7 @@ const CameraView: React.FC = () => {
     switchCamera,
     processScanResult,
   } = useScannerStore();
+  const { t } = useMessages();
 
   // Set up video stream
   useEffect(() => {
@@ -30,60 +33,25 @@ const CameraView: React.FC = () => {
     }
   }, [cameraStream]);
 
-  // Mock QR detection (in real implementation, would use qr-scanner library)
+  // Decode QR codes from the live camera frames
   useEffect(() => {
-    if (!cameraStream || !videoRef.current) return;
-
-    const detectQRCode = () => {
-      if (isDetecting) return;
-
-      // Simulate QR detection delay
-      const detectionInterval = setInterval(() => {
-        // Mock detection of a valid QR code after 3-5 seconds
-        const shouldDetect = Math.random() > 0.7; // 30% chance per interval
-        
-        if (shouldDetect) {
-          setIsDetecting(true);
-          clearInterval(detectionInterval);
-          
-          // Simulate successful scan
-          const mockQRData = {
-            data: 'CMFF123456A01', // Mock Curmunchkin code
-            format: 'QR_CODE' as const,
-            quality: {
-              confidence: 0.95,
-              readability: 0.9,
-              contrast: 0.8,
-              sharpness: 0.85,
-            },
-            geometry: {
-              boundingBox: { x: 100, y: 100, width: 200, height: 200 },
-              cornerPoints: {
-                topLeft: { x: 100, y: 100 },
-                topRight: { x: 300, y: 100 },
-                bottomLeft: { x: 100, y: 300 },
-                bottomRight: { x: 300, y: 300 },
-              },
-            },
-            context: {
-              timestamp: Date.now(),
-              cameraDevice: selectedCamera || 'default',
-              scanDuration: 2000,
-              attemptNumber: 1,
-              lightingConditions: 'good' as const,
-            },
-          };
-
-          processScanResult(mockQRData);
-        }
-      }, 1000);
-
-      return () => clearInterval(detectionInterval);
-    };
-
-    const cleanup = detectQRCode();
-    return cleanup;
-  }, [cameraStream, selectedCamera, processScanResult, isDetecting]);
+    const video = videoRef.current;
+    if (!cameraStream || !video || isDetecting) return;
+
+    const decoder = createQRDecoder(createVideoFrameSource(video, selectedCamera || 'default'), {
+      config: config.qrScanner,
+      minConfidence: config.processing.confidenceThreshold,
+      acceptAfterRepeats: config.processing.retryAttempts,
+      onDecode: (qrData) => {
+        decoder.stop();
+        setIsDetecting(true);
+        processScanResult(qrData);
+      },
+    });
+
+    decoder.start();
+    return () => decoder.stop();
+  }, [cameraStream, selectedCamera, config.qrScanner, config.processing, processScanResult, isDetecting]);
 
   const handleTorchToggle = () => {
     // In real implementation, would control camera torch
@@ -135,7 +103,7 @@ const CameraView: React.FC = () => {
             icon={torchEnabled ? FlashlightOff : Flashlight}
             onClick={handleTorchToggle}
             className="bg-black bg-opacity-50 text-white hover:bg-opacity-70"
-            aria-label={torchEnabled ? 'Turn off flashlight' : 'Turn on flashlight'}
+            aria-label={torchEnabled ? t('camera.torchOff') : t('camera.torchOn')}
           />
 
           {/* Camera switch */}
@@ -146,7 +114,7 @@ const CameraView: React.FC = () => {
               icon={SwitchCamera}
               onClick={handleCameraSwitch}
               className="bg-black bg-opacity-50 text-white hover:bg-opacity-70"
-              aria-label="Switch camera"
+              aria-label={t('camera.switch')}
             />
           )}
         </div>
@@ -155,7 +123,7 @@ const CameraView: React.FC = () => {
         <div className="absolute top-4 left-4 right-4 text-center">
           <div className="inline-flex items-center px-3 py-1 bg-black bg-opacity-50 text-white text-sm rounded-full">
             <div className="w-2 h-2 bg-green-400 rounded-full mr-2 animate-pulse"></div>
-            {isDetecting ? 'Processing...' : 'Looking for QR code...'}
+            {isDetecting ? t('camera.processing') : t('camera.looking')}
           </div>
         </div>
       </div>
@@ -163,7 +131,7 @@ const CameraView: React.FC = () => {
       {/* Instructions */}
       <div className="text-center mt-4">
         <p className="text-gray-600">
-          Hold your device steady and center the QR code in the frame
+          {t('camera.hint')}
         </p>
       </div>
     </div>
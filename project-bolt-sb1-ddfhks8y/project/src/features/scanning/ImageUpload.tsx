@@ -0,0 +1,141 @@
+/**
+ * Photo upload component for scanning without a live camera
+ * Accepts a photo of the attachment tag through a file picker or drag and drop
+ */
+
+import React, { useState } from 'react';
+import { Upload, ImageIcon } from 'lucide-react';
+import { fileOpen } from 'browser-fs-access';
+import { useScannerStore } from '@/stores';
+import { Button, Card, Loading } from '@/components';
+import { useMessages } from '@/i18n';
+import { createScanError } from './scannerUtils';
+
+const ImageUpload: React.FC = () => {
+  const {
+    state,
+    error,
+    lastUpload,
+    processUploadedImage,
+    setError,
+    clearError,
+  } = useScannerStore();
+  const { t } = useMessages();
+
+  const [isDragging, setIsDragging] = useState(false);
+  const isProcessing = state === 'processing';
+
+  const handleChoosePhoto = async () => {
+    clearError();
+    try {
+      const file = await fileOpen({
+        mimeTypes: ['image/*'],
+        extensions: ['.png', '.jpg', '.jpeg', '.webp', '.gif'],
+        description: t('upload.photos'),
+      });
+      await processUploadedImage(file, 'file_picker');
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        return;
+      }
+      console.error('Photo could not be opened:', error);
+      setError({
+        ...createScanError(
+          'UNKNOWN_ERROR',
+          'Photo could not be opened',
+          { scannerState: 'processing', method: 'file_upload' }
+        ),
+        suggestedActions: [t('upload.tryAnother'), t('upload.useManual')],
+        userFriendlyMessage: t('upload.openFailed'),
+      });
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+
+    const file = Array.from(e.dataTransfer.files).find(dropped => dropped.type.startsWith('image/'));
+    if (file && !isProcessing) {
+      clearError();
+      await processUploadedImage(file, 'drag_drop');
+    }
+  };
+
+  return (
+    <div className="max-w-md mx-auto">
+      <Card variant="default" padding="large">
+        <div className="text-center mb-6">
+          <div className="w-16 h-16 bg-purple-100 rounded-2xl flex items-center justify-center mx-auto mb-4">
+            <Upload className="h-8 w-8 text-purple-600" />
+          </div>
+          <h3 className="text-xl font-bold text-gray-900 mb-2 font-primary">
+            {t('scanner.uploadAPhoto')}
+          </h3>
+          <p className="text-gray-600">
+            {t('upload.subtitle')}
+          </p>
+        </div>
+
+        {/* Drop zone */}
+        <div
+          onDragOver={handleDragOver}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`
+            p-6 mb-4 border-2 border-dashed rounded-xl text-center transition-colors
+            ${isDragging ? 'border-purple-400 bg-purple-50' : 'border-gray-300'}
+          `}
+        >
+          {isProcessing ? (
+            <Loading size="medium" message={t('upload.looking')} />
+          ) : (
+            <>
+              <ImageIcon className="h-10 w-10 text-gray-400 mx-auto mb-2" />
+              <p className="text-sm text-gray-600">{t('upload.drop')}</p>
+            </>
+          )}
+        </div>
+
+        {/* Error message */}
+        {error && !isProcessing && (
+          <div className="p-3 mb-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-800 text-sm">{error.userFriendlyMessage}</p>
+            {error.suggestedActions.length > 0 && (
+              <ul className="text-red-700 text-sm mt-2 space-y-1">
+                {error.suggestedActions.map(action => (
+                  <li key={action}>• {action}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {/* Codes found in the last photo */}
+        {lastUpload && lastUpload.processing.qrCodesDetected > 1 && !isProcessing && (
+          <p className="text-sm text-gray-600 mb-4 text-center">
+            {t('upload.found', { count: lastUpload.processing.qrCodesDetected })}
+          </p>
+        )}
+
+        <Button
+          variant="primary"
+          size="touch"
+          fullWidth
+          icon={ImageIcon}
+          onClick={handleChoosePhoto}
+          disabled={isProcessing}
+        >
+          {t('upload.choose')}
+        </Button>
+      </Card>
+    </div>
+  );
+};
+
+export default ImageUpload;
@@ -7,6 +7,10 @@ import React, { useState } from 'react';
 import { Keyboard, HelpCircle, CheckCircle } from 'lucide-react';
 import { useScannerStore } from '@/stores';
 import { Button, Card } from '@/components';
+import { useMessages } from '@/i18n';
+
+// CMFF123456A01; its signature is looked up once the code is sent
+const CODE_LENGTH = 13;
 
 const ManualEntry: React.FC = () => {
   const {
@@ -16,6 +20,7 @@ const ManualEntry: React.FC = () => {
     error,
     clearError,
   } = useScannerStore();
+  const { t } = useMessages();
 
   const [showHelp, setShowHelp] = useState(false);
 
@@ -23,28 +28,26 @@ const ManualEntry: React.FC = () => {
     clearError();
     // Format code as user types (add hyphens for readability)
     const formatted = value
-      .replace(/[^A-Z0-9]/g, '') // Remove non-alphanumeric
       .toUpperCase()
-      .slice(0, 12); // Limit to 12 characters
+      .replace(/[^A-Z0-9]/g, '') // Remove non-alphanumeric
+      .slice(0, CODE_LENGTH);
     
     setManualCode(formatted);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (manualCode.length >= 10) {
+    if (isValidLength) {
       await submitManualCode();
     }
   };
 
   const formatDisplayCode = (code: string) => {
     // Format as: CMFF-123456-A01
-    if (code.length <= 4) return code;
-    if (code.length <= 10) return `${code.slice(0, 4)}-${code.slice(4)}`;
-    return `${code.slice(0, 4)}-${code.slice(4, 10)}-${code.slice(10)}`;
+    return [code.slice(0, 4), code.slice(4, 10), code.slice(10)].filter(Boolean).join('-');
   };
 
-  const isValidLength = manualCode.length >= 10;
+  const isValidLength = manualCode.length === CODE_LENGTH;
 
   return (
     <div className="max-w-md mx-auto">
@@ -54,10 +57,10 @@ const ManualEntry: React.FC = () => {
             <Keyboard className="h-8 w-8 text-purple-600" />
           </div>
           <h3 className="text-xl font-bold text-gray-900 mb-2 font-primary">
-            Enter Your Code
+            {t('manual.title')}
           </h3>
           <p className="text-gray-600">
-            Type the code from your Curmunchkin attachment
+            {t('manual.subtitle')}
           </p>
         </div>
 
@@ -65,7 +68,7 @@ const ManualEntry: React.FC = () => {
           {/* Code input */}
           <div>
             <label htmlFor="manual-code" className="block text-sm font-medium text-gray-700 mb-2">
-              Attachment Code
+              {t('manual.label')}
             </label>
             <input
               id="manual-code"
@@ -90,11 +93,11 @@ const ManualEntry: React.FC = () => {
                 {isValidLength ? (
                   <>
                     <CheckCircle className="h-4 w-4 text-green-600 mr-1" />
-                    <span className="text-green-600">Code format looks good!</span>
+                    <span className="text-green-600">{t('manual.formatOk')}</span>
                   </>
                 ) : (
                   <span className="text-gray-500">
-                    {manualCode.length}/12 characters
+                    {t('manual.characterCount', { count: manualCode.length, total: CODE_LENGTH })}
                   </span>
                 )}
               </div>
@@ -104,7 +107,7 @@ const ManualEntry: React.FC = () => {
                 size="small"
                 icon={HelpCircle}
                 onClick={() => setShowHelp(!showHelp)}
-                aria-label="Show help"
+                aria-label={t('manual.showHelp')}
               />
             </div>
           </div>
@@ -124,19 +127,20 @@ const ManualEntry: React.FC = () => {
             fullWidth
             disabled={!isValidLength}
           >
-            Unlock Story
+            {t('manual.submit')}
           </Button>
         </form>
 
         {/* Help section */}
         {showHelp && (
           <Card variant="outlined" padding="medium" className="mt-4 bg-blue-50 border-blue-200">
-            <h4 className="font-bold text-blue-900 mb-2">Where to find your code:</h4>
+            <h4 className="font-bold text-blue-900 mb-2">{t('manual.helpTitle')}</h4>
             <ul className="text-blue-800 text-sm space-y-1">
-              <li>• Look for a QR code on your Curmunchkin attachment</li>
-              <li>• The code is usually printed below or next to the QR code</li>
-              <li>• It starts with "CM" followed by letters and numbers</li>
-              <li>• Example: CMFF123456A01</li>
+              <li>• {t('manual.helpQr')}</li>
+              <li>• {t('manual.helpPrinted')}</li>
+              <li>• {t('manual.helpPrefix')}</li>
+              <li>• {t('manual.helpExample', { example: 'CMFF-123456-A01' })}</li>
+              <li>• {t('manual.helpOnline')}</li>
             </ul>
           </Card>
         )}
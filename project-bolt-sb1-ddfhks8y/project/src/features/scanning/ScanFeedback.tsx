@@ -14,11 +14,15 @@ interface ScanFeedbackProps {
 }
 
 const ScanFeedback: React.FC<ScanFeedbackProps> = ({ result }) => {
+  const previouslyUnlocked = result.data?.unlockData.previouslyUnlocked ?? false;
+
   // Announce result to screen readers
   useEffect(() => {
-    const message = result.success 
-      ? 'Scan successful! Story unlocked.'
-      : 'Scan failed. Please try again.';
+    const message = !result.success
+      ? 'Scan failed. Please try again.'
+      : previouslyUnlocked
+        ? 'Welcome back! Your story is ready where you left off.'
+        : 'Scan successful! Story unlocked.';
     
     // Create announcement for screen readers
     const announcement = document.createElement('div');
@@ -34,7 +38,7 @@ const ScanFeedback: React.FC<ScanFeedbackProps> = ({ result }) => {
         document.body.removeChild(announcement);
       }
     }, 1000);
-  }, [result.success]);
+  }, [result.success, previouslyUnlocked]);
 
   if (result.success && result.data) {
     const { attachment, unlockData } = result.data;
@@ -59,11 +63,13 @@ const ScanFeedback: React.FC<ScanFeedbackProps> = ({ result }) => {
 
           {/* Success message */}
           <h3 className="text-2xl font-bold text-green-900 mb-2 font-primary">
-            Story Unlocked!
+            {previouslyUnlocked ? 'Welcome Back!' : 'Story Unlocked!'}
           </h3>
           
           <p className="text-green-800 mb-4">
-            You found a {attachment.attachmentType.replace('_', ' ')} attachment!
+            {previouslyUnlocked
+              ? `Your ${attachment.attachmentType.replace('_', ' ')} attachment is already unlocked.`
+              : `You found a ${attachment.attachmentType.replace('_', ' ')} attachment!`}
           </p>
 
           {/* Story preview */}
@@ -79,6 +85,11 @@ const ScanFeedback: React.FC<ScanFeedbackProps> = ({ result }) => {
                 <p className="text-sm text-gray-600">
                   {attachment.attachmentType === 'fidget_feet' ? 'Fidget Feet Discovery' : 'Sensory Story'}
                 </p>
+                {unlockData.quest && (
+                  <p className="text-sm font-medium text-purple-700">
+                    Quest chapter {unlockData.quest.chapterIndex + 1} of {unlockData.quest.totalChapters}
+                  </p>
+                )}
               </div>
             </div>
           </Card>
@@ -93,7 +104,7 @@ const ScanFeedback: React.FC<ScanFeedbackProps> = ({ result }) => {
                 icon={ArrowRight}
                 iconPosition="right"
               >
-                Start Adventure
+                {previouslyUnlocked && !unlockData.newContent ? 'Keep Going' : 'Start Adventure'}
               </Button>
             </Link>
             
@@ -1,14 +1,16 @@
 /**
  * Main scanner component for Curmunchkins Mystery Box Explorer
- * Handles QR code scanning with camera and fallback options
+ * Handles QR code scanning with camera, photo upload and manual entry fallbacks
  */
 
 import React, { useState, useEffect } from 'react';
 import { Camera, Upload, Keyboard, AlertCircle, CheckCircle } from 'lucide-react';
 import { useScannerStore } from '@/stores';
 import { Button, Card, Loading } from '@/components';
+import { useMessages } from '@/i18n';
 import CameraView from './CameraView';
 import ManualEntry from './ManualEntry';
+import ImageUpload from './ImageUpload';
 import ScanFeedback from './ScanFeedback';
 
 const Scanner: React.FC = () => {
@@ -18,13 +20,17 @@ const Scanner: React.FC = () => {
     error,
     lastScanResult,
     manualEntryMode,
+    fileUploadMode,
     hasPermission,
+    config,
     initializeScanner,
     startScanning,
     stopScanning,
     setManualEntryMode,
+    setFileUploadMode,
     clearError,
   } = useScannerStore();
+  const { t } = useMessages();
 
   const [showInstructions, setShowInstructions] = useState(true);
 
@@ -48,6 +54,19 @@ const Scanner: React.FC = () => {
     setManualEntryMode(!manualEntryMode);
   };
 
+  const handleToggleFileUpload = () => {
+    clearError();
+    setFileUploadMode(!fileUploadMode);
+  };
+
+  const handleUseCamera = () => {
+    setManualEntryMode(false);
+    setFileUploadMode(false);
+  };
+
+  const canUploadPhoto = config.fallback.enableFileUpload;
+  const usingFallback = manualEntryMode || fileUploadMode;
+
   const renderInstructions = () => (
     <Card variant="outlined" padding="medium" className="mb-6 bg-blue-50 border-blue-200">
       <div className="flex items-start space-x-4">
@@ -58,20 +77,20 @@ const Scanner: React.FC = () => {
         </div>
         <div className="flex-1">
           <h3 className="text-lg font-bold text-blue-900 mb-2 font-primary">
-            How to Scan Your Curmunchkin
+            {t('scanner.howToTitle')}
           </h3>
           <div className="space-y-2 text-blue-800">
             <div className="flex items-center">
               <div className="w-6 h-6 bg-blue-200 rounded-full flex items-center justify-center mr-3 text-sm font-bold">1</div>
-              <p>Find the QR code on your Curmunchkin attachment</p>
+              <p>{t('scanner.step1')}</p>
             </div>
             <div className="flex items-center">
               <div className="w-6 h-6 bg-blue-200 rounded-full flex items-center justify-center mr-3 text-sm font-bold">2</div>
-              <p>Hold your device steady and point the camera at the code</p>
+              <p>{t('scanner.step2')}</p>
             </div>
             <div className="flex items-center">
               <div className="w-6 h-6 bg-blue-200 rounded-full flex items-center justify-center mr-3 text-sm font-bold">3</div>
-              <p>Wait for the magic to happen!</p>
+              <p>{t('scanner.step3')}</p>
             </div>
           </div>
           <Button
@@ -80,7 +99,7 @@ const Scanner: React.FC = () => {
             onClick={() => setShowInstructions(false)}
             className="mt-3"
           >
-            Got it!
+            {t('scanner.gotIt')}
           </Button>
         </div>
       </div>
@@ -92,10 +111,14 @@ const Scanner: React.FC = () => {
       return <ManualEntry />;
     }
 
+    if (fileUploadMode && !lastScanResult?.success) {
+      return <ImageUpload />;
+    }
+
     if (state === 'initializing') {
       return (
         <Card variant="default" padding="large" className="text-center">
-          <Loading size="medium" message="Setting up camera..." />
+          <Loading size="medium" message={t('scanner.settingUp')} />
         </Card>
       );
     }
@@ -106,7 +129,7 @@ const Scanner: React.FC = () => {
           <div className="text-center">
             <AlertCircle className="h-12 w-12 text-red-600 mx-auto mb-4" />
             <h3 className="text-lg font-bold text-red-900 mb-2 font-primary">
-              Camera Not Working
+              {t('scanner.cameraError')}
             </h3>
             <p className="text-red-800 mb-4">
               {error.userFriendlyMessage}
@@ -118,15 +141,25 @@ const Scanner: React.FC = () => {
                 fullWidth
                 onClick={handleStartScanning}
               >
-                Try Again
+                {t('scanner.tryAgain')}
               </Button>
+              {canUploadPhoto && (
+                <Button
+                  variant="ghost"
+                  size="touch"
+                  fullWidth
+                  onClick={handleToggleFileUpload}
+                >
+                  {t('scanner.uploadAPhoto')}
+                </Button>
+              )}
               <Button
                 variant="ghost"
                 size="touch"
                 fullWidth
                 onClick={() => setManualEntryMode(true)}
               >
-                Enter Code Manually
+                {t('scanner.enterManually')}
               </Button>
             </div>
           </div>
@@ -147,18 +180,31 @@ const Scanner: React.FC = () => {
     }
 
     return (
-      <div className="grid md:grid-cols-2 gap-4 mt-6">
+      <div className={`grid ${canUploadPhoto ? 'md:grid-cols-3' : 'md:grid-cols-2'} gap-4 mt-6`}>
         <Button
-          variant={manualEntryMode ? "ghost" : "primary"}
+          variant={usingFallback ? "ghost" : "primary"}
           size="touch"
           fullWidth
           icon={Camera}
-          onClick={manualEntryMode ? () => setManualEntryMode(false) : handleStartScanning}
+          onClick={usingFallback ? handleUseCamera : handleStartScanning}
           disabled={state === 'initializing'}
         >
-          {manualEntryMode ? 'Use Camera' : isActive ? 'Scanning...' : 'Start Camera'}
+          {usingFallback ? t('scanner.useCamera') : isActive ? t('scanner.scanning') : t('scanner.startCamera')}
         </Button>
 
+        {canUploadPhoto && (
+          <Button
+            variant={fileUploadMode ? "primary" : "ghost"}
+            size="touch"
+            fullWidth
+            icon={Upload}
+            onClick={handleToggleFileUpload}
+            disabled={state === 'processing'}
+          >
+            {fileUploadMode ? t('scanner.photoUpload') : t('scanner.uploadPhoto')}
+          </Button>
+        )}
+
         <Button
           variant={manualEntryMode ? "primary" : "ghost"}
           size="touch"
@@ -166,7 +212,7 @@ const Scanner: React.FC = () => {
           icon={Keyboard}
           onClick={handleToggleManualEntry}
         >
-          {manualEntryMode ? 'Manual Entry' : 'Enter Code'}
+          {manualEntryMode ? t('scanner.manualEntry') : t('scanner.enterCode')}
         </Button>
       </div>
     );
@@ -177,10 +223,10 @@ const Scanner: React.FC = () => {
       {/* Page header */}
       <div className="text-center mb-8">
         <h1 className="text-3xl font-bold text-gray-900 mb-4 font-primary">
-          Scan Your Curmunchkin
+          {t('scanner.title')}
         </h1>
         <p className="text-lg text-gray-600">
-          Point your camera at the QR code to unlock your story adventure!
+          {t('scanner.subtitle')}
         </p>
       </div>
 
@@ -196,7 +242,7 @@ const Scanner: React.FC = () => {
       {/* Help text */}
       <div className="mt-8 text-center">
         <p className="text-sm text-gray-500">
-          Having trouble? Try manual entry or ask a grown-up for help.
+          {canUploadPhoto ? t('scanner.helpWithUpload') : t('scanner.help')}
         </p>
       </div>
     </div>
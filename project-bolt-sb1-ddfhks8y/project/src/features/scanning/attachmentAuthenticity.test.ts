@@ -0,0 +1,167 @@
+// @vitest-environment node
+/**
+ * Attachment authenticity tests
+ * Signatures here were made with the factory's signing key, as printed in QR codes
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  checkAttachmentAuthenticity,
+  decodeAttachmentTerms,
+  findRevokedRange,
+  lookupAttachmentCode,
+  verifyAttachmentSignature,
+} from './attachmentAuthenticity';
+import { parseQRPayload } from './qrPayload';
+
+const SIGNATURES = {
+  CMFF123456A01: 'TYfDHSMm489rLGB8Y2-pDTotFwXtEPjsgkLtSwGF8GHPyLTnWm1J14XbBDa48Qkk-exjOQvOLpqpnxvhfeNZ8Q',
+  CMBB456789A03: 'GXov4i0kugmFd-zTrqkxlM-V8vX11vSMy9fgvtZJ3TIEiISbLhxAPn7y2xV3jDrdoTfdjKWJ--SdHMuC1PicXQ',
+  'CMTH234567A01-1G2': 'uLe3k29Z5j2MN2rAjPd-2Vam7y2IWnY5Sa4mjOsUyJTZO28bnnWg2WDbJgkXcCyzB2Q8CPk_jpHX1gB1vFES6g',
+  'CMFF123456A01-000': 'SFA4g4rYWpOzs8CbcL8dYTVSYr9u0rV4f_9SUWppnT474DV4w2O3C5W-0zDLSwM1FCUI1JGAMzj4-CFh-PGMPA',
+  CMFF999123A01: 'PNDz2TWJl13P6FRLUCEJKl0Qap-RdIKj48raTS-HXoxARL-XN82J7wF_qKuTuLxw26C2gOdbt_Q0zcF2wWOSNA',
+};
+
+describe('verifyAttachmentSignature', () => {
+  it('accepts the signature printed with a code', async () => {
+    expect(await verifyAttachmentSignature('CMFF123456A01', SIGNATURES.CMFF123456A01)).toBe(true);
+  });
+
+  it('rejects a signature made for another code', async () => {
+    expect(await verifyAttachmentSignature('CMFF123457A01', SIGNATURES.CMFF123456A01)).toBe(false);
+  });
+
+  it('rejects anything that is not a P-256 signature', async () => {
+    expect(await verifyAttachmentSignature('CMFF123456A01', 'FZGBQZHA')).toBe(false);
+    expect(await verifyAttachmentSignature('CMFF123456A01', 'not a signature')).toBe(false);
+  });
+});
+
+describe('decodeAttachmentTerms', () => {
+  it('reads the expiry month and per-device limit', () => {
+    expect(decodeAttachmentTerms('1G2')).toEqual({
+      expiresAt: Date.UTC(2028, 0, 1),
+      maxRedemptionsPerDevice: 2,
+    });
+  });
+
+  it('leaves codes with no expiry month open', () => {
+    expect(decodeAttachmentTerms('003')).toEqual({ maxRedemptionsPerDevice: 3 });
+  });
+
+  it('refuses terms that allow no redemptions', () => {
+    expect(decodeAttachmentTerms('000')).toBeNull();
+  });
+});
+
+describe('checkAttachmentAuthenticity', () => {
+  it('accepts a genuine code, one redemption per device when it has no terms', async () => {
+    expect(await checkAttachmentAuthenticity('CMBB456789A03', 'bouncy_braids', SIGNATURES.CMBB456789A03))
+      .toEqual({ authentic: true, terms: { maxRedemptionsPerDevice: 1 } });
+  });
+
+  it('returns the terms the signature covers', async () => {
+    expect(await checkAttachmentAuthenticity('CMTH234567A01', 'texture_hands', SIGNATURES['CMTH234567A01-1G2'], '1G2'))
+      .toEqual({
+        authentic: true,
+        terms: { expiresAt: Date.UTC(2028, 0, 1), maxRedemptionsPerDevice: 2 },
+      });
+  });
+
+  it('does not recognize a code whose terms were changed', async () => {
+    const signature = SIGNATURES['CMTH234567A01-1G2'];
+    expect(await checkAttachmentAuthenticity('CMTH234567A01', 'texture_hands', signature, '1G9')).toMatchObject({
+      authentic: false,
+      reason: 'invalid_signature',
+    });
+    expect(await checkAttachmentAuthenticity('CMTH234567A01', 'texture_hands', signature)).toMatchObject({
+      authentic: false,
+      reason: 'invalid_signature',
+    });
+  });
+
+  it('fails validation for genuine terms it cannot use', async () => {
+    expect(await checkAttachmentAuthenticity('CMFF123456A01', 'fidget_feet', SIGNATURES['CMFF123456A01-000'], '000'))
+      .toMatchObject({
+        authentic: false,
+        errorCode: 'VALIDATION_FAILED',
+        reason: 'invalid_terms',
+      });
+  });
+
+  it('does not recognize a code without a signature', async () => {
+    expect(await checkAttachmentAuthenticity('CMFF123456A01', 'fidget_feet')).toMatchObject({
+      authentic: false,
+      errorCode: 'ATTACHMENT_NOT_RECOGNIZED',
+      reason: 'missing_signature',
+    });
+  });
+
+  it('fails validation for a genuine code in a revoked range', async () => {
+    expect(findRevokedRange('fidget_feet', 999123)).toBeDefined();
+    expect(await checkAttachmentAuthenticity('CMFF999123A01', 'fidget_feet', SIGNATURES.CMFF999123A01)).toMatchObject({
+      authentic: false,
+      errorCode: 'VALIDATION_FAILED',
+      reason: 'revoked_serial',
+    });
+  });
+});
+
+describe('lookupAttachmentCode', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const stubFetch = (status: number, body?: unknown) => {
+    const fetch = vi.fn().mockResolvedValue(new Response(body === undefined ? null : JSON.stringify(body), { status }));
+    vi.stubGlobal('fetch', fetch);
+    return fetch;
+  };
+
+  it('fetches the signed record for a typed code', async () => {
+    const record = { code: 'CMTH234567A01', terms: '1G2', signature: SIGNATURES['CMTH234567A01-1G2'] };
+    const fetch = stubFetch(200, record);
+
+    expect(await lookupAttachmentCode('CMTH234567A01')).toEqual(record);
+    expect(fetch).toHaveBeenCalledWith('/codes/CMTH234567A01.json', { cache: 'no-cache' });
+  });
+
+  it('returns null for a code the server has no record of', async () => {
+    stubFetch(404);
+    expect(await lookupAttachmentCode('CMFF123457A01')).toBeNull();
+  });
+
+  it('refuses a record for a different code', async () => {
+    stubFetch(200, { code: 'CMFF123456A01', signature: SIGNATURES.CMFF123456A01 });
+    await expect(lookupAttachmentCode('CMFF123457A01')).rejects.toThrow('malformed record');
+  });
+});
+
+describe('parseQRPayload', () => {
+  it('reads the signature printed after a bare code', () => {
+    expect(parseQRPayload(`CMFF123456A01.${SIGNATURES.CMFF123456A01}`)).toMatchObject({
+      format: 'raw',
+      code: 'CMFF123456A01',
+      signature: SIGNATURES.CMFF123456A01,
+    });
+  });
+
+  it('reads terms printed between the code and the signature', () => {
+    expect(parseQRPayload(`CMTH234567A01-1G2.${SIGNATURES['CMTH234567A01-1G2']}`)).toMatchObject({
+      code: 'CMTH234567A01',
+      terms: '1G2',
+      signature: SIGNATURES['CMTH234567A01-1G2'],
+    });
+  });
+
+  it('reads the signature and terms from a link', () => {
+    const signature = SIGNATURES['CMTH234567A01-1G2'];
+    expect(parseQRPayload(`curmunchkins://v1/attachment/texture_hands/CMTH234567A01?terms=1G2&sig=${signature}`))
+      .toMatchObject({
+        format: 'uri',
+        code: 'CMTH234567A01',
+        terms: '1G2',
+        signature,
+      });
+  });
+});
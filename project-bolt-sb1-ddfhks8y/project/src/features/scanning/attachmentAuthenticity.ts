@@ -0,0 +1,259 @@
+/**
+ * Offline authenticity checks for attachment codes
+ * Each code is signed at the factory with an ECDSA P-256 key; the app only
+ * bundles the public half, so it can tell genuine codes from made-up ones
+ * without a network connection. QR codes carry the signature after the code,
+ * CMFF123456A01.<signature>, or as the sig field of a link.
+ *
+ * Codes that expire or can be redeemed by more than one child profile carry
+ * three characters of terms, CMFF123456A01-1G2.<signature>, and the signature
+ * covers them too.
+ *
+ * A signature is too long to type, so a code typed in by hand is looked up on
+ * the publisher's server, which returns the record printed in its QR code. The
+ * record is checked against the same public key, so the lookup can't vouch for
+ * a code the factory never signed.
+ */
+
+import type {
+  AttachmentAuthenticity,
+  AttachmentTerms,
+  AttachmentType,
+  RevokedSerialRange,
+  SignedAttachmentCode,
+} from '@/types';
+
+/**
+ * Public key for attachment code signatures (JWK, ECDSA P-256)
+ */
+export const ATTACHMENT_PUBLIC_KEY: JsonWebKey = {
+  kty: 'EC',
+  crv: 'P-256',
+  x: 'eUrxmEROBIL52_7oZHcbLdFKhZGK5sICTRnZ3AqHMGI',
+  y: 'bpjFW_5-knkwpp_vgqumzR2PgrJuaPqK3W-B47YYR8w',
+};
+
+/**
+ * Where the publisher's server serves signed records for typed codes, one per code
+ */
+export const ATTACHMENT_LOOKUP_URL = '/codes';
+
+/**
+ * Characters in printed terms
+ */
+export const ATTACHMENT_TERMS_LENGTH = 3;
+
+// Crockford base32: no I, L, O or U, so terms can't be misread
+const TERMS_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+// Expiry months are counted from here
+const TERMS_EPOCH_YEAR = 2024;
+
+// Codes printed without terms
+const DEFAULT_TERMS: AttachmentTerms = { maxRedemptionsPerDevice: 1 };
+
+/**
+ * Serial ranges that no longer unlock anything, even with a valid signature
+ * Add a range here when a batch of codes leaks or is recalled.
+ */
+export const REVOKED_SERIAL_RANGES: RevokedSerialRange[] = [
+  {
+    from: 999000,
+    to: 999999,
+    note: 'Pre-production codes from the 2024 trade show demo boxes',
+  },
+];
+
+let publicKeyPromise: Promise<CryptoKey> | null = null;
+
+const getPublicKey = (): Promise<CryptoKey> => {
+  if (!publicKeyPromise) {
+    publicKeyPromise = crypto.subtle.importKey(
+      'jwk',
+      ATTACHMENT_PUBLIC_KEY,
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+    // Let a later call retry if the import failed
+    publicKeyPromise.catch(() => {
+      publicKeyPromise = null;
+    });
+  }
+  return publicKeyPromise;
+};
+
+const decodeBase64Url = (value: string): Uint8Array | null => {
+  try {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Read printed terms: two characters for the month the code stops unlocking
+ * (counted from January 2024, 00 for never) and one for how many child
+ * profiles on a device can redeem it
+ * Returns null for terms the factory can't have printed.
+ */
+export const decodeAttachmentTerms = (terms: string): AttachmentTerms | null => {
+  const digits = [...terms.toUpperCase()].map(character => TERMS_ALPHABET.indexOf(character));
+  if (digits.length !== ATTACHMENT_TERMS_LENGTH || digits.includes(-1)) {
+    return null;
+  }
+
+  const [monthHigh, monthLow, maxRedemptionsPerDevice] = digits;
+  if (maxRedemptionsPerDevice === 0) {
+    return null;
+  }
+
+  const expiryMonth = monthHigh * 32 + monthLow;
+  return expiryMonth === 0
+    ? { maxRedemptionsPerDevice }
+    : { expiresAt: Date.UTC(TERMS_EPOCH_YEAR, expiryMonth, 1), maxRedemptionsPerDevice };
+};
+
+/**
+ * Check a code's signature against the bundled public key
+ * The signature covers the code and its terms as printed, CMFF123456A01-1G2.
+ * Throws when Web Crypto is unavailable, so callers can tell that apart from a forgery.
+ */
+export const verifyAttachmentSignature = async (
+  code: string,
+  signature: string,
+  terms?: string
+): Promise<boolean> => {
+  const signatureBytes = decodeBase64Url(signature);
+  // P-256 signatures are r and s, 32 bytes each
+  if (!signatureBytes || signatureBytes.length !== 64) {
+    return false;
+  }
+
+  return crypto.subtle.verify(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    await getPublicKey(),
+    signatureBytes,
+    new TextEncoder().encode(terms ? `${code}-${terms}` : code)
+  );
+};
+
+/**
+ * Fetch the signed record for a typed code from the publisher's server
+ * Returns null when the server has no record for the code; throws when it
+ * can't be reached. The record still has to pass verifyAttachmentSignature.
+ */
+export const lookupAttachmentCode = async (code: string): Promise<SignedAttachmentCode | null> => {
+  const response = await fetch(`${ATTACHMENT_LOOKUP_URL}/${encodeURIComponent(code)}.json`, { cache: 'no-cache' });
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const record = await response.json();
+  if (record?.code !== code || typeof record.signature !== 'string'
+    || (record.terms !== undefined && typeof record.terms !== 'string')) {
+    throw new Error(`Attachment code lookup returned a malformed record for ${code}`);
+  }
+  return { code, signature: record.signature, ...(record.terms && { terms: record.terms }) };
+};
+
+/**
+ * Revoked range covering a code's serial number, if any
+ */
+export const findRevokedRange = (
+  attachmentType: AttachmentType,
+  serialNumber: number
+): RevokedSerialRange | undefined => {
+  return REVOKED_SERIAL_RANGES.find(range =>
+    (!range.attachmentType || range.attachmentType === attachmentType)
+    && serialNumber >= range.from
+    && serialNumber <= range.to
+  );
+};
+
+/**
+ * Decide whether a code may unlock content, and on what terms
+ * Codes without a genuine signature are not recognized; genuine codes can still
+ * fail validation when revoked or when the signature can't be checked.
+ */
+export const checkAttachmentAuthenticity = async (
+  code: string,
+  attachmentType: AttachmentType,
+  signature?: string,
+  terms?: string
+): Promise<AttachmentAuthenticity> => {
+  if (!signature) {
+    return {
+      authentic: false,
+      errorCode: 'ATTACHMENT_NOT_RECOGNIZED',
+      reason: 'missing_signature',
+      message: `Attachment code ${code} is not signed`,
+    };
+  }
+
+  let verified: boolean;
+  try {
+    verified = await verifyAttachmentSignature(code, signature, terms);
+  } catch (error) {
+    console.warn('Attachment signature could not be checked:', error);
+    return {
+      authentic: false,
+      errorCode: 'VALIDATION_FAILED',
+      reason: 'verification_unavailable',
+      message: 'Attachment signatures cannot be checked on this device',
+    };
+  }
+
+  if (!verified) {
+    return {
+      authentic: false,
+      errorCode: 'ATTACHMENT_NOT_RECOGNIZED',
+      reason: 'invalid_signature',
+      message: `Attachment code ${code} has an invalid signature`,
+    };
+  }
+
+  const codeTerms = terms ? decodeAttachmentTerms(terms) : DEFAULT_TERMS;
+  if (!codeTerms) {
+    return {
+      authentic: false,
+      errorCode: 'VALIDATION_FAILED',
+      reason: 'invalid_terms',
+      message: `Attachment code ${code} has terms this app can't read: ${terms}`,
+    };
+  }
+
+  // Serial digits follow the two type letters: CMFF123456A01 -> 123456
+  const revokedRange = findRevokedRange(attachmentType, parseInt(code.slice(4, 10), 10));
+  if (revokedRange) {
+    return {
+      authentic: false,
+      errorCode: 'VALIDATION_FAILED',
+      reason: 'revoked_serial',
+      message: `Attachment code ${code} has been revoked: ${revokedRange.note}`,
+    };
+  }
+
+  return { authentic: true, terms: codeTerms };
+};
+
+export default {
+  ATTACHMENT_PUBLIC_KEY,
+  ATTACHMENT_LOOKUP_URL,
+  ATTACHMENT_TERMS_LENGTH,
+  REVOKED_SERIAL_RANGES,
+  decodeAttachmentTerms,
+  verifyAttachmentSignature,
+  lookupAttachmentCode,
+  findRevokedRange,
+  checkAttachmentAuthenticity,
+};
@@ -3,7 +3,9 @@
  * Defines valid attachment codes and their associated content
  */
 
-import type { AttachmentCode, MunchieCharacter, AttachmentType } from '@/types';
+import type { AttachmentCode, MunchieCharacter, AttachmentType, SignedAttachmentCode } from '@/types';
+import { getStoryIdsForAttachment } from '@/features/storytelling/storyManifest';
+import { checkAttachmentAuthenticity, lookupAttachmentCode } from './attachmentAuthenticity';
 
 /**
  * Valid attachment type codes and their mappings
@@ -33,51 +35,6 @@ export const CHARACTER_COMPATIBILITY: Record<AttachmentType, MunchieCharacter[]>
   scent_nose: ['ponder', 'sway', 'tumble'],
 };
 
-/**
- * Story mappings for each attachment type
- */
-export const ATTACHMENT_STORIES: Record<AttachmentType, string[]> = {
-  fidget_feet: [
-    'silo-fidget-feet-001',
-    'blip-fidget-feet-001',
-  ],
-  weighted_arms: [
-    'blip-weighted-arms-001',
-    'sway-weighted-arms-001',
-    'tumble-weighted-arms-001',
-  ],
-  bouncy_braids: [
-    'pip-bouncy-braids-001',
-    'echo-bouncy-braids-001',
-    'tally-bouncy-braids-001',
-  ],
-  squeeze_belly: [
-    'tumble-squeeze-belly-001',
-    'sway-squeeze-belly-001',
-    'ponder-squeeze-belly-001',
-  ],
-  texture_hands: [
-    'silo-texture-hands-001',
-    'pip-texture-hands-001',
-    'echo-texture-hands-001',
-  ],
-  sound_ears: [
-    'echo-sound-ears-001',
-    'ponder-sound-ears-001',
-    'tally-sound-ears-001',
-  ],
-  light_eyes: [
-    'pip-light-eyes-001',
-    'tally-light-eyes-001',
-    'silo-light-eyes-001',
-  ],
-  scent_nose: [
-    'ponder-scent-nose-001',
-    'sway-scent-nose-001',
-    'tumble-scent-nose-001',
-  ],
-};
-
 /**
  * Sample valid attachment codes for testing
  */
@@ -88,6 +45,7 @@ export const SAMPLE_ATTACHMENT_CODES: AttachmentCode[] = [
     version: 'v01',
     validation: {
       checksum: 'a1b2',
+      signature: 'TYfDHSMm489rLGB8Y2-pDTotFwXtEPjsgkLtSwGF8GHPyLTnWm1J14XbBDa48Qkk-exjOQvOLpqpnxvhfeNZ8Q',
       isValid: true,
     },
     metadata: {
@@ -97,7 +55,7 @@ export const SAMPLE_ATTACHMENT_CODES: AttachmentCode[] = [
       qualityGrade: 'A',
     },
     content: {
-      storyIds: ATTACHMENT_STORIES.fidget_feet,
+      storyIds: [], // Filled from the story manifest when validated
       characterCompatibility: CHARACTER_COMPATIBILITY.fidget_feet,
       ageRange: { min: 4, max: 12 },
       difficultyLevel: 'beginner',
@@ -109,6 +67,7 @@ export const SAMPLE_ATTACHMENT_CODES: AttachmentCode[] = [
     version: 'v02',
     validation: {
       checksum: 'c3d4',
+      signature: 'AcaQINnge1UaOvqmMYymDQB9Yta1xME2BQVYiXU8fbLfZyzheOZHeUamsxDseq-SKJEWJSF-7PYXqpqIwSlP5w',
       isValid: true,
     },
     metadata: {
@@ -118,7 +77,7 @@ export const SAMPLE_ATTACHMENT_CODES: AttachmentCode[] = [
       qualityGrade: 'B',
     },
     content: {
-      storyIds: ATTACHMENT_STORIES.weighted_arms,
+      storyIds: [], // Filled from the story manifest when validated
       characterCompatibility: CHARACTER_COMPATIBILITY.weighted_arms,
       ageRange: { min: 4, max: 12 },
       difficultyLevel: 'intermediate',
@@ -130,6 +89,7 @@ export const SAMPLE_ATTACHMENT_CODES: AttachmentCode[] = [
     version: 'v01',
     validation: {
       checksum: 'e5f6',
+      signature: 'GXov4i0kugmFd-zTrqkxlM-V8vX11vSMy9fgvtZJ3TIEiISbLhxAPn7y2xV3jDrdoTfdjKWJ--SdHMuC1PicXQ',
       isValid: true,
     },
     metadata: {
@@ -139,7 +99,7 @@ export const SAMPLE_ATTACHMENT_CODES: AttachmentCode[] = [
       qualityGrade: 'A',
     },
     content: {
-      storyIds: ATTACHMENT_STORIES.bouncy_braids,
+      storyIds: [], // Filled from the story manifest when validated
       characterCompatibility: CHARACTER_COMPATIBILITY.bouncy_braids,
       ageRange: { min: 4, max: 12 },
       difficultyLevel: 'beginner',
@@ -147,14 +107,82 @@ export const SAMPLE_ATTACHMENT_CODES: AttachmentCode[] = [
   },
 ];
 
+/**
+ * Signature bundled with a sample code, so samples work without a lookup
+ */
+export const getBundledSignature = (code: string): string | undefined => {
+  return SAMPLE_ATTACHMENT_CODES.find(ac => ac.code === code)?.validation.signature;
+};
+
+/**
+ * Signed record for a code that arrived without its signature, e.g. typed in:
+ * bundled for sample codes, otherwise looked up on the publisher's server
+ * Returns null when there is none; throws when the server can't be reached.
+ */
+export const findSignedCode = async (code: string): Promise<SignedAttachmentCode | null> => {
+  const signature = getBundledSignature(code);
+  return signature ? { code, signature } : lookupAttachmentCode(code);
+};
+
 /**
  * Validate attachment code against whitelist
+ * Only codes with a genuine, unrevoked signature are returned.
  */
-export const validateAttachmentCode = (code: string): AttachmentCode | null => {
+export const validateAttachmentCode = async (
+  code: string,
+  signature?: string,
+  terms?: string
+): Promise<AttachmentCode | null> => {
+  const attachmentCode = describeAttachmentCode(code);
+  if (!attachmentCode) {
+    return null;
+  }
+
+  let signedCode: SignedAttachmentCode | null = signature ? { code, signature, terms } : null;
+  if (!signedCode) {
+    try {
+      signedCode = await findSignedCode(code);
+    } catch (error) {
+      console.warn('Attachment code lookup failed:', error);
+      return null;
+    }
+  }
+
+  const authenticity = await checkAttachmentAuthenticity(
+    code,
+    attachmentCode.attachmentType,
+    signedCode?.signature,
+    signedCode?.terms
+  );
+  if (!authenticity.authentic) {
+    return null;
+  }
+
+  return {
+    ...attachmentCode,
+    validation: {
+      ...attachmentCode.validation,
+      ...authenticity.terms,
+      signature: signedCode?.signature,
+      isValid: true,
+    },
+  };
+};
+
+/**
+ * Attachment details for a well-formed code, before any authenticity check
+ */
+const describeAttachmentCode = (code: string): AttachmentCode | null => {
   // Check against sample codes first (for demo purposes)
   const sampleCode = SAMPLE_ATTACHMENT_CODES.find(ac => ac.code === code);
   if (sampleCode) {
-    return sampleCode;
+    return {
+      ...sampleCode,
+      content: {
+        ...sampleCode.content,
+        storyIds: getStoryIdsForAttachment(sampleCode.attachmentType),
+      },
+    };
   }
 
   // For codes not in samples, try to parse them
@@ -179,7 +207,7 @@ export const validateAttachmentCode = (code: string): AttachmentCode | null => {
     version: `v${version}`,
     validation: {
       checksum: calculateChecksum(code),
-      isValid: true,
+      isValid: false, // Until the signature is checked
     },
     metadata: {
       manufacturingDate: Date.now() - (Math.random() * 90 * 24 * 60 * 60 * 1000), // Random date within 90 days
@@ -188,7 +216,7 @@ export const validateAttachmentCode = (code: string): AttachmentCode | null => {
       qualityGrade: qualityGrade as 'A' | 'B' | 'C',
     },
     content: {
-      storyIds: ATTACHMENT_STORIES[attachmentType],
+      storyIds: getStoryIdsForAttachment(attachmentType),
       characterCompatibility: CHARACTER_COMPATIBILITY[attachmentType],
       ageRange: { min: 4, max: 12 },
       difficultyLevel: qualityGrade === 'A' ? 'beginner' : qualityGrade === 'B' ? 'intermediate' : 'advanced',
@@ -197,7 +225,7 @@ export const validateAttachmentCode = (code: string): AttachmentCode | null => {
 };
 
 /**
- * Calculate simple checksum for validation
+ * Calculate simple checksum for catching typos; authenticity comes from the signature
  */
 const calculateChecksum = (code: string): string => {
   let sum = 0;
@@ -254,8 +282,9 @@ export const generateSampleCodes = (count: number = 5): string[] => {
 export default {
   ATTACHMENT_TYPE_CODES,
   CHARACTER_COMPATIBILITY,
-  ATTACHMENT_STORIES,
   SAMPLE_ATTACHMENT_CODES,
+  getBundledSignature,
+  findSignedCode,
   validateAttachmentCode,
   getValidAttachmentTypeCodes,
   getAttachmentTypeFromCode,
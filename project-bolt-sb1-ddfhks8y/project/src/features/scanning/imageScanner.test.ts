@@ -0,0 +1,124 @@
+/**
+ * Photo upload scanning tests
+ * Photos go through the real tiling and decoding; qr-scanner's engine needs a
+ * browser worker, so it is stood in for by one that reads the first code lying
+ * wholly inside the region it is asked to scan, as qr-scanner reads one per pass.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MAX_UPLOAD_SIZE, scanImageFile } from './imageScanner';
+
+interface PrintedCode {
+  data: string;
+  x: number;
+  y: number;
+  size: number;
+}
+
+const { photoCodes } = vi.hoisted(() => ({ photoCodes: new Map<unknown, PrintedCode[]>() }));
+
+vi.mock('qr-scanner', () => ({
+  default: {
+    NO_QR_CODE_FOUND: 'No QR code found',
+    createQrEngine: () => Promise.resolve({}),
+    scanImage: async (image: unknown, options: { scanRegion: { x: number; y: number; width: number; height: number } }) => {
+      const { x, y, width, height } = options.scanRegion;
+      const code = photoCodes.get(image)?.find(printed =>
+        printed.x >= x && printed.y >= y
+        && printed.x + printed.size <= x + width && printed.y + printed.size <= y + height
+      );
+      if (!code) {
+        throw 'No QR code found';
+      }
+      const [left, top, right, bottom] = [code.x, code.y, code.x + code.size, code.y + code.size];
+      return {
+        data: code.data,
+        cornerPoints: [{ x: left, y: top }, { x: right, y: top }, { x: right, y: bottom }, { x: left, y: bottom }],
+      };
+    },
+  },
+}));
+
+// Crisp black and white modules, four pixels wide
+const getImageData = (_x: number, _y: number, width: number, height: number) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const value = (Math.floor((i % width) / 4) + Math.floor(i / width / 4)) % 2 === 0 ? 0 : 255;
+    data.set([value, value, value, 255], i * 4);
+  }
+  return { data };
+};
+
+const createPhoto = (codes: PrintedCode[]) => {
+  const bitmap = { width: 900, height: 900, close: vi.fn() };
+  photoCodes.set(bitmap, codes);
+  vi.stubGlobal('createImageBitmap', vi.fn().mockResolvedValue(bitmap));
+  return bitmap;
+};
+
+const createFile = () => new File(['photo'], 'tag.jpg', { type: 'image/jpeg' });
+
+describe('scanImageFile', () => {
+  beforeEach(() => {
+    photoCodes.clear();
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext')
+      .mockReturnValue({ drawImage: () => undefined, getImageData } as unknown as CanvasRenderingContext2D);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('finds every code in a photo, once each', async () => {
+    createPhoto([
+      { data: 'CMFF123456A01', x: 100, y: 100, size: 120 },
+      { data: 'CMWA789012B02', x: 700, y: 700, size: 120 },
+    ]);
+
+    const { codes, upload } = await scanImageFile(createFile(), { uploadMethod: 'file_picker' });
+
+    expect(codes.map(qrData => qrData.data).sort()).toEqual(['CMFF123456A01', 'CMWA789012B02']);
+    expect(codes.every(qrData => qrData.context.cameraDevice === 'file_upload')).toBe(true);
+    expect(upload.processing).toMatchObject({ success: true, qrCodesDetected: 2, imageQuality: 1 });
+  });
+
+  it('reports the code where it sits in the photo', async () => {
+    createPhoto([{ data: 'CMFF123456A01', x: 500, y: 600, size: 150 }]);
+
+    const { codes: [qrData] } = await scanImageFile(createFile(), { uploadMethod: 'drag_drop' });
+
+    expect(qrData.geometry.boundingBox).toEqual({ x: 500, y: 600, width: 150, height: 150 });
+  });
+
+  it('closes the photo once it has been scanned', async () => {
+    const bitmap = createPhoto([]);
+
+    const { upload } = await scanImageFile(createFile(), { uploadMethod: 'file_picker', retryCount: 2 });
+
+    expect(bitmap.close).toHaveBeenCalled();
+    expect(upload.processing).toMatchObject({ success: false, qrCodesDetected: 0 });
+    expect(upload.userExperience).toMatchObject({ uploadMethod: 'file_picker', retryCount: 2 });
+  });
+
+  it('describes a file that is not an image instead of throwing', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.stubGlobal('createImageBitmap', vi.fn().mockRejectedValue(new DOMException('Bad image', 'InvalidStateError')));
+
+    const { codes, upload } = await scanImageFile(createFile(), { uploadMethod: 'file_picker' });
+
+    expect(codes).toEqual([]);
+    expect(upload.processing).toMatchObject({ success: false, imageQuality: 0 });
+  });
+
+  it('does not open files over the size limit', async () => {
+    const openImage = vi.fn();
+    vi.stubGlobal('createImageBitmap', openImage);
+    const file = createFile();
+    Object.defineProperty(file, 'size', { value: MAX_UPLOAD_SIZE + 1 });
+
+    const { upload } = await scanImageFile(file, { uploadMethod: 'file_picker' });
+
+    expect(openImage).not.toHaveBeenCalled();
+    expect(upload.processing.success).toBe(false);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Photo upload scanning for Curmunchkins Mystery Box Explorer
+ * Finds attachment codes in a photo of the tag, for devices whose cameras
+ * can't focus on a code or aren't available at all.
+ */
+
+import { closeQREngine, decodeQRFrame, measureFrameQuality, openQREngine } from './qrDecoder';
+import type { FileUploadData, QRCodeData } from '@/types';
+
+export interface ImageScanOptions {
+  uploadMethod: FileUploadData['userExperience']['uploadMethod'];
+  retryCount?: number;
+  helpUsed?: boolean;
+}
+
+export interface ImageScanResult {
+  upload: FileUploadData;
+  codes: QRCodeData[]; // Clearest first
+}
+
+export const MAX_UPLOAD_SIZE = 20 * 1024 * 1024; // 20MB, plenty for a phone photo
+
+interface SearchRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * The whole photo, then overlapping 2x2 and 3x3 tiles
+ * qr-scanner reads one code per pass, so tiles find the others and small codes
+ * that get lost when a large photo is scaled down.
+ */
+const getSearchRegions = (width: number, height: number): SearchRegion[] => {
+  const regions: SearchRegion[] = [{ x: 0, y: 0, width, height }];
+
+  for (const grid of [2, 3]) {
+    // Each tile overlaps its neighbours by half, so a code on a seam is whole in one of them
+    const tileWidth = Math.round((2 * width) / (grid + 1));
+    const tileHeight = Math.round((2 * height) / (grid + 1));
+    for (let row = 0; row < grid; row++) {
+      for (let column = 0; column < grid; column++) {
+        regions.push({
+          x: Math.round((column * width) / (grid + 1)),
+          y: Math.round((row * height) / (grid + 1)),
+          width: tileWidth,
+          height: tileHeight,
+        });
+      }
+    }
+  }
+
+  return regions;
+};
+
+/**
+ * Decode every code in a photo and describe the upload
+ * Never throws for a bad photo; processing.success is false when nothing was found.
+ */
+export const scanImageFile = async (file: File, options: ImageScanOptions): Promise<ImageScanResult> => {
+  const startTime = Date.now();
+  const codes = new Map<string, QRCodeData>();
+  let imageQuality = 0;
+
+  if (file.size <= MAX_UPLOAD_SIZE) {
+    let bitmap: ImageBitmap | null = null;
+    const qrEngine = openQREngine();
+
+    try {
+      bitmap = await createImageBitmap(file);
+      const canvas = document.createElement('canvas');
+      const regions = getSearchRegions(bitmap.width, bitmap.height);
+
+      for (let index = 0; index < regions.length; index++) {
+        const qrData = await decodeQRFrame(bitmap, {
+          cameraDevice: 'file_upload',
+          calculateScanRegion: false,
+          scanRegion: regions[index],
+          attemptNumber: index + 1,
+          startedAt: startTime,
+          qrEngine,
+          canvas,
+        });
+
+        // Overlapping tiles see the same code more than once; keep the clearest read
+        const existing = qrData && codes.get(qrData.data);
+        if (qrData && (!existing || qrData.quality.confidence > existing.quality.confidence)) {
+          codes.set(qrData.data, qrData);
+        }
+      }
+
+      imageQuality = codes.size > 0
+        ? Math.max(...Array.from(codes.values()).map(qrData => qrData.quality.readability))
+        : measureFrameQuality(bitmap);
+    } catch (error) {
+      console.warn('Uploaded image could not be read:', error);
+    } finally {
+      bitmap?.close();
+      closeQREngine(qrEngine);
+    }
+  }
+
+  const decoded = Array.from(codes.values()).sort((a, b) => b.quality.confidence - a.quality.confidence);
+
+  return {
+    codes: decoded,
+    upload: {
+      file,
+      uploadedAt: startTime,
+      fileInfo: {
+        name: file.name,
+        size: file.size,
+        type: file.type,
+        lastModified: file.lastModified,
+      },
+      processing: {
+        imageQuality,
+        qrCodesDetected: decoded.length,
+        processingTime: Date.now() - startTime,
+        success: decoded.length > 0,
+        extractedData: decoded.map(qrData => qrData.data),
+      },
+      userExperience: {
+        uploadMethod: options.uploadMethod,
+        retryCount: options.retryCount ?? 0,
+        helpUsed: options.helpUsed ?? false,
+      },
+    },
+  };
+};
+
+export default {
+  MAX_UPLOAD_SIZE,
+  scanImageFile,
+};
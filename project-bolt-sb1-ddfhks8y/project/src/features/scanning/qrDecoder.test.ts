@@ -0,0 +1,129 @@
+/**
+ * QR decoder tests
+ * Still images go through the real frame source and decoder; qr-scanner's engine
+ * needs a browser worker, so it is stood in for by a lookup of the code each image holds.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { QRCodeData } from '@/types';
+import { DEFAULT_SCANNER_CONFIG } from '@/types';
+import { createImageFrameSource, createQRDecoder } from './qrDecoder';
+
+const { printedCodes } = vi.hoisted(() => ({ printedCodes: new Map<unknown, string>() }));
+
+vi.mock('qr-scanner', () => ({
+  default: {
+    NO_QR_CODE_FOUND: 'No QR code found',
+    createQrEngine: () => Promise.resolve({}),
+    scanImage: async (image: unknown, options: { scanRegion: { x: number; y: number; width: number } }) => {
+      const data = printedCodes.get(image);
+      if (!data) {
+        throw 'No QR code found';
+      }
+      // A square code filling the middle half of the scan region
+      const { x, y, width } = options.scanRegion;
+      const [near, far] = [width / 4, (width * 3) / 4];
+      return {
+        data,
+        cornerPoints: [
+          { x: x + near, y: y + near },
+          { x: x + far, y: y + near },
+          { x: x + far, y: y + far },
+          { x: x + near, y: y + far },
+        ],
+      };
+    },
+  },
+}));
+
+// Crisp black and white modules, four pixels wide
+const getImageData = (_x: number, _y: number, width: number, height: number) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const value = (Math.floor((i % width) / 4) + Math.floor(i / width / 4)) % 2 === 0 ? 0 : 255;
+    data.set([value, value, value, 255], i * 4);
+  }
+  return { data };
+};
+
+const createImage = (code?: string): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 300;
+  canvas.height = 300;
+  if (code) printedCodes.set(canvas, code);
+  return canvas;
+};
+
+const scanImages = (images: Parameters<typeof createImageFrameSource>[0]) => {
+  const decoded: QRCodeData[] = [];
+  const source = createImageFrameSource(images);
+  return new Promise<{ decoded: QRCodeData[]; running: boolean }>(resolve => {
+    const decoder = createQRDecoder(source, {
+      config: { ...DEFAULT_SCANNER_CONFIG.qrScanner, maxScansPerSecond: 1000 },
+      onDecode: qrData => decoded.push(qrData),
+      onFinished: () => resolve({ decoded, running: decoder.isRunning() }),
+    });
+    decoder.start();
+  });
+};
+
+describe('createQRDecoder with still images', () => {
+  beforeEach(() => {
+    printedCodes.clear();
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext')
+      .mockReturnValue({ drawImage: () => undefined, getImageData } as unknown as CanvasRenderingContext2D);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('decodes each image in turn and finishes when they run out', async () => {
+    const { decoded, running } = await scanImages([createImage('CMFF123456A01'), createImage(), createImage('CMWA789012B02')]);
+
+    expect(decoded.map(qrData => qrData.data)).toEqual(['CMFF123456A01', 'CMWA789012B02']);
+    expect(running).toBe(false);
+  });
+
+  it('measures the code from the pixels it was read from', async () => {
+    const { decoded: [qrData] } = await scanImages([createImage('CMFF123456A01')]);
+
+    expect(qrData.quality).toMatchObject({ confidence: 1, contrast: 1, sharpness: 1 });
+    expect(qrData.context).toMatchObject({ cameraDevice: 'still-image', lightingConditions: 'excellent' });
+    expect(qrData.geometry.boundingBox).toEqual({ x: 100, y: 100, width: 100, height: 100 });
+  });
+
+  it('decodes photo files and closes their bitmaps when done', async () => {
+    const bitmap = { width: 300, height: 300, close: vi.fn() };
+    printedCodes.set(bitmap, 'CMBB456789A03');
+    vi.stubGlobal('createImageBitmap', vi.fn().mockResolvedValue(bitmap));
+
+    const { decoded } = await scanImages([new Blob(['photo'], { type: 'image/jpeg' })]);
+
+    expect(decoded.map(qrData => qrData.data)).toEqual(['CMBB456789A03']);
+    expect(bitmap.close).toHaveBeenCalled();
+  });
+
+  it('skips a file that is not an image and still reaches the rest', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.stubGlobal('createImageBitmap', vi.fn().mockRejectedValue(new DOMException('Bad image', 'InvalidStateError')));
+
+    const { decoded, running } = await scanImages([
+      new Blob(['not a photo'], { type: 'text/plain' }),
+      createImage('CMFF123456A01'),
+    ]);
+
+    expect(decoded.map(qrData => qrData.data)).toEqual(['CMFF123456A01']);
+    expect(running).toBe(false);
+  });
+
+  it('finishes when the only file is not an image', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.stubGlobal('createImageBitmap', vi.fn().mockRejectedValue(new DOMException('Bad image', 'InvalidStateError')));
+
+    const { decoded, running } = await scanImages([new Blob(['not a photo'], { type: 'text/plain' })]);
+
+    expect(decoded).toEqual([]);
+    expect(running).toBe(false);
+  });
+});
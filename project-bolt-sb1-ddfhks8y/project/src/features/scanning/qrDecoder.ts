@@ -0,0 +1,444 @@
+/**
+ * QR decoding pipeline for Curmunchkins Mystery Box Explorer
+ * Pulls frames from a pluggable frame source, decodes them with qr-scanner and
+ * measures the code's quality, geometry and lighting from the actual pixels.
+ * Tests can feed still images or recorded video instead of the camera.
+ */
+
+import QrScanner from 'qr-scanner';
+import type { QRCodeData, ScannerConfig } from '@/types';
+
+export type QRFrame = HTMLVideoElement | HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+
+export interface QRFrameSource {
+  id: string; // Reported as QRCodeData.context.cameraDevice
+  readFrame: () => Promise<QRFrame | null>; // null while no frame is ready yet
+  isFinished: () => boolean; // Finite sources (images, recorded clips) run out
+  dispose?: () => void;
+}
+
+export interface QRDecodeContext {
+  cameraDevice: string;
+  calculateScanRegion: boolean;
+  scanRegion?: { x: number; y: number; width: number; height: number }; // Overrides calculateScanRegion
+  attemptNumber?: number;
+  startedAt?: number; // When this scan began, for scanDuration
+  qrEngine?: QREngine;
+  canvas?: HTMLCanvasElement;
+}
+
+export interface QRDecoderOptions {
+  config: ScannerConfig['qrScanner'];
+  minConfidence?: number; // Decodes below this keep scanning for a clearer frame
+  acceptAfterRepeats?: number; // ...unless the same code keeps coming back this many times
+  onDecode: (qrData: QRCodeData) => void;
+  onFinished?: () => void; // A finite source ran out of frames
+}
+
+export interface QRDecoder {
+  start: () => void;
+  stop: () => void;
+  isRunning: () => boolean;
+}
+
+interface QRImageMetrics {
+  brightness: number; // 0-1, mean luma
+  contrast: number; // 0-1
+  sharpness: number; // 0-1
+}
+
+type ScanRegion = Required<QrScanner.ScanRegion>;
+type QREngine = ReturnType<typeof QrScanner.createQrEngine>;
+
+const SCAN_REGION_SIZE = 2 / 3; // Share of the shorter side, matching the on-screen frame
+const MAX_REGION_RESOLUTION = 400;
+const MAX_FRAME_RESOLUTION = 800;
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+const getFrameSize = (frame: QRFrame): { width: number; height: number } => {
+  if (frame instanceof HTMLVideoElement) {
+    return { width: frame.videoWidth, height: frame.videoHeight };
+  }
+  if (frame instanceof HTMLImageElement) {
+    return { width: frame.naturalWidth, height: frame.naturalHeight };
+  }
+  return { width: frame.width, height: frame.height };
+};
+
+const scaleRegion = (
+  region: { x: number; y: number; width: number; height: number },
+  maxResolution: number
+): ScanRegion => {
+  const scale = Math.min(1, maxResolution / Math.max(region.width, region.height));
+  return {
+    ...region,
+    downScaledWidth: Math.round(region.width * scale),
+    downScaledHeight: Math.round(region.height * scale),
+  };
+};
+
+/**
+ * Area of the frame to decode: the centered square the child lines the code up
+ * in, or the whole frame scaled down when the scan region is turned off
+ */
+const getScanRegion = (width: number, height: number, calculateScanRegion: boolean): ScanRegion => {
+  if (calculateScanRegion) {
+    const size = Math.round(SCAN_REGION_SIZE * Math.min(width, height));
+    return scaleRegion({
+      x: Math.round((width - size) / 2),
+      y: Math.round((height - size) / 2),
+      width: size,
+      height: size,
+    }, MAX_REGION_RESOLUTION);
+  }
+
+  return scaleRegion({ x: 0, y: 0, width, height }, MAX_FRAME_RESOLUTION);
+};
+
+/**
+ * Luma statistics over the code's bounding box in the decoded canvas
+ */
+const measureImage = (canvas: HTMLCanvasElement, box: QRCodeData['geometry']['boundingBox']): QRImageMetrics => {
+  const context = canvas.getContext('2d');
+  const x = Math.max(0, Math.floor(box.x));
+  const y = Math.max(0, Math.floor(box.y));
+  const width = Math.min(canvas.width - x, Math.ceil(box.width));
+  const height = Math.min(canvas.height - y, Math.ceil(box.height));
+
+  if (!context || width < 2 || height < 2) {
+    return { brightness: 0, contrast: 0, sharpness: 0 };
+  }
+
+  const { data } = context.getImageData(x, y, width, height);
+  const luma = new Uint8Array(width * height);
+  const histogram = new Array<number>(256).fill(0);
+  let total = 0;
+
+  for (let i = 0; i < luma.length; i++) {
+    const value = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+    luma[i] = value;
+    histogram[value]++;
+    total += value;
+  }
+
+  const percentile = (share: number): number => {
+    const target = share * luma.length;
+    let seen = 0;
+    for (let value = 0; value < 256; value++) {
+      seen += histogram[value];
+      if (seen >= target) return value;
+    }
+    return 255;
+  };
+
+  // Percentiles rather than min/max so glare and sensor noise don't count
+  const range = percentile(0.95) - percentile(0.05);
+
+  // A crisp module edge jumps most of the range in one pixel; blur spreads it out
+  let edges = 0;
+  let sharpEdges = 0;
+  for (let row = 0; row < height - 1; row++) {
+    for (let column = 0; column < width - 1; column++) {
+      const index = row * width + column;
+      for (const step of [Math.abs(luma[index + 1] - luma[index]), Math.abs(luma[index + width] - luma[index])]) {
+        if (step > range * 0.1) edges++;
+        if (step > range * 0.5) sharpEdges++;
+      }
+    }
+  }
+
+  return {
+    brightness: total / luma.length / 255,
+    contrast: range / 255,
+    sharpness: edges > 0 ? sharpEdges / edges : 0,
+  };
+};
+
+const getLightingConditions = (
+  metrics: QRImageMetrics
+): QRCodeData['context']['lightingConditions'] => {
+  const { brightness, contrast } = metrics;
+  if (brightness < 0.2 || brightness > 0.95 || contrast < 0.25) return 'poor';
+  if (brightness < 0.35 || brightness > 0.85 || contrast < 0.45) return 'fair';
+  if (contrast >= 0.7 && brightness >= 0.45 && brightness <= 0.75) return 'excellent';
+  return 'good';
+};
+
+/**
+ * How close the outline is to a square seen head-on, 1 when all sides match
+ */
+const getSquareness = (corners: QRCodeData['geometry']['cornerPoints']): number => {
+  const length = (a: QrScanner.Point, b: QrScanner.Point) => Math.hypot(a.x - b.x, a.y - b.y);
+  const sides = [
+    length(corners.topLeft, corners.topRight),
+    length(corners.topRight, corners.bottomRight),
+    length(corners.bottomRight, corners.bottomLeft),
+    length(corners.bottomLeft, corners.topLeft),
+  ];
+  const longest = Math.max(...sides);
+  return longest > 0 ? Math.min(...sides) / longest : 0;
+};
+
+const getBoundingBox = (points: QrScanner.Point[]): QRCodeData['geometry']['boundingBox'] => {
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+const isNoCodeFound = (error: unknown): boolean => {
+  return error === QrScanner.NO_QR_CODE_FOUND
+    || (error instanceof Error && error.message === QrScanner.NO_QR_CODE_FOUND);
+};
+
+/**
+ * Start a QR engine to share across many decodes
+ */
+export const openQREngine = (): QREngine => QrScanner.createQrEngine();
+
+/**
+ * Shut down an engine from openQREngine
+ */
+export const closeQREngine = (engine: QREngine): void => {
+  engine.then(qrEngine => {
+    if (qrEngine instanceof Worker) qrEngine.terminate();
+  }).catch(() => undefined);
+};
+
+/**
+ * Overall image quality (0-1) of a frame with no code found, e.g. to tell a
+ * child their photo is too dark or blurry
+ */
+export const measureFrameQuality = (frame: QRFrame): number => {
+  const { width, height } = getFrameSize(frame);
+  if (width === 0 || height === 0) {
+    return 0;
+  }
+
+  const region = scaleRegion({ x: 0, y: 0, width, height }, MAX_REGION_RESOLUTION);
+  const canvas = document.createElement('canvas');
+  canvas.width = region.downScaledWidth;
+  canvas.height = region.downScaledHeight;
+  canvas.getContext('2d')?.drawImage(frame, 0, 0, canvas.width, canvas.height);
+
+  const metrics = measureImage(canvas, { x: 0, y: 0, width: canvas.width, height: canvas.height });
+  return clamp01(metrics.contrast * 0.5 + metrics.sharpness * 0.5);
+};
+
+/**
+ * Decode a single frame, or null when it holds no readable code
+ */
+export const decodeQRFrame = async (frame: QRFrame, context: QRDecodeContext): Promise<QRCodeData | null> => {
+  const { width, height } = getFrameSize(frame);
+  if (width === 0 || height === 0) {
+    return null;
+  }
+
+  const region = context.scanRegion
+    ? scaleRegion(context.scanRegion, MAX_FRAME_RESOLUTION)
+    : getScanRegion(width, height, context.calculateScanRegion);
+  const canvas = context.canvas ?? document.createElement('canvas');
+
+  let result: QrScanner.ScanResult;
+  try {
+    result = await QrScanner.scanImage(frame, {
+      scanRegion: region,
+      qrEngine: context.qrEngine,
+      canvas,
+      returnDetailedScanResult: true,
+    });
+  } catch (error) {
+    if (!isNoCodeFound(error)) {
+      console.warn('QR decode failed:', error);
+    }
+    return null;
+  }
+
+  // qr-scanner reports corners in frame coordinates as topLeft, topRight, bottomRight, bottomLeft
+  const [topLeft, topRight, bottomRight, bottomLeft] = result.cornerPoints;
+  if (!bottomLeft) {
+    return null;
+  }
+  const cornerPoints = { topLeft, topRight, bottomLeft, bottomRight };
+
+  // The canvas holds the scan region scaled down, so measure the code there
+  const scale = region.downScaledWidth / region.width;
+  const canvasBox = getBoundingBox(
+    result.cornerPoints.map(point => ({ x: (point.x - region.x) * scale, y: (point.y - region.y) * scale }))
+  );
+  const metrics = measureImage(canvas, canvasBox);
+  const readability = clamp01(metrics.contrast * 0.4 + metrics.sharpness * 0.4 + getSquareness(cornerPoints) * 0.2);
+  const now = Date.now();
+
+  return {
+    data: result.data,
+    format: 'QR_CODE',
+    quality: {
+      // The code did decode, so even a poor image earns half marks
+      confidence: 0.5 + readability * 0.5,
+      readability,
+      contrast: metrics.contrast,
+      sharpness: metrics.sharpness,
+    },
+    geometry: {
+      boundingBox: getBoundingBox(result.cornerPoints),
+      cornerPoints,
+    },
+    context: {
+      timestamp: now,
+      cameraDevice: context.cameraDevice,
+      scanDuration: context.startedAt !== undefined ? now - context.startedAt : 0,
+      attemptNumber: context.attemptNumber ?? 1,
+      lightingConditions: getLightingConditions(metrics),
+    },
+  };
+};
+
+/**
+ * Frames from a live camera stream or a recorded clip playing in a video element
+ */
+export const createVideoFrameSource = (video: HTMLVideoElement, id: string): QRFrameSource => ({
+  id,
+  readFrame: async () => {
+    return video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA && video.videoWidth > 0 ? video : null;
+  },
+  isFinished: () => video.ended,
+});
+
+/**
+ * Frames from still images, one per read, e.g. photos of printed attachment codes
+ */
+export const createImageFrameSource = (
+  images: Array<HTMLImageElement | HTMLCanvasElement | ImageBitmap | Blob>,
+  id = 'still-image'
+): QRFrameSource => {
+  let index = 0;
+  const bitmaps: ImageBitmap[] = [];
+
+  return {
+    id,
+    readFrame: async () => {
+      const image = images[index++];
+      if (!(image instanceof Blob)) {
+        return image ?? null;
+      }
+      const bitmap = await createImageBitmap(image);
+      bitmaps.push(bitmap);
+      return bitmap;
+    },
+    isFinished: () => index >= images.length,
+    dispose: () => {
+      bitmaps.forEach(bitmap => bitmap.close());
+      bitmaps.length = 0;
+    },
+  };
+};
+
+/**
+ * Scan a frame source continuously at config.maxScansPerSecond
+ * Keeps running after a decode; the caller stops it once the code is handled.
+ */
+export const createQRDecoder = (source: QRFrameSource, options: QRDecoderOptions): QRDecoder => {
+  const interval = 1000 / Math.max(1, options.config.maxScansPerSecond);
+  const canvas = document.createElement('canvas');
+
+  let running = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let qrEngine: QREngine | null = null;
+  let startedAt = 0;
+  let attemptNumber = 0;
+  let lowConfidence = { data: '', count: 0 };
+
+  const isAcceptable = (qrData: QRCodeData): boolean => {
+    if (options.minConfidence === undefined || qrData.quality.confidence >= options.minConfidence) {
+      return true;
+    }
+    lowConfidence = qrData.data === lowConfidence.data
+      ? { data: qrData.data, count: lowConfidence.count + 1 }
+      : { data: qrData.data, count: 1 };
+    return options.acceptAfterRepeats !== undefined && lowConfidence.count >= options.acceptAfterRepeats;
+  };
+
+  const scanNextFrame = async () => {
+    if (!running) return;
+
+    if (source.isFinished()) {
+      stop();
+      options.onFinished?.();
+      return;
+    }
+
+    const frameStart = Date.now();
+    let qrData: QRCodeData | null = null;
+    try {
+      const frame = await source.readFrame();
+      if (frame && running) {
+        attemptNumber++;
+        qrData = await decodeQRFrame(frame, {
+          cameraDevice: source.id,
+          calculateScanRegion: options.config.calculateScanRegion,
+          attemptNumber,
+          startedAt,
+          qrEngine: qrEngine ?? undefined,
+          canvas,
+        });
+      }
+    } catch (error) {
+      // A frame that can't be read (e.g. a photo that isn't an image) is skipped,
+      // so the scan still reaches the next frame or finishes
+      console.warn('Skipping QR frame that could not be read:', error);
+    }
+
+    if (running && qrData && isAcceptable(qrData)) {
+      options.onDecode(qrData);
+      // The next code's duration and attempts count from here
+      startedAt = Date.now();
+      attemptNumber = 0;
+      lowConfidence = { data: '', count: 0 };
+    }
+
+    if (running) {
+      timer = setTimeout(scanNextFrame, Math.max(0, interval - (Date.now() - frameStart)));
+    }
+  };
+
+  const start = () => {
+    if (running) return;
+    running = true;
+    startedAt = Date.now();
+    attemptNumber = 0;
+    qrEngine = openQREngine();
+    void scanNextFrame();
+  };
+
+  const stop = () => {
+    running = false;
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (qrEngine) {
+      closeQREngine(qrEngine);
+      qrEngine = null;
+    }
+    source.dispose?.();
+  };
+
+  return {
+    start,
+    stop,
+    isRunning: () => running,
+  };
+};
+
+export default {
+  openQREngine,
+  closeQREngine,
+  measureFrameQuality,
+  decodeQRFrame,
+  createVideoFrameSource,
+  createImageFrameSource,
+  createQRDecoder,
+};
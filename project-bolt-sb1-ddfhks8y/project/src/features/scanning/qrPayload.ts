@@ -0,0 +1,110 @@
+/**
+ * QR payload parsing for Curmunchkins Mystery Box Explorer
+ * Accepts printed attachment codes (CMFF123456A01-1G2.<signature>) and versioned links such as
+ * curmunchkins://v1/attachment/fidget_feet/CMFF123456A01?pack=P2024A&story=silo-fidget-feet-001&terms=1G2&sig=<signature>
+ */
+
+import { createScanError, getAttachmentTypeForCode, parsePrintedCode, validateQRFormat } from './scannerUtils';
+import { QR_CODE_FORMATS, isAttachmentType } from '@/types';
+import type { QRPayload } from '@/types';
+
+const VERSION_PATTERN = /^v\d+$/;
+
+/**
+ * Whether this app can read the given payload version
+ */
+export const isSupportedQRVersion = (version: string): boolean => {
+  return (QR_CODE_FORMATS.CURMUNCHKINS.supportedVersions as readonly string[]).includes(version);
+};
+
+const readQueryField = (params: URLSearchParams, field: string): string | undefined => {
+  return params.get(field)?.trim() || undefined;
+};
+
+/**
+ * Parse scanned QR text into its attachment code and optional extras
+ * Throws a ScanError: INVALID_QR_FORMAT for anything that isn't a Curmunchkins
+ * code, UNSUPPORTED_QR_VERSION for links this app version can't read.
+ */
+export const parseQRPayload = (data: string): QRPayload => {
+  const qrData = data.trim();
+  const { prefix, version: currentVersion, queryFields } = QR_CODE_FORMATS.CURMUNCHKINS;
+
+  const printedCode = parsePrintedCode(qrData);
+  if (printedCode) {
+    return {
+      format: 'raw',
+      version: currentVersion,
+      code: printedCode.code,
+      terms: printedCode.terms,
+      signature: printedCode.signature,
+    };
+  }
+
+  if (!qrData.toLowerCase().startsWith(prefix)) {
+    throw createScanError(
+      'INVALID_QR_FORMAT',
+      'QR code format is not valid for Curmunchkins',
+      { qrData: data }
+    );
+  }
+
+  const rest = qrData.slice(prefix.length);
+  const queryStart = rest.indexOf('?');
+  const path = queryStart >= 0 ? rest.slice(0, queryStart) : rest;
+  const query = queryStart >= 0 ? rest.slice(queryStart + 1) : '';
+  const [version = '', kind, type, pathCode = '', ...extra] = path.replace(/\/+$/, '').split('/');
+
+  // Check the version first: a newer format may not share this path layout
+  if (!VERSION_PATTERN.test(version)) {
+    throw createScanError(
+      'UNSUPPORTED_QR_VERSION',
+      `QR link version "${version}" is not recognized`,
+      { qrData: data, version }
+    );
+  }
+
+  if (!isSupportedQRVersion(version)) {
+    throw createScanError(
+      'UNSUPPORTED_QR_VERSION',
+      `QR link version ${version} is not supported by this app`,
+      { qrData: data, version, supportedVersions: QR_CODE_FORMATS.CURMUNCHKINS.supportedVersions }
+    );
+  }
+
+  const code = pathCode.toUpperCase();
+  if (kind !== 'attachment' || extra.length > 0 || !validateQRFormat(code)) {
+    throw createScanError(
+      'INVALID_QR_FORMAT',
+      `QR link does not match ${QR_CODE_FORMATS.CURMUNCHKINS.structure}`,
+      { qrData: data }
+    );
+  }
+
+  // The printed type must agree with the type encoded in the code itself
+  if (!type || !isAttachmentType(type) || getAttachmentTypeForCode(code) !== type) {
+    throw createScanError(
+      'INVALID_QR_FORMAT',
+      'QR link attachment type does not match its code',
+      { qrData: data, attachmentType: type }
+    );
+  }
+
+  const params = new URLSearchParams(query);
+
+  return {
+    format: 'uri',
+    version,
+    code,
+    attachmentType: type,
+    packId: readQueryField(params, queryFields.packId),
+    suggestedStoryId: readQueryField(params, queryFields.suggestedStoryId),
+    terms: readQueryField(params, queryFields.terms),
+    signature: readQueryField(params, queryFields.signature),
+  };
+};
+
+export default {
+  isSupportedQRVersion,
+  parseQRPayload,
+};
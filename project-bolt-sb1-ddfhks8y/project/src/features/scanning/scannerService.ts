@@ -4,7 +4,23 @@
  */
 
 import { parseAttachmentCode, createScanError, validateQRFormat } from './scannerUtils';
-import type { QRCodeData, AttachmentCode, ScanResult, ScanError } from '@/types';
+import { parseQRPayload } from './qrPayload';
+import { checkAttachmentAuthenticity } from './attachmentAuthenticity';
+import { findSignedCode } from './attachmentWhitelist';
+import { loadStoryManifest, getManifestEntry } from '@/features/storytelling/storyManifest';
+import { findQuestChapterForScan } from '@/features/storytelling/storyQuests';
+import { getCompletedStories, getRedemption, saveRedemption } from '@/services/storage';
+import type {
+  QRCodeData,
+  AttachmentCode,
+  AttachmentRedemption,
+  ScanResult,
+  ScanError,
+  ScanMethod,
+  SignedAttachmentCode,
+} from '@/types';
+
+type ScanUnlockData = NonNullable<ScanResult['data']>['unlockData'];
 
 export class ScannerService {
   private static instance: ScannerService;
@@ -19,21 +35,18 @@ export class ScannerService {
   /**
    * Process a QR code scan result
    */
-  async processScan(qrData: QRCodeData): Promise<ScanResult> {
+  async processScan(qrData: QRCodeData, method: ScanMethod = 'camera'): Promise<ScanResult> {
     const startTime = Date.now();
     
     try {
-      // Validate QR code format
-      if (!validateQRFormat(qrData.data)) {
-        throw createScanError(
-          'INVALID_QR_FORMAT',
-          'QR code format is not valid for Curmunchkins',
-          { qrData: qrData.data }
-        );
-      }
+      // Read the bare code or curmunchkins:// link; throws on bad formats and versions
+      const payload = parseQRPayload(qrData.data);
+
+      // Story lookups during parsing come from the manifest
+      await this.ensureStoryManifest();
 
       // Parse attachment code
-      const attachmentCode = parseAttachmentCode(qrData.data);
+      const attachmentCode = parseAttachmentCode(payload.code);
       if (!attachmentCode) {
         throw createScanError(
           'ATTACHMENT_NOT_RECOGNIZED',
@@ -43,27 +56,25 @@ export class ScannerService {
       }
 
       // Validate attachment code
-      const isValid = await this.validateAttachment(attachmentCode);
-      if (!isValid) {
-        throw createScanError(
-          'ATTACHMENT_NOT_RECOGNIZED',
-          'Attachment code validation failed',
-          { attachmentCode: attachmentCode.code }
-        );
-      }
+      const attachment = await this.validateAttachment(attachmentCode, payload.signature, payload.terms);
+
+      // Check the redemption ledger; a rescan reopens the child's earlier story
+      const redemption = await this.checkRedemption(attachment);
 
       // Generate unlock data
-      const unlockData = this.generateUnlockData(attachmentCode);
+      const unlockData = await this.generateUnlockData(attachment, payload.suggestedStoryId, redemption);
+      await this.recordRedemption(attachment, unlockData.storyId);
       
       const processingTime = Date.now() - startTime;
 
       return {
         success: true,
-        method: 'camera',
+        method,
         timestamp: Date.now(),
         data: {
           qrCode: qrData,
-          attachment: attachmentCode,
+          payload,
+          attachment,
           unlockData,
         },
         metrics: {
@@ -80,7 +91,7 @@ export class ScannerService {
       
       return {
         success: false,
-        method: 'camera',
+        method,
         timestamp: Date.now(),
         error: error instanceof Error ? {
           code: 'UNKNOWN_ERROR',
@@ -108,7 +119,7 @@ export class ScannerService {
     
     try {
       // Clean and validate code format
-      const cleanCode = code.replace(/[^A-Z0-9]/g, '').toUpperCase();
+      const cleanCode = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
       
       if (!validateQRFormat(cleanCode)) {
         throw createScanError(
@@ -118,6 +129,9 @@ export class ScannerService {
         );
       }
 
+      // Story lookups during parsing come from the manifest
+      await this.ensureStoryManifest();
+
       // Parse attachment code
       const attachmentCode = parseAttachmentCode(cleanCode);
       if (!attachmentCode) {
@@ -128,18 +142,15 @@ export class ScannerService {
         );
       }
 
-      // Validate attachment code
-      const isValid = await this.validateAttachment(attachmentCode);
-      if (!isValid) {
-        throw createScanError(
-          'ATTACHMENT_NOT_RECOGNIZED',
-          'Attachment code validation failed',
-          { attachmentCode: attachmentCode.code }
-        );
-      }
+      // Typed codes have no signature; validation looks it up
+      const attachment = await this.validateAttachment(attachmentCode);
+
+      // Check the redemption ledger; a rescan reopens the child's earlier story
+      const redemption = await this.checkRedemption(attachment);
 
       // Generate unlock data
-      const unlockData = this.generateUnlockData(attachmentCode);
+      const unlockData = await this.generateUnlockData(attachment, undefined, redemption);
+      await this.recordRedemption(attachment, unlockData.storyId);
       
       const processingTime = Date.now() - startTime;
 
@@ -177,7 +188,7 @@ export class ScannerService {
         timestamp: Date.now(),
         data: {
           qrCode: mockQRData,
-          attachment: attachmentCode,
+          attachment,
           unlockData,
         },
         metrics: {
@@ -214,42 +225,203 @@ export class ScannerService {
     }
   }
 
+  /**
+   * Make sure the story manifest is loaded; scanning still works with no stories if it can't be
+   */
+  private async ensureStoryManifest(): Promise<void> {
+    try {
+      await loadStoryManifest();
+    } catch (error) {
+      console.warn('Story manifest unavailable while scanning:', error);
+    }
+  }
+
   /**
    * Validate attachment code against business rules
+   * Throws a VALIDATION_FAILED or ATTACHMENT_NOT_RECOGNIZED ScanError with the reason;
+   * the expiry and per-device limit come from the terms the signature covers.
    */
-  private async validateAttachment(attachmentCode: AttachmentCode): Promise<boolean> {
-    // In a real implementation, this would validate against:
-    // - Server-side whitelist
-    // - Expiration dates
-    // - Usage limits
-    // - Regional restrictions
-    
-    // For now, accept all properly formatted codes
-    return attachmentCode.validation.isValid;
+  private async validateAttachment(
+    attachmentCode: AttachmentCode,
+    signature?: string,
+    terms?: string
+  ): Promise<AttachmentCode> {
+    const signedCode = signature
+      ? { code: attachmentCode.code, signature, terms }
+      : await this.findSignedCode(attachmentCode.code);
+    const authenticity = await checkAttachmentAuthenticity(
+      attachmentCode.code,
+      attachmentCode.attachmentType,
+      signedCode?.signature,
+      signedCode?.terms
+    );
+
+    if (!authenticity.authentic) {
+      throw createScanError(
+        authenticity.errorCode,
+        authenticity.message,
+        { attachmentCode: attachmentCode.code, reason: authenticity.reason }
+      );
+    }
+
+    return {
+      ...attachmentCode,
+      validation: {
+        ...attachmentCode.validation,
+        ...authenticity.terms,
+        signature: signedCode?.signature,
+        isValid: true,
+      },
+    };
+  }
+
+  /**
+   * Signed record for a code that came without its signature
+   * Throws a NETWORK_ERROR ScanError when the lookup server can't be reached.
+   */
+  private async findSignedCode(code: string): Promise<SignedAttachmentCode | null> {
+    try {
+      return await findSignedCode(code);
+    } catch (error) {
+      console.warn('Attachment code lookup failed:', error);
+      throw createScanError(
+        'NETWORK_ERROR',
+        `Attachment code ${code} could not be looked up`,
+        { attachmentCode: code, reason: 'lookup_unavailable' }
+      );
+    }
+  }
+
+  /**
+   * Enforce expiry and the per-device limit from the code's validation data
+   * Returns the ledger entry when this child has redeemed the code before; an
+   * expired code still reopens what it already unlocked.
+   */
+  private async checkRedemption(attachmentCode: AttachmentCode): Promise<AttachmentRedemption | null> {
+    const userId = await this.getLedgerUserId();
+    const redemption = await getRedemption(attachmentCode.metadata.serialNumber);
+
+    if (redemption?.redeemedBy.includes(userId)) {
+      return redemption;
+    }
+
+    const { expiresAt, maxRedemptionsPerDevice = 1 } = attachmentCode.validation;
+    if (expiresAt !== undefined && Date.now() > expiresAt) {
+      throw createScanError(
+        'ATTACHMENT_EXPIRED',
+        `Attachment code ${attachmentCode.code} expired on ${new Date(expiresAt).toISOString()}`,
+        { attachmentCode: attachmentCode.code, expiresAt }
+      );
+    }
+
+    if (redemption && redemption.redeemedBy.length >= maxRedemptionsPerDevice) {
+      throw createScanError(
+        'ATTACHMENT_ALREADY_USED',
+        `Attachment code ${attachmentCode.code} has already been redeemed on this device`,
+        { attachmentCode: attachmentCode.code, redeemedBy: redemption.redeemedBy.length, maxRedemptionsPerDevice }
+      );
+    }
+
+    return null;
+  }
+
+  /**
+   * Child profile the redemption ledger counts against the per-device limit
+   */
+  private async getLedgerUserId(): Promise<string> {
+    const { useAppStore } = await import('@/stores/appStore');
+    const { currentUser, deviceId, generateDeviceId } = useAppStore.getState();
+    return currentUser?.id ?? deviceId ?? generateDeviceId();
+  }
+
+  /**
+   * Add this scan to the redemption ledger
+   */
+  private async recordRedemption(attachmentCode: AttachmentCode, storyId: string): Promise<void> {
+    const userId = await this.getLedgerUserId();
+    const now = Date.now();
+
+    try {
+      const existing = await getRedemption(attachmentCode.metadata.serialNumber);
+      await saveRedemption({
+        serialNumber: attachmentCode.metadata.serialNumber,
+        code: attachmentCode.code,
+        attachmentType: attachmentCode.attachmentType,
+        storyId,
+        redeemedBy: existing?.redeemedBy.includes(userId)
+          ? existing.redeemedBy
+          : [...(existing?.redeemedBy ?? []), userId],
+        firstRedeemedAt: existing?.firstRedeemedAt ?? now,
+        lastScannedAt: now,
+        scanCount: (existing?.scanCount ?? 0) + 1,
+      });
+    } catch (error) {
+      // The story is already unlocked; a missed ledger entry shouldn't take it away
+      console.warn('Redemption could not be recorded:', error);
+    }
   }
 
   /**
    * Generate unlock data for a valid attachment
    */
-  private generateUnlockData(attachmentCode: AttachmentCode) {
-    // Select the first available story from the attachment's story list
-    const storyId = attachmentCode.content.storyIds[0] || `${attachmentCode.attachmentType}-story-001`;
+  private async generateUnlockData(
+    attachmentCode: AttachmentCode,
+    suggestedStoryId?: string,
+    redemption?: AttachmentRedemption | null
+  ): Promise<ScanUnlockData> {
+    // The next chapter of a quest wins over the attachment's standalone stories
+    const questMatch = await this.findQuestChapter(attachmentCode);
+    const questChapter = questMatch?.quest.chapters[questMatch.chapterIndex];
+
+    // Packaging can suggest a story, but only one this attachment unlocks anyway
+    const suggestedStory = suggestedStoryId && attachmentCode.content.storyIds.includes(suggestedStoryId)
+      ? suggestedStoryId
+      : undefined;
+
+    // Otherwise reopen what this code unlocked before, so saved progress picks up where it left off,
+    // or select the first available story from the attachment's story list
+    const storyId = questChapter?.storyId
+      || redemption?.storyId
+      || suggestedStory
+      || attachmentCode.content.storyIds[0]
+      || `${attachmentCode.attachmentType}-story-001`;
     
-    // Extract character ID from the story ID (e.g., 'silo' from 'silo-fidget-feet-001')
-    const characterId = storyId.split('-')[0] || attachmentCode.content.characterCompatibility[0] || 'silo';
+    // Use the story's narrator from the manifest
+    const characterId = getManifestEntry(storyId)?.characterId || attachmentCode.content.characterCompatibility[0] || 'silo';
     
-    // Check if this is new content (would check against user's progress)
-    const newContent = true; // Mock: assume always new for demo
-    const previouslyUnlocked = false; // Mock: assume never unlocked before
+    // A rescan can still bring new content when a quest moves on to its next chapter
+    const previouslyUnlocked = Boolean(redemption);
+    const newContent = redemption?.storyId !== storyId;
     
     return {
       storyId,
       characterId,
       newContent,
       previouslyUnlocked,
+      quest: questMatch ? {
+        questId: questMatch.quest.id,
+        chapterIndex: questMatch.chapterIndex,
+        totalChapters: questMatch.quest.chapters.length,
+      } : undefined,
     };
   }
 
+  /**
+   * Find the quest chapter this attachment opens for the child
+   */
+  private async findQuestChapter(attachmentCode: AttachmentCode) {
+    try {
+      const completedStories = await getCompletedStories('current-user'); // Would get from app store
+      return findQuestChapterForScan(
+        attachmentCode.attachmentType,
+        completedStories.map(progress => progress.storyId)
+      );
+    } catch (error) {
+      console.warn('Quest lookup failed while scanning:', error);
+      return null;
+    }
+  }
+
   /**
    * Get scan statistics for analytics
    */
@@ -3,8 +3,8 @@
  * Handles QR code detection, validation, and attachment code processing
  */
 
-import type { QRCodeData, AttachmentCode, ScanError } from '@/types';
-import { ATTACHMENT_STORIES } from './attachmentWhitelist';
+import type { AttachmentCode, AttachmentType, ScanError } from '@/types';
+import { getStoryIdsForAttachment } from '@/features/storytelling/storyManifest';
 
 /**
  * Validate QR code format for Curmunchkins attachments
@@ -16,22 +16,30 @@ export const validateQRFormat = (data: string): boolean => {
 };
 
 /**
- * Parse attachment code from QR data
+ * Split a code as printed in a QR code, CMFF123456A01-1G2.<signature>, into the
+ * code, its optional terms and its signature; older labels have the code alone
  */
-export const parseAttachmentCode = (qrData: string): AttachmentCode | null => {
-  if (!validateQRFormat(qrData)) {
+export const parsePrintedCode = (data: string): { code: string; terms?: string; signature?: string } | null => {
+  const match = data.trim()
+    .match(/^(CM[A-Z]{2}\d{6}[A-Z]\d{2})(?:-([0-9A-Z]{3}))?(?:\.([A-Za-z0-9_-]+))?$/);
+  if (!match) {
     return null;
   }
 
-  // Extract components from code
-  const prefix = qrData.slice(0, 2); // "CM"
-  const attachmentTypeCode = qrData.slice(2, 4); // "FF", "WA", etc.
-  const serialNumber = qrData.slice(4, 10); // "123456"
-  const qualityGrade = qrData.slice(10, 11); // "A", "B", "C"
-  const version = qrData.slice(11, 13); // "01"
+  const [, code, terms, signature] = match;
+  return {
+    code,
+    ...(terms && { terms }),
+    ...(signature && { signature }),
+  };
+};
 
+/**
+ * Attachment type encoded in a code's two letters after "CM"
+ */
+export const getAttachmentTypeForCode = (code: string): AttachmentType | null => {
   // Map attachment type codes to types
-  const attachmentTypeMap: Record<string, string> = {
+  const attachmentTypeMap: Record<string, AttachmentType> = {
     'FF': 'fidget_feet',
     'WA': 'weighted_arms',
     'BB': 'bouncy_braids',
@@ -42,7 +50,24 @@ export const parseAttachmentCode = (qrData: string): AttachmentCode | null => {
     'SN': 'scent_nose',
   };
 
-  const attachmentType = attachmentTypeMap[attachmentTypeCode];
+  return attachmentTypeMap[code.slice(2, 4)] || null; // "FF", "WA", etc.
+};
+
+/**
+ * Parse attachment code from QR data
+ */
+export const parseAttachmentCode = (qrData: string): AttachmentCode | null => {
+  if (!validateQRFormat(qrData)) {
+    return null;
+  }
+
+  // Extract components from code
+  const prefix = qrData.slice(0, 2); // "CM"
+  const serialNumber = qrData.slice(4, 10); // "123456"
+  const qualityGrade = qrData.slice(10, 11); // "A", "B", "C"
+  const version = qrData.slice(11, 13); // "01"
+
+  const attachmentType = getAttachmentTypeForCode(qrData);
   if (!attachmentType) {
     return null;
   }
@@ -52,11 +77,11 @@ export const parseAttachmentCode = (qrData: string): AttachmentCode | null => {
 
   return {
     code: qrData,
-    attachmentType: attachmentType as any,
+    attachmentType,
     version: `v${version}`,
     validation: {
       checksum,
-      isValid: true, // Would validate against server in real implementation
+      isValid: false, // Set once ScannerService checks the signature
     },
     metadata: {
       manufacturingDate: Date.now() - (30 * 24 * 60 * 60 * 1000), // Mock: 30 days ago
@@ -65,7 +90,7 @@ export const parseAttachmentCode = (qrData: string): AttachmentCode | null => {
       qualityGrade: qualityGrade as 'A' | 'B' | 'C',
     },
     content: {
-      storyIds: ATTACHMENT_STORIES[attachmentType] || [],
+      storyIds: getStoryIdsForAttachment(attachmentType),
       characterCompatibility: getCompatibleCharacters(attachmentType),
       ageRange: { min: 4, max: 12 },
       difficultyLevel: qualityGrade === 'A' ? 'beginner' : qualityGrade === 'B' ? 'intermediate' : 'advanced',
@@ -113,19 +138,27 @@ export const createScanError = (
   const userFriendlyMessages: Record<string, string> = {
     'QR_CODE_NOT_DETECTED': 'No QR code found. Try moving closer or improving lighting.',
     'INVALID_QR_FORMAT': 'This QR code is not a Curmunchkin attachment. Check you have the right code!',
+    'UNSUPPORTED_QR_VERSION': 'This code is from a newer Curmunchkin box. Ask a grown-up to update the app!',
     'ATTACHMENT_NOT_RECOGNIZED': 'This attachment code is not recognized. Make sure it\'s a real Curmunchkin!',
     'CAMERA_PERMISSION_DENIED': 'Camera access needed to scan codes. You can enter codes manually instead!',
     'CAMERA_NOT_AVAILABLE': 'Camera not working. Try manual code entry!',
     'NETWORK_ERROR': 'Connection problem. Check your internet and try again.',
+    'VALIDATION_FAILED': 'This code can\'t unlock anything right now. Ask a grown-up for help!',
+    'ATTACHMENT_ALREADY_USED': 'This attachment has already been used on this device. Ask a grown-up for help!',
+    'ATTACHMENT_EXPIRED': 'This code is too old to unlock new stories. Ask a grown-up for help!',
   };
 
   const suggestedActions: Record<string, string[]> = {
     'QR_CODE_NOT_DETECTED': ['Move closer to the code', 'Improve lighting', 'Hold device steady'],
     'INVALID_QR_FORMAT': ['Check you have a Curmunchkin QR code', 'Try manual entry'],
+    'UNSUPPORTED_QR_VERSION': ['Update the app', 'Type the code printed under the QR code'],
     'ATTACHMENT_NOT_RECOGNIZED': ['Verify the code is correct', 'Contact support if problem continues'],
     'CAMERA_PERMISSION_DENIED': ['Enable camera in browser settings', 'Use manual entry'],
     'CAMERA_NOT_AVAILABLE': ['Try different camera', 'Use manual entry'],
     'NETWORK_ERROR': ['Check internet connection', 'Try again in a moment'],
+    'VALIDATION_FAILED': ['Ask a grown-up to contact support', 'Try a different attachment'],
+    'ATTACHMENT_ALREADY_USED': ['Use the profile that unlocked it first', 'Try a different attachment'],
+    'ATTACHMENT_EXPIRED': ['Try a different attachment', 'Ask a grown-up to contact support'],
   };
 
   return {
@@ -144,77 +177,6 @@ export const createScanError = (
   };
 };
 
-/**
- * Simulate QR code detection (for development/demo)
- */
-export const simulateQRDetection = (
-  videoElement: HTMLVideoElement,
-  onDetected: (qrData: QRCodeData) => void
-): (() => void) => {
-  let isDetecting = false;
-  
-  const detectInterval = setInterval(() => {
-    if (isDetecting) return;
-    
-    // Simulate detection after random delay
-    const shouldDetect = Math.random() > 0.8; // 20% chance per interval
-    
-    if (shouldDetect) {
-      isDetecting = true;
-      
-      // Generate mock QR data
-      const mockCodes = [
-        'CMFF123456A01', // Fidget feet
-        'CMWA789012B02', // Weighted arms
-        'CMBB456789A03', // Bouncy braids
-      ];
-      
-      const randomCode = mockCodes[Math.floor(Math.random() * mockCodes.length)];
-      
-      const qrData: QRCodeData = {
-        data: randomCode,
-        format: 'QR_CODE',
-        quality: {
-          confidence: 0.9 + Math.random() * 0.1,
-          readability: 0.8 + Math.random() * 0.2,
-          contrast: 0.7 + Math.random() * 0.3,
-          sharpness: 0.8 + Math.random() * 0.2,
-        },
-        geometry: {
-          boundingBox: {
-            x: 100 + Math.random() * 50,
-            y: 100 + Math.random() * 50,
-            width: 200 + Math.random() * 50,
-            height: 200 + Math.random() * 50,
-          },
-          cornerPoints: {
-            topLeft: { x: 100, y: 100 },
-            topRight: { x: 300, y: 100 },
-            bottomLeft: { x: 100, y: 300 },
-            bottomRight: { x: 300, y: 300 },
-          },
-        },
-        context: {
-          timestamp: Date.now(),
-          cameraDevice: 'mock-camera',
-          scanDuration: 1000 + Math.random() * 2000,
-          attemptNumber: 1,
-          lightingConditions: 'good',
-        },
-      };
-      
-      setTimeout(() => {
-        onDetected(qrData);
-      }, 500); // Small delay to simulate processing
-    }
-  }, 2000); // Check every 2 seconds
-  
-  // Return cleanup function
-  return () => {
-    clearInterval(detectInterval);
-  };
-};
-
 /**
  * Format attachment code for display
  */
@@ -0,0 +1,229 @@
+/**
+ * Parent-facing story pack import and export
+ * Bundles the stories on this device into a pack file, or loads a pack from
+ * USB or a download so the stories play without a network connection
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Package, Upload, Download } from 'lucide-react';
+import { fileOpen, fileSave } from 'browser-fs-access';
+import { Button } from '@/components';
+import { getAllCachedStories } from '@/services/storage';
+import type { StoryContent, StoryPackImportResult } from '@/types';
+import { exportStoryPack, importStoryPack, STORY_PACK_EXTENSION } from './storyPacks';
+
+type PackStatus =
+  | { state: 'idle' }
+  | { state: 'working'; message: string }
+  | { state: 'done'; message: string; details?: string[] }
+  | { state: 'error'; message: string };
+
+interface StoryPackManagerProps {
+  className?: string;
+}
+
+const StoryPackManager: React.FC<StoryPackManagerProps> = ({ className = '' }) => {
+  const [stories, setStories] = useState<StoryContent[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [packTitle, setPackTitle] = useState('Classroom stories');
+  const [includeAudio, setIncludeAudio] = useState(true);
+  const [status, setStatus] = useState<PackStatus>({ state: 'idle' });
+  const [lastImport, setLastImport] = useState<StoryPackImportResult | null>(null);
+
+  const refreshStories = useCallback(async () => {
+    const cached = await getAllCachedStories();
+    setStories(cached.sort((a, b) => a.metadata.title.localeCompare(b.metadata.title)));
+  }, []);
+
+  useEffect(() => {
+    refreshStories();
+  }, [refreshStories]);
+
+  const toggleStory = (storyId: string) => {
+    setSelectedIds(current => {
+      const next = new Set(current);
+      if (next.has(storyId)) {
+        next.delete(storyId);
+      } else {
+        next.add(storyId);
+      }
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    const packStories = stories.filter(story => selectedIds.has(story.id));
+    if (packStories.length === 0) {
+      return;
+    }
+
+    setStatus({ state: 'working', message: 'Preparing pack…' });
+    try {
+      const { archive, missingAudio } = await exportStoryPack(packStories, {
+        title: packTitle.trim() || 'Story pack',
+        includeAudio,
+        onProgress: (completed, total) =>
+          setStatus({ state: 'working', message: `Recording narration ${completed} of ${total}…` }),
+      });
+
+      const fileName = `${(packTitle.trim() || 'story-pack').toLowerCase().replace(/[^a-z0-9]+/g, '-')}${STORY_PACK_EXTENSION}`;
+      await fileSave(archive, { fileName, extensions: [STORY_PACK_EXTENSION] });
+
+      setStatus({
+        state: 'done',
+        message: `Saved ${packStories.length} ${packStories.length === 1 ? 'story' : 'stories'} to ${fileName}`,
+        details: missingAudio > 0
+          ? [`${missingAudio} narration lines could not be recorded and will need a connection to play`]
+          : undefined,
+      });
+    } catch (error) {
+      // Closing the save dialog is not an error
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        setStatus({ state: 'idle' });
+        return;
+      }
+      console.error('Story pack export failed:', error);
+      setStatus({ state: 'error', message: 'The story pack could not be created.' });
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      const file = await fileOpen({ extensions: [STORY_PACK_EXTENSION, '.tar'], description: 'Story packs' });
+
+      setStatus({ state: 'working', message: `Checking ${file.name}…` });
+      const result = await importStoryPack(file);
+      setLastImport(result);
+      await refreshStories();
+
+      setStatus({
+        state: 'done',
+        message: `Loaded "${result.title}": ${result.storyIds.length} stories, ${result.audioImported} narration clips, ${result.imagesImported} images`,
+        details: result.skipped,
+      });
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        return;
+      }
+      console.error('Story pack import failed:', error);
+      setStatus({
+        state: 'error',
+        message: `The story pack could not be loaded. ${error instanceof Error ? error.message : ''}`.trim(),
+      });
+    }
+  };
+
+  const isWorking = status.state === 'working';
+
+  return (
+    <div className={`story-pack-manager ${className}`}>
+      <div className="flex items-center mb-4">
+        <Package className="h-6 w-6 text-purple-600 mr-3" />
+        <div>
+          <h3 className="text-lg font-bold text-gray-900 font-primary">Story Packs</h3>
+          <p className="text-sm text-gray-600">Share stories and their narration between devices, no internet needed</p>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        {/* Export */}
+        <div>
+          <label htmlFor="story-pack-title" className="block text-sm font-medium text-gray-700 mb-1">Pack name</label>
+          <input
+            id="story-pack-title"
+            type="text"
+            value={packTitle}
+            onChange={(event) => setPackTitle(event.target.value)}
+            className="w-full px-3 py-2 border-2 border-gray-200 rounded-lg text-sm focus-ring mb-3"
+          />
+
+          {stories.length === 0 ? (
+            <p className="text-sm text-gray-600 mb-3">Stories appear here once they have been opened on this device.</p>
+          ) : (
+            <ul className="max-h-48 overflow-auto mb-3 space-y-1">
+              {stories.map(story => (
+                <li key={story.id}>
+                  <label className="flex items-center text-sm text-gray-900">
+                    <input
+                      type="checkbox"
+                      className="mr-2"
+                      checked={selectedIds.has(story.id)}
+                      onChange={() => toggleStory(story.id)}
+                    />
+                    {story.metadata.title}
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <label className="flex items-center text-sm text-gray-700 mb-3">
+            <input
+              type="checkbox"
+              className="mr-2"
+              checked={includeAudio}
+              onChange={(event) => setIncludeAudio(event.target.checked)}
+            />
+            Include recorded narration
+          </label>
+
+          <Button
+            variant="primary"
+            size="small"
+            icon={Download}
+            onClick={handleExport}
+            disabled={isWorking || selectedIds.size === 0}
+          >
+            Save pack
+          </Button>
+        </div>
+
+        {/* Import */}
+        <div>
+          <p className="text-sm text-gray-600 mb-3">
+            Load a {STORY_PACK_EXTENSION} file from a USB stick or download. Only packs signed by Curmunchkins are
+            loaded, and every file is checked against the pack's content hashes before anything is stored.
+          </p>
+          <Button variant="secondary" size="small" icon={Upload} onClick={handleImport} disabled={isWorking}>
+            Load pack
+          </Button>
+
+          {lastImport && lastImport.storyIds.length > 0 && (
+            <ul className="divide-y divide-gray-100 mt-3">
+              {lastImport.storyIds.map(storyId => (
+                <li key={storyId} className="flex items-center justify-between py-2">
+                  <span className="text-sm text-gray-900">
+                    {stories.find(story => story.id === storyId)?.metadata.title ?? storyId}
+                  </span>
+                  <Link
+                    to={`/story/${storyId}`}
+                    className="px-3 py-1 bg-purple-100 text-purple-700 rounded-xl hover:bg-purple-200 transition-colors focus-ring text-sm"
+                  >
+                    Play
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {status.state !== 'idle' && (
+        <div
+          className={`mt-4 text-sm ${status.state === 'error' ? 'text-red-700' : 'text-gray-700'}`}
+          role={status.state === 'error' ? 'alert' : 'status'}
+        >
+          <p>{status.message}</p>
+          {status.state === 'done' && status.details && status.details.length > 0 && (
+            <ul className="list-disc ml-5 mt-1 text-amber-700">
+              {status.details.map(detail => <li key={detail}>{detail}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StoryPackManager;
@@ -0,0 +1,24 @@
+/**
+ * Central export point for story pack features
+ */
+
+// Export components
+export { default as StoryPackManager } from './StoryPackManager';
+
+// Export pack helpers
+export {
+  STORY_PACK_FORMAT,
+  STORY_PACK_EXTENSION,
+  exportStoryPack,
+  readStoryPack,
+  importStoryPack,
+} from './storyPacks';
+export { writeArchive, readArchive } from './packArchive';
+export {
+  STORY_PACK_PUBLIC_KEY,
+  verifyManifestSignature,
+  signStoryPack,
+} from './packSignature';
+
+// Export types
+export type { ArchiveEntry } from './packArchive';
@@ -0,0 +1,141 @@
+/**
+ * Minimal tar (ustar) reader and writer for story packs
+ * Plain tar keeps packs inspectable with standard tools and needs no compression
+ * library; narration audio and images are already compressed.
+ */
+
+export interface ArchiveEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+const BLOCK_SIZE = 512;
+const MAX_PATH_LENGTH = 100; // ustar name field; pack paths never need the prefix field
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Write a string into a header field, NUL padded
+ */
+const writeField = (header: Uint8Array, offset: number, length: number, value: string): void => {
+  header.set(encoder.encode(value).subarray(0, length), offset);
+};
+
+/**
+ * Write a number as a NUL terminated octal field
+ */
+const writeOctal = (header: Uint8Array, offset: number, length: number, value: number): void => {
+  writeField(header, offset, length, `${value.toString(8).padStart(length - 1, '0')}\0`);
+};
+
+/**
+ * Read a NUL terminated string field
+ */
+const readField = (block: Uint8Array, offset: number, length: number): string => {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return decoder.decode(end === -1 ? field : field.subarray(0, end));
+};
+
+const readOctal = (block: Uint8Array, offset: number, length: number): number => {
+  return parseInt(readField(block, offset, length).trim() || '0', 8);
+};
+
+/**
+ * Header checksum: byte sum with the checksum field counted as spaces
+ */
+const calculateChecksum = (header: Uint8Array): number => {
+  let sum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    sum += i >= 148 && i < 156 ? 32 : header[i];
+  }
+  return sum;
+};
+
+const createHeader = (path: string, size: number, modifiedAt: number): Uint8Array => {
+  const header = new Uint8Array(BLOCK_SIZE);
+  writeField(header, 0, 100, path);
+  writeOctal(header, 100, 8, 0o644); // mode
+  writeOctal(header, 108, 8, 0); // uid
+  writeOctal(header, 116, 8, 0); // gid
+  writeOctal(header, 124, 12, size);
+  writeOctal(header, 136, 12, Math.floor(modifiedAt / 1000));
+  header[156] = '0'.charCodeAt(0); // regular file
+  writeField(header, 257, 6, 'ustar');
+  writeField(header, 263, 2, '00');
+
+  const checksum = calculateChecksum(header);
+  writeField(header, 148, 8, `${checksum.toString(8).padStart(6, '0')}\0 `);
+  return header;
+};
+
+const paddedSize = (size: number): number => Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+/**
+ * Pack entries into a tar archive
+ */
+export const writeArchive = (entries: ArchiveEntry[], modifiedAt: number = Date.now()): Uint8Array => {
+  const totalSize = entries.reduce((sum, entry) => sum + BLOCK_SIZE + paddedSize(entry.data.length), 0)
+    + BLOCK_SIZE * 2; // End-of-archive marker
+  const archive = new Uint8Array(totalSize);
+
+  let offset = 0;
+  for (const entry of entries) {
+    if (encoder.encode(entry.path).length > MAX_PATH_LENGTH) {
+      throw new Error(`Archive path too long: ${entry.path}`);
+    }
+
+    archive.set(createHeader(entry.path, entry.data.length, modifiedAt), offset);
+    archive.set(entry.data, offset + BLOCK_SIZE);
+    offset += BLOCK_SIZE + paddedSize(entry.data.length);
+  }
+
+  return archive;
+};
+
+/**
+ * Read the regular files from a tar archive, keyed by path
+ */
+export const readArchive = (buffer: ArrayBuffer): Map<string, Uint8Array> => {
+  const bytes = new Uint8Array(buffer);
+  const entries = new Map<string, Uint8Array>();
+
+  let offset = 0;
+  while (offset + BLOCK_SIZE <= bytes.length) {
+    const header = bytes.subarray(offset, offset + BLOCK_SIZE);
+
+    // An all-zero block marks the end of the archive
+    if (header.every(byte => byte === 0)) {
+      break;
+    }
+
+    if (readOctal(header, 148, 8) !== calculateChecksum(header)) {
+      throw new Error(`Corrupt archive header at byte ${offset}`);
+    }
+
+    const prefix = readField(header, 345, 155);
+    const name = readField(header, 0, 100);
+    const path = prefix ? `${prefix}/${name}` : name;
+    const size = readOctal(header, 124, 12);
+    const type = String.fromCharCode(header[156]);
+
+    const dataStart = offset + BLOCK_SIZE;
+    if (dataStart + size > bytes.length) {
+      throw new Error(`Archive is truncated at ${path}`);
+    }
+
+    if (type === '0' || type === '\0') {
+      entries.set(path, bytes.slice(dataStart, dataStart + size));
+    }
+
+    offset = dataStart + paddedSize(size);
+  }
+
+  return entries;
+};
+
+export default {
+  writeArchive,
+  readArchive,
+};
@@ -0,0 +1,62 @@
+// @vitest-environment node
+/**
+ * Story pack signature tests
+ * The signature below was made with the publisher's pack signing key
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { writeArchive } from './packArchive';
+import { signStoryPack, verifyManifestSignature } from './packSignature';
+import { readStoryPack } from './storyPacks';
+
+// Reading a pack never narrates; the real service wants a browser
+vi.mock('@/services/elevenlabs', () => ({ voiceSynthesisService: {} }));
+
+const MANIFEST = '{"packFormat":1,"id":"test-pack","title":"Test pack","createdAt":0,"stories":[],"audio":[],"images":[]}';
+const SIGNATURE = 'gRbZI6Ns5NUPflPQPe5mCpGsV26_f7J7zQ3bSf2Ho3sGDGLQ11uDAxDOXepbCrBy0VGMYhAIrPej1e4QFCoIgQ';
+
+const encoder = new TextEncoder();
+
+const createPack = (manifest: string, signature?: string): Blob => {
+  const entries = [{ path: 'manifest.json', data: encoder.encode(manifest) }];
+  if (signature) {
+    entries.push({ path: 'manifest.sig', data: encoder.encode(signature) });
+  }
+  return new Blob([writeArchive(entries, 0)]);
+};
+
+describe('verifyManifestSignature', () => {
+  it('accepts a manifest signed by the publisher', async () => {
+    expect(await verifyManifestSignature(encoder.encode(MANIFEST), SIGNATURE)).toBe(true);
+  });
+
+  it('rejects a manifest changed after signing', async () => {
+    const changed = MANIFEST.replace('Test pack', 'Tampered pack');
+    expect(await verifyManifestSignature(encoder.encode(changed), SIGNATURE)).toBe(false);
+  });
+
+  it('rejects a signature that is not a P-256 signature', async () => {
+    expect(await verifyManifestSignature(encoder.encode(MANIFEST), 'not a signature')).toBe(false);
+  });
+});
+
+describe('readStoryPack', () => {
+  it('reads a signed pack', async () => {
+    const { manifest } = await readStoryPack(createPack(MANIFEST, SIGNATURE));
+    expect(manifest.id).toBe('test-pack');
+  });
+
+  it('refuses an unsigned pack', async () => {
+    await expect(readStoryPack(createPack(MANIFEST))).rejects.toThrow('not signed');
+  });
+
+  it('refuses a pack signed with another key', async () => {
+    const { privateKey } = await crypto.subtle.generateKey(
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['sign', 'verify']
+    );
+    const pack = await signStoryPack(createPack(MANIFEST), privateKey);
+    await expect(readStoryPack(pack)).rejects.toThrow('signature is not valid');
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Story pack signatures
+ * The publisher signs each pack's manifest.json with an ECDSA P-256 key and
+ * ships the signature as manifest.sig. The app only bundles the public half,
+ * so a pack can't be made up or altered on a device. The manifest lists a
+ * content hash for every file, so its signature covers the whole pack.
+ */
+
+import { writeArchive, readArchive } from './packArchive';
+
+/**
+ * Public key for story pack signatures (JWK, ECDSA P-256)
+ */
+export const STORY_PACK_PUBLIC_KEY: JsonWebKey = {
+  kty: 'EC',
+  crv: 'P-256',
+  x: 'eJIr6IlCq2GbhGnmdSeET0tJQpJLJoY3apdYPYoSXH0',
+  y: 'TrpD5AjD8ggYzkdib40da78AQd2Pci4nu4slrXVrROA',
+};
+
+export const MANIFEST_PATH = 'manifest.json';
+export const MANIFEST_SIGNATURE_PATH = 'manifest.sig';
+
+let publicKeyPromise: Promise<CryptoKey> | null = null;
+
+const getPublicKey = (): Promise<CryptoKey> => {
+  if (!publicKeyPromise) {
+    publicKeyPromise = crypto.subtle.importKey(
+      'jwk',
+      STORY_PACK_PUBLIC_KEY,
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+    // Let a later call retry if the import failed
+    publicKeyPromise.catch(() => {
+      publicKeyPromise = null;
+    });
+  }
+  return publicKeyPromise;
+};
+
+const decodeBase64Url = (value: string): Uint8Array | null => {
+  try {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  } catch {
+    return null;
+  }
+};
+
+const encodeBase64Url = (bytes: Uint8Array): string => {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+};
+
+/**
+ * Check a pack's manifest against its signature and the bundled public key
+ * Throws when Web Crypto is unavailable, so callers can tell that apart from a forgery.
+ */
+export const verifyManifestSignature = async (manifestData: Uint8Array, signature: string): Promise<boolean> => {
+  const signatureBytes = decodeBase64Url(signature.trim());
+  // P-256 signatures are r and s, 32 bytes each
+  if (!signatureBytes || signatureBytes.length !== 64) {
+    return false;
+  }
+
+  return crypto.subtle.verify(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    await getPublicKey(),
+    signatureBytes,
+    manifestData
+  );
+};
+
+/**
+ * Add manifest.sig to an exported pack (for the publisher's signing tools,
+ * which hold the private key; the app never does)
+ */
+export const signStoryPack = async (archive: Blob, privateKey: CryptoKey): Promise<Blob> => {
+  const files = readArchive(await archive.arrayBuffer());
+  const manifestData = files.get(MANIFEST_PATH);
+  if (!manifestData) {
+    throw new Error('Not a story pack: manifest.json is missing');
+  }
+
+  const signature = new Uint8Array(await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    privateKey,
+    manifestData
+  ));
+  files.set(MANIFEST_SIGNATURE_PATH, new TextEncoder().encode(encodeBase64Url(signature)));
+
+  const entries = [...files].map(([path, data]) => ({ path, data }));
+  return new Blob([writeArchive(entries)], { type: 'application/x-tar' });
+};
+
+export default {
+  STORY_PACK_PUBLIC_KEY,
+  MANIFEST_PATH,
+  MANIFEST_SIGNATURE_PATH,
+  verifyManifestSignature,
+  signStoryPack,
+};
@@ -0,0 +1,420 @@
+/**
+ * Story packs for Curmunchkins Mystery Box Explorer
+ * Exports stories with pre-rendered narration and images as one archive, and
+ * imports packs into IndexedDB so devices can play them with no network or API key
+ * Only packs signed by the publisher are imported (see packSignature.ts).
+ */
+
+import type {
+  AudioCache,
+  EmotionType,
+  MunchieCharacter,
+  StoryContent,
+  StoryPackAudioEntry,
+  StoryPackExportOptions,
+  StoryPackExportResult,
+  StoryPackImageEntry,
+  StoryPackImportResult,
+  StoryPackManifest,
+  StoryPackStoryEntry,
+} from '@/types';
+import { DEFAULT_VOICE_SETTINGS } from '@/types';
+import {
+  cacheAsset,
+  cacheAudio,
+  cacheStory,
+  getCachedStory,
+  getAssetsByType,
+  getNarrationCacheKey,
+} from '@/services/storage';
+import { voiceSynthesisService } from '@/services/elevenlabs';
+import { validateStoryGraph, summarizeValidationReport } from '@/features/storytelling/storyValidator';
+import { initializeVariables, interpolateText } from '@/features/storytelling/storyVariables';
+import { loadStoryManifest, getManifestEntry } from '@/features/storytelling/storyManifest';
+import { compareVersions, isNewerVersion } from '@/features/storytelling/storyMigration';
+import { writeArchive, readArchive, type ArchiveEntry } from './packArchive';
+import { MANIFEST_PATH, MANIFEST_SIGNATURE_PATH, verifyManifestSignature } from './packSignature';
+
+// Bumped when the archive layout changes
+export const STORY_PACK_FORMAT = 1;
+export const STORY_PACK_EXTENSION = '.cmpack';
+
+// Longest file name kept from an ID inside the archive
+const MAX_NAME_LENGTH = 60;
+
+interface NarrationLine {
+  characterId: MunchieCharacter;
+  emotion: EmotionType;
+  text: string;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * SHA-256 (hex) of a file in the pack
+ */
+const calculateDataHash = async (data: Uint8Array): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+/**
+ * Turn an ID into a short, portable file name
+ */
+const toFileName = (id: string): string => {
+  return id.toLowerCase().replace(/[^a-z0-9._-]+/g, '-').slice(0, MAX_NAME_LENGTH);
+};
+
+/**
+ * Every line a story narrates, for each narrator
+ * Placeholder text is rendered with the story's default variable values; lines
+ * that change at runtime (e.g. a child's chosen name) use live narration instead.
+ */
+const getNarrationLines = (story: StoryContent, characters: MunchieCharacter[]): NarrationLine[] => {
+  const defaults = initializeVariables(story);
+  const lines = new Map<string, NarrationLine>();
+
+  for (const node of Object.values(story.nodes)) {
+    const { content } = node;
+    const texts = [content.text, ...(content.textVariants || []).map(variant => variant.text)];
+
+    for (const rawText of texts) {
+      const text = interpolateText(rawText, defaults).trim();
+      if (!text) {
+        continue;
+      }
+
+      for (const characterId of characters) {
+        lines.set(`${characterId}|${content.voiceEmotion}|${text}`, {
+          characterId,
+          emotion: content.voiceEmotion,
+          text,
+        });
+      }
+    }
+  }
+
+  return [...lines.values()];
+};
+
+/**
+ * Render one line of narration for the pack
+ * Only audio with ElevenLabs timing is packed; without it the client has fallen
+ * back to placeholder audio, which must never be shipped to a classroom.
+ */
+const renderNarration = async (
+  line: NarrationLine
+): Promise<{ data: Uint8Array; duration: number; wordTimings: StoryPackAudioEntry['wordTimings'] } | null> => {
+  try {
+    const response = await voiceSynthesisService.synthesizeSpeech({
+      text: line.text,
+      characterId: line.characterId,
+      emotion: line.emotion,
+      priority: 'low',
+    });
+    URL.revokeObjectURL(response.audioUrl);
+
+    if (!response.audioBuffer || response.timingSource !== 'alignment') {
+      return null;
+    }
+
+    return {
+      data: new Uint8Array(response.audioBuffer),
+      duration: response.duration,
+      wordTimings: response.wordTimings,
+    };
+  } catch (error) {
+    console.warn(`Narration not rendered for ${line.characterId}: "${line.text.slice(0, 40)}"`, error);
+    return null;
+  }
+};
+
+/**
+ * Build a story pack from loaded stories
+ * The pack is unsigned; other devices only load it once the publisher has signed it.
+ */
+export const exportStoryPack = async (
+  stories: StoryContent[],
+  options: StoryPackExportOptions
+): Promise<StoryPackExportResult> => {
+  const { includeAudio = true, includeImages = true, onProgress } = options;
+  const files: ArchiveEntry[] = [];
+  const storyEntries: StoryPackStoryEntry[] = [];
+  const audioEntries: StoryPackAudioEntry[] = [];
+  const imageEntries: StoryPackImageEntry[] = [];
+  let missingAudio = 0;
+
+  // Stories
+  for (const [index, story] of stories.entries()) {
+    const path = `stories/${index}-${toFileName(story.id)}.json`;
+    const data = encoder.encode(JSON.stringify(story, null, 2));
+    files.push({ path, data });
+    storyEntries.push({
+      id: story.id,
+      path,
+      title: story.metadata.title,
+      version: story.version,
+      characterId: story.characterId,
+      contentHash: await calculateDataHash(data),
+    });
+  }
+
+  // Narration for each segment and narrator, shared between stories that repeat a line
+  if (includeAudio) {
+    const lines = new Map<string, NarrationLine>();
+    for (const story of stories) {
+      const characters = [...new Set([story.characterId, ...(options.characters || [])])];
+      for (const line of getNarrationLines(story, characters)) {
+        lines.set(await getNarrationCacheKey(line.characterId, line.emotion, line.text), line);
+      }
+    }
+
+    let completed = 0;
+    for (const [key, line] of lines) {
+      const rendered = await renderNarration(line);
+      onProgress?.(++completed, lines.size);
+
+      if (!rendered) {
+        missingAudio++;
+        continue;
+      }
+
+      const path = `audio/${key}.mp3`;
+      files.push({ path, data: rendered.data });
+      audioEntries.push({
+        key,
+        path,
+        characterId: line.characterId,
+        emotion: line.emotion,
+        text: line.text,
+        duration: rendered.duration,
+        wordTimings: rendered.wordTimings,
+        contentHash: await calculateDataHash(rendered.data),
+      });
+    }
+  }
+
+  // Cached images for these stories and their characters
+  if (includeImages) {
+    const storyIds = new Set(stories.map(story => story.id));
+    const characterIds = new Set<string>(stories.map(story => story.characterId));
+    const images = (await getAssetsByType('image')).filter(asset =>
+      (asset.metadata.storyId && storyIds.has(asset.metadata.storyId)) ||
+      (asset.metadata.characterId && characterIds.has(asset.metadata.characterId))
+    );
+
+    for (const [index, image] of images.entries()) {
+      const path = `images/${index}-${toFileName(image.id)}`;
+      const data = new Uint8Array(image.data);
+      files.push({ path, data });
+      imageEntries.push({
+        id: image.id,
+        path,
+        mimeType: image.metadata.mimeType,
+        characterId: image.metadata.characterId,
+        storyId: image.metadata.storyId,
+        contentHash: await calculateDataHash(data),
+      });
+    }
+  }
+
+  const manifest: StoryPackManifest = {
+    packFormat: STORY_PACK_FORMAT,
+    id: crypto.randomUUID(),
+    title: options.title,
+    description: options.description,
+    createdAt: Date.now(),
+    stories: storyEntries,
+    audio: audioEntries,
+    images: imageEntries,
+  };
+
+  const archive = writeArchive([
+    { path: MANIFEST_PATH, data: encoder.encode(JSON.stringify(manifest, null, 2)) },
+    ...files,
+  ]);
+
+  console.log(
+    `Story pack exported: ${storyEntries.length} stories, ${audioEntries.length} narration clips, ` +
+    `${imageEntries.length} images (${missingAudio} lines left to live narration)`
+  );
+
+  return {
+    manifest,
+    archive: new Blob([archive], { type: 'application/x-tar' }),
+    missingAudio,
+  };
+};
+
+/**
+ * Read a pack's manifest, check its signature and check every file against its content hash
+ * Nothing is stored unless the whole pack is signed and intact.
+ */
+export const readStoryPack = async (
+  file: Blob
+): Promise<{ manifest: StoryPackManifest; files: Map<string, Uint8Array> }> => {
+  const files = readArchive(await file.arrayBuffer());
+
+  const manifestData = files.get(MANIFEST_PATH);
+  if (!manifestData) {
+    throw new Error('Not a story pack: manifest.json is missing');
+  }
+
+  const signature = files.get(MANIFEST_SIGNATURE_PATH);
+  if (!signature) {
+    throw new Error('Story pack is not signed by the publisher');
+  }
+  if (!await verifyManifestSignature(manifestData, decoder.decode(signature))) {
+    throw new Error('Story pack signature is not valid');
+  }
+
+  const manifest: StoryPackManifest = JSON.parse(decoder.decode(manifestData));
+  if (manifest.packFormat !== STORY_PACK_FORMAT) {
+    throw new Error(`Unsupported story pack format: ${manifest.packFormat}`);
+  }
+
+  for (const entry of [...manifest.stories, ...manifest.audio, ...manifest.images]) {
+    const data = files.get(entry.path);
+    if (!data) {
+      throw new Error(`Story pack is missing ${entry.path}`);
+    }
+    if (await calculateDataHash(data) !== entry.contentHash) {
+      throw new Error(`Content hash mismatch for ${entry.path}`);
+    }
+  }
+
+  return { manifest, files };
+};
+
+/**
+ * Why a pack story may not replace the copy already on the device, or null if it may
+ * Published stories are only replaced by a newer version, and no story goes back a version.
+ */
+const getReplacementProblem = async (story: StoryContent): Promise<string | null> => {
+  const published = getManifestEntry(story.id);
+  if (published && !isNewerVersion(story.version, published.version)) {
+    return `version ${story.version} is not newer than the published version ${published.version}`;
+  }
+
+  const cached = await getCachedStory(story.id);
+  if (cached && compareVersions(story.version, cached.version) < 0) {
+    return `version ${story.version} is older than version ${cached.version} on this device`;
+  }
+
+  return null;
+};
+
+/**
+ * Import a story pack into the stories, audioCache and assets stores
+ */
+export const importStoryPack = async (file: Blob): Promise<StoryPackImportResult> => {
+  const { manifest, files } = await readStoryPack(file);
+  try {
+    await loadStoryManifest();
+  } catch {
+    // The stored manifest, if any, still lists the published stories
+  }
+  const now = Date.now();
+  const result: StoryPackImportResult = {
+    packId: manifest.id,
+    title: manifest.title,
+    storyIds: [],
+    audioImported: 0,
+    imagesImported: 0,
+    skipped: [],
+  };
+
+  for (const entry of manifest.stories) {
+    try {
+      const story: StoryContent = JSON.parse(decoder.decode(files.get(entry.path)!));
+      if (story.id !== entry.id) {
+        throw new Error(`file holds story ${story.id}`);
+      }
+
+      const report = validateStoryGraph(story);
+      if (!report.isValid) {
+        throw new Error(summarizeValidationReport(report));
+      }
+
+      const replacementProblem = await getReplacementProblem(story);
+      if (replacementProblem) {
+        throw new Error(replacementProblem);
+      }
+
+      await cacheStory(story);
+      result.storyIds.push(story.id);
+    } catch (error) {
+      result.skipped.push(`Story ${entry.id}: ${error instanceof Error ? error.message : 'could not be stored'}`);
+    }
+  }
+
+  for (const entry of manifest.audio) {
+    const data = files.get(entry.path)!;
+    const audio: AudioCache = {
+      key: entry.key,
+      audioBuffer: data.slice().buffer,
+      metadata: {
+        characterId: entry.characterId,
+        emotion: entry.emotion,
+        text: entry.text,
+        duration: entry.duration,
+        settings: DEFAULT_VOICE_SETTINGS,
+        wordTimings: entry.wordTimings,
+        packId: manifest.id,
+      },
+      createdAt: now,
+      lastAccessed: now,
+      accessCount: 0,
+      size: data.length,
+    };
+
+    try {
+      await cacheAudio(audio);
+      result.audioImported++;
+    } catch (error) {
+      result.skipped.push(`Narration "${entry.text.slice(0, 40)}": ${error instanceof Error ? error.message : 'could not be stored'}`);
+    }
+  }
+
+  for (const entry of manifest.images) {
+    const data = files.get(entry.path)!;
+
+    try {
+      await cacheAsset({
+        id: entry.id,
+        type: 'image',
+        data: data.slice().buffer,
+        metadata: {
+          mimeType: entry.mimeType,
+          size: data.length,
+          createdAt: now,
+          lastAccessed: now,
+          accessCount: 0,
+          characterId: entry.characterId,
+          storyId: entry.storyId,
+        },
+      });
+      result.imagesImported++;
+    } catch (error) {
+      result.skipped.push(`Image ${entry.id}: ${error instanceof Error ? error.message : 'could not be stored'}`);
+    }
+  }
+
+  console.log(
+    `Story pack imported: ${manifest.title} (${result.storyIds.length} stories, ` +
+    `${result.audioImported} narration clips, ${result.imagesImported} images)`
+  );
+
+  return result;
+};
+
+export default {
+  STORY_PACK_FORMAT,
+  STORY_PACK_EXTENSION,
+  exportStoryPack,
+  readStoryPack,
+  importStoryPack,
+};
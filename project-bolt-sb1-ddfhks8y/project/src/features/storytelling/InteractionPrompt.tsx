@@ -6,6 +6,7 @@
 import React, { useState, useEffect } from 'react';
 import { Mic, MicOff, Volume2, RotateCcw } from 'lucide-react';
 import { Button, Card } from '@/components';
+import { useMessages } from '@/i18n';
 import type { VoicePrompt } from '@/types';
 
 interface InteractionPromptProps {
@@ -26,6 +27,7 @@ const InteractionPrompt: React.FC<InteractionPromptProps> = ({
   const [timeRemaining, setTimeRemaining] = useState(0);
   const [userResponse, setUserResponse] = useState('');
   const [showManualInput, setShowManualInput] = useState(false);
+  const { t } = useMessages();
 
   const currentPrompt = prompts[currentPromptIndex];
 
@@ -123,7 +125,7 @@ const InteractionPrompt: React.FC<InteractionPromptProps> = ({
         {/* Expected responses hint */}
         {currentPrompt.expectedResponses.length > 0 && (
           <p className="text-sm text-blue-700 mt-2">
-            Try saying: "{currentPrompt.expectedResponses[0]}"
+            {t('prompt.trySaying', { response: currentPrompt.expectedResponses[0] })}
           </p>
         )}
       </div>
@@ -132,7 +134,7 @@ const InteractionPrompt: React.FC<InteractionPromptProps> = ({
       {userResponse && (
         <div className="text-center mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg">
           <p className="text-amber-800">
-            I heard: "{userResponse}"
+            {t('prompt.heard', { response: userResponse })}
           </p>
           <p className="text-sm text-amber-700 mt-1">
             {currentPrompt.encouragement}
@@ -150,7 +152,7 @@ const InteractionPrompt: React.FC<InteractionPromptProps> = ({
           disabled={timeRemaining === 0}
           className={isListening ? 'animate-pulse' : ''}
         >
-          {isListening ? 'Listening...' : 'Speak'}
+          {isListening ? t('prompt.listening') : t('prompt.speak')}
         </Button>
 
         <Button
@@ -158,9 +160,9 @@ const InteractionPrompt: React.FC<InteractionPromptProps> = ({
           size="touch"
           icon={RotateCcw}
           onClick={handleRepeatPrompt}
-          aria-label="Repeat prompt"
+          aria-label={t('prompt.repeatLabel')}
         >
-          Repeat
+          {t('prompt.repeat')}
         </Button>
       </div>
 
@@ -170,7 +172,7 @@ const InteractionPrompt: React.FC<InteractionPromptProps> = ({
           onClick={() => setShowManualInput(!showManualInput)}
           className="text-sm text-blue-600 hover:text-blue-800 underline"
         >
-          {showManualInput ? 'Hide' : 'Type your response instead'}
+          {showManualInput ? t('prompt.hideTyping') : t('prompt.typeInstead')}
         </button>
       </div>
 
@@ -181,7 +183,7 @@ const InteractionPrompt: React.FC<InteractionPromptProps> = ({
               type="text"
               value={userResponse}
               onChange={(e) => setUserResponse(e.target.value)}
-              placeholder="Type your response here..."
+              placeholder={t('prompt.typePlaceholder')}
               className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
             />
             <Button
@@ -190,7 +192,7 @@ const InteractionPrompt: React.FC<InteractionPromptProps> = ({
               size="medium"
               disabled={!userResponse.trim()}
             >
-              Send
+              {t('prompt.send')}
             </Button>
           </div>
         </form>
@@ -205,8 +207,8 @@ const InteractionPrompt: React.FC<InteractionPromptProps> = ({
           }`} />
           <span>
             {timeRemaining > 0 
-              ? `${timeRemaining} seconds remaining`
-              : 'Time\'s up! The story will continue...'
+              ? t('prompt.secondsRemaining', { seconds: timeRemaining })
+              : t('prompt.timeUp')
             }
           </span>
         </div>
@@ -0,0 +1,99 @@
+/**
+ * Replay controls for reviewing a recorded story session
+ * Shows what the child chose on each node and how long they took
+ */
+
+import React from 'react';
+import { ChevronLeft, ChevronRight, Play, Pause, Clock } from 'lucide-react';
+import { Button } from '@/components';
+import type { ReplayStep } from './storyReplay';
+import { describeDecision } from './storyReplay';
+
+interface ReplayControlsProps {
+  step: ReplayStep;
+  stepIndex: number;
+  totalSteps: number;
+  isPlaying: boolean;
+  onPlay: () => void;
+  onPause: () => void;
+  onPrevious: () => void;
+  onNext: () => void;
+}
+
+const formatSeconds = (milliseconds: number): string => `${(milliseconds / 1000).toFixed(1)}s`;
+
+const ReplayControls: React.FC<ReplayControlsProps> = ({
+  step,
+  stepIndex,
+  totalSteps,
+  isPlaying,
+  onPlay,
+  onPause,
+  onPrevious,
+  onNext,
+}) => {
+  return (
+    <div className="replay-controls">
+      {/* What happened on this node */}
+      <div className="bg-gray-50 rounded-xl p-4 mb-4" aria-live="polite">
+        {step.decisions.length > 0 ? (
+          <ul className="space-y-2">
+            {step.decisions.map(decision => (
+              <li key={decision.timestamp} className="flex items-center justify-between text-sm">
+                <span className="text-gray-900 font-medium">{describeDecision(decision)}</span>
+                <span className="flex items-center text-gray-600">
+                  <Clock className="h-4 w-4 mr-1" />
+                  {formatSeconds(decision.responseTime)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-600">The story carried on without a choice here.</p>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Button
+          variant="ghost"
+          size="touch"
+          icon={ChevronLeft}
+          onClick={onPrevious}
+          disabled={stepIndex === 0}
+          aria-label="Previous step"
+        >
+          Previous
+        </Button>
+
+        <div className="flex items-center space-x-3">
+          <Button
+            variant="primary"
+            size="touch"
+            icon={isPlaying ? Pause : Play}
+            onClick={isPlaying ? onPause : onPlay}
+            disabled={!isPlaying && stepIndex >= totalSteps - 1}
+          >
+            {isPlaying ? 'Pause' : 'Play'}
+          </Button>
+          <span className="text-sm text-gray-600">
+            Step {stepIndex + 1} of {totalSteps}
+          </span>
+        </div>
+
+        <Button
+          variant="ghost"
+          size="touch"
+          icon={ChevronRight}
+          iconPosition="right"
+          onClick={onNext}
+          disabled={stepIndex >= totalSteps - 1}
+          aria-label="Next step"
+        >
+          Next
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayControls;
@@ -0,0 +1,99 @@
+/**
+ * Sensory break card shown between story nodes
+ * Narrates the break in the character's voice and counts down the break time
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Heart } from 'lucide-react';
+import { Button, Card } from '@/components';
+import { useVoiceStore } from '@/stores';
+import { useMessages } from '@/i18n';
+import type { MunchieCharacter } from '@/types';
+import type { SensoryBreak } from './sensoryBreaks';
+
+interface SensoryBreakCardProps {
+  sensoryBreak: SensoryBreak;
+  characterId: MunchieCharacter;
+  onFinish: (skipped: boolean) => void;
+  className?: string;
+}
+
+const SensoryBreakCard: React.FC<SensoryBreakCardProps> = ({
+  sensoryBreak,
+  characterId,
+  onFinish,
+  className = '',
+}) => {
+  const { playStorySegment } = useVoiceStore();
+  const [timeRemaining, setTimeRemaining] = useState(sensoryBreak.durationSeconds);
+  const { t } = useMessages();
+
+  // Character explains the break
+  useEffect(() => {
+    playStorySegment({
+      text: sensoryBreak.segment.text,
+      characterId,
+      emotion: sensoryBreak.segment.voiceEmotion,
+    }).catch(error => console.error('Failed to narrate sensory break:', error));
+  }, [sensoryBreak, characterId, playStorySegment]);
+
+  // Break countdown
+  useEffect(() => {
+    if (timeRemaining <= 0) {
+      onFinish(false);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      setTimeRemaining(timeRemaining - 1);
+    }, 1000);
+
+    return () => clearTimeout(timer);
+  }, [timeRemaining, onFinish]);
+
+  const progressPercentage = ((sensoryBreak.durationSeconds - timeRemaining) / sensoryBreak.durationSeconds) * 100;
+
+  return (
+    <Card
+      variant="outlined"
+      padding="large"
+      className={`sensory-break text-center bg-teal-50 border-teal-200 ${className}`}
+    >
+      <div className="w-16 h-16 bg-teal-100 rounded-2xl flex items-center justify-center mx-auto mb-4 animate-soft-pulse">
+        <Heart className="h-8 w-8 text-teal-600" />
+      </div>
+
+      <h3 className="text-xl font-bold text-teal-900 mb-2 font-primary">
+        {t('break.title')}
+      </h3>
+
+      <p className="text-lg text-teal-800 mb-6" aria-live="polite">
+        {sensoryBreak.segment.text}
+      </p>
+
+      <div className="w-full bg-teal-100 rounded-full h-3 overflow-hidden mb-2">
+        <div
+          className="bg-teal-500 h-full rounded-full transition-all duration-1000 ease-linear"
+          style={{ width: `${progressPercentage}%` }}
+          role="progressbar"
+          aria-valuenow={Math.round(progressPercentage)}
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-label={t('break.secondsLeft', { seconds: timeRemaining })}
+        />
+      </div>
+      <p className="text-sm text-teal-700 mb-6">{timeRemaining}s</p>
+
+      <Button
+        variant="secondary"
+        size="touch"
+        fullWidth
+        onClick={() => onFinish(true)}
+      >
+        {t('break.ready')}
+      </Button>
+    </Card>
+  );
+};
+
+export default SensoryBreakCard;
@@ -6,7 +6,9 @@
 import React from 'react';
 import { ChevronLeft, ChevronRight, SkipForward, Flag } from 'lucide-react';
 import { Button } from '@/components';
-import type { StoryBranch } from '@/types';
+import { useMessages, isMessageKey } from '@/i18n';
+import type { MessageKey, MessageParams } from '@/i18n';
+import type { StoryChoice } from '@/types';
 
 interface StoryNavigationProps {
   canGoBack: boolean;
@@ -15,7 +17,7 @@ interface StoryNavigationProps {
   onGoForward: () => void;
   onSkip: () => void;
   isEndNode: boolean;
-  branches: StoryBranch[];
+  choices: StoryChoice[];
   onBranchSelect: (branchId: string) => void;
 }
 
@@ -26,36 +28,38 @@ const StoryNavigation: React.FC<StoryNavigationProps> = ({
   onGoForward,
   onSkip,
   isEndNode,
-  branches,
+  choices,
   onBranchSelect,
 }) => {
-  // If there are multiple branches, show choice buttons
-  if (branches.length > 1) {
+  const { t } = useMessages();
+
+  // If there are multiple choices, show choice buttons
+  if (choices.length > 1) {
     return (
       <div className="story-navigation">
         <div className="text-center mb-4">
           <h3 className="text-lg font-bold text-gray-900 mb-2 font-primary">
-            What would you like to do?
+            {t('navigation.chooseTitle')}
           </h3>
           <p className="text-gray-600 text-sm">
-            Choose your path in the story
+            {t('navigation.chooseSubtitle')}
           </p>
         </div>
         
         <div className="space-y-3">
-          {branches.map((branch, index) => (
+          {choices.map((choice, index) => (
             <Button
-              key={branch.condition}
+              key={choice.branchId}
               variant="outlined"
               size="touch"
               fullWidth
-              onClick={() => onBranchSelect(branch.condition)}
+              onClick={() => onBranchSelect(choice.branchId)}
               className="text-left justify-start hover:bg-purple-50 hover:border-purple-300"
             >
               <span className="w-6 h-6 bg-purple-100 text-purple-600 rounded-full flex items-center justify-center text-sm font-bold mr-3">
                 {index + 1}
               </span>
-              {getChoiceText(branch.condition)}
+              {getChoiceText(choice, index, t)}
             </Button>
           ))}
         </div>
@@ -74,9 +78,9 @@ const StoryNavigation: React.FC<StoryNavigationProps> = ({
           icon={ChevronLeft}
           onClick={onGoBack}
           disabled={!canGoBack}
-          aria-label="Go to previous part"
+          aria-label={t('navigation.previousLabel')}
         >
-          Previous
+          {t('navigation.previous')}
         </Button>
 
         {/* Center content */}
@@ -89,7 +93,7 @@ const StoryNavigation: React.FC<StoryNavigationProps> = ({
               onClick={onSkip}
               className="bg-green-600 hover:bg-green-700"
             >
-              Finish Story
+              {t('navigation.finish')}
             </Button>
           ) : (
             <Button
@@ -97,9 +101,9 @@ const StoryNavigation: React.FC<StoryNavigationProps> = ({
               size="touch"
               icon={SkipForward}
               onClick={onSkip}
-              aria-label="Skip to next part"
+              aria-label={t('navigation.skipLabel')}
             >
-              Continue
+              {t('navigation.continue')}
             </Button>
           )}
         </div>
@@ -112,9 +116,9 @@ const StoryNavigation: React.FC<StoryNavigationProps> = ({
           iconPosition="right"
           onClick={onGoForward}
           disabled={!canGoForward || isEndNode}
-          aria-label="Go to next part"
+          aria-label={t('navigation.nextLabel')}
         >
-          Next
+          {t('navigation.next')}
         </Button>
       </div>
 
@@ -122,10 +126,10 @@ const StoryNavigation: React.FC<StoryNavigationProps> = ({
       <div className="mt-4 text-center">
         <p className="text-xs text-gray-500">
           {isEndNode 
-            ? 'You\'ve reached the end of this story!'
+            ? t('navigation.hintEnd')
             : canGoForward 
-              ? 'Use the controls above to navigate through the story'
-              : 'Listen to the story and it will continue automatically'
+              ? t('navigation.hintControls')
+              : t('navigation.hintAuto')
           }
         </p>
       </div>
@@ -133,20 +137,17 @@ const StoryNavigation: React.FC<StoryNavigationProps> = ({
   );
 };
 
-// Helper function to convert branch conditions to readable text
-const getChoiceText = (condition: string): string => {
-  const choiceMap: Record<string, string> = {
-    'voice_response': 'Respond with your voice',
-    'continue': 'Continue the story',
-    'explore_more': 'Explore this topic more',
-    'practice_technique': 'Practice the technique',
-    'ask_question': 'Ask a question',
-    'share_feeling': 'Share how you feel',
-    'try_different_way': 'Try a different approach',
-    'take_break': 'Take a sensory break',
-  };
-
-  return choiceMap[condition] || condition.replace(/_/g, ' ');
+// Helper function to convert choice labels to readable text; expressions are never shown
+const getChoiceText = (
+  choice: StoryChoice,
+  index: number,
+  t: (key: MessageKey, params?: MessageParams) => string
+): string => {
+  if (!choice.label) {
+    return t('navigation.choiceNumber', { number: index + 1 });
+  }
+  const key = `choice.${choice.label}`;
+  return isMessageKey(key) ? t(key) : choice.label.replace(/_/g, ' ');
 };
 
 export default StoryNavigation;
\ No newline at end of file
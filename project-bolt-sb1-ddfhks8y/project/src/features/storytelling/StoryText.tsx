@@ -3,28 +3,48 @@
  * Handles text rendering with accessibility and engagement features
  */
 
-import React, { useState, useEffect } from 'react';
-import type { StorySegment } from '@/types';
+import React, { useState, useEffect, useMemo } from 'react';
+import type { StorySegment, StoryVariableValue } from '@/types';
+import { splitWords } from '@/services/elevenlabs/wordTimings';
+import { resolveSegmentText } from './textVariants';
+import type { TextVariantContext } from './textVariants';
 
 interface StoryTextProps {
   content: StorySegment;
   isPlaying: boolean;
+  variables?: Record<string, StoryVariableValue>;
+  textVariant?: TextVariantContext;
+  highlightedWordIndex?: number; // Word the narrator is saying, -1 for none
+  onWordSelect?: (wordIndex: number) => void; // Tap a word to hear it again
+  id?: string;
   className?: string;
 }
 
-const StoryText: React.FC<StoryTextProps> = ({ content, isPlaying, className = '' }) => {
+const StoryText: React.FC<StoryTextProps> = ({
+  content,
+  isPlaying,
+  variables,
+  textVariant,
+  highlightedWordIndex = -1,
+  onWordSelect,
+  id,
+  className = '',
+}) => {
   const [displayedText, setDisplayedText] = useState('');
   const [isAnimating, setIsAnimating] = useState(false);
 
+  // Pick the wording for the child's age and level, then fill in story variables
+  const text = resolveSegmentText(content, textVariant, variables);
+  const words = useMemo(() => splitWords(text), [text]);
+
   // Typewriter effect for text display
   useEffect(() => {
-    if (!content.text) return;
+    if (!text) return;
 
     setIsAnimating(true);
     setDisplayedText('');
 
     let currentIndex = 0;
-    const text = content.text;
     
     const typeInterval = setInterval(() => {
       if (currentIndex <= text.length) {
@@ -37,24 +57,33 @@ const StoryText: React.FC<StoryTextProps> = ({ content, isPlaying, className = '
     }, 30); // Adjust speed as needed
 
     return () => clearInterval(typeInterval);
-  }, [content.text]);
+  }, [text]);
 
-  // Apply visual cues
-  useEffect(() => {
-    if (content.visualCues) {
-      content.visualCues.forEach(cue => {
-        const element = document.querySelector(cue.target);
-        if (element) {
-          // Apply visual cue animation
-          element.classList.add(`animate-${cue.type}`);
-          
-          setTimeout(() => {
-            element.classList.remove(`animate-${cue.type}`);
-          }, cue.duration);
-        }
-      });
-    }
-  }, [content.visualCues]);
+  // Words keep their original spacing so highlighting doesn't reflow the text
+  const renderWords = () => words.map(({ word, charIndex }, index) => {
+    const previous = words[index - 1];
+    const spacing = previous ? text.slice(previous.charIndex + previous.word.length, charIndex) : '';
+    const isHighlighted = index === highlightedWordIndex;
+    const wordClassName = `rounded transition-colors ${isHighlighted ? 'bg-amber-200 text-gray-900' : ''}`;
+
+    return (
+      <React.Fragment key={charIndex}>
+        {spacing}
+        {onWordSelect ? (
+          <button
+            type="button"
+            className={`${wordClassName} hover:bg-amber-100 focus-ring`}
+            onClick={() => onWordSelect(index)}
+            aria-label={`Hear "${word}" again`}
+          >
+            {word}
+          </button>
+        ) : (
+          <span className={wordClassName}>{word}</span>
+        )}
+      </React.Fragment>
+    );
+  });
 
   const getEmotionStyles = (emotion: string) => {
     const emotionStyles = {
@@ -72,7 +101,7 @@ const StoryText: React.FC<StoryTextProps> = ({ content, isPlaying, className = '
   };
 
   return (
-    <div className={`story-text ${className}`}>
+    <div id={id} className={`story-text ${className}`}>
       {/* Text content */}
       <div 
         className={`
@@ -84,7 +113,7 @@ const StoryText: React.FC<StoryTextProps> = ({ content, isPlaying, className = '
         aria-live="polite"
         aria-label="Story content"
       >
-        {displayedText}
+        {isAnimating ? displayedText : renderWords()}
         {isAnimating && (
           <span className="inline-block w-1 h-6 bg-current ml-1 animate-pulse" />
         )}
@@ -116,8 +145,8 @@ const StoryText: React.FC<StoryTextProps> = ({ content, isPlaying, className = '
 
       {/* Reading time estimate */}
       <div className="mt-2 text-xs text-gray-500">
-        Estimated reading time: {Math.ceil(content.text.split(' ').length / 150)} minute
-        {Math.ceil(content.text.split(' ').length / 150) !== 1 ? 's' : ''}
+        Estimated reading time: {Math.ceil(text.split(' ').length / 150)} minute
+        {Math.ceil(text.split(' ').length / 150) !== 1 ? 's' : ''}
       </div>
     </div>
   );
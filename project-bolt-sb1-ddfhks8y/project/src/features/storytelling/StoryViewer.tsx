@@ -6,47 +6,96 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Play, Pause, SkipForward, RotateCcw, Volume2, ArrowLeft, Settings } from 'lucide-react';
-import { useStoryStore, useVoiceStore } from '@/stores';
-import { Button, Card, Loading } from '@/components';
+import { useStoryStore, useVoiceStore, useAppStore } from '@/stores';
+import { Button, Card, Loading, ParentGate, isParentGateUnlocked } from '@/components';
 import StoryText from './StoryText';
 import StoryProgress from './StoryProgress';
 import StoryNavigation from './StoryNavigation';
 import InteractionPrompt from './InteractionPrompt';
+import SensoryBreakCard from './SensoryBreakCard';
 import useStoryNarration from './useStoryNarration';
 import useStoryProgress from './useStoryProgress';
+import useVisualCues from './useVisualCues';
+import useStoryReplay from './useStoryReplay';
+import ReplayControls from './ReplayControls';
+import { getTextVariantContext, resolveSegmentText } from './textVariants';
+import { isParentOnlyStory } from './contentSafety';
 import { VoiceControls, VoiceSettings } from '@/features/voice';
+import { useMessages, isMessageKey } from '@/i18n';
+import type { StoryError } from '@/types';
 
-const StoryViewer: React.FC = () => {
+interface StoryViewerProps {
+  replay?: boolean; // Read-only walk through the child's recorded session
+  preview?: boolean; // Plays the story already in the store without saving, for authoring
+  onExit?: () => void; // Replaces navigating back, e.g. to return to the editor
+}
+
+const StoryViewer: React.FC<StoryViewerProps> = ({ replay = false, preview = false, onExit }) => {
   const { storyId } = useParams<{ storyId: string }>();
   const navigate = useNavigate();
   
   const {
-    currentStory,
-    currentNode,
-    isLoading,
-    error,
+    currentStory: activeStory,
+    currentNode: activeNode,
+    visitedNodes: activeVisitedNodes,
+    storyVariables: activeVariables,
+    lengthPlan,
+    activeBreak: liveBreak,
+    isLoading: isStoryLoading,
+    error: storyError,
     loadStory,
-    navigateToNode,
+    loadPreviewStory,
+    availableChoices,
+    makeDecision,
+    chooseBranch,
+    goToNextNode: advanceStory,
     completeStory,
+    finishSensoryBreak,
+    setError,
+    clearError,
   } = useStoryStore();
 
+  // Replay reads the recorded session instead of the live story, and never saves
+  const storyReplay = useStoryReplay(replay ? storyId : undefined);
+  const currentStory = replay ? storyReplay.story : activeStory;
+  const currentNode = replay ? storyReplay.currentNode : activeNode;
+  const visitedNodes = replay
+    ? storyReplay.steps.slice(0, storyReplay.stepIndex + 1).map(step => step.nodeId)
+    : activeVisitedNodes;
+  const storyVariables = replay ? storyReplay.currentStep?.variables ?? {} : activeVariables;
+  const activeBreak = replay ? null : liveBreak;
+  const isLoading = replay ? storyReplay.isLoading : isStoryLoading;
+  const error = replay ? storyReplay.error : storyError;
+
+  // Stories still awaiting a content review stay behind the parent gate
+  const [parentUnlocked, setParentUnlocked] = useState(isParentGateUnlocked);
+  const awaitingParent = !replay && !preview && !parentUnlocked &&
+    currentStory !== null && isParentOnlyStory(currentStory);
+
+  const { currentUser, preferences } = useAppStore();
+  const textVariant = getTextVariantContext(currentUser, preferences);
+  const { t } = useMessages();
+
   const {
     isPlaying,
     currentVoiceSettings,
+    currentNarration,
+    currentWordIndex,
     playStorySegment,
     pauseNarration,
     resumeNarration,
+    replayWord,
   } = useVoiceStore();
 
   const {
-    progress,
     canGoBack,
     canGoForward,
     goToNextNode,
     goToPreviousNode,
-    saveCurrentProgress,
   } = useStoryProgress();
 
+  const { playCues, stopCues } = useVisualCues();
+
   const {
     isNarrating,
     playSegment,
@@ -57,7 +106,12 @@ const StoryViewer: React.FC = () => {
     currentStory?.characterId || 'silo',
     currentNode,
     {
-      autoPlay: true,
+      autoPlay: !replay && !activeBreak && !awaitingParent, // The node plays once any sensory break is over
+      variables: storyVariables,
+      textVariant,
+      onSegmentStart: (segment) => {
+        playCues(segment.visualCues || []);
+      },
       onSegmentComplete: () => {
         // Auto-advance after a pause if no interaction needed
         if (currentNode && !currentNode.content.voicePrompts) {
@@ -79,21 +133,17 @@ const StoryViewer: React.FC = () => {
 
   // Load story when component mounts or storyId changes
   useEffect(() => {
-    if (storyId && (!currentStory || currentStory.id !== storyId)) {
+    if (!replay && !preview && storyId && (!currentStory || currentStory.id !== storyId)) {
       loadStory(storyId);
     }
-  }, [storyId, currentStory, loadStory]);
+  }, [replay, preview, storyId, currentStory, loadStory]);
 
-  // Save progress periodically
+  // Clear visual cues while the child takes a sensory break
   useEffect(() => {
-    const saveInterval = setInterval(() => {
-      if (currentStory && currentNode) {
-        saveCurrentProgress();
-      }
-    }, 30000); // Save every 30 seconds
-
-    return () => clearInterval(saveInterval);
-  }, [currentStory, currentNode, saveCurrentProgress]); 
+    if (activeBreak) {
+      stopCues();
+    }
+  }, [activeBreak, stopCues]);
 
   const handlePauseResume = () => {
     if (isPlaying) {
@@ -103,10 +153,23 @@ const StoryViewer: React.FC = () => {
     }
   };
 
-  const handleAutoAdvance = () => {
+  const handleAutoAdvance = async () => {
+    if (replay) {
+      return; // The replay follows the recorded timing instead
+    }
+
     if (currentNode?.branches.length === 1) {
-      const nextNodeId = currentNode.branches[0].targetSegmentId;
-      navigateToNode(nextNodeId);
+      // The store skips locked nodes and records the step so it can be rewound
+      try {
+        await advanceStory();
+      } catch (advanceError) {
+        const storyError = advanceError as Partial<StoryError>;
+        if (storyError?.code === 'PERMISSION_DENIED') {
+          setError(storyError as StoryError);
+        } else {
+          console.error('Failed to continue story:', advanceError);
+        }
+      }
     } else if (currentNode?.isEndNode) {
       handleStoryComplete();
     }
@@ -115,18 +178,26 @@ const StoryViewer: React.FC = () => {
   const handleVoiceResponse = (response: string) => {
     setAwaitingResponse(false);
     
-    // Process the response and advance story
-    if (currentNode?.branches.length > 0) {
-      // For now, just advance to the first branch
-      // In a full implementation, this would match the response to appropriate branches
-      const nextNodeId = currentNode.branches[0].targetSegmentId;
-      navigateToNode(nextNodeId);
+    // Branch conditions decide where the response leads
+    if (currentNode && currentNode.branches.length > 0) {
+      makeDecision('voice_response', response);
+    }
+  };
+
+  const handlePromptTimeout = () => {
+    setAwaitingResponse(false);
+    
+    if (currentNode && currentNode.branches.length > 0) {
+      makeDecision('timeout');
     }
   };
 
   const handleStoryComplete = async () => {
     if (currentStory) {
       await completeStory();
+      if (preview) {
+        return;
+      }
       navigate('/collection', { 
         state: { 
           completedStory: currentStory.id,
@@ -137,20 +208,33 @@ const StoryViewer: React.FC = () => {
   };
 
   const handleGoBack = () => {
+    if (onExit) {
+      onExit();
+      return;
+    }
     navigate(-1);
   };
 
+  const handleRestartPreview = () => {
+    if (currentStory) {
+      loadPreviewStory(currentStory);
+    }
+  };
+
   // Loading state
   if (isLoading) {
     return (
       <div className="max-w-4xl mx-auto">
-        <Loading size="large" message="Loading your story adventure..." />
+        <Loading size="large" message={t('story.loading')} />
       </div>
     );
   }
 
+  // A locked way forward is shown inside the story; other errors replace it
+  const lockedError = error && 'code' in error && error.code === 'PERMISSION_DENIED' ? error : null;
+
   // Error state
-  if (error) {
+  if (error && !lockedError) {
     return (
       <div className="max-w-2xl mx-auto text-center">
         <Card variant="outlined" padding="large" className="bg-red-50 border-red-200">
@@ -158,7 +242,7 @@ const StoryViewer: React.FC = () => {
             <ArrowLeft className="h-8 w-8 text-red-600" />
           </div>
           <h2 className="text-xl font-bold text-red-900 mb-4 font-primary">
-            Story Not Found
+            {'code' in error && error.code === 'CONTENT_UNSAFE' ? t('story.unavailable') : t('story.notFound')}
           </h2>
           <p className="text-red-800 mb-6">
             {error.message}
@@ -169,7 +253,7 @@ const StoryViewer: React.FC = () => {
             onClick={handleGoBack}
             icon={ArrowLeft}
           >
-            Go Back
+            {t('common.goBack')}
           </Button>
         </Card>
       </div>
@@ -181,7 +265,7 @@ const StoryViewer: React.FC = () => {
     return (
       <div className="max-w-2xl mx-auto text-center">
         <Card variant="default" padding="large">
-          <p className="text-gray-600">No story content available.</p>
+          <p className="text-gray-600">{t('story.noContent')}</p>
           <Button
             variant="ghost"
             size="touch"
@@ -189,14 +273,51 @@ const StoryViewer: React.FC = () => {
             icon={ArrowLeft}
             className="mt-4"
           >
-            Go Back
+            {t('common.goBack')}
           </Button>
         </Card>
       </div>
     );
   }
 
-  return (
+  const gateForReview = (view: React.ReactElement) => {
+    if (!awaitingParent) {
+      return view;
+    }
+    return (
+      <ParentGate
+        title={t('story.reviewTitle')}
+        description={t('story.reviewDescription')}
+        onUnlock={() => setParentUnlocked(true)}
+      >
+        {view}
+      </ParentGate>
+    );
+  };
+
+  // Sensory break between nodes
+  if (activeBreak) {
+    return gateForReview(
+      <div className="max-w-2xl mx-auto">
+        <SensoryBreakCard
+          sensoryBreak={activeBreak}
+          characterId={currentStory.characterId}
+          onFinish={finishSensoryBreak}
+        />
+      </div>
+    );
+  }
+
+  const getCharacterDescription = (characterId: string) => {
+    const key = `character.${characterId}`;
+    return isMessageKey(key) ? t(key) : t('character.default');
+  };
+
+  // Word highlighting and replay only follow narration of this node's text
+  const isNodeNarration =
+    currentNarration?.text === resolveSegmentText(currentNode.content, textVariant, storyVariables);
+
+  return gateForReview(
     <div className="max-w-4xl mx-auto">
       {/* Story header */}
       <div className="flex items-center justify-between mb-6">
@@ -206,7 +327,7 @@ const StoryViewer: React.FC = () => {
             size="touch"
             icon={ArrowLeft}
             onClick={handleGoBack}
-            aria-label="Go back"
+            aria-label={t('common.goBack')}
           />
           <div>
             <h1 className="text-2xl font-bold text-gray-900 font-primary">
@@ -215,6 +336,16 @@ const StoryViewer: React.FC = () => {
             <p className="text-gray-600">
               {currentStory.metadata.description}
             </p>
+            {replay && (
+              <p className="text-sm font-medium text-purple-700">
+                {t('story.replayBanner')}
+              </p>
+            )}
+            {preview && (
+              <p className="text-sm font-medium text-amber-700">
+                {t('story.previewBanner')}
+              </p>
+            )}
           </div>
         </div>
         
@@ -223,15 +354,17 @@ const StoryViewer: React.FC = () => {
           size="touch"
           icon={Settings}
           onClick={() => setShowSettings(!showSettings)}
-          aria-label="Story settings"
+          aria-label={t('story.settings')}
         />
       </div>
 
       {/* Story progress indicator */}
       <StoryProgress
         currentNodeId={currentNode.id}
-        totalNodes={Object.keys(currentStory.nodes).length}
-        visitedNodes={progress?.visitedNodes || []}
+        totalNodes={replay
+          ? storyReplay.steps.length
+          : lengthPlan?.totalNodes ?? Object.keys(currentStory.nodes).length}
+        visitedNodes={visitedNodes}
         className="mb-6"
       />
 
@@ -239,7 +372,10 @@ const StoryViewer: React.FC = () => {
       <Card variant="elevated" padding="large" className="mb-6">
         {/* Character indicator */}
         <div className="flex items-center mb-6">
-          <div className="w-16 h-16 bg-gradient-to-br from-purple-500 to-amber-500 rounded-2xl flex items-center justify-center mr-4">
+          <div
+            id={`character-${currentStory.characterId}`}
+            className="w-16 h-16 bg-gradient-to-br from-purple-500 to-amber-500 rounded-2xl flex items-center justify-center mr-4"
+          >
             <span className="text-2xl">
               {currentStory.characterId === 'silo' ? '🧩' : 
                currentStory.characterId === 'blip' ? '⚡' : '🌟'}
@@ -250,16 +386,26 @@ const StoryViewer: React.FC = () => {
               {currentStory.characterId}
             </h2>
             <p className="text-sm text-gray-600">
-              {currentStory.characterId === 'silo' ? 'Detail-loving and pattern-aware' :
-               currentStory.characterId === 'blip' ? 'Energetic and creative' : 'Your Curmunchkin friend'}
+              {getCharacterDescription(currentStory.characterId)}
             </p>
           </div>
+          <span
+            id={`attachment-${currentStory.attachmentId}`}
+            className="ml-auto px-3 py-1 bg-amber-100 text-amber-800 text-sm font-medium rounded-full capitalize"
+          >
+            {currentStory.attachmentId.replace('_', ' ')}
+          </span>
         </div>
 
         {/* Story text */}
         <StoryText
+          id="story-text"
           content={currentNode.content}
           isPlaying={isPlaying}
+          variables={storyVariables}
+          textVariant={textVariant}
+          highlightedWordIndex={isNodeNarration ? currentWordIndex : -1}
+          onWordSelect={isNodeNarration ? replayWord : undefined}
           className="mb-6"
         />
 
@@ -268,7 +414,7 @@ const StoryViewer: React.FC = () => {
           <InteractionPrompt
             prompts={currentNode.content.voicePrompts}
             onResponse={handleVoiceResponse}
-            onTimeout={() => setAwaitingResponse(false)}
+            onTimeout={handlePromptTimeout}
             className="mb-6"
           />
         )}
@@ -278,22 +424,41 @@ const StoryViewer: React.FC = () => {
           <VoiceControls />
         </div>
 
+        {/* Locked way forward */}
+        {lockedError && (
+          <Card variant="outlined" padding="medium" className="mb-6 bg-amber-50 border-amber-200">
+            <h3 className="font-bold text-amber-900 mb-1 font-primary">{t('story.lockedTitle')}</h3>
+            <p className="text-amber-800 mb-3">{lockedError.suggestedAction}</p>
+            <Button variant="ghost" size="small" onClick={clearError}>
+              {t('story.lockedDismiss')}
+            </Button>
+          </Card>
+        )}
+
         {/* Story navigation */}
-        <StoryNavigation
-          canGoBack={canGoBack}
-          canGoForward={canGoForward}
-          onGoBack={goToPreviousNode}
-          onGoForward={goToNextNode}
-          onSkip={handleAutoAdvance}
-          isEndNode={currentNode.isEndNode}
-          branches={currentNode.branches}
-          onBranchSelect={(branchId) => {
-            const branch = currentNode.branches.find(b => b.condition === branchId);
-            if (branch) {
-              navigateToNode(branch.targetSegmentId);
-            }
-          }}
-        />
+        {replay && storyReplay.currentStep ? (
+          <ReplayControls
+            step={storyReplay.currentStep}
+            stepIndex={storyReplay.stepIndex}
+            totalSteps={storyReplay.steps.length}
+            isPlaying={storyReplay.isPlaying}
+            onPlay={storyReplay.play}
+            onPause={storyReplay.pause}
+            onPrevious={storyReplay.previousStep}
+            onNext={storyReplay.nextStep}
+          />
+        ) : (
+          <StoryNavigation
+            canGoBack={canGoBack}
+            canGoForward={canGoForward}
+            onGoBack={goToPreviousNode}
+            onGoForward={goToNextNode}
+            onSkip={handleAutoAdvance}
+            isEndNode={currentNode.isEndNode}
+            choices={availableChoices}
+            onBranchSelect={chooseBranch}
+          />
+        )}
       </Card>
 
       {/* Settings panel */}
@@ -302,33 +467,48 @@ const StoryViewer: React.FC = () => {
       )}
 
       {/* Story completion celebration */}
-      {currentNode.isEndNode && (
+      {currentNode.isEndNode && !replay && (
         <Card variant="elevated" padding="large" className="text-center bg-gradient-to-br from-green-50 to-emerald-50 border-green-200">
-          <div className="w-20 h-20 bg-green-100 rounded-2xl flex items-center justify-center mx-auto mb-4 animate-gentle-bounce">
+          <div
+            id="story-complete"
+            className="w-20 h-20 bg-green-100 rounded-2xl flex items-center justify-center mx-auto mb-4 animate-gentle-bounce"
+          >
             <span className="text-4xl">🎉</span>
           </div>
           <h3 className="text-2xl font-bold text-green-900 mb-4 font-primary">
-            Story Complete!
+            {t('story.completeTitle')}
           </h3>
           <p className="text-green-800 mb-6">
-            You've finished this amazing adventure with {currentStory.characterId}!
+            {t('story.completeMessage', { name: currentStory.characterId })}
           </p>
           <div className="space-y-3">
-            <Button
-              variant="primary"
-              size="touch"
-              fullWidth
-              onClick={handleStoryComplete}
-            >
-              Collect Your Story
-            </Button>
+            {preview ? (
+              <Button
+                variant="primary"
+                size="touch"
+                fullWidth
+                icon={RotateCcw}
+                onClick={handleRestartPreview}
+              >
+                {t('story.previewAgain')}
+              </Button>
+            ) : (
+              <Button
+                variant="primary"
+                size="touch"
+                fullWidth
+                onClick={handleStoryComplete}
+              >
+                {t('story.collect')}
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="touch"
               fullWidth
               onClick={handleGoBack}
             >
-              Explore More Stories
+              {preview ? t('story.backToEditor') : t('story.exploreMore')}
             </Button>
           </div>
         </Card>
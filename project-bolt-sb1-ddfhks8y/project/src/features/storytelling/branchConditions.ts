@@ -0,0 +1,629 @@
+/**
+ * Branch condition evaluation for Curmunchkins Mystery Box Explorer
+ * Implements a small, side-effect free expression language for StoryBranch.condition
+ *
+ * Conditions are either plain labels (e.g. `voice_response`, `timeout`) that match
+ * the choice made by the child, or expressions such as:
+ *
+ *   visited('discovery') && elapsed < 120
+ *   said('yes', 'ready') or chose('practice', 'timeout')
+ *   prefs.story.difficultyLevel == 'advanced' and attachment == 'fidget_feet'
+ *   vars.feathersFound >= 3
+ *
+ * Expressions are parsed into a tiny AST and interpreted against a read-only
+ * context; nothing is ever passed to `eval` or `Function`.
+ */
+
+import type {
+  StoryBranch,
+  DecisionRecord,
+  AttachmentType,
+  UserPreferences,
+  StoryVariableValue,
+} from '@/types';
+
+export interface BranchConditionContext {
+  choice?: string; // The choice being made (e.g. 'voice_response')
+  voiceResponse?: string; // What the child said, if anything
+  visitedNodes: string[];
+  choicesMade: DecisionRecord[];
+  elapsedSeconds: number; // Time since the story was started
+  nodeElapsedSeconds: number; // Time since the current node was entered
+  attachment: AttachmentType | null; // Attachment the story is being played with
+  preferences: UserPreferences | null;
+  variables?: Record<string, StoryVariableValue>; // Story variables declared in StoryContent
+}
+
+type ConditionValue = string | number | boolean | null | undefined | object;
+
+type ConditionNode =
+  | { kind: 'literal'; value: ConditionValue }
+  | { kind: 'identifier'; path: string[] }
+  | { kind: 'call'; name: string; args: ConditionNode[] }
+  | { kind: 'unary'; operator: '!'; operand: ConditionNode }
+  | { kind: 'binary'; operator: BinaryOperator; left: ConditionNode; right: ConditionNode };
+
+type BinaryOperator = '&&' | '||' | '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'identifier'; value: string }
+  | { type: 'operator'; value: string }
+  | { type: 'punctuation'; value: '(' | ')' | ',' | '.' };
+
+const KEYWORD_OPERATORS: Record<string, string> = {
+  and: '&&',
+  or: '||',
+  not: '!',
+};
+
+const LITERAL_KEYWORDS: Record<string, ConditionValue> = {
+  true: true,
+  false: false,
+  null: null,
+};
+
+// Property names that must never be read from context objects
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+const MAX_CONDITION_LENGTH = 500;
+
+// Top-level names resolved by resolveVariable
+const CONDITION_NAMES = new Set([
+  'choice', 'response', 'elapsed', 'nodeTime', 'attachment', 'prefs', 'vars', 'visitedCount', 'choiceCount',
+]);
+
+// Functions handled by callFunction, with the argument counts they accept
+const CONDITION_FUNCTIONS: Record<string, { min: number; max: number }> = {
+  visited: { min: 1, max: Infinity },
+  chose: { min: 1, max: 2 },
+  said: { min: 1, max: Infinity },
+};
+
+/**
+ * Split a condition string into tokens
+ */
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (/\d/.test(char)) {
+      const match = source.slice(index).match(/^\d+(\.\d+)?/)!;
+      tokens.push({ type: 'number', value: parseFloat(match[0]) });
+      index += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const end = source.indexOf(char, index + 1);
+      if (end === -1) {
+        throw new Error(`Unterminated string in condition at position ${index}`);
+      }
+      tokens.push({ type: 'string', value: source.slice(index + 1, end) });
+      index = end + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = source.slice(index).match(/^[A-Za-z_][A-Za-z0-9_]*/)!;
+      const word = match[0];
+      if (Object.prototype.hasOwnProperty.call(KEYWORD_OPERATORS, word)) {
+        tokens.push({ type: 'operator', value: KEYWORD_OPERATORS[word] });
+      } else {
+        tokens.push({ type: 'identifier', value: word });
+      }
+      index += word.length;
+      continue;
+    }
+
+    const twoChar = source.slice(index, index + 2);
+    if (['&&', '||', '==', '!=', '<=', '>='].includes(twoChar)) {
+      tokens.push({ type: 'operator', value: twoChar });
+      index += 2;
+      continue;
+    }
+
+    if (['<', '>', '!'].includes(char)) {
+      tokens.push({ type: 'operator', value: char });
+      index++;
+      continue;
+    }
+
+    if (char === '(' || char === ')' || char === ',' || char === '.') {
+      tokens.push({ type: 'punctuation', value: char });
+      index++;
+      continue;
+    }
+
+    throw new Error(`Unexpected character '${char}' in condition at position ${index}`);
+  }
+
+  return tokens;
+};
+
+/**
+ * Recursive descent parser producing a condition AST
+ */
+class ConditionParser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ConditionNode {
+    const node = this.parseOr();
+    if (this.position < this.tokens.length) {
+      throw new Error('Unexpected trailing input in condition');
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private matchOperator(...operators: string[]): string | null {
+    const token = this.peek();
+    if (token?.type === 'operator' && operators.includes(token.value)) {
+      this.position++;
+      return token.value;
+    }
+    return null;
+  }
+
+  private expectPunctuation(value: string): void {
+    const token = this.peek();
+    if (token?.type !== 'punctuation' || token.value !== value) {
+      throw new Error(`Expected '${value}' in condition`);
+    }
+    this.position++;
+  }
+
+  private parseOr(): ConditionNode {
+    let left = this.parseAnd();
+    while (this.matchOperator('||')) {
+      left = { kind: 'binary', operator: '||', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ConditionNode {
+    let left = this.parseNot();
+    while (this.matchOperator('&&')) {
+      left = { kind: 'binary', operator: '&&', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): ConditionNode {
+    if (this.matchOperator('!')) {
+      return { kind: 'unary', operator: '!', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ConditionNode {
+    const left = this.parsePrimary();
+    const operator = this.matchOperator('==', '!=', '<=', '>=', '<', '>');
+    if (operator) {
+      return {
+        kind: 'binary',
+        operator: operator as BinaryOperator,
+        left,
+        right: this.parsePrimary(),
+      };
+    }
+    return left;
+  }
+
+  private parsePrimary(): ConditionNode {
+    const token = this.peek();
+    if (!token) {
+      throw new Error('Unexpected end of condition');
+    }
+
+    if (token.type === 'number' || token.type === 'string') {
+      this.position++;
+      return { kind: 'literal', value: token.value };
+    }
+
+    if (token.type === 'punctuation' && token.value === '(') {
+      this.position++;
+      const inner = this.parseOr();
+      this.expectPunctuation(')');
+      return inner;
+    }
+
+    if (token.type === 'identifier') {
+      this.position++;
+
+      if (Object.prototype.hasOwnProperty.call(LITERAL_KEYWORDS, token.value)) {
+        return { kind: 'literal', value: LITERAL_KEYWORDS[token.value] };
+      }
+
+      const next = this.peek();
+      if (next?.type === 'punctuation' && next.value === '(') {
+        this.position++;
+        const args: ConditionNode[] = [];
+        if (!(this.peek()?.type === 'punctuation' && this.peek()?.value === ')')) {
+          args.push(this.parseOr());
+          while (this.peek()?.type === 'punctuation' && this.peek()?.value === ',') {
+            this.position++;
+            args.push(this.parseOr());
+          }
+        }
+        this.expectPunctuation(')');
+        return { kind: 'call', name: token.value, args };
+      }
+
+      const path = [token.value];
+      while (this.peek()?.type === 'punctuation' && this.peek()?.value === '.') {
+        this.position++;
+        const property = this.peek();
+        if (property?.type !== 'identifier') {
+          throw new Error('Expected property name after \'.\' in condition');
+        }
+        this.position++;
+        path.push(property.value);
+      }
+      return { kind: 'identifier', path };
+    }
+
+    throw new Error('Unexpected token in condition');
+  }
+}
+
+// Parsed conditions are cached since the same branches are evaluated repeatedly
+const parseCache: Map<string, ConditionNode> = new Map();
+
+/**
+ * Parse a condition expression, throwing a descriptive error if it is malformed
+ */
+export const parseCondition = (condition: string): ConditionNode => {
+  const cached = parseCache.get(condition);
+  if (cached) {
+    return cached;
+  }
+
+  if (condition.length > MAX_CONDITION_LENGTH) {
+    throw new Error(`Condition exceeds ${MAX_CONDITION_LENGTH} characters`);
+  }
+
+  const node = new ConditionParser(tokenize(condition)).parse();
+  parseCache.set(condition, node);
+  return node;
+};
+
+/**
+ * Resolve top-level names available to condition expressions
+ */
+const resolveVariable = (name: string, context: BranchConditionContext): ConditionValue => {
+  switch (name) {
+    case 'choice':
+      return context.choice ?? null;
+    case 'response':
+      return context.voiceResponse?.toLowerCase() ?? null;
+    case 'elapsed':
+      return context.elapsedSeconds;
+    case 'nodeTime':
+      return context.nodeElapsedSeconds;
+    case 'attachment':
+      return context.attachment;
+    case 'prefs':
+      return context.preferences;
+    case 'vars':
+      return context.variables ?? {};
+    case 'visitedCount':
+      return context.visitedNodes.length;
+    case 'choiceCount':
+      return context.choicesMade.length;
+    default:
+      throw new Error(`Unknown name '${name}' in condition`);
+  }
+};
+
+/**
+ * Split speech into lowercase words, keeping apostrophes so "don't" stays whole
+ */
+const toWords = (text: string): string[] => {
+  return text.toLowerCase().match(/[\p{L}\p{N}']+/gu) || [];
+};
+
+/**
+ * Check whether speech contains a word or phrase as whole words, ignoring case
+ * and punctuation, so 'no' matches "no thanks" but not "I know" or "snow"
+ */
+export const saidPhrase = (speech: string, phrase: string): boolean => {
+  const phraseWords = toWords(phrase);
+  if (phraseWords.length === 0) {
+    return false;
+  }
+  // Pad with spaces so only whole words line up
+  return ` ${toWords(speech).join(' ')} `.includes(` ${phraseWords.join(' ')} `);
+};
+
+/**
+ * Built-in functions available to condition expressions
+ */
+const callFunction = (
+  name: string,
+  args: ConditionValue[],
+  context: BranchConditionContext
+): ConditionValue => {
+  const stringArgs = args.map(arg => String(arg ?? '').toLowerCase());
+
+  switch (name) {
+    // visited('nodeId') - the child has been to this node
+    case 'visited':
+      return args.length > 0 && args.every(arg => context.visitedNodes.includes(String(arg)));
+
+    // chose('choice') or chose('nodeId', 'choice') - a previous decision matches
+    case 'chose':
+      if (args.length === 1) {
+        return context.choicesMade.some(decision => decision.choice === String(args[0]));
+      }
+      if (args.length === 2) {
+        return context.choicesMade.some(decision =>
+          decision.nodeId === String(args[0]) && decision.choice === String(args[1])
+        );
+      }
+      throw new Error('chose() expects one or two arguments');
+
+    // said('word', 'some phrase', ...) - the voice response contains any of them as whole words
+    case 'said':
+      return stringArgs.some(phrase => saidPhrase(context.voiceResponse || '', phrase));
+
+    default:
+      throw new Error(`Unknown function '${name}' in condition`);
+  }
+};
+
+const isTruthy = (value: ConditionValue): boolean => Boolean(value);
+
+const compareValues = (operator: BinaryOperator, left: ConditionValue, right: ConditionValue): boolean => {
+  switch (operator) {
+    case '==':
+      return left === right;
+    case '!=':
+      return left !== right;
+    default:
+      break;
+  }
+
+  if (typeof left !== typeof right || (typeof left !== 'number' && typeof left !== 'string')) {
+    return false;
+  }
+
+  const a = left as number | string;
+  const b = right as number | string;
+  switch (operator) {
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+    default:
+      return false;
+  }
+};
+
+/**
+ * Interpret a parsed condition against the given context
+ */
+const evaluateNode = (node: ConditionNode, context: BranchConditionContext): ConditionValue => {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+
+    case 'identifier': {
+      let value: ConditionValue = resolveVariable(node.path[0], context);
+      for (const property of node.path.slice(1)) {
+        if (BLOCKED_PROPERTIES.has(property)) {
+          throw new Error(`Access to '${property}' is not allowed in conditions`);
+        }
+        if (value === null || value === undefined || typeof value !== 'object') {
+          return undefined;
+        }
+        value = Object.prototype.hasOwnProperty.call(value, property)
+          ? (value as Record<string, ConditionValue>)[property]
+          : undefined;
+      }
+      return value;
+    }
+
+    case 'call':
+      return callFunction(
+        node.name,
+        node.args.map(arg => evaluateNode(arg, context)),
+        context
+      );
+
+    case 'unary':
+      return !isTruthy(evaluateNode(node.operand, context));
+
+    case 'binary':
+      if (node.operator === '&&') {
+        return isTruthy(evaluateNode(node.left, context)) && isTruthy(evaluateNode(node.right, context));
+      }
+      if (node.operator === '||') {
+        return isTruthy(evaluateNode(node.left, context)) || isTruthy(evaluateNode(node.right, context));
+      }
+      return compareValues(node.operator, evaluateNode(node.left, context), evaluateNode(node.right, context));
+  }
+};
+
+/**
+ * Evaluate a branch condition. Plain labels match the current choice;
+ * anything else is interpreted as an expression.
+ */
+export const evaluateCondition = (condition: string, context: BranchConditionContext): boolean => {
+  const trimmed = condition.trim();
+  if (trimmed.length === 0) {
+    return true; // An empty condition always applies
+  }
+
+  if (context.choice !== undefined && trimmed === context.choice) {
+    return true;
+  }
+
+  try {
+    return isTruthy(evaluateNode(parseCondition(trimmed), context));
+  } catch (error) {
+    // Legacy labels like 'voice_response' are unknown names when they don't match the choice
+    if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(trimmed)) {
+      return false;
+    }
+    console.warn(`Failed to evaluate branch condition "${condition}":`, error);
+    return false;
+  }
+};
+
+/**
+ * Find names, functions and story variables a parsed condition uses that don't exist
+ */
+const findUnknownReferences = (node: ConditionNode, declaredVariables?: string[]): string | null => {
+  switch (node.kind) {
+    case 'literal':
+      return null;
+
+    case 'identifier': {
+      const [name, property] = node.path;
+      if (!CONDITION_NAMES.has(name)) {
+        return `Unknown name '${name}'`;
+      }
+      const blocked = node.path.find(part => BLOCKED_PROPERTIES.has(part));
+      if (blocked) {
+        return `Access to '${blocked}' is not allowed`;
+      }
+      if (name === 'vars' && property && declaredVariables && !declaredVariables.includes(property)) {
+        return `Unknown story variable '${property}'`;
+      }
+      return null;
+    }
+
+    case 'call': {
+      const arity = CONDITION_FUNCTIONS[node.name];
+      if (!arity || !Object.prototype.hasOwnProperty.call(CONDITION_FUNCTIONS, node.name)) {
+        return `Unknown function '${node.name}'`;
+      }
+      if (node.args.length < arity.min || node.args.length > arity.max) {
+        return `Wrong number of arguments to ${node.name}()`;
+      }
+      for (const arg of node.args) {
+        const problem = findUnknownReferences(arg, declaredVariables);
+        if (problem) {
+          return problem;
+        }
+      }
+      return null;
+    }
+
+    case 'unary':
+      return findUnknownReferences(node.operand, declaredVariables);
+
+    case 'binary':
+      return findUnknownReferences(node.left, declaredVariables)
+        || findUnknownReferences(node.right, declaredVariables);
+  }
+};
+
+/**
+ * Check whether a condition is a bare choice label such as 'voice_response' or 'timeout'
+ * rather than an expression
+ */
+export const isChoiceLabel = (condition: string): boolean => {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(condition.trim());
+};
+
+/**
+ * Describe what is wrong with a condition, or null when it is valid (for authoring and validation)
+ * Pass the story's declared variable names to also catch `vars.` typos.
+ */
+export const getConditionProblem = (condition: string, declaredVariables?: string[]): string | null => {
+  const trimmed = condition.trim();
+
+  if (trimmed.length === 0 || isChoiceLabel(trimmed)) {
+    return null;
+  }
+
+  try {
+    return findUnknownReferences(parseCondition(trimmed), declaredVariables);
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Condition could not be parsed';
+  }
+};
+
+/**
+ * Check whether a condition parses and only uses known names and functions
+ */
+export const isValidCondition = (condition: string, declaredVariables?: string[]): boolean => {
+  return getConditionProblem(condition, declaredVariables) === null;
+};
+
+/**
+ * Pick one branch from those that match using StoryBranch.weight.
+ * Label branches whose label equals the choice take precedence over expressions;
+ * an expression is only followed when it holds, whatever the choice says.
+ */
+export const selectBranch = (
+  branches: StoryBranch[],
+  context: BranchConditionContext,
+  random: () => number = Math.random
+): StoryBranch | null => {
+  const labelMatches = context.choice !== undefined
+    ? branches.filter(branch => isChoiceLabel(branch.condition) && branch.condition.trim() === context.choice)
+    : [];
+
+  const candidates = labelMatches.length > 0
+    ? labelMatches
+    : branches.filter(branch => evaluateCondition(branch.condition, context));
+
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  if (candidates.length === 1) {
+    return candidates[0];
+  }
+
+  const weights = candidates.map(branch =>
+    Number.isFinite(branch.weight) && branch.weight > 0 ? branch.weight : 0
+  );
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  // Fall back to a uniform pick when no branch carries a positive weight
+  if (totalWeight === 0) {
+    return candidates[Math.floor(random() * candidates.length)];
+  }
+
+  let threshold = random() * totalWeight;
+  for (let i = 0; i < candidates.length; i++) {
+    threshold -= weights[i];
+    if (threshold < 0) {
+      return candidates[i];
+    }
+  }
+
+  return candidates[candidates.length - 1];
+};
+
+export default {
+  parseCondition,
+  evaluateCondition,
+  isChoiceLabel,
+  saidPhrase,
+  getConditionProblem,
+  isValidCondition,
+  selectBranch,
+};
@@ -0,0 +1,170 @@
+/**
+ * Content safety review for Curmunchkins Mystery Box Explorer
+ * Runs a local automated first pass over story text and timing, and works out
+ * a story's safety rating from the review records it carries
+ */
+
+import type { ContentSafetyCheck, StoryContent } from '@/types';
+
+// Reviewer ID used for records made by the automated first pass
+export const AUTOMATED_REVIEWER = 'automated-first-pass';
+
+export interface SafetyCheckOptions {
+  maxSegmentSeconds: number; // Longer segments can outlast a child's attention
+  maxSegmentWords: number;
+  minPromptTimeout: number; // milliseconds; shorter prompts rush children who process slowly
+}
+
+export const DEFAULT_SAFETY_CHECK_OPTIONS: SafetyCheckOptions = {
+  maxSegmentSeconds: 45,
+  maxSegmentWords: 90,
+  minPromptTimeout: 5000,
+};
+
+// Words that describe input a sensory-sensitive child may find overwhelming, by sense
+const SENSORY_TRIGGER_WORDS: Record<string, string[]> = {
+  auditory: ['scream', 'screaming', 'shout', 'shouting', 'yell', 'yelling', 'bang', 'boom', 'explosion', 'siren', 'alarm', 'thunder', 'crash', 'deafening'],
+  visual: ['flash', 'flashing', 'flicker', 'flickering', 'strobe', 'blinding', 'dazzling'],
+  tactile: ['itchy', 'scratchy', 'slimy', 'sticky', 'prickly', 'burning', 'freezing'],
+  olfactory: ['stinky', 'smelly', 'stench', 'rotten'],
+  distress: ['blood', 'hurt', 'injured', 'terrified', 'nightmare', 'trapped'],
+};
+
+/**
+ * Find trigger words in a piece of text, as "word (sense)" labels
+ */
+const findTriggerWords = (text: string): string[] => {
+  const words = new Set(text.toLowerCase().match(/[a-z']+/g) || []);
+  return Object.entries(SENSORY_TRIGGER_WORDS).flatMap(([sense, triggers]) =>
+    triggers.filter(trigger => words.has(trigger)).map(trigger => `"${trigger}" (${sense})`)
+  );
+};
+
+/**
+ * Run the automated first pass over every node
+ * Anything flagged needs a person to look at it, so the pass never rates a story
+ * 'unsafe' on its own - it only decides between 'safe' and 'review_needed'.
+ */
+export const runAutomatedSafetyCheck = (
+  story: StoryContent,
+  options: Partial<SafetyCheckOptions> = {}
+): ContentSafetyCheck => {
+  const { maxSegmentSeconds, maxSegmentWords, minPromptTimeout } = { ...DEFAULT_SAFETY_CHECK_OPTIONS, ...options };
+  const considerations: string[] = [];
+  let triggerCount = 0;
+  let longSegmentCount = 0;
+  let shortTimeoutCount = 0;
+
+  for (const node of Object.values(story.nodes || {})) {
+    const { content } = node;
+    const texts = [
+      content.text,
+      ...(content.textVariants || []).map(variant => variant.text),
+      ...(content.voicePrompts || []).flatMap(prompt => [prompt.text, prompt.encouragement]),
+    ];
+
+    const triggers = [...new Set(texts.flatMap(findTriggerWords))];
+    if (triggers.length > 0) {
+      triggerCount += triggers.length;
+      considerations.push(`Node "${node.id}" mentions ${triggers.join(', ')}`);
+    }
+
+    const wordCount = content.text.split(/\s+/).filter(Boolean).length;
+    if (content.duration > maxSegmentSeconds || wordCount > maxSegmentWords) {
+      longSegmentCount++;
+      considerations.push(
+        `Node "${node.id}" is long (${content.duration}s, ${wordCount} words; limit ${maxSegmentSeconds}s or ${maxSegmentWords} words)`
+      );
+    }
+
+    for (const prompt of content.voicePrompts || []) {
+      if (prompt.timeout < minPromptTimeout) {
+        shortTimeoutCount++;
+        considerations.push(
+          `Node "${node.id}" gives only ${prompt.timeout / 1000}s to answer "${prompt.text}" (minimum ${minPromptTimeout / 1000}s)`
+        );
+      }
+    }
+  }
+
+  const goals = story.metadata?.therapeuticGoals?.length || 0;
+  const ageRange = story.metadata?.ageRange;
+  const flagCount = triggerCount + longSegmentCount + shortTimeoutCount;
+
+  return {
+    storyId: story.id,
+    checkedAt: Date.now(),
+    checkedBy: AUTOMATED_REVIEWER,
+    safetyRating: flagCount > 0 ? 'review_needed' : 'safe',
+    therapeuticValue: goals >= 3 ? 'high' : goals > 0 ? 'medium' : 'low',
+    ageAppropriate: Boolean(ageRange && ageRange.min >= 3 && ageRange.min <= ageRange.max),
+    sensoryConsiderations: considerations,
+    notes: flagCount > 0
+      ? `${triggerCount} trigger word(s), ${longSegmentCount} long segment(s), ${shortTimeoutCount} short prompt timeout(s)`
+      : 'No issues found by the automated first pass',
+  };
+};
+
+/**
+ * Replace the story's automated record with a fresh first pass, keeping human reviews
+ */
+export const applyAutomatedSafetyCheck = (
+  story: StoryContent,
+  options: Partial<SafetyCheckOptions> = {}
+): StoryContent => {
+  const humanReviews = (story.safetyChecks || []).filter(check => check.checkedBy !== AUTOMATED_REVIEWER);
+  return {
+    ...story,
+    safetyChecks: [...humanReviews, runAutomatedSafetyCheck(story, options)],
+  };
+};
+
+/**
+ * Add a reviewer's record to a story
+ */
+export const recordSafetyReview = (
+  story: StoryContent,
+  review: Omit<ContentSafetyCheck, 'storyId' | 'checkedAt'>
+): StoryContent => {
+  return {
+    ...story,
+    safetyChecks: [
+      ...(story.safetyChecks || []),
+      { ...review, storyId: story.id, checkedAt: Date.now() },
+    ],
+  };
+};
+
+/**
+ * Get the record that decides a story's rating
+ * The latest human review wins; the automated pass only counts until someone has looked.
+ */
+export const getDecidingSafetyCheck = (story: StoryContent): ContentSafetyCheck | null => {
+  const checks = [...(story.safetyChecks || [])].sort((a, b) => b.checkedAt - a.checkedAt);
+  return checks.find(check => check.checkedBy !== AUTOMATED_REVIEWER) ?? checks[0] ?? null;
+};
+
+/**
+ * Get a story's safety rating; stories nobody has checked need review
+ */
+export const getSafetyRating = (story: StoryContent): ContentSafetyCheck['safetyRating'] => {
+  return getDecidingSafetyCheck(story)?.safetyRating ?? 'review_needed';
+};
+
+/**
+ * Stories awaiting review can only be opened by a parent
+ */
+export const isParentOnlyStory = (story: StoryContent): boolean => {
+  return getSafetyRating(story) === 'review_needed';
+};
+
+export default {
+  AUTOMATED_REVIEWER,
+  DEFAULT_SAFETY_CHECK_OPTIONS,
+  runAutomatedSafetyCheck,
+  applyAutomatedSafetyCheck,
+  recordSafetyReview,
+  getDecidingSafetyCheck,
+  getSafetyRating,
+  isParentOnlyStory,
+};
@@ -0,0 +1,143 @@
+/**
+ * Node unlock requirements for Curmunchkins Mystery Box Explorer
+ * Interprets StoryNode.unlockRequirements so story parts can be gated
+ *
+ * Requirement strings use a `kind:value` format:
+ *   story:silo-fidget-feet-001   - the child has completed another story
+ *   attachment:texture_hands     - the child has scanned this attachment
+ *   node:discovery               - the child has visited an earlier node
+ * A bare value without a prefix is treated as a node ID.
+ */
+
+import type { StoryNode, StoryError, AttachmentType, SpeechRecognitionLanguage } from '@/types';
+import { isAttachmentType } from '@/types';
+import { translate } from '@/i18n/messages';
+import { DEFAULT_LOCALE } from '@/i18n/locales';
+
+export type NodeRequirement =
+  | { type: 'story_completed'; storyId: string }
+  | { type: 'attachment_scanned'; attachmentType: AttachmentType }
+  | { type: 'node_visited'; nodeId: string }
+  | { type: 'unknown'; raw: string };
+
+export interface NodeRequirementContext {
+  completedStories: string[];
+  scannedAttachments: AttachmentType[];
+  visitedNodes: string[];
+}
+
+/**
+ * Parse a single requirement string
+ */
+export const parseRequirement = (requirement: string): NodeRequirement => {
+  const trimmed = requirement.trim();
+  const separatorIndex = trimmed.indexOf(':');
+
+  if (separatorIndex === -1) {
+    return { type: 'node_visited', nodeId: trimmed };
+  }
+
+  const kind = trimmed.slice(0, separatorIndex);
+  const value = trimmed.slice(separatorIndex + 1);
+
+  switch (kind) {
+    case 'story':
+      return { type: 'story_completed', storyId: value };
+    case 'attachment':
+      return isAttachmentType(value)
+        ? { type: 'attachment_scanned', attachmentType: value }
+        : { type: 'unknown', raw: trimmed };
+    case 'node':
+      return { type: 'node_visited', nodeId: value };
+    default:
+      return { type: 'unknown', raw: trimmed };
+  }
+};
+
+/**
+ * Check a parsed requirement against the child's history
+ */
+const isRequirementMet = (requirement: NodeRequirement, context: NodeRequirementContext): boolean => {
+  switch (requirement.type) {
+    case 'story_completed':
+      return context.completedStories.includes(requirement.storyId);
+    case 'attachment_scanned':
+      return context.scannedAttachments.includes(requirement.attachmentType);
+    case 'node_visited':
+      return context.visitedNodes.includes(requirement.nodeId);
+    case 'unknown':
+      // Unrecognised requirements keep the node locked rather than guessing
+      console.warn(`Unknown node unlock requirement: ${requirement.raw}`);
+      return false;
+  }
+};
+
+/**
+ * Get the requirements of a node that have not been met yet
+ */
+export const getUnmetRequirements = (
+  node: StoryNode,
+  context: NodeRequirementContext
+): NodeRequirement[] => {
+  if (!node.unlockRequirements || node.unlockRequirements.length === 0) {
+    return [];
+  }
+
+  return node.unlockRequirements
+    .map(parseRequirement)
+    .filter(requirement => !isRequirementMet(requirement, context));
+};
+
+/**
+ * Check whether a node is open to the child
+ */
+export const isNodeUnlocked = (node: StoryNode, context: NodeRequirementContext): boolean => {
+  return getUnmetRequirements(node, context).length === 0;
+};
+
+/**
+ * Describe what the child can do to open a locked node
+ */
+const describeRequirement = (requirement: NodeRequirement, locale: SpeechRecognitionLanguage): string => {
+  switch (requirement.type) {
+    case 'story_completed':
+      return translate(locale, 'locked.finishStory');
+    case 'attachment_scanned':
+      return translate(locale, 'locked.scanAttachment', {
+        attachment: requirement.attachmentType.replace(/_/g, ' '),
+      });
+    case 'node_visited':
+      return translate(locale, 'locked.exploreEarlier');
+    case 'unknown':
+      return translate(locale, 'locked.mystery');
+  }
+};
+
+/**
+ * Create a structured error for a locked node, with the suggested action in the child's language
+ */
+export const createLockedNodeError = (
+  storyId: string,
+  node: StoryNode,
+  unmetRequirements: NodeRequirement[],
+  locale: SpeechRecognitionLanguage = DEFAULT_LOCALE
+): StoryError => {
+  return {
+    code: 'PERMISSION_DENIED',
+    message: `Node ${node.id} is locked (${unmetRequirements.length} requirement(s) not met)`,
+    storyId,
+    nodeId: node.id,
+    timestamp: Date.now(),
+    recoverable: true,
+    suggestedAction: unmetRequirements.length > 0
+      ? describeRequirement(unmetRequirements[0], locale)
+      : translate(locale, 'locked.keepExploring'),
+  };
+};
+
+export default {
+  parseRequirement,
+  getUnmetRequirements,
+  isNodeUnlocked,
+  createLockedNodeError,
+};
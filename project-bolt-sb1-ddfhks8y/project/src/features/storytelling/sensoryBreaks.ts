@@ -0,0 +1,91 @@
+/**
+ * Sensory breaks for Curmunchkins Mystery Box Explorer
+ * Builds character-voiced break segments between story nodes, tailored to
+ * the node's sensory strategy and timed from UserPreferences.sensory
+ */
+
+import type { StoryNode, StorySegment, SensoryStrategy, MunchieCharacter, UserPreferences } from '@/types';
+import { translate } from '@/i18n/messages';
+import type { MessageKey } from '@/i18n/messages';
+import { getPreferredLocale } from '@/i18n/locales';
+
+type BreakFrequency = UserPreferences['sensory']['sensoryBreakFrequency'];
+
+// Number of nodes between breaks for each frequency setting
+const BREAK_INTERVALS: Record<BreakFrequency, number | null> = {
+  never: null,
+  low: 4,
+  medium: 3,
+  high: 2,
+};
+
+// Shortest break worth pausing for; preference validation enforces the same floor
+const MIN_BREAK_SECONDS = 5;
+
+// What the character asks the child to do for each strategy, in the message catalogs
+const BREAK_ACTIVITIES: Record<SensoryStrategy, MessageKey> = {
+  proprioceptive_input: 'break.proprioceptive_input',
+  deep_pressure: 'break.deep_pressure',
+  tactile_exploration: 'break.tactile_exploration',
+  vestibular_movement: 'break.vestibular_movement',
+  auditory_processing: 'break.auditory_processing',
+  visual_organization: 'break.visual_organization',
+  olfactory_grounding: 'break.olfactory_grounding',
+  interoceptive_awareness: 'break.interoceptive_awareness',
+};
+
+export interface SensoryBreak {
+  nodeId: string; // Node that plays after the break
+  strategy: SensoryStrategy;
+  durationSeconds: number;
+  segment: StorySegment;
+  startedAt: number;
+}
+
+/**
+ * Check whether a break is due after the child has moved through a number of nodes
+ */
+export const isSensoryBreakDue = (
+  preferences: UserPreferences | null,
+  nodesSinceBreak: number
+): boolean => {
+  const interval = preferences ? BREAK_INTERVALS[preferences.sensory.sensoryBreakFrequency] : null;
+  return interval !== null && nodesSinceBreak >= interval;
+};
+
+/**
+ * Create the break segment for the node the child is about to hear
+ */
+export const createSensoryBreak = (
+  node: StoryNode,
+  characterId: MunchieCharacter,
+  preferences: UserPreferences
+): SensoryBreak => {
+  const durationSeconds = Math.max(
+    MIN_BREAK_SECONDS,
+    Math.round(preferences.sensory.sensoryBreakDuration || 0)
+  );
+  const characterName = characterId.charAt(0).toUpperCase() + characterId.slice(1);
+  const activity = BREAK_ACTIVITIES[node.sensoryStrategy] || BREAK_ACTIVITIES.interoceptive_awareness;
+  const locale = getPreferredLocale(preferences);
+
+  return {
+    nodeId: node.id,
+    strategy: node.sensoryStrategy,
+    durationSeconds,
+    startedAt: Date.now(),
+    segment: {
+      id: `sensory-break-${node.id}`,
+      text: `${translate(locale, 'break.intro', { name: characterName })} `
+        + translate(locale, activity, { seconds: durationSeconds }),
+      voiceEmotion: 'calm',
+      visualCues: [],
+      duration: durationSeconds,
+    },
+  };
+};
+
+export default {
+  isSensoryBreakDue,
+  createSensoryBreak,
+};
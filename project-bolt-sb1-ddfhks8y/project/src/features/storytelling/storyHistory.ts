@@ -0,0 +1,107 @@
+/**
+ * Story navigation history for Curmunchkins Mystery Box Explorer
+ * Snapshots taken before each step so rewinding can undo the step's decision,
+ * variable changes and completion, and going forward can replay it
+ */
+
+import type { StoryProgress, DecisionRecord } from '@/types';
+import type { StoryVariables } from './storyVariables';
+
+// Keep enough steps for any of our stories without growing without bound
+const MAX_HISTORY_ENTRIES = 50;
+
+export interface StoryHistoryEntry {
+  nodeId: string; // Node the child was on before the step
+  variables: StoryVariables;
+  visitedNodes: string[];
+  completedNodes: string[];
+  choicesMadeCount: number; // Decisions in progress.choicesMade before the step
+  sessionDecisionCount: number; // Decisions this session before the step
+  isCompleted: boolean;
+  completedAt?: number;
+  nodesSinceBreak: number;
+}
+
+export interface StoryRedoEntry {
+  nodeId: string; // Node the rewound step led to
+  decision: DecisionRecord | null; // Choice that led there, replayed when going forward
+}
+
+export interface HistorySource {
+  nodeId: string;
+  progress: StoryProgress | null;
+  variables: StoryVariables;
+  visitedNodes: string[];
+  sessionDecisionCount: number;
+  nodesSinceBreak: number;
+}
+
+/**
+ * Snapshot the story state before the child takes a step
+ */
+export const createHistoryEntry = (source: HistorySource): StoryHistoryEntry => {
+  return {
+    nodeId: source.nodeId,
+    variables: { ...source.variables },
+    visitedNodes: [...source.visitedNodes],
+    completedNodes: [...(source.progress?.completedNodes ?? [])],
+    choicesMadeCount: source.progress?.choicesMade.length ?? 0,
+    sessionDecisionCount: source.sessionDecisionCount,
+    isCompleted: source.progress?.isCompleted ?? false,
+    completedAt: source.progress?.completedAt,
+    nodesSinceBreak: source.nodesSinceBreak,
+  };
+};
+
+/**
+ * Add a snapshot, dropping the oldest once the history is full
+ */
+export const pushHistoryEntry = (
+  history: StoryHistoryEntry[],
+  entry: StoryHistoryEntry
+): StoryHistoryEntry[] => {
+  return [...history, entry].slice(-MAX_HISTORY_ENTRIES);
+};
+
+/**
+ * Get the decision that took the child off the snapshot's node, if any
+ */
+export const getRewoundDecision = (
+  progress: StoryProgress | null,
+  entry: StoryHistoryEntry
+): DecisionRecord | null => {
+  const laterDecisions = progress?.choicesMade.slice(entry.choicesMadeCount) ?? [];
+  for (let i = laterDecisions.length - 1; i >= 0; i--) {
+    if (laterDecisions[i].nodeId === entry.nodeId) {
+      return laterDecisions[i];
+    }
+  }
+  return null;
+};
+
+/**
+ * Put progress back the way it was when the snapshot was taken
+ * Time spent and sensory breaks are kept; the child really did spend that time.
+ */
+export const restoreProgress = (progress: StoryProgress, entry: StoryHistoryEntry): StoryProgress => {
+  return {
+    ...progress,
+    currentNodeId: entry.nodeId,
+    visitedNodes: entry.visitedNodes,
+    completedNodes: entry.completedNodes,
+    choicesMade: progress.choicesMade.slice(0, entry.choicesMadeCount),
+    variables: entry.variables,
+    isCompleted: entry.isCompleted,
+    completedAt: entry.completedAt,
+    // Time keeps counting while the child goes back
+    totalTimeSpent: progress.totalTimeSpent + (Date.now() - progress.lastAccessedAt),
+    lastAccessedAt: Date.now(),
+  };
+};
+
+export default {
+  createHistoryEntry,
+  pushHistoryEntry,
+  getRewoundDecision,
+  restoreProgress,
+};
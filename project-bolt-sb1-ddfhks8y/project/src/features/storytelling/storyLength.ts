@@ -0,0 +1,198 @@
+/**
+ * Story length trimming for Curmunchkins Mystery Box Explorer
+ * Skips nodes marked isOptional so every route through a story reaches an end
+ * node within the child's time budget (attention span and preferred story length)
+ */
+
+import type { StoryContent, UserProfile, UserPreferences } from '@/types';
+import { getNodeSeconds, getRouteSeconds } from './storyValidator';
+
+// Upper end of each length band in minutes (short 3-5, medium 6-10, long 11-15)
+const LENGTH_BUDGET_MINUTES: Record<'short' | 'medium' | 'long', number> = {
+  short: 5,
+  medium: 10,
+  long: 15,
+};
+
+export interface StoryLengthPlan {
+  budgetSeconds: number | null; // null when the child has no length preference
+  estimatedSeconds: number | null; // Longest route to an end node after trimming
+  fitsBudget: boolean; // False when trimming every optional node still can't fit the longest route
+  skippedNodes: string[];
+  bypassTargets: Record<string, string>; // Skipped node -> node to play instead
+  totalNodes: number; // Nodes left in the story after trimming (for the progress bar)
+}
+
+/**
+ * Get the child's story time budget in seconds, using the stricter of the two settings
+ */
+export const getStoryTimeBudgetSeconds = (
+  profile: UserProfile | null,
+  preferences: UserPreferences | null
+): number | null => {
+  const budgets = [profile?.childInfo?.attentionSpan, preferences?.story.preferredStoryLength]
+    .filter((length): length is 'short' | 'medium' | 'long' => Boolean(length))
+    .map(length => LENGTH_BUDGET_MINUTES[length] * 60);
+
+  return budgets.length > 0 ? Math.min(...budgets) : null;
+};
+
+/**
+ * Seconds from each node to the nearest end node, with skipped nodes costing nothing
+ */
+const getSecondsToEnd = (story: StoryContent, skipped: Set<string>): Map<string, number> => {
+  const nodeIds = Object.keys(story.nodes);
+  const secondsToEnd = new Map<string, number>();
+  const cost = (nodeId: string) => (skipped.has(nodeId) ? 0 : getNodeSeconds(story.nodes[nodeId]));
+
+  for (const nodeId of nodeIds) {
+    if (story.nodes[nodeId].isEndNode) {
+      secondsToEnd.set(nodeId, cost(nodeId));
+    }
+  }
+
+  // Relax edges until nothing improves (story graphs are small)
+  for (let pass = 0; pass < nodeIds.length; pass++) {
+    let changed = false;
+    for (const nodeId of nodeIds) {
+      const node = story.nodes[nodeId];
+      if (node.isEndNode) {
+        continue;
+      }
+      for (const branch of node.branches) {
+        const targetSeconds = secondsToEnd.get(branch.targetSegmentId);
+        if (targetSeconds === undefined) {
+          continue;
+        }
+        const candidate = cost(nodeId) + targetSeconds;
+        if (candidate < (secondsToEnd.get(nodeId) ?? Infinity)) {
+          secondsToEnd.set(nodeId, candidate);
+          changed = true;
+        }
+      }
+    }
+    if (!changed) {
+      break;
+    }
+  }
+
+  return secondsToEnd;
+};
+
+/**
+ * Each skipped node hands over to its quickest route onwards
+ * Skipped nodes with no way to an end node are left out.
+ */
+const getBypassTargets = (story: StoryContent, skipped: Set<string>): Record<string, string> => {
+  const secondsToEnd = getSecondsToEnd(story, skipped);
+  const bypassTargets: Record<string, string> = {};
+
+  for (const nodeId of skipped) {
+    const targets = story.nodes[nodeId].branches
+      .map(branch => branch.targetSegmentId)
+      .filter(targetId => secondsToEnd.has(targetId));
+    targets.sort((a, b) => secondsToEnd.get(a)! - secondsToEnd.get(b)!);
+    if (targets.length > 0) {
+      bypassTargets[nodeId] = targets[0];
+    }
+  }
+
+  return bypassTargets;
+};
+
+const followBypasses = (bypassTargets: Record<string, string>, nodeId: string): string => {
+  let resolvedId = nodeId;
+  const seen = new Set<string>();
+  while (bypassTargets[resolvedId] && !seen.has(resolvedId)) {
+    seen.add(resolvedId);
+    resolvedId = bypassTargets[resolvedId];
+  }
+
+  return resolvedId;
+};
+
+/**
+ * The story as it plays once skipped nodes are bypassed: they are left out and
+ * branches into them lead on to their bypass targets instead
+ */
+const getTrimmedStory = (story: StoryContent, bypassTargets: Record<string, string>): StoryContent => {
+  const nodes = Object.fromEntries(Object.entries(story.nodes)
+    .filter(([nodeId]) => !(nodeId in bypassTargets))
+    .map(([nodeId, node]) => [nodeId, {
+      ...node,
+      branches: node.branches.map(branch => ({
+        ...branch,
+        targetSegmentId: followBypasses(bypassTargets, branch.targetSegmentId),
+      })),
+    }]));
+
+  return { ...story, nodes };
+};
+
+/**
+ * Plan which optional nodes to skip so the longest route through the story fits the time budget
+ * Optional nodes are dropped one at a time, always picking the one that shortens the
+ * longest route the most (then the quickest, so parallel routes are trimmed in turn).
+ * The start node and end nodes are never skipped. When the story still runs over
+ * with nothing left to trim, the plan says so in fitsBudget.
+ */
+export const planStoryLength = (story: StoryContent, budgetSeconds: number | null): StoryLengthPlan => {
+  const skipped = new Set<string>();
+  let bypassTargets = getBypassTargets(story, skipped);
+  let routeSeconds = getRouteSeconds(getTrimmedStory(story, bypassTargets));
+
+  const candidates = Object.values(story.nodes)
+    .filter(node => node.isOptional && !node.isEndNode && node.id !== story.startNodeId)
+    .map(node => node.id);
+
+  while (budgetSeconds !== null && routeSeconds !== null && routeSeconds.longest > budgetSeconds) {
+    let bestNodeId: string | null = null;
+    let best = routeSeconds;
+
+    for (const nodeId of candidates) {
+      if (skipped.has(nodeId)) {
+        continue;
+      }
+      const trialSkipped = new Set([...skipped, nodeId]);
+      const trial = getRouteSeconds(getTrimmedStory(story, getBypassTargets(story, trialSkipped)));
+      if (trial && (trial.longest < best.longest
+        || (trial.longest === best.longest && trial.shortest < best.shortest))) {
+        bestNodeId = nodeId;
+        best = trial;
+      }
+    }
+
+    if (!bestNodeId) {
+      break; // Nothing left to trim; the story is as short as it can be
+    }
+
+    skipped.add(bestNodeId);
+    bypassTargets = getBypassTargets(story, skipped);
+    routeSeconds = best;
+  }
+
+  const skippedNodes = Object.keys(bypassTargets);
+  const estimatedSeconds = routeSeconds?.longest ?? null;
+
+  return {
+    budgetSeconds,
+    estimatedSeconds,
+    fitsBudget: budgetSeconds === null || estimatedSeconds === null || estimatedSeconds <= budgetSeconds,
+    skippedNodes,
+    bypassTargets,
+    totalNodes: Object.keys(story.nodes).length - skippedNodes.length,
+  };
+};
+
+/**
+ * Follow bypasses past skipped nodes to the node that should actually play
+ */
+export const resolvePlannedNode = (plan: StoryLengthPlan | null, nodeId: string): string => {
+  return plan ? followBypasses(plan.bypassTargets, nodeId) : nodeId;
+};
+
+export default {
+  getStoryTimeBudgetSeconds,
+  planStoryLength,
+  resolvePlannedNode,
+};
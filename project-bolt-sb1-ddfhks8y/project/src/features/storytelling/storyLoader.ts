@@ -5,6 +5,17 @@
 
 import type { StoryContent, StoryError, MunchieCharacter, AttachmentType } from '@/types';
 import { cacheStory, getCachedStory, isStoryCached } from '@/services/storage';
+import { validateStoryGraph, summarizeValidationReport } from './storyValidator';
+import {
+  loadStoryManifest,
+  getManifestEntry,
+  getStoryIdsForCharacter,
+  getStoryIdsForAttachment,
+  getEssentialStoryIds,
+  calculateContentHash,
+} from './storyManifest';
+import { isNewerVersion } from './storyMigration';
+import { applyAutomatedSafetyCheck, getDecidingSafetyCheck, getSafetyRating } from './contentSafety';
 
 export class StoryLoader {
   private static instance: StoryLoader;
@@ -26,11 +37,15 @@ export class StoryLoader {
       return this.loadingPromises.get(storyId)!;
     }
 
-    // Check cache first
+    // Check cache first, unless the manifest has published a newer version
     const cachedStory = await getCachedStory(storyId);
     if (cachedStory) {
-      console.log(`Story loaded from cache: ${storyId}`);
-      return cachedStory;
+      const latestVersion = await this.getNewerVersion(cachedStory);
+      if (!latestVersion) {
+        console.log(`Story loaded from cache: ${storyId}`);
+        return this.reviewContentSafety(cachedStory);
+      }
+      console.log(`Updating story ${storyId} from ${cachedStory.version} to ${latestVersion}`);
     }
 
     // Load from network
@@ -38,7 +53,7 @@ export class StoryLoader {
     this.loadingPromises.set(storyId, loadPromise);
 
     try {
-      const story = await loadPromise;
+      const story = this.reviewContentSafety(await loadPromise);
       
       // Cache the story
       await cacheStory(story);
@@ -46,6 +61,17 @@ export class StoryLoader {
       console.log(`Story loaded and cached: ${storyId}`);
       return story;
     } catch (error) {
+      // Unsafe content is refused outright, never swapped for a cached copy
+      if (this.isStoryError(error) && error.code === 'CONTENT_UNSAFE') {
+        throw error;
+      }
+
+      // Keep playing the older version if the update can't be fetched (e.g. offline)
+      if (cachedStory) {
+        console.warn(`Story update failed, using cached version: ${storyId}`, error);
+        return this.reviewContentSafety(cachedStory);
+      }
+
       console.error(`Failed to load story: ${storyId}`, error);
       throw this.createStoryError('STORY_NOT_FOUND', `Story ${storyId} could not be loaded`, storyId);
     } finally {
@@ -60,7 +86,18 @@ export class StoryLoader {
     characterId: MunchieCharacter,
     attachmentType: AttachmentType
   ): Promise<StoryContent> {
-    const storyId = `${characterId}-${attachmentType.replace('_', '-')}-001`;
+    await loadStoryManifest();
+
+    const storyId = getStoryIdsForAttachment(attachmentType)
+      .find(id => getManifestEntry(id)?.characterId === characterId);
+
+    if (!storyId) {
+      throw this.createStoryError(
+        'STORY_NOT_FOUND',
+        `No story published for ${characterId} with ${attachmentType}`
+      );
+    }
+
     return this.loadStory(storyId);
   }
 
@@ -68,15 +105,19 @@ export class StoryLoader {
    * Preload essential stories for offline use
    */
   async preloadEssentialStories(): Promise<void> {
-    const essentialStories = [
-      'silo-fidget-feet-001',
-      'blip-weighted-arms-001',
-    ];
+    try {
+      await loadStoryManifest();
+    } catch (error) {
+      console.warn('Story preloading skipped, manifest unavailable', error);
+      return;
+    }
+
+    const essentialStories = getEssentialStoryIds();
 
     const preloadPromises = essentialStories.map(async (storyId) => {
       try {
-        const isCached = await isStoryCached(storyId);
-        if (!isCached) {
+        const cachedStory = await getCachedStory(storyId);
+        if (!cachedStory || await this.getNewerVersion(cachedStory)) {
           await this.loadStory(storyId);
           console.log(`Preloaded story: ${storyId}`);
         }
@@ -93,37 +134,16 @@ export class StoryLoader {
    * Get available stories for a character
    */
   async getStoriesForCharacter(characterId: MunchieCharacter): Promise<string[]> {
-    // In a real implementation, this would query an API or index
-    const storyMap: Record<MunchieCharacter, string[]> = {
-      silo: ['silo-fidget-feet-001', 'silo-texture-hands-001'],
-      blip: ['blip-weighted-arms-001', 'blip-fidget-feet-001'],
-      pip: ['pip-bouncy-braids-001', 'pip-light-eyes-001'],
-      tally: ['tally-sound-ears-001', 'tally-light-eyes-001'],
-      tumble: ['tumble-squeeze-belly-001', 'tumble-weighted-arms-001'],
-      echo: ['echo-bouncy-braids-001', 'echo-sound-ears-001'],
-      sway: ['sway-weighted-arms-001', 'sway-scent-nose-001'],
-      ponder: ['ponder-scent-nose-001', 'ponder-sound-ears-001'],
-    };
-
-    return storyMap[characterId] || [];
+    await loadStoryManifest();
+    return getStoryIdsForCharacter(characterId);
   }
 
   /**
    * Get available stories for an attachment type
    */
   async getStoriesForAttachment(attachmentType: AttachmentType): Promise<string[]> {
-    const storyMap: Record<AttachmentType, string[]> = {
-      fidget_feet: ['silo-fidget-feet-001', 'blip-fidget-feet-001'],
-      weighted_arms: ['blip-weighted-arms-001', 'sway-weighted-arms-001', 'tumble-weighted-arms-001'],
-      bouncy_braids: ['pip-bouncy-braids-001', 'echo-bouncy-braids-001'],
-      squeeze_belly: ['tumble-squeeze-belly-001'],
-      texture_hands: ['silo-texture-hands-001'],
-      sound_ears: ['echo-sound-ears-001', 'tally-sound-ears-001', 'ponder-sound-ears-001'],
-      light_eyes: ['pip-light-eyes-001', 'tally-light-eyes-001'],
-      scent_nose: ['ponder-scent-nose-001', 'sway-scent-nose-001'],
-    };
-
-    return storyMap[attachmentType] || [];
+    await loadStoryManifest();
+    return getStoryIdsForAttachment(attachmentType);
   }
 
   /**
@@ -137,29 +157,54 @@ export class StoryLoader {
         return true;
       }
 
-      // Check if story file exists
-      const response = await fetch(`/stories/${storyId}.json`, { method: 'HEAD' });
-      return response.ok;
+      // Published stories are listed in the manifest
+      await loadStoryManifest();
+      return getManifestEntry(storyId) !== null;
     } catch (error) {
       return false;
     }
   }
 
+  /**
+   * Get the manifest version of a story if it is newer than the given copy
+   */
+  private async getNewerVersion(story: StoryContent): Promise<string | null> {
+    try {
+      await loadStoryManifest();
+    } catch {
+      // Without a manifest there is nothing newer to fetch
+      return null;
+    }
+
+    const entry = getManifestEntry(story.id);
+    return entry && isNewerVersion(entry.version, story.version) ? entry.version : null;
+  }
+
   /**
    * Fetch story from network (public folder or API)
    */
   private async fetchStoryFromNetwork(storyId: string): Promise<StoryContent> {
     try {
-      // Remove version suffix from storyId to match actual filenames
-      // e.g., 'silo-fidget-feet-001' -> 'silo-fidget-feet'
-      const baseStoryId = storyId.replace(/-\d{3}$/, '');
-      const response = await fetch(`/stories/${baseStoryId}.json`);
+      await loadStoryManifest();
+      const entry = getManifestEntry(storyId);
+      if (!entry) {
+        throw new Error(`Story ${storyId} is not in the story manifest`);
+      }
+
+      const response = await fetch(`/stories/${entry.file}`);
       
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
 
-      const story: StoryContent = await response.json();
+      // Make sure the file is the one the manifest published
+      const content = await response.text();
+      const contentHash = await calculateContentHash(content);
+      if (contentHash !== entry.contentHash) {
+        throw new Error(`Content hash mismatch for story ${storyId}`);
+      }
+
+      const story: StoryContent = JSON.parse(content);
       
       // Validate story structure
       this.validateStoryStructure(story);
@@ -175,31 +220,47 @@ export class StoryLoader {
    * Validate story structure
    */
   private validateStoryStructure(story: StoryContent): void {
-    if (!story.id || !story.characterId || !story.attachmentId) {
-      throw new Error('Story missing required fields');
-    }
+    const report = validateStoryGraph(story);
 
-    if (!story.nodes || Object.keys(story.nodes).length === 0) {
-      throw new Error('Story has no content nodes');
+    if (report.warnings.length > 0) {
+      console.warn(`Story ${story.id} validation warnings:`, report.warnings.map(issue => issue.message));
     }
 
-    if (!story.startNodeId || !story.nodes[story.startNodeId]) {
-      throw new Error('Story start node not found');
+    if (!report.isValid) {
+      throw new Error(summarizeValidationReport(report));
     }
+  }
 
-    // Validate node structure
-    for (const [nodeId, node] of Object.entries(story.nodes)) {
-      if (!node.content || !node.content.text) {
-        throw new Error(`Node ${nodeId} missing content`);
-      }
+  /**
+   * Run the automated safety pass and refuse stories rated unsafe
+   * Stories that still need review load, but are parent-only (see isParentOnlyStory).
+   */
+  private reviewContentSafety(story: StoryContent): StoryContent {
+    const reviewed = applyAutomatedSafetyCheck(story);
+    const rating = getSafetyRating(reviewed);
 
-      // Validate branches point to existing nodes
-      for (const branch of node.branches) {
-        if (!story.nodes[branch.targetSegmentId]) {
-          throw new Error(`Node ${nodeId} branch points to non-existent node: ${branch.targetSegmentId}`);
-        }
-      }
+    if (rating === 'unsafe') {
+      const check = getDecidingSafetyCheck(reviewed);
+      console.warn(`Story ${story.id} refused as unsafe by ${check?.checkedBy}: ${check?.notes}`);
+      throw this.createStoryError(
+        'CONTENT_UNSAFE',
+        'This story has been withdrawn after a safety review',
+        story.id
+      );
+    }
+
+    if (rating === 'review_needed') {
+      console.warn(`Story ${story.id} needs a content review and is parent-only for now`);
     }
+
+    return reviewed;
+  }
+
+  /**
+   * Check whether a thrown value is one of our story errors
+   */
+  private isStoryError(error: unknown): error is StoryError {
+    return typeof error === 'object' && error !== null && 'code' in error && 'recoverable' in error;
   }
 
   /**
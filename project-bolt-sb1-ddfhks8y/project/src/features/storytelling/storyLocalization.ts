@@ -0,0 +1,155 @@
+/**
+ * Story localization for Curmunchkins Mystery Box Explorer
+ * Swaps in StorySegment.translations for the child's language, node by node.
+ * A node without a complete translation stays in English, so a half-translated
+ * story still plays from start to finish.
+ */
+
+import type {
+  StoryContent,
+  StoryLanguage,
+  StoryNode,
+  StorySegment,
+  StorySegmentTranslation,
+  VoicePrompt,
+} from '@/types';
+import { saidPhrase } from './branchConditions';
+
+export interface TranslationCoverage {
+  language: StoryLanguage;
+  translatedNodes: string[];
+  missingNodes: string[]; // Nodes that will fall back to English
+  ratio: number; // 0.0 - 1.0
+}
+
+/**
+ * A translation is usable when it has text and matches every English prompt
+ * and expected response by index, so branch conditions keep working
+ */
+const isCompleteTranslation = (
+  segment: StorySegment,
+  translation: StorySegmentTranslation | undefined
+): translation is StorySegmentTranslation => {
+  if (!translation || translation.text.trim().length === 0) {
+    return false;
+  }
+
+  const prompts = segment.voicePrompts ?? [];
+  const translatedPrompts = translation.voicePrompts ?? [];
+  if (translatedPrompts.length < prompts.length) {
+    return false;
+  }
+
+  return prompts.every((prompt, index) =>
+    translatedPrompts[index].expectedResponses.length === prompt.expectedResponses.length
+  );
+};
+
+const localizeSegment = (
+  segment: StorySegment,
+  translation: StorySegmentTranslation
+): StorySegment => {
+  const voicePrompts = segment.voicePrompts?.map((prompt, index): VoicePrompt => {
+    const translatedPrompt = translation.voicePrompts![index];
+    return {
+      ...prompt,
+      text: translatedPrompt.text,
+      expectedResponses: translatedPrompt.expectedResponses,
+      encouragement: translatedPrompt.encouragement,
+      // Already-localized prompts keep their original English responses
+      sourceResponses: prompt.sourceResponses ?? prompt.expectedResponses,
+    };
+  });
+
+  return {
+    ...segment,
+    text: translation.text,
+    // English variants would override the translated text, so only keep translated ones
+    textVariants: translation.textVariants,
+    voicePrompts,
+  };
+};
+
+/**
+ * Story with each node's text and prompts in the given language where available
+ */
+export const localizeStory = (story: StoryContent, language: StoryLanguage): StoryContent => {
+  if (language === 'en') {
+    return story;
+  }
+
+  const nodes: Record<string, StoryNode> = {};
+  Object.entries(story.nodes).forEach(([nodeId, node]) => {
+    const translation = node.content.translations?.[language];
+    nodes[nodeId] = isCompleteTranslation(node.content, translation)
+      ? { ...node, content: localizeSegment(node.content, translation) }
+      : node;
+  });
+
+  const metadataTranslation = story.metadata.translations?.[language];
+
+  return {
+    ...story,
+    metadata: metadataTranslation
+      ? {
+          ...story.metadata,
+          title: metadataTranslation.title || story.metadata.title,
+          description: metadataTranslation.description || story.metadata.description,
+        }
+      : story.metadata,
+    nodes,
+  };
+};
+
+/**
+ * Map a translated answer back to the English response it stands for
+ * Branch conditions are written against the English expectedResponses, so
+ * said('yes') still matches when the child answered "sí".
+ */
+export const getSourceResponse = (node: StoryNode | null, response: string): string => {
+  for (const prompt of node?.content.voicePrompts ?? []) {
+    if (!prompt.sourceResponses) continue;
+
+    // Whole words only, so "sí" isn't found inside "así"
+    const index = prompt.expectedResponses.findIndex(expected => saidPhrase(response, expected));
+    if (index >= 0 && prompt.sourceResponses[index]) {
+      return prompt.sourceResponses[index];
+    }
+  }
+
+  return response;
+};
+
+/**
+ * How much of a story is translated, for authors and the parent dashboard
+ */
+export const getTranslationCoverage = (
+  story: StoryContent,
+  language: StoryLanguage
+): TranslationCoverage => {
+  const translatedNodes: string[] = [];
+  const missingNodes: string[] = [];
+
+  Object.values(story.nodes).forEach(node => {
+    if (language === 'en' || isCompleteTranslation(node.content, node.content.translations?.[language])) {
+      translatedNodes.push(node.id);
+    } else {
+      missingNodes.push(node.id);
+    }
+  });
+
+  const total = translatedNodes.length + missingNodes.length;
+
+  return {
+    language,
+    translatedNodes,
+    missingNodes,
+    ratio: total > 0 ? translatedNodes.length / total : 1,
+  };
+};
+
+export default {
+  localizeStory,
+  getSourceResponse,
+  getTranslationCoverage,
+};
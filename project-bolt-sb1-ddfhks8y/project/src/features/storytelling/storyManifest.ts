@@ -0,0 +1,203 @@
+/**
+ * Story manifest for Curmunchkins Mystery Box Explorer
+ * Loads public/stories/manifest.json, the single index of published stories
+ *
+ * Every story lookup (by character, by attachment, preload list, file names)
+ * comes from the manifest, so publishing a story only means adding its JSON
+ * file and a manifest entry.
+ */
+
+import type { StoryManifest, StoryManifestEntry, MunchieCharacter, AttachmentType } from '@/types';
+import { isAttachmentType } from '@/types';
+
+const MANIFEST_URL = '/stories/manifest.json';
+const MANIFEST_STORAGE_KEY = 'curmunchkins-story-manifest';
+
+let manifestInstance: StoryManifest | null = null;
+let manifestPromise: Promise<StoryManifest> | null = null;
+
+/**
+ * Check that a parsed manifest has the expected shape, dropping malformed entries
+ */
+const parseManifest = (data: unknown): StoryManifest | null => {
+  const candidate = data as Partial<StoryManifest> | null;
+  if (!candidate || typeof candidate.manifestVersion !== 'number' || !Array.isArray(candidate.stories)) {
+    return null;
+  }
+
+  const stories = candidate.stories.filter((entry): entry is StoryManifestEntry => {
+    const isValid = Boolean(
+      entry &&
+      typeof entry.id === 'string' &&
+      typeof entry.file === 'string' &&
+      typeof entry.characterId === 'string' &&
+      isAttachmentType(entry.attachmentType) &&
+      typeof entry.version === 'string' &&
+      typeof entry.contentHash === 'string'
+    );
+
+    if (!isValid) {
+      console.warn('Skipping malformed story manifest entry:', entry);
+    }
+    return isValid;
+  });
+
+  const quests = (candidate.quests || []).filter(quest =>
+    quest && typeof quest.id === 'string' && Array.isArray(quest.chapters) && quest.chapters.length > 0
+  );
+
+  return {
+    manifestVersion: candidate.manifestVersion,
+    generatedAt: candidate.generatedAt ?? 0,
+    stories,
+    quests,
+  };
+};
+
+/**
+ * Read the last manifest saved on this device
+ */
+const readStoredManifest = (): StoryManifest | null => {
+  try {
+    const saved = localStorage.getItem(MANIFEST_STORAGE_KEY);
+    return saved ? parseManifest(JSON.parse(saved)) : null;
+  } catch (error) {
+    console.warn('Failed to read stored story manifest:', error);
+    return null;
+  }
+};
+
+/**
+ * Save the manifest so story lookups keep working offline
+ */
+const storeManifest = (manifest: StoryManifest): void => {
+  try {
+    localStorage.setItem(MANIFEST_STORAGE_KEY, JSON.stringify(manifest));
+  } catch (error) {
+    console.warn('Failed to store story manifest:', error);
+  }
+};
+
+/**
+ * Fetch the manifest from the network, falling back to the stored copy when offline
+ */
+const fetchManifest = async (): Promise<StoryManifest> => {
+  try {
+    const response = await fetch(MANIFEST_URL, { cache: 'no-cache' });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const manifest = parseManifest(await response.json());
+    if (!manifest) {
+      throw new Error('Story manifest is malformed');
+    }
+
+    storeManifest(manifest);
+    return manifest;
+  } catch (error) {
+    const storedManifest = readStoredManifest();
+    if (storedManifest) {
+      console.warn('Using stored story manifest:', error);
+      return storedManifest;
+    }
+
+    console.error('Failed to load story manifest:', error);
+    throw new Error('Story manifest loading failed');
+  }
+};
+
+/**
+ * Load the story manifest (fetched once per session unless refreshed)
+ */
+export const loadStoryManifest = async (forceRefresh: boolean = false): Promise<StoryManifest> => {
+  if (manifestInstance && !forceRefresh) {
+    return manifestInstance;
+  }
+
+  if (!manifestPromise) {
+    manifestPromise = fetchManifest()
+      .then(manifest => {
+        manifestInstance = manifest;
+        return manifest;
+      })
+      .finally(() => {
+        manifestPromise = null;
+      });
+  }
+
+  return manifestPromise;
+};
+
+/**
+ * Get the manifest already loaded this session (or stored on the device) without fetching
+ */
+export const getLoadedManifest = (): StoryManifest | null => {
+  if (!manifestInstance) {
+    manifestInstance = readStoredManifest();
+  }
+  return manifestInstance;
+};
+
+/**
+ * Find the manifest entry for a story
+ */
+export const getManifestEntry = (storyId: string): StoryManifestEntry | null => {
+  return getLoadedManifest()?.stories.find(entry => entry.id === storyId) || null;
+};
+
+/**
+ * Get the published story IDs for a character
+ */
+export const getStoryIdsForCharacter = (characterId: MunchieCharacter): string[] => {
+  return (getLoadedManifest()?.stories || [])
+    .filter(entry => entry.characterId === characterId)
+    .map(entry => entry.id);
+};
+
+/**
+ * Get the published story IDs for an attachment type
+ */
+export const getStoryIdsForAttachment = (attachmentType: AttachmentType): string[] => {
+  return (getLoadedManifest()?.stories || [])
+    .filter(entry => entry.attachmentType === attachmentType)
+    .map(entry => entry.id);
+};
+
+/**
+ * Get the story IDs marked for offline preloading
+ */
+export const getEssentialStoryIds = (): string[] => {
+  return (getLoadedManifest()?.stories || [])
+    .filter(entry => entry.essential)
+    .map(entry => entry.id);
+};
+
+/**
+ * Calculate the SHA-256 content hash (hex) of a story file
+ */
+export const calculateContentHash = async (content: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+/**
+ * Clear the in-memory manifest (for testing)
+ */
+export const clearManifestCache = (): void => {
+  manifestInstance = null;
+  manifestPromise = null;
+};
+
+export default {
+  loadStoryManifest,
+  getLoadedManifest,
+  getManifestEntry,
+  getStoryIdsForCharacter,
+  getStoryIdsForAttachment,
+  getEssentialStoryIds,
+  calculateContentHash,
+  clearManifestCache,
+};
@@ -0,0 +1,123 @@
+/**
+ * Story version migration for Curmunchkins Mystery Box Explorer
+ * Compares story versions and carries saved progress forward when a story changes
+ *
+ * Authors declare node ID changes in StoryContent.migrations, e.g.
+ *   { fromVersion: '1.0.0', toVersion: '1.1.0', nodeIdMap: { 'cave': 'dark_cave', 'old_end': null } }
+ * Migrations are applied in order from the version the progress was recorded
+ * against up to the current story version.
+ */
+
+import type { StoryContent, StoryMigration, StoryProgress, DecisionRecord } from '@/types';
+
+/**
+ * Compare two dotted version strings (e.g. '1.2.0' vs '1.10.0')
+ * Returns a negative number, zero or a positive number like Array.sort comparators
+ */
+export const compareVersions = (a: string, b: string): number => {
+  const partsA = a.split('.').map(part => parseInt(part, 10) || 0);
+  const partsB = b.split('.').map(part => parseInt(part, 10) || 0);
+  const length = Math.max(partsA.length, partsB.length);
+
+  for (let i = 0; i < length; i++) {
+    const difference = (partsA[i] || 0) - (partsB[i] || 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+
+  return 0;
+};
+
+/**
+ * Check whether a candidate version is newer than the current one
+ */
+export const isNewerVersion = (candidate: string, current: string): boolean => {
+  return compareVersions(candidate, current) > 0;
+};
+
+/**
+ * Get the migrations that apply to progress recorded against a given version, oldest first
+ * Progress saved before versions were tracked goes through every migration.
+ */
+const getApplicableMigrations = (story: StoryContent, fromVersion?: string): StoryMigration[] => {
+  return (story.migrations || [])
+    .filter(migration =>
+      (!fromVersion || compareVersions(migration.fromVersion, fromVersion) >= 0) &&
+      compareVersions(migration.toVersion, story.version) <= 0
+    )
+    .sort((a, b) => compareVersions(a.fromVersion, b.fromVersion));
+};
+
+/**
+ * Check whether saved progress needs migrating to the current story
+ */
+export const needsProgressMigration = (progress: StoryProgress, story: StoryContent): boolean => {
+  return progress.storyVersion !== story.version || !story.nodes[progress.currentNodeId];
+};
+
+/**
+ * Migrate saved progress to the current story version
+ * Renamed nodes follow the author's mapping; removed nodes are dropped, and a child
+ * whose current node no longer exists goes back to the last node they saw (or the start).
+ */
+export const migrateProgress = (progress: StoryProgress, story: StoryContent): StoryProgress => {
+  const migrations = getApplicableMigrations(story, progress.storyVersion);
+
+  const mapNodeId = (nodeId: string): string | null => {
+    return migrations.reduce<string | null>((currentId, migration) => {
+      if (currentId !== null && Object.prototype.hasOwnProperty.call(migration.nodeIdMap, currentId)) {
+        return migration.nodeIdMap[currentId];
+      }
+      return currentId;
+    }, nodeId);
+  };
+
+  const migrateNodeList = (nodeIds: string[]): string[] => {
+    const migrated: string[] = [];
+    for (const nodeId of nodeIds) {
+      const newId = mapNodeId(nodeId);
+      if (newId !== null && story.nodes[newId] && !migrated.includes(newId)) {
+        migrated.push(newId);
+      }
+    }
+    return migrated;
+  };
+
+  const visitedNodes = migrateNodeList(progress.visitedNodes);
+  const completedNodes = migrateNodeList(progress.completedNodes);
+
+  // Decisions stay in the history even if their node was removed
+  const choicesMade = progress.choicesMade.map((decision): DecisionRecord => {
+    const newId = mapNodeId(decision.nodeId);
+    return newId !== null && newId !== decision.nodeId ? { ...decision, nodeId: newId } : decision;
+  });
+
+  let currentNodeId = mapNodeId(progress.currentNodeId);
+  if (currentNodeId === null || !story.nodes[currentNodeId]) {
+    currentNodeId = visitedNodes[visitedNodes.length - 1] || story.startNodeId;
+    console.warn(
+      `Node ${progress.currentNodeId} no longer exists in story ${story.id}, resuming at ${currentNodeId}`
+    );
+  }
+
+  if (!visitedNodes.includes(currentNodeId)) {
+    visitedNodes.push(currentNodeId);
+  }
+
+  return {
+    ...progress,
+    currentNodeId,
+    visitedNodes,
+    completedNodes,
+    choicesMade,
+    storyVersion: story.version,
+  };
+};
+
+export default {
+  compareVersions,
+  isNewerVersion,
+  needsProgressMigration,
+  migrateProgress,
+};
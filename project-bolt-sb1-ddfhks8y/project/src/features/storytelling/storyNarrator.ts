@@ -0,0 +1,182 @@
+/**
+ * Swappable story narrators for Curmunchkins Mystery Box Explorer
+ * A story lists the characters who can tell it in StoryContent.narrators and
+ * writes {character} where the narrator's name goes. Casting a story swaps in
+ * the narrator's name, voice, emotions and visual cue targets.
+ */
+
+import { getCharacterVoiceModel } from '@/services/elevenlabs/voiceModels';
+import type {
+  EmotionType,
+  MunchieCharacter,
+  StoryContent,
+  StoryNode,
+  StorySegment,
+  StorySegmentTranslation,
+  VisualCue,
+  VoicePrompt,
+} from '@/types';
+
+export interface NarratorContext {
+  requestedCharacter?: MunchieCharacter | null; // Explicit choice, e.g. a saved session's narrator
+  preferredCharacter?: MunchieCharacter | null; // UserPreferences.story.preferredCharacter
+  compatibleCharacters?: string[]; // The scanned attachment's characterCompatibility
+}
+
+// Matches {character} but not the {{variable}} syntax from storyVariables.ts
+const CHARACTER_PLACEHOLDER = /(?<!\{)\{character\}(?!\})/g;
+
+// Closest stand-ins for an emotion the narrator's voice doesn't cover, best first
+const EMOTION_SUBSTITUTES: Record<EmotionType, EmotionType[]> = {
+  calm: ['gentle', 'reassuring', 'understanding'],
+  excited: ['playful', 'encouraging', 'curious'],
+  curious: ['playful', 'excited', 'calm'],
+  gentle: ['calm', 'reassuring', 'understanding'],
+  encouraging: ['reassuring', 'excited', 'gentle'],
+  understanding: ['gentle', 'reassuring', 'calm'],
+  playful: ['excited', 'curious', 'encouraging'],
+  reassuring: ['gentle', 'understanding', 'encouraging'],
+};
+
+/**
+ * Name shown and spoken for a character, e.g. 'silo' -> 'Silo'
+ */
+export const getCharacterName = (characterId: MunchieCharacter): string => {
+  return characterId.charAt(0).toUpperCase() + characterId.slice(1);
+};
+
+/**
+ * Every character who can narrate a story, default narrator first
+ */
+export const getNarratorCandidates = (story: StoryContent): MunchieCharacter[] => {
+  return [story.characterId, ...(story.narrators || []).filter(id => id !== story.characterId)];
+};
+
+/**
+ * Pick who tells the story: an explicit request, then the child's favorite,
+ * then the first narrator that fits the scanned attachment, then the default
+ */
+export const chooseNarrator = (story: StoryContent, context: NarratorContext = {}): MunchieCharacter => {
+  const candidates = getNarratorCandidates(story);
+
+  for (const choice of [context.requestedCharacter, context.preferredCharacter]) {
+    if (choice && candidates.includes(choice)) {
+      return choice;
+    }
+  }
+
+  const compatible = candidates.find(id => context.compatibleCharacters?.includes(id));
+  return compatible ?? story.characterId;
+};
+
+/**
+ * An emotion the narrator's voice model can express, keeping the original when it can
+ */
+export const fitEmotionToNarrator = (emotion: EmotionType, narrator: MunchieCharacter): EmotionType => {
+  const range = getCharacterVoiceModel(narrator)?.personality.emotionalRange;
+  if (!range || range.length === 0 || range.includes(emotion)) {
+    return emotion;
+  }
+  return EMOTION_SUBSTITUTES[emotion].find(substitute => range.includes(substitute)) ?? range[0];
+};
+
+const fillName = (text: string, name: string): string => text.replace(CHARACTER_PLACEHOLDER, name);
+
+/**
+ * Point cues at the narrator, whether they used {character} or the default character's element
+ */
+const castVisualCue = (cue: VisualCue, from: MunchieCharacter, narrator: MunchieCharacter): VisualCue => {
+  const target = cue.target === `#character-${from}`
+    ? `#character-${narrator}`
+    : cue.target.replace(CHARACTER_PLACEHOLDER, narrator);
+  return target === cue.target ? cue : { ...cue, target };
+};
+
+const castPrompt = <T extends Pick<VoicePrompt, 'text' | 'expectedResponses' | 'encouragement'>>(
+  prompt: T,
+  name: string
+): T => ({
+  ...prompt,
+  text: fillName(prompt.text, name),
+  expectedResponses: prompt.expectedResponses.map(response => fillName(response, name)),
+  encouragement: fillName(prompt.encouragement, name),
+});
+
+const castTranslation = (translation: StorySegmentTranslation, name: string): StorySegmentTranslation => ({
+  ...translation,
+  text: fillName(translation.text, name),
+  textVariants: translation.textVariants?.map(variant => ({ ...variant, text: fillName(variant.text, name) })),
+  voicePrompts: translation.voicePrompts?.map(prompt => castPrompt(prompt, name)),
+});
+
+const castSegment = (
+  segment: StorySegment,
+  from: MunchieCharacter,
+  narrator: MunchieCharacter
+): StorySegment => {
+  const name = getCharacterName(narrator);
+  const translations = segment.translations
+    ? Object.fromEntries(
+        Object.entries(segment.translations).map(([language, translation]) => [
+          language,
+          translation && castTranslation(translation, name),
+        ])
+      )
+    : undefined;
+
+  return {
+    ...segment,
+    text: fillName(segment.text, name),
+    textVariants: segment.textVariants?.map(variant => ({ ...variant, text: fillName(variant.text, name) })),
+    // The author's emotions stand for their own narrator
+    voiceEmotion: narrator === from ? segment.voiceEmotion : fitEmotionToNarrator(segment.voiceEmotion, narrator),
+    visualCues: segment.visualCues.map(cue => castVisualCue(cue, from, narrator)),
+    voicePrompts: segment.voicePrompts?.map(prompt => castPrompt(prompt, name)),
+    translations,
+  };
+};
+
+/**
+ * Story told by the given narrator
+ * Placeholders are filled even for the default narrator, so a story can use
+ * {character} without listing any other narrators.
+ */
+export const castStory = (story: StoryContent, narrator: MunchieCharacter): StoryContent => {
+  const from = story.characterId;
+  const name = getCharacterName(narrator);
+
+  const nodes: Record<string, StoryNode> = {};
+  Object.entries(story.nodes).forEach(([nodeId, node]) => {
+    nodes[nodeId] = { ...node, content: castSegment(node.content, from, narrator) };
+  });
+
+  return {
+    ...story,
+    characterId: narrator,
+    metadata: {
+      ...story.metadata,
+      title: fillName(story.metadata.title, name),
+      description: fillName(story.metadata.description, name),
+      translations: story.metadata.translations
+        ? Object.fromEntries(
+            Object.entries(story.metadata.translations).map(([language, translation]) => [
+              language,
+              translation && {
+                title: fillName(translation.title, name),
+                description: fillName(translation.description, name),
+              },
+            ])
+          )
+        : undefined,
+    },
+    nodes,
+  };
+};
+
+export default {
+  getCharacterName,
+  getNarratorCandidates,
+  chooseNarrator,
+  fitEmotionToNarrator,
+  castStory,
+};
@@ -0,0 +1,119 @@
+/**
+ * Story quests for Curmunchkins Mystery Box Explorer
+ * Links stories across attachments into chaptered arcs (e.g. a Silo quest that
+ * needs fidget_feet, then texture_hands, then light_eyes) defined in the story manifest
+ *
+ * Quest progress is derived from the stories the child has completed and
+ * unlocked; the story collection saves both, so it survives reloads.
+ */
+
+import type { StoryQuest, QuestChapter, QuestProgress, AttachmentType } from '@/types';
+import { getLoadedManifest } from './storyManifest';
+
+export interface QuestScanPrompt {
+  questId: string;
+  questTitle: string;
+  chapterIndex: number;
+  chapter: QuestChapter;
+}
+
+export interface QuestChapterMatch {
+  quest: StoryQuest;
+  chapterIndex: number;
+}
+
+/**
+ * Get every quest published in the manifest
+ */
+export const getQuests = (): StoryQuest[] => {
+  return getLoadedManifest()?.quests || [];
+};
+
+/**
+ * Get the quests that include a story as one of their chapters
+ */
+export const getQuestsForStory = (storyId: string): StoryQuest[] => {
+  return getQuests().filter(quest => quest.chapters.some(chapter => chapter.storyId === storyId));
+};
+
+/**
+ * Work out how far the child has got through a quest
+ * Chapters are played in order, so the current chapter is the first one not yet completed.
+ */
+export const getQuestProgress = (
+  quest: StoryQuest,
+  completedStories: string[],
+  unlockedStories: string[]
+): QuestProgress => {
+  let completedChapters = 0;
+  while (
+    completedChapters < quest.chapters.length &&
+    completedStories.includes(quest.chapters[completedChapters].storyId)
+  ) {
+    completedChapters++;
+  }
+
+  const isCompleted = completedChapters === quest.chapters.length;
+  const currentChapter = isCompleted ? quest.chapters.length - 1 : completedChapters;
+  const currentStoryId = quest.chapters[currentChapter].storyId;
+
+  return {
+    questId: quest.id,
+    currentChapter,
+    completedChapters,
+    totalChapters: quest.chapters.length,
+    awaitingScan: !isCompleted && !unlockedStories.includes(currentStoryId),
+    isCompleted,
+  };
+};
+
+/**
+ * Get the prompt asking the child to scan the attachment for the next chapter
+ */
+export const getQuestScanPrompt = (quest: StoryQuest, progress: QuestProgress): QuestScanPrompt | null => {
+  if (progress.isCompleted || !progress.awaitingScan || progress.completedChapters === 0) {
+    return null;
+  }
+
+  return {
+    questId: quest.id,
+    questTitle: quest.title,
+    chapterIndex: progress.currentChapter,
+    chapter: quest.chapters[progress.currentChapter],
+  };
+};
+
+/**
+ * Find the quest chapter a scanned attachment opens, if it is the next step of a quest
+ * Only quests the child has started count, so a first scan still opens the attachment's own story.
+ */
+export const findQuestChapterForScan = (
+  attachmentType: AttachmentType,
+  completedStories: string[]
+): QuestChapterMatch | null => {
+  const candidates = getQuests()
+    .map(quest => ({ quest, progress: getQuestProgress(quest, completedStories, []) }))
+    .filter(({ quest, progress }) =>
+      progress.completedChapters > 0 &&
+      !progress.isCompleted &&
+      quest.chapters[progress.currentChapter].attachmentType === attachmentType
+    )
+    .sort((a, b) => b.progress.completedChapters - a.progress.completedChapters);
+
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  return {
+    quest: candidates[0].quest,
+    chapterIndex: candidates[0].progress.currentChapter,
+  };
+};
+
+export default {
+  getQuests,
+  getQuestsForStory,
+  getQuestProgress,
+  getQuestScanPrompt,
+  findQuestChapterForScan,
+};
@@ -0,0 +1,77 @@
+/**
+ * Session replay for Curmunchkins Mystery Box Explorer
+ * Rebuilds the path a child took through a story from their saved progress,
+ * so parents and therapists can walk back through it without changing it
+ */
+
+import type { StoryContent, StoryProgress, DecisionRecord } from '@/types';
+import { getStartingVariables, applyVariableAssignments } from './storyVariables';
+import type { StoryVariables } from './storyVariables';
+import { getNodeSeconds } from './storyValidator';
+
+export interface ReplayStep {
+  nodeId: string;
+  decisions: DecisionRecord[]; // Choices made on this node, in order (retries and timeouts included)
+  variables: StoryVariables; // Story variables as they were while the child was on this node
+  delay: number; // Milliseconds before the replay moves on, from the child's own timing
+}
+
+/**
+ * Rebuild the replay steps from a saved session
+ * Nodes follow the recorded trail (rewound steps are already removed from it), and
+ * variables are re-applied along the way the same way the story store does.
+ */
+export const buildReplaySteps = (story: StoryContent, progress: StoryProgress): ReplayStep[] => {
+  const steps: ReplayStep[] = [];
+  let variables = getStartingVariables(story);
+
+  for (const nodeId of progress.visitedNodes) {
+    const node = story.nodes[nodeId];
+    if (!node) {
+      continue; // Node removed in a later version of the story
+    }
+
+    // Variables set on arrival use the answer given on the node before
+    const previousStep = steps[steps.length - 1];
+    if (previousStep) {
+      const lastDecision = previousStep.decisions[previousStep.decisions.length - 1];
+      variables = applyVariableAssignments(
+        node.setVariables,
+        variables,
+        story.variables,
+        lastDecision?.voiceResponse
+      );
+    }
+
+    const decisions = progress.choicesMade.filter(decision => decision.nodeId === nodeId);
+    const respondedIn = decisions.reduce((total, decision) => total + decision.responseTime, 0);
+
+    steps.push({
+      nodeId,
+      decisions,
+      variables,
+      // Nodes the child moved through without choosing take their narration time
+      delay: decisions.length > 0 ? respondedIn : getNodeSeconds(node) * 1000,
+    });
+  }
+
+  return steps;
+};
+
+/**
+ * Describe a recorded decision for the replay panel
+ */
+export const describeDecision = (decision: DecisionRecord): string => {
+  if (decision.choice === 'timeout') {
+    return 'No answer before the prompt timed out';
+  }
+  if (decision.voiceResponse) {
+    return `Said "${decision.voiceResponse}"`;
+  }
+  return `Chose "${decision.choice}"`;
+};
+
+export default {
+  buildReplaySteps,
+  describeDecision,
+};
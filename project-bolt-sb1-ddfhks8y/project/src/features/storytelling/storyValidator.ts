@@ -0,0 +1,518 @@
+/**
+ * Story graph validator for Curmunchkins Mystery Box Explorer
+ * Checks story structure, reachability, cycles, branch weights and timing
+ * and returns a structured report for the loader and authoring tools
+ */
+
+import type {
+  StoryContent,
+  StoryNode,
+  StoryValidationIssue,
+  StoryValidationReport,
+} from '@/types';
+import { isMunchieCharacter } from '@/types';
+import { getConditionProblem } from './branchConditions';
+import { parseRequirement } from './nodeRequirements';
+import { getStoryCueTargets } from './visualCueRuntime';
+
+// Branch label used when a voice prompt runs out of time
+const TIMEOUT_CONDITION = 'timeout';
+
+// How far metadata.estimatedDuration may drift from the segment timings
+const DURATION_TOLERANCE = 0.5;
+
+// Fractional weights are treated as probabilities and should add up to 1
+const PROBABILITY_EPSILON = 0.01;
+
+/**
+ * Seconds a node takes when the child moves straight on
+ */
+export const getNodeSeconds = (node: StoryNode): number => {
+  return (node.content?.duration || 0) + (node.content?.pauseAfter || 0);
+};
+
+/**
+ * Seconds a node can take when every voice prompt runs to its timeout
+ */
+const getNodeMaxSeconds = (node: StoryNode): number => {
+  const promptSeconds = (node.content?.voicePrompts || [])
+    .reduce((sum, prompt) => sum + (prompt.timeout || 0) / 1000, 0);
+  return getNodeSeconds(node) + promptSeconds;
+};
+
+/**
+ * Get the IDs of existing nodes a node can branch to
+ */
+const getTargets = (story: StoryContent, node: StoryNode): string[] => {
+  return (node.branches || [])
+    .map(branch => branch.targetSegmentId)
+    .filter(targetId => Boolean(story.nodes[targetId]));
+};
+
+/**
+ * Breadth-first search for every node reachable from the start node
+ */
+const findReachableNodes = (story: StoryContent): Set<string> => {
+  const reachable = new Set<string>();
+  if (!story.nodes[story.startNodeId]) {
+    return reachable;
+  }
+
+  const queue = [story.startNodeId];
+  reachable.add(story.startNodeId);
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    for (const targetId of getTargets(story, story.nodes[nodeId])) {
+      if (!reachable.has(targetId)) {
+        reachable.add(targetId);
+        queue.push(targetId);
+      }
+    }
+  }
+
+  return reachable;
+};
+
+/**
+ * Tarjan's algorithm for strongly connected components
+ */
+const findStronglyConnectedComponents = (story: StoryContent): string[][] => {
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let index = 0;
+
+  const visit = (nodeId: string) => {
+    indices.set(nodeId, index);
+    lowLinks.set(nodeId, index);
+    index++;
+    stack.push(nodeId);
+    onStack.add(nodeId);
+
+    for (const targetId of getTargets(story, story.nodes[nodeId])) {
+      if (!indices.has(targetId)) {
+        visit(targetId);
+        lowLinks.set(nodeId, Math.min(lowLinks.get(nodeId)!, lowLinks.get(targetId)!));
+      } else if (onStack.has(targetId)) {
+        lowLinks.set(nodeId, Math.min(lowLinks.get(nodeId)!, indices.get(targetId)!));
+      }
+    }
+
+    if (lowLinks.get(nodeId) === indices.get(nodeId)) {
+      const component: string[] = [];
+      let memberId: string;
+      do {
+        memberId = stack.pop()!;
+        onStack.delete(memberId);
+        component.push(memberId);
+      } while (memberId !== nodeId);
+      components.push(component);
+    }
+  };
+
+  for (const nodeId of Object.keys(story.nodes)) {
+    if (!indices.has(nodeId)) {
+      visit(nodeId);
+    }
+  }
+
+  return components;
+};
+
+/**
+ * Quickest route in seconds from the start node to any end node
+ */
+const findShortestPathSeconds = (story: StoryContent, reachable: Set<string>): number | null => {
+  const distances = new Map<string, number>();
+  const settled = new Set<string>();
+  distances.set(story.startNodeId, getNodeSeconds(story.nodes[story.startNodeId]));
+
+  while (settled.size < reachable.size) {
+    let currentId: string | null = null;
+    for (const [nodeId, distance] of distances) {
+      if (!settled.has(nodeId) && (currentId === null || distance < distances.get(currentId)!)) {
+        currentId = nodeId;
+      }
+    }
+    if (currentId === null) {
+      break;
+    }
+
+    const node = story.nodes[currentId];
+    if (node.isEndNode) {
+      return distances.get(currentId)!;
+    }
+    settled.add(currentId);
+
+    for (const targetId of getTargets(story, node)) {
+      const candidate = distances.get(currentId)! + getNodeSeconds(story.nodes[targetId]);
+      if (!settled.has(targetId) && candidate < (distances.get(targetId) ?? Infinity)) {
+        distances.set(targetId, candidate);
+      }
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Slowest route in seconds from the start node to any end node
+ * Each loop counts once, every node in it taking its longest time, since a
+ * child could go round a loop indefinitely. Components come from Tarjan's
+ * algorithm, which lists a component only after everything it leads to.
+ */
+const findLongestPathSeconds = (
+  story: StoryContent,
+  reachable: Set<string>,
+  components: string[][]
+): number | null => {
+  const componentOf = new Map<string, number>();
+  components.forEach((component, index) => component.forEach(nodeId => componentOf.set(nodeId, index)));
+
+  // Longest time from entering each component to finishing the story, or null if no end is reachable
+  const longest: (number | null)[] = [];
+  components.forEach((component, index) => {
+    let bestAfter: number | null = component.some(nodeId => story.nodes[nodeId].isEndNode) ? 0 : null;
+    for (const nodeId of component) {
+      if (story.nodes[nodeId].isEndNode) {
+        continue; // The story stops at an end node
+      }
+      for (const targetId of getTargets(story, story.nodes[nodeId])) {
+        const after = longest[componentOf.get(targetId)!];
+        if (componentOf.get(targetId) !== index && after !== null && after !== undefined) {
+          bestAfter = Math.max(bestAfter ?? 0, after);
+        }
+      }
+    }
+    longest[index] = bestAfter === null
+      ? null
+      : bestAfter + component.reduce((sum, nodeId) => sum + getNodeMaxSeconds(story.nodes[nodeId]), 0);
+  });
+
+  const startComponent = componentOf.get(story.startNodeId);
+  return reachable.size > 0 && startComponent !== undefined ? longest[startComponent] : null;
+};
+
+/**
+ * Quickest and slowest routes in seconds from the start node to an end node
+ * (see findLongestPathSeconds for how loops count), or null when no end is reachable
+ */
+export const getRouteSeconds = (story: StoryContent): { shortest: number; longest: number } | null => {
+  const reachable = findReachableNodes(story);
+  if (reachable.size === 0) {
+    return null;
+  }
+
+  const shortest = findShortestPathSeconds(story, reachable);
+  const longest = findLongestPathSeconds(story, reachable, findStronglyConnectedComponents(story));
+  return shortest !== null && longest !== null ? { shortest, longest } : null;
+};
+
+/**
+ * Validate the complete story graph
+ */
+export const validateStoryGraph = (story: StoryContent): StoryValidationReport => {
+  const issues: StoryValidationIssue[] = [];
+  const addIssue = (issue: StoryValidationIssue) => issues.push(issue);
+
+  // Required fields
+  for (const field of ['id', 'characterId', 'attachmentId', 'startNodeId'] as const) {
+    if (!story[field]) {
+      addIssue({ code: 'MISSING_FIELD', severity: 'error', message: `Story is missing "${field}"` });
+    }
+  }
+
+  const nodes = story.nodes || {};
+  const nodeIds = Object.keys(nodes);
+  if (nodeIds.length === 0) {
+    addIssue({ code: 'MISSING_FIELD', severity: 'error', message: 'Story has no content nodes' });
+  }
+
+  if (story.startNodeId && nodeIds.length > 0 && !nodes[story.startNodeId]) {
+    addIssue({
+      code: 'MISSING_START_NODE',
+      severity: 'error',
+      message: `Start node "${story.startNodeId}" does not exist`,
+      nodeId: story.startNodeId,
+    });
+  }
+
+  const graph: StoryContent = { ...story, nodes };
+  const reachable = findReachableNodes(graph);
+  const declaredVariables = story.variables || {};
+  const cueTargets = getStoryCueTargets(story.characterId, story.attachmentId);
+
+  for (const [nodeId, node] of Object.entries(nodes)) {
+    const branches = node.branches || [];
+
+    if (node.id !== nodeId) {
+      addIssue({
+        code: 'MISSING_FIELD',
+        severity: 'warning',
+        message: `Node key "${nodeId}" does not match its id "${node.id}"`,
+        nodeId,
+      });
+    }
+
+    if (!node.content || !node.content.text) {
+      addIssue({ code: 'MISSING_CONTENT', severity: 'error', message: `Node "${nodeId}" has no text`, nodeId });
+    }
+    for (const variant of node.content?.textVariants || []) {
+      if (!variant.text || (!variant.ageBand && !variant.difficultyLevel)) {
+        addIssue({
+          code: 'MISSING_CONTENT',
+          severity: 'warning',
+          message: `Node "${nodeId}" has a text variant with no text or no age band/difficulty`,
+          nodeId,
+        });
+      }
+    }
+
+    for (const cue of node.content?.visualCues || []) {
+      if (!cueTargets.includes(cue.target)) {
+        addIssue({
+          code: 'UNKNOWN_CUE_TARGET',
+          severity: 'warning',
+          message: `Node "${nodeId}" has a visual cue on "${cue.target}", which the story viewer doesn't show`,
+          nodeId,
+        });
+      }
+    }
+
+    // Branch targets and conditions
+    for (const branch of branches) {
+      if (!nodes[branch.targetSegmentId]) {
+        addIssue({
+          code: 'BROKEN_BRANCH',
+          severity: 'error',
+          message: `Node "${nodeId}" branches to missing node "${branch.targetSegmentId}"`,
+          nodeId,
+        });
+      }
+      const conditionProblem = getConditionProblem(branch.condition || '', Object.keys(declaredVariables));
+      if (conditionProblem) {
+        addIssue({
+          code: 'INVALID_CONDITION',
+          severity: 'error',
+          message: `Node "${nodeId}" has an invalid branch condition "${branch.condition}": ${conditionProblem}`,
+          nodeId,
+        });
+      }
+    }
+
+    // Reachability
+    if (story.startNodeId && nodes[story.startNodeId] && !reachable.has(nodeId)) {
+      addIssue({
+        code: 'UNREACHABLE_NODE',
+        severity: 'warning',
+        message: `Node "${nodeId}" cannot be reached from the start node`,
+        nodeId,
+      });
+    }
+
+    // Terminal structure
+    const targets = getTargets(graph, node);
+    if (!node.isEndNode && targets.length === 0) {
+      addIssue({
+        code: 'DEAD_END',
+        severity: 'error',
+        message: `Node "${nodeId}" has nowhere to go but is not marked as an end node`,
+        nodeId,
+      });
+    }
+    if (node.isEndNode && branches.length > 0) {
+      addIssue({
+        code: 'END_NODE_NOT_TERMINAL',
+        severity: 'warning',
+        message: `End node "${nodeId}" still has ${branches.length} branch(es)`,
+        nodeId,
+      });
+    }
+
+    // Branch weights
+    const invalidWeights = branches.filter(branch =>
+      typeof branch.weight !== 'number' || !Number.isFinite(branch.weight) || branch.weight < 0
+    );
+    if (invalidWeights.length > 0) {
+      addIssue({
+        code: 'INVALID_BRANCH_WEIGHT',
+        severity: 'error',
+        message: `Node "${nodeId}" has ${invalidWeights.length} branch(es) with a negative or missing weight`,
+        nodeId,
+      });
+    } else if (branches.length > 1) {
+      const totalWeight = branches.reduce((sum, branch) => sum + branch.weight, 0);
+      const looksLikeProbabilities = branches.every(branch => branch.weight <= 1)
+        && branches.some(branch => branch.weight > 0 && branch.weight < 1);
+
+      if (totalWeight === 0) {
+        addIssue({
+          code: 'BRANCH_WEIGHTS_MISMATCH',
+          severity: 'warning',
+          message: `Node "${nodeId}" has branch weights that add up to 0`,
+          nodeId,
+        });
+      } else if (looksLikeProbabilities && Math.abs(totalWeight - 1) > PROBABILITY_EPSILON) {
+        addIssue({
+          code: 'BRANCH_WEIGHTS_MISMATCH',
+          severity: 'warning',
+          message: `Node "${nodeId}" has fractional branch weights that add up to ${totalWeight.toFixed(2)} instead of 1`,
+          nodeId,
+        });
+      }
+    }
+
+    // Voice prompt timeouts need somewhere to go
+    const hasTimedPrompt = (node.content?.voicePrompts || []).some(prompt => prompt.timeout > 0);
+    const hasTimeoutBranch = branches.some(branch => (branch.condition || '').trim() === TIMEOUT_CONDITION);
+    if (hasTimedPrompt && !node.isEndNode && !hasTimeoutBranch) {
+      addIssue({
+        code: 'TIMEOUT_WITHOUT_BRANCH',
+        severity: 'warning',
+        message: `Node "${nodeId}" has a voice prompt timeout but no "${TIMEOUT_CONDITION}" branch`,
+        nodeId,
+      });
+    }
+
+    // Unlock requirements and variables
+    for (const requirement of node.unlockRequirements || []) {
+      if (parseRequirement(requirement).type === 'unknown') {
+        addIssue({
+          code: 'UNKNOWN_REQUIREMENT',
+          severity: 'warning',
+          message: `Node "${nodeId}" has an unrecognised unlock requirement: ${requirement}`,
+          nodeId,
+        });
+      }
+    }
+    for (const assignment of node.setVariables || []) {
+      if (!declaredVariables[assignment.variable]) {
+        addIssue({
+          code: 'UNDECLARED_VARIABLE',
+          severity: 'error',
+          message: `Node "${nodeId}" sets undeclared variable "${assignment.variable}"`,
+          nodeId,
+        });
+      }
+    }
+  }
+
+  // Migrations into this version must point at nodes that exist
+  // (earlier migrations may target intermediate nodes that were later renamed)
+  for (const migration of (story.migrations || []).filter(m => m.toVersion === story.version)) {
+    for (const [oldId, newId] of Object.entries(migration.nodeIdMap)) {
+      if (newId !== null && !nodes[newId]) {
+        addIssue({
+          code: 'INVALID_MIGRATION',
+          severity: 'error',
+          message: `Migration ${migration.fromVersion} -> ${migration.toVersion} maps "${oldId}" to missing node "${newId}"`,
+          nodeId: oldId,
+        });
+      }
+    }
+  }
+
+  // Swappable narrators must be real characters, and the text shouldn't name the default one
+  for (const narrator of story.narrators || []) {
+    if (!isMunchieCharacter(narrator)) {
+      addIssue({
+        code: 'UNKNOWN_NARRATOR',
+        severity: 'error',
+        message: `Story lists unknown narrator "${narrator}"`,
+      });
+    }
+  }
+  if ((story.narrators || []).some(narrator => narrator !== story.characterId) && story.characterId) {
+    const defaultName = new RegExp(`\\b${story.characterId}\\b`, 'i');
+    for (const [nodeId, node] of Object.entries(nodes)) {
+      if (defaultName.test(node.content?.text || '')) {
+        addIssue({
+          code: 'NARRATOR_NAME_IN_TEXT',
+          severity: 'warning',
+          message: `Node "${nodeId}" names ${story.characterId} directly; use {character} so other narrators fit`,
+          nodeId,
+        });
+      }
+    }
+  }
+
+  // Cycles the child can never leave
+  const components = findStronglyConnectedComponents(graph);
+  for (const component of components) {
+    const isCycle = component.length > 1
+      || getTargets(graph, nodes[component[0]]).includes(component[0]);
+    if (!isCycle || !component.some(nodeId => reachable.has(nodeId))) {
+      continue;
+    }
+
+    const members = new Set(component);
+    const hasExit = component.some(nodeId =>
+      nodes[nodeId].isEndNode || getTargets(graph, nodes[nodeId]).some(targetId => !members.has(targetId))
+    );
+    if (!hasExit) {
+      addIssue({
+        code: 'CYCLE_WITHOUT_EXIT',
+        severity: 'error',
+        message: `Nodes ${component.map(nodeId => `"${nodeId}"`).join(', ')} form a loop with no way out`,
+        nodeId: component[0],
+        relatedNodeIds: component,
+      });
+    }
+  }
+
+  // Timing against metadata
+  const endNodes = nodeIds.filter(nodeId => nodes[nodeId].isEndNode);
+  const shortestPathSeconds = reachable.size > 0 ? findShortestPathSeconds(graph, reachable) : null;
+  const longestPathSeconds = findLongestPathSeconds(graph, reachable, components);
+
+  const estimatedSeconds = (story.metadata?.estimatedDuration || 0) * 60;
+  if (estimatedSeconds > 0 && shortestPathSeconds !== null && longestPathSeconds !== null) {
+    const lowerBound = shortestPathSeconds * (1 - DURATION_TOLERANCE);
+    const upperBound = longestPathSeconds * (1 + DURATION_TOLERANCE);
+    if (estimatedSeconds < lowerBound || estimatedSeconds > upperBound) {
+      addIssue({
+        code: 'DURATION_MISMATCH',
+        severity: 'warning',
+        message: `Estimated duration of ${story.metadata.estimatedDuration} min does not fit segment timings `
+          + `(${Math.round(shortestPathSeconds)}s to ${Math.round(longestPathSeconds)}s)`,
+      });
+    }
+  }
+
+  const errors = issues.filter(issue => issue.severity === 'error');
+  const warnings = issues.filter(issue => issue.severity === 'warning');
+
+  return {
+    storyId: story.id,
+    isValid: errors.length === 0,
+    errors,
+    warnings,
+    stats: {
+      totalNodes: nodeIds.length,
+      reachableNodes: reachable.size,
+      endNodes: endNodes.length,
+      shortestPathSeconds,
+      longestPathSeconds,
+    },
+    validatedAt: Date.now(),
+  };
+};
+
+/**
+ * Summarise a report's errors in a single line (for logs and thrown errors)
+ */
+export const summarizeValidationReport = (report: StoryValidationReport): string => {
+  if (report.isValid) {
+    return `Story ${report.storyId} is valid with ${report.warnings.length} warning(s)`;
+  }
+  return `Story ${report.storyId} has ${report.errors.length} error(s): `
+    + report.errors.map(issue => issue.message).join('; ');
+};
+
+export default {
+  validateStoryGraph,
+  summarizeValidationReport,
+};
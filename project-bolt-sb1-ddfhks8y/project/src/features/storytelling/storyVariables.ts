@@ -0,0 +1,142 @@
+/**
+ * Story variable handling for Curmunchkins Mystery Box Explorer
+ * Manages typed story state (counters, flags, names) declared in StoryContent.variables
+ */
+
+import type {
+  StoryContent,
+  StoryVariableAssignment,
+  StoryVariableDefinition,
+  StoryVariableValue,
+} from '@/types';
+
+export type StoryVariables = Record<string, StoryVariableValue>;
+
+// Matches {{variableName}} placeholders in segment text
+const VARIABLE_PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+// Voice responses stored as names are kept short and printable
+const MAX_RESPONSE_LENGTH = 40;
+
+/**
+ * Check that a value matches the declared variable type
+ */
+const matchesType = (value: unknown, definition: StoryVariableDefinition): value is StoryVariableValue => {
+  return typeof value === definition.type;
+};
+
+/**
+ * Build the starting variable values for a story, restoring saved values when they are still valid
+ */
+export const initializeVariables = (
+  story: StoryContent,
+  savedValues?: StoryVariables
+): StoryVariables => {
+  const variables: StoryVariables = {};
+
+  for (const [name, definition] of Object.entries(story.variables || {})) {
+    const savedValue = savedValues?.[name];
+    variables[name] = matchesType(savedValue, definition) ? savedValue : definition.defaultValue;
+  }
+
+  return variables;
+};
+
+/**
+ * Tidy a spoken response before storing it (e.g. a pet's name)
+ */
+const normalizeResponse = (response: string): string => {
+  const trimmed = response.trim().slice(0, MAX_RESPONSE_LENGTH);
+  return trimmed.charAt(0).toUpperCase() + trimmed.slice(1);
+};
+
+/**
+ * Apply a node's variable assignments, ignoring any that don't fit the declared types
+ */
+export const applyVariableAssignments = (
+  assignments: StoryVariableAssignment[] | undefined,
+  current: StoryVariables,
+  definitions: Record<string, StoryVariableDefinition> | undefined,
+  voiceResponse?: string
+): StoryVariables => {
+  if (!assignments || assignments.length === 0 || !definitions) {
+    return current;
+  }
+
+  const updated: StoryVariables = { ...current };
+
+  for (const assignment of assignments) {
+    const definition = definitions[assignment.variable];
+    if (!definition) {
+      console.warn(`Assignment to undeclared story variable: ${assignment.variable}`);
+      continue;
+    }
+
+    const currentValue = updated[assignment.variable] ?? definition.defaultValue;
+
+    switch (assignment.operation) {
+      case 'set':
+        if (matchesType(assignment.value, definition)) {
+          updated[assignment.variable] = assignment.value;
+        }
+        break;
+
+      case 'increment':
+      case 'decrement':
+        if (definition.type === 'number' && typeof currentValue === 'number') {
+          const step = typeof assignment.value === 'number' ? assignment.value : 1;
+          updated[assignment.variable] = assignment.operation === 'increment'
+            ? currentValue + step
+            : currentValue - step;
+        }
+        break;
+
+      case 'toggle':
+        if (definition.type === 'boolean') {
+          updated[assignment.variable] = !currentValue;
+        }
+        break;
+
+      case 'set_from_response':
+        if (definition.type === 'string' && voiceResponse && voiceResponse.trim().length > 0) {
+          updated[assignment.variable] = normalizeResponse(voiceResponse);
+        }
+        break;
+    }
+  }
+
+  return updated;
+};
+
+/**
+ * Variable values on arrival at the start node of a fresh playthrough
+ * Navigation applies each node's assignments on the way in, but the start node is never navigated to.
+ */
+export const getStartingVariables = (story: StoryContent): StoryVariables => {
+  return applyVariableAssignments(
+    story.nodes[story.startNodeId]?.setVariables,
+    initializeVariables(story),
+    story.variables
+  );
+};
+
+/**
+ * Replace {{variable}} placeholders in story text. Unknown placeholders are left as-is.
+ */
+export const interpolateText = (text: string, variables: StoryVariables | undefined): string => {
+  if (!variables || !text.includes('{{')) {
+    return text;
+  }
+
+  return text.replace(VARIABLE_PLACEHOLDER, (placeholder, name: string) => {
+    const value = variables[name];
+    return value === undefined ? placeholder : String(value);
+  });
+};
+
+export default {
+  initializeVariables,
+  applyVariableAssignments,
+  getStartingVariables,
+  interpolateText,
+};
@@ -0,0 +1,98 @@
+/**
+ * Age- and difficulty-adaptive segment text for Curmunchkins Mystery Box Explorer
+ * Picks the StorySegment.textVariants entry that best fits the child
+ */
+
+import type {
+  AgeBand,
+  StorySegment,
+  StoryTextVariant,
+  StoryVariableValue,
+  UserProfile,
+  UserPreferences,
+} from '@/types';
+import { interpolateText } from './storyVariables';
+
+export interface TextVariantContext {
+  ageBand: AgeBand | null;
+  difficultyLevel: StoryTextVariant['difficultyLevel'] | null;
+}
+
+/**
+ * Build the variant context from the child's profile and story preferences
+ */
+export const getTextVariantContext = (
+  profile: UserProfile | null,
+  preferences: UserPreferences | null
+): TextVariantContext => {
+  return {
+    ageBand: profile?.childInfo?.ageRange ?? null,
+    difficultyLevel: preferences?.story.difficultyLevel ?? null,
+  };
+};
+
+/**
+ * Score how well a variant fits the child, or -1 if it targets someone else
+ * Age band matches outrank difficulty matches, and a variant matching both wins.
+ */
+const scoreVariant = (variant: StoryTextVariant, context: TextVariantContext): number => {
+  let score = 0;
+
+  if (variant.ageBand) {
+    if (variant.ageBand !== context.ageBand) {
+      return -1;
+    }
+    score += 2;
+  }
+
+  if (variant.difficultyLevel) {
+    if (variant.difficultyLevel !== context.difficultyLevel) {
+      return -1;
+    }
+    score += 1;
+  }
+
+  return score;
+};
+
+/**
+ * Select the segment wording for the child, falling back to the default text
+ */
+export const selectSegmentText = (
+  segment: StorySegment,
+  context: TextVariantContext | undefined
+): string => {
+  if (!context || !segment.textVariants || segment.textVariants.length === 0) {
+    return segment.text;
+  }
+
+  let bestText = segment.text;
+  let bestScore = 0;
+
+  for (const variant of segment.textVariants) {
+    const score = scoreVariant(variant, context);
+    if (score > bestScore && variant.text.trim().length > 0) {
+      bestText = variant.text;
+      bestScore = score;
+    }
+  }
+
+  return bestText;
+};
+
+/**
+ * Get the final text shown and narrated for a segment (variant plus story variables)
+ */
+export const resolveSegmentText = (
+  segment: StorySegment,
+  context: TextVariantContext | undefined,
+  variables: Record<string, StoryVariableValue> | undefined
+): string => {
+  return interpolateText(selectSegmentText(segment, context), variables);
+};
+
+export default {
+  getTextVariantContext,
+  selectSegmentText,
+  resolveSegmentText,
+};
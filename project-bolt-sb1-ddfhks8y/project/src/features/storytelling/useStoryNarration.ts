@@ -5,10 +5,14 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useVoiceStore } from '@/stores';
-import type { StoryNode, StorySegment, MunchieCharacter, EmotionType } from '@/types';
+import type { StoryNode, StorySegment, MunchieCharacter, EmotionType, StoryVariableValue } from '@/types';
+import { resolveSegmentText } from './textVariants';
+import type { TextVariantContext } from './textVariants';
 
 export interface NarrationOptions {
   autoPlay?: boolean;
+  variables?: Record<string, StoryVariableValue>; // Values for {{variable}} placeholders
+  textVariant?: TextVariantContext; // Child's age band and difficulty for segment wording
   pauseBetweenSegments?: boolean;
   pauseDuration?: number; // milliseconds
   onSegmentStart?: (segment: StorySegment) => void;
@@ -63,7 +67,7 @@ export const useStoryNarration = (
       }
       
       const result = await playStorySegment({
-        text: segment.text,
+        text: resolveSegmentText(segment, options.textVariant, options.variables),
         characterId,
         emotion: segment.voiceEmotion,
       });
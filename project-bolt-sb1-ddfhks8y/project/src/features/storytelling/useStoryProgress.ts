@@ -5,93 +5,60 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useStoryStore } from '@/stores';
-import { saveProgress, loadProgress } from '@/services/storage';
 import type { StoryProgress, DecisionRecord } from '@/types';
 
 export const useStoryProgress = () => {
   const {
     currentStory,
     currentNode,
-    visitedNodes,
-    navigateToNode,
+    currentProgress: progress,
+    navigationHistory,
+    redoStack,
+    lengthPlan,
+    goToNextNode: goForward,
+    goToPreviousNode: rewind,
+    saveProgress: persistProgress,
   } = useStoryStore();
 
-  const [progress, setProgress] = useState<StoryProgress | null>(null);
   const [canGoBack, setCanGoBack] = useState(false);
   const [canGoForward, setCanGoForward] = useState(false);
 
-  // Load progress when story changes
-  useEffect(() => {
-    if (currentStory) {
-      loadStoryProgress();
-    }
-  }, [currentStory]);
-
-  // Update navigation state when current node changes
+  // Update navigation state when the history changes
   useEffect(() => {
     updateNavigationState();
-  }, [currentNode, visitedNodes]);
-
-  const loadStoryProgress = async () => {
-    if (!currentStory) return;
-
-    try {
-      const existingProgress = await loadProgress(currentStory.id);
-      if (existingProgress) {
-        setProgress(existingProgress);
-      } else {
-        // Create new progress
-        const newProgress: StoryProgress = {
-          storyId: currentStory.id,
-          userId: 'current-user', // Would get from app store
-          currentNodeId: currentStory.startNodeId,
-          visitedNodes: [currentStory.startNodeId],
-          completedNodes: [],
-          startedAt: Date.now(),
-          lastAccessedAt: Date.now(),
-          totalTimeSpent: 0,
-          choicesMade: [],
-          isCompleted: false,
-        };
-        setProgress(newProgress);
-        await saveProgress(newProgress);
-      }
-    } catch (error) {
-      console.error('Failed to load story progress:', error);
-    }
-  };
+  }, [currentNode, navigationHistory, redoStack]);
+
+  // The store owns the progress record; changes go through it so nothing saves a stale copy
+  const updateProgress = useCallback(async (update: (current: StoryProgress) => StoryProgress) => {
+    useStoryStore.setState(state => ({
+      currentProgress: state.currentProgress ? update(state.currentProgress) : null,
+    }));
+    await persistProgress();
+  }, [persistProgress]);
 
   const updateNavigationState = () => {
-    if (!currentNode || !visitedNodes) {
+    if (!currentNode) {
       setCanGoBack(false);
       setCanGoForward(false);
       return;
     }
 
-    const currentIndex = visitedNodes.indexOf(currentNode.id);
-    setCanGoBack(currentIndex > 0);
-    setCanGoForward(currentIndex < visitedNodes.length - 1);
+    // Back rewinds the last step; forward replays a rewound step
+    setCanGoBack(navigationHistory.length > 0);
+    setCanGoForward(redoStack.length > 0);
   };
 
   const goToNextNode = useCallback(() => {
-    if (!currentNode || !visitedNodes) return;
+    if (!currentNode || redoStack.length === 0) return;
 
-    const currentIndex = visitedNodes.indexOf(currentNode.id);
-    if (currentIndex < visitedNodes.length - 1) {
-      const nextNodeId = visitedNodes[currentIndex + 1];
-      navigateToNode(nextNodeId);
-    }
-  }, [currentNode, visitedNodes, navigateToNode]);
+    goForward();
+  }, [currentNode, redoStack, goForward]);
 
   const goToPreviousNode = useCallback(() => {
-    if (!currentNode || !visitedNodes) return;
+    if (!currentNode || navigationHistory.length === 0) return;
 
-    const currentIndex = visitedNodes.indexOf(currentNode.id);
-    if (currentIndex > 0) {
-      const previousNodeId = visitedNodes[currentIndex - 1];
-      navigateToNode(previousNodeId);
-    }
-  }, [currentNode, visitedNodes, navigateToNode]);
+    rewind();
+  }, [currentNode, navigationHistory, rewind]);
 
   const recordDecision = useCallback(async (choice: string, responseTime: number = 0) => {
     if (!currentNode || !progress) return;
@@ -103,50 +70,48 @@ export const useStoryProgress = () => {
       responseTime,
     };
 
-    const updatedProgress: StoryProgress = {
-      ...progress,
-      choicesMade: [...progress.choicesMade, decision],
+    await updateProgress(current => ({
+      ...current,
+      choicesMade: [...current.choicesMade, decision],
       lastAccessedAt: Date.now(),
-    };
-
-    setProgress(updatedProgress);
-    await saveProgress(updatedProgress);
-  }, [currentNode, progress]);
+    }));
+  }, [currentNode, progress, updateProgress]);
 
   const markNodeCompleted = useCallback(async (nodeId: string) => {
     if (!progress) return;
 
-    const updatedProgress: StoryProgress = {
-      ...progress,
-      completedNodes: [...new Set([...progress.completedNodes, nodeId])],
+    await updateProgress(current => ({
+      ...current,
+      completedNodes: [...new Set([...current.completedNodes, nodeId])],
       lastAccessedAt: Date.now(),
-    };
-
-    setProgress(updatedProgress);
-    await saveProgress(updatedProgress);
-  }, [progress]);
+    }));
+  }, [progress, updateProgress]);
 
   const saveCurrentProgress = useCallback(async () => {
     if (!progress || !currentNode) return;
 
-    const updatedProgress: StoryProgress = {
-      ...progress,
+    await updateProgress(current => ({
+      ...current,
       currentNodeId: currentNode.id,
       lastAccessedAt: Date.now(),
-      totalTimeSpent: progress.totalTimeSpent + (Date.now() - progress.lastAccessedAt),
-    };
+      totalTimeSpent: current.totalTimeSpent + (Date.now() - current.lastAccessedAt),
+    }));
+  }, [progress, currentNode, updateProgress]);
+
+  // Nodes the length plan trimmed away are never shown, so they don't count towards progress
+  const getTotalNodes = useCallback(() => {
+    if (!currentStory) return 0;
 
-    setProgress(updatedProgress);
-    await saveProgress(updatedProgress);
-  }, [progress, currentNode]);
+    return lengthPlan?.totalNodes ?? Object.keys(currentStory.nodes).length;
+  }, [currentStory, lengthPlan]);
 
   const getProgressPercentage = useCallback(() => {
     if (!currentStory || !progress) return 0;
 
-    const totalNodes = Object.keys(currentStory.nodes).length;
+    const totalNodes = getTotalNodes();
     const visitedCount = progress.visitedNodes.length;
-    return Math.round((visitedCount / totalNodes) * 100);
-  }, [currentStory, progress]);
+    return Math.min(100, Math.round((visitedCount / totalNodes) * 100));
+  }, [currentStory, progress, getTotalNodes]);
 
   const getTimeSpent = useCallback(() => {
     if (!progress) return 0;
@@ -170,7 +135,7 @@ export const useStoryProgress = () => {
       };
     }
 
-    const totalNodes = Object.keys(currentStory.nodes).length;
+    const totalNodes = getTotalNodes();
     const timeSpent = getTimeSpent();
 
     return {
@@ -180,7 +145,7 @@ export const useStoryProgress = () => {
       timeSpent,
       completionRate: getProgressPercentage(),
     };
-  }, [currentStory, progress, getTimeSpent, getProgressPercentage]);
+  }, [currentStory, progress, getTotalNodes, getTimeSpent, getProgressPercentage]);
 
   return {
     progress,
@@ -0,0 +1,128 @@
+/**
+ * Story replay hook
+ * Loads a saved session and steps through it on the child's original timing.
+ * Progress is only read, never saved, so replaying leaves the record untouched.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { loadProgress } from '@/services/storage';
+import type { StoryContent, StoryNode, StoryProgress } from '@/types';
+import { storyLoader } from './storyLoader';
+import { needsProgressMigration, migrateProgress } from './storyMigration';
+import { buildReplaySteps } from './storyReplay';
+import type { ReplayStep } from './storyReplay';
+
+export const useStoryReplay = (storyId: string | undefined) => {
+  const [story, setStory] = useState<StoryContent | null>(null);
+  const [progress, setProgress] = useState<StoryProgress | null>(null);
+  const [steps, setSteps] = useState<ReplayStep[]>([]);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  // Load the story and its recorded session
+  useEffect(() => {
+    if (!storyId) {
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadSession = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const loadedStory = await storyLoader.loadStory(storyId);
+        let savedProgress = await loadProgress(storyId);
+
+        if (!loadedStory) {
+          throw new Error('Story not found');
+        }
+        if (!savedProgress || savedProgress.visitedNodes.length === 0) {
+          throw new Error('No recorded session for this story yet');
+        }
+
+        // Line the session up with the current story version, in memory only
+        if (needsProgressMigration(savedProgress, loadedStory)) {
+          savedProgress = migrateProgress(savedProgress, loadedStory);
+        }
+
+        if (!cancelled) {
+          setStory(loadedStory);
+          setProgress(savedProgress);
+          setSteps(buildReplaySteps(loadedStory, savedProgress));
+          setStepIndex(0);
+          setIsPlaying(false);
+        }
+      } catch (loadError) {
+        console.error('Failed to load story replay:', loadError);
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError : new Error('Failed to load replay'));
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadSession();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storyId]);
+
+  // Move on after the time the child originally took
+  useEffect(() => {
+    if (!isPlaying || stepIndex >= steps.length - 1) {
+      if (isPlaying && stepIndex >= steps.length - 1) {
+        setIsPlaying(false);
+      }
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      setStepIndex(index => index + 1);
+    }, steps[stepIndex].delay);
+
+    return () => clearTimeout(timer);
+  }, [isPlaying, stepIndex, steps]);
+
+  const play = useCallback(() => setIsPlaying(true), []);
+  const pause = useCallback(() => setIsPlaying(false), []);
+
+  const goToStep = useCallback((index: number) => {
+    setStepIndex(Math.max(0, Math.min(index, steps.length - 1)));
+  }, [steps.length]);
+
+  const nextStep = useCallback(() => goToStep(stepIndex + 1), [goToStep, stepIndex]);
+  const previousStep = useCallback(() => goToStep(stepIndex - 1), [goToStep, stepIndex]);
+
+  const currentStep: ReplayStep | null = steps[stepIndex] ?? null;
+  const currentNode: StoryNode | null = story && currentStep ? story.nodes[currentStep.nodeId] ?? null : null;
+
+  return {
+    // State
+    story,
+    progress,
+    steps,
+    stepIndex,
+    currentStep,
+    currentNode,
+    isPlaying,
+    isLoading,
+    error,
+
+    // Controls
+    play,
+    pause,
+    goToStep,
+    nextStep,
+    previousStep,
+  };
+};
+
+export default useStoryReplay;
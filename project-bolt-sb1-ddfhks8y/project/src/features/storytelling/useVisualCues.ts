@@ -0,0 +1,54 @@
+/**
+ * Visual cue hook for playing segment cues alongside story narration
+ * Follows the voice store's pause state and the child's visual preferences
+ */
+
+import { useEffect, useRef, useCallback } from 'react';
+import { useAppStore, useVoiceStore } from '@/stores';
+import type { VisualCue } from '@/types';
+import { VisualCueRuntime } from './visualCueRuntime';
+
+export const useVisualCues = () => {
+  const { preferences } = useAppStore();
+  const { isPaused } = useVoiceStore();
+  const runtimeRef = useRef<VisualCueRuntime | null>(null);
+
+  if (!runtimeRef.current) {
+    runtimeRef.current = new VisualCueRuntime({ preferences });
+  }
+
+  // Keep cue adjustments in step with settings changes
+  useEffect(() => {
+    runtimeRef.current?.setPreferences(preferences);
+  }, [preferences]);
+
+  // Hold cues while narration is paused
+  useEffect(() => {
+    if (isPaused) {
+      runtimeRef.current?.pause();
+    } else {
+      runtimeRef.current?.resume();
+    }
+  }, [isPaused]);
+
+  // Clear effects when the viewer goes away
+  useEffect(() => {
+    const runtime = runtimeRef.current;
+    return () => runtime?.stop();
+  }, []);
+
+  const playCues = useCallback((cues: VisualCue[]) => {
+    runtimeRef.current?.play(cues);
+  }, []);
+
+  const stopCues = useCallback(() => {
+    runtimeRef.current?.stop();
+  }, []);
+
+  return {
+    playCues,
+    stopCues,
+  };
+};
+
+export default useVisualCues;
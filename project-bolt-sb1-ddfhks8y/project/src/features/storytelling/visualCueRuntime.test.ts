@@ -0,0 +1,128 @@
+// @vitest-environment node
+/**
+ * Visual cue runtime tests
+ * Runs in headless mode with no DOM, so any attempt to touch the page would throw
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { readFileSync, readdirSync } from 'fs';
+import { fileURLToPath } from 'url';
+import type { StoryContent, UserPreferences, VisualCue } from '@/types';
+import { VisualCueRuntime, adaptVisualCue, getStoryCueTargets } from './visualCueRuntime';
+
+const createPreferences = (
+  accessibility: Partial<UserPreferences['accessibility']> = {},
+  visualEffects: UserPreferences['sensory']['visualEffects'] = 'full'
+): UserPreferences => ({
+  accessibility: { reduceMotion: false, reduceAnimations: false, ...accessibility },
+  sensory: { visualEffects },
+} as UserPreferences);
+
+const createCue = (cue: Partial<VisualCue> = {}): VisualCue => ({
+  type: 'glow',
+  target: '#character-silo',
+  duration: 2000,
+  intensity: 'moderate',
+  ...cue,
+});
+
+describe('VisualCueRuntime (headless)', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  const createRuntime = (preferences: UserPreferences | null = null) =>
+    new VisualCueRuntime({ preferences, headless: true, now: () => Date.now() });
+
+  it('records each cue at its delay in narration time without applying it', () => {
+    const runtime = createRuntime();
+    runtime.play([createCue(), createCue({ type: 'pulse', target: '#story-text', delay: 1500 })]);
+
+    vi.advanceTimersByTime(0);
+    expect(runtime.getFiredCues()).toHaveLength(1);
+
+    vi.advanceTimersByTime(1500);
+    const fired = runtime.getFiredCues();
+    expect(fired.map(cue => cue.cue.target)).toEqual(['#character-silo', '#story-text']);
+    expect(fired[1].startedAt).toBe(1500);
+    expect(fired.every(cue => !cue.applied)).toBe(true);
+  });
+
+  it('ends a cue once its duration has played', () => {
+    const runtime = createRuntime();
+    runtime.play([createCue({ duration: 3000 })]);
+
+    vi.advanceTimersByTime(2999);
+    expect(runtime.getFiredCues()[0].endedAt).toBeUndefined();
+
+    vi.advanceTimersByTime(1);
+    expect(runtime.getFiredCues()[0].endedAt).toBe(3000);
+  });
+
+  it('leaves paused time out of the narration clock', () => {
+    const runtime = createRuntime();
+    runtime.play([createCue({ delay: 1000 })]);
+
+    vi.advanceTimersByTime(400);
+    runtime.pause();
+    vi.advanceTimersByTime(5000);
+    expect(runtime.getFiredCues()).toHaveLength(0);
+
+    runtime.resume();
+    vi.advanceTimersByTime(600);
+    expect(runtime.getFiredCues()[0].startedAt).toBe(1000);
+  });
+
+  it('ends cues that are still playing when stopped', () => {
+    const runtime = createRuntime();
+    runtime.play([createCue({ duration: 5000 })]);
+
+    vi.advanceTimersByTime(1000);
+    runtime.stop();
+    expect(runtime.getFiredCues()[0].endedAt).toBe(1000);
+  });
+
+  it('plays cues as adapted to the preferences, keeping the original', () => {
+    const runtime = createRuntime(createPreferences({ reduceMotion: true }));
+    runtime.play([createCue({ type: 'bounce', intensity: 'strong' })]);
+
+    vi.advanceTimersByTime(0);
+    const [fired] = runtime.getFiredCues();
+    expect(fired.cue).toMatchObject({ type: 'highlight', intensity: 'moderate' });
+    expect(fired.original).toMatchObject({ type: 'bounce', intensity: 'strong' });
+  });
+});
+
+describe('adaptVisualCue', () => {
+  it('turns every cue into a subtle highlight for minimal visual effects', () => {
+    const cue = adaptVisualCue(createCue({ type: 'pulse', intensity: 'strong' }), createPreferences({}, 'minimal'));
+    expect(cue).toMatchObject({ type: 'highlight', intensity: 'subtle' });
+  });
+
+  it('softens pulses to a glow when motion is reduced', () => {
+    const cue = adaptVisualCue(createCue({ type: 'pulse' }), createPreferences({ reduceMotion: true }));
+    expect(cue.type).toBe('glow');
+  });
+
+  it('treats intensities it does not know as subtle', () => {
+    const cue = adaptVisualCue(createCue({ intensity: 'gentle' as VisualCue['intensity'] }), null);
+    expect(cue.intensity).toBe('subtle');
+  });
+});
+
+describe('bundled stories', () => {
+  const storiesDir = fileURLToPath(new URL('../../../public/stories/', import.meta.url));
+  const stories = readdirSync(storiesDir)
+    .filter(file => file.endsWith('.json') && file !== 'manifest.json')
+    .map(file => JSON.parse(readFileSync(storiesDir + file, 'utf-8')) as StoryContent);
+
+  it.each(stories.map(story => [story.id, story] as const))('%s only cues elements the viewer shows', (_, story) => {
+    const targets = getStoryCueTargets(story.characterId, story.attachmentId);
+    const cueTargets = Object.values(story.nodes)
+      .flatMap(node => node.content.visualCues || [])
+      .map(cue => cue.target);
+
+    expect(cueTargets.length).toBeGreaterThan(0);
+    expect(cueTargets.filter(target => !targets.includes(target))).toEqual([]);
+  });
+});
@@ -0,0 +1,328 @@
+/**
+ * Visual cue runtime for Curmunchkins Mystery Box Explorer
+ * Plays a segment's VisualCue directives on their DOM targets in time with the
+ * narration, toned down for the child's motion and visual effect preferences
+ */
+
+import type { VisualCue, UserPreferences } from '@/types';
+
+type CueIntensity = VisualCue['intensity'];
+
+export interface VisualCueRuntimeConfig {
+  preferences: UserPreferences | null;
+  headless?: boolean; // Record cues without touching the DOM (tests, server rendering)
+  now?: () => number; // Clock override for headless tests
+}
+
+export interface FiredCue {
+  cue: VisualCue; // Cue as played, after preference adjustments
+  original: VisualCue; // Cue as written in the story
+  startedAt: number; // Milliseconds of narration time since play()
+  endedAt?: number;
+  applied: boolean; // False when the target was missing from the page (or in headless mode)
+}
+
+interface ScheduledCue {
+  fired: FiredCue;
+  remainingDelay: number;
+  remainingDuration: number;
+  timer: ReturnType<typeof setTimeout> | null;
+  timerStartedAt: number;
+  animation: Animation | null;
+  started: boolean;
+}
+
+const INTENSITY_ORDER: CueIntensity[] = ['subtle', 'moderate', 'strong'];
+
+// Cues that move the target around the page
+const MOTION_CUES: VisualCue['type'][] = ['bounce', 'animation'];
+
+// Cues that flash or repeat, even without movement
+const ANIMATED_CUES: VisualCue['type'][] = ['bounce', 'animation', 'pulse', 'glow'];
+
+// How far each effect goes at each intensity
+const INTENSITY_SCALE: Record<CueIntensity, number> = {
+  subtle: 1,
+  moderate: 2,
+  strong: 3,
+};
+
+// Length of one glow/pulse/bounce/sway cycle
+const CYCLE_MS = 2000;
+
+const capIntensity = (intensity: CueIntensity, max: CueIntensity): CueIntensity => {
+  const index = INTENSITY_ORDER.indexOf(intensity);
+  const maxIndex = INTENSITY_ORDER.indexOf(max);
+  // Story files written by hand sometimes use other words ("gentle"); treat them as subtle
+  return index === -1 ? 'subtle' : INTENSITY_ORDER[Math.min(index, maxIndex)];
+};
+
+/**
+ * Adjust a cue to the child's preferences
+ * - visualEffects 'minimal': every cue becomes a subtle, static highlight
+ * - reduceAnimations: any repeating effect becomes a static highlight
+ * - reduceMotion: moving effects become a highlight, pulse becomes a glow
+ * - visualEffects 'moderate': strong cues are toned down to moderate
+ */
+export const adaptVisualCue = (cue: VisualCue, preferences: UserPreferences | null): VisualCue => {
+  const adapted: VisualCue = { ...cue, intensity: capIntensity(cue.intensity, 'strong') };
+
+  if (!preferences) {
+    return adapted;
+  }
+
+  const { reduceMotion, reduceAnimations } = preferences.accessibility;
+  const visualEffects = preferences.sensory.visualEffects;
+
+  if (visualEffects === 'minimal') {
+    return { ...adapted, type: 'highlight', intensity: 'subtle' };
+  }
+
+  if (reduceAnimations && ANIMATED_CUES.includes(adapted.type)) {
+    adapted.type = 'highlight';
+  } else if (reduceMotion && MOTION_CUES.includes(adapted.type)) {
+    adapted.type = 'highlight';
+  } else if (reduceMotion && adapted.type === 'pulse') {
+    adapted.type = 'glow';
+  }
+
+  if (reduceMotion || reduceAnimations || visualEffects === 'moderate') {
+    adapted.intensity = capIntensity(adapted.intensity, 'moderate');
+  }
+
+  return adapted;
+};
+
+/**
+ * Build Web Animations keyframes for a cue
+ */
+const getCueKeyframes = (cue: VisualCue): Keyframe[] => {
+  const scale = INTENSITY_SCALE[cue.intensity];
+
+  switch (cue.type) {
+    case 'glow':
+      return [
+        { boxShadow: '0 0 0 0 rgba(124, 58, 237, 0)' },
+        { boxShadow: `0 0 ${scale * 8}px ${scale * 2}px rgba(124, 58, 237, 0.5)` },
+        { boxShadow: '0 0 0 0 rgba(124, 58, 237, 0)' },
+      ];
+    case 'pulse':
+      return [
+        { transform: 'scale(1)' },
+        { transform: `scale(${1 + scale * 0.03})` },
+        { transform: 'scale(1)' },
+      ];
+    case 'bounce':
+      return [
+        { transform: 'translateY(0)' },
+        { transform: `translateY(-${scale * 4}px)` },
+        { transform: 'translateY(0)' },
+      ];
+    case 'animation':
+      return [
+        { transform: 'rotate(0deg)' },
+        { transform: `rotate(-${scale * 2}deg)` },
+        { transform: `rotate(${scale * 2}deg)` },
+        { transform: 'rotate(0deg)' },
+      ];
+    case 'highlight':
+    default: {
+      const outline = `${scale + 1}px solid rgba(245, 158, 11, ${0.4 + scale * 0.2})`;
+      return [{ outline, outlineOffset: '4px' }, { outline, outlineOffset: '4px' }];
+    }
+  }
+};
+
+/**
+ * Get the cue targets the story viewer renders for a story
+ * Cues aimed anywhere else have nothing to play on and are skipped with a warning.
+ */
+export const getStoryCueTargets = (characterId: string, attachmentId: string): string[] => [
+  `#character-${characterId}`,
+  `#attachment-${attachmentId}`,
+  '#story-text',
+  '#story-complete',
+];
+
+/**
+ * Find the element a cue targets (CSS selector, or a bare element ID)
+ */
+const findCueTarget = (target: string): Element | null => {
+  try {
+    return document.querySelector(target) ?? document.getElementById(target);
+  } catch {
+    // Not a valid selector, so it can only be an ID
+    return document.getElementById(target);
+  }
+};
+
+export class VisualCueRuntime {
+  private config: VisualCueRuntimeConfig;
+  private scheduled: ScheduledCue[] = [];
+  private fired: FiredCue[] = [];
+  private isPaused: boolean = false;
+  private playStartedAt: number = 0;
+  private pausedAt: number = 0;
+  private pausedTime: number = 0;
+
+  constructor(config: VisualCueRuntimeConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Update preferences for cues played from now on
+   */
+  setPreferences(preferences: UserPreferences | null): void {
+    this.config = { ...this.config, preferences };
+  }
+
+  /**
+   * Start a segment's cues as its narration begins, replacing anything still playing
+   */
+  play(cues: VisualCue[]): void {
+    this.stop();
+    this.fired = [];
+    this.isPaused = false;
+    this.playStartedAt = this.now();
+    this.pausedTime = 0;
+
+    for (const original of cues) {
+      const cue = adaptVisualCue(original, this.config.preferences);
+      const scheduledCue: ScheduledCue = {
+        fired: { cue, original, startedAt: 0, applied: false },
+        remainingDelay: Math.max(0, original.delay ?? 0),
+        remainingDuration: Math.max(0, cue.duration),
+        timer: null,
+        timerStartedAt: 0,
+        animation: null,
+        started: false,
+      };
+      this.scheduled.push(scheduledCue);
+      this.schedule(scheduledCue);
+    }
+  }
+
+  /**
+   * Hold cues while narration is paused
+   */
+  pause(): void {
+    if (this.isPaused) {
+      return;
+    }
+
+    this.isPaused = true;
+    this.pausedAt = this.now();
+
+    for (const scheduledCue of this.scheduled) {
+      if (!scheduledCue.timer) {
+        continue;
+      }
+      clearTimeout(scheduledCue.timer);
+      scheduledCue.timer = null;
+
+      const elapsed = this.pausedAt - scheduledCue.timerStartedAt;
+      if (scheduledCue.started) {
+        scheduledCue.remainingDuration = Math.max(0, scheduledCue.remainingDuration - elapsed);
+        scheduledCue.animation?.pause();
+      } else {
+        scheduledCue.remainingDelay = Math.max(0, scheduledCue.remainingDelay - elapsed);
+      }
+    }
+  }
+
+  /**
+   * Carry on from where the narration was paused
+   */
+  resume(): void {
+    if (!this.isPaused) {
+      return;
+    }
+
+    this.isPaused = false;
+    this.pausedTime += this.now() - this.pausedAt;
+
+    for (const scheduledCue of this.scheduled) {
+      if (scheduledCue.fired.endedAt !== undefined) {
+        continue;
+      }
+      scheduledCue.animation?.play();
+      this.schedule(scheduledCue);
+    }
+  }
+
+  /**
+   * Stop all cues and clear their effects
+   */
+  stop(): void {
+    for (const scheduledCue of this.scheduled) {
+      if (scheduledCue.timer) {
+        clearTimeout(scheduledCue.timer);
+      }
+      if (scheduledCue.started && scheduledCue.fired.endedAt === undefined) {
+        this.endCue(scheduledCue);
+      }
+    }
+    this.scheduled = [];
+  }
+
+  /**
+   * Cues fired since the last play(), in the order they started
+   */
+  getFiredCues(): FiredCue[] {
+    return [...this.fired];
+  }
+
+  private schedule(scheduledCue: ScheduledCue): void {
+    scheduledCue.timerStartedAt = this.now();
+
+    if (scheduledCue.started) {
+      scheduledCue.timer = setTimeout(() => this.endCue(scheduledCue), scheduledCue.remainingDuration);
+    } else {
+      scheduledCue.timer = setTimeout(() => this.startCue(scheduledCue), scheduledCue.remainingDelay);
+    }
+  }
+
+  private startCue(scheduledCue: ScheduledCue): void {
+    const { fired } = scheduledCue;
+    scheduledCue.started = true;
+    fired.startedAt = this.getNarrationTime();
+    this.fired.push(fired);
+
+    if (!this.config.headless) {
+      const element = findCueTarget(fired.cue.target);
+      if (element && typeof element.animate === 'function') {
+        const iterations = fired.cue.type === 'highlight'
+          ? 1
+          : Math.max(1, Math.round(fired.cue.duration / CYCLE_MS));
+        scheduledCue.animation = element.animate(getCueKeyframes(fired.cue), {
+          duration: fired.cue.duration / iterations,
+          iterations,
+          easing: 'ease-in-out',
+        });
+        fired.applied = true;
+      } else {
+        console.warn(`Visual cue target not found: ${fired.cue.target}`);
+      }
+    }
+
+    this.schedule(scheduledCue);
+  }
+
+  private endCue(scheduledCue: ScheduledCue): void {
+    scheduledCue.timer = null;
+    scheduledCue.animation?.cancel();
+    scheduledCue.animation = null;
+    scheduledCue.fired.endedAt = this.getNarrationTime();
+  }
+
+  // Time since play(), not counting pauses
+  private getNarrationTime(): number {
+    return this.now() - this.playStartedAt - this.pausedTime;
+  }
+
+  private now(): number {
+    return this.config.now ? this.config.now() : Date.now();
+  }
+}
+
+export default VisualCueRuntime;
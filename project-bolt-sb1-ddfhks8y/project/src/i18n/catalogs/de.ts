@@ -0,0 +1,233 @@
+/**
+ * German message catalog
+ */
+
+import type { MessageCatalog } from '../messages';
+
+export const de: MessageCatalog = {
+  // Shared
+  'common.goBack': 'Zurück',
+  'common.backHome': 'Zurück zur Startseite',
+
+  // Characters
+  'character.silo': 'Liebt Details und Muster',
+  'character.blip': 'Voller Energie und kreativ',
+  'character.pip': 'Erzählt in Bildern',
+  'character.tally': 'Denkt gern in Worten',
+  'character.tumble': 'Einfühlsam und ausdauernd',
+  'character.echo': 'Schnell und aufmerksam',
+  'character.sway': 'Versteht Gefühle',
+  'character.ponder': 'Anpassungsfähig und weise',
+  'character.default': 'Dein Curmunchkin-Freund',
+
+  // Story viewer
+  'story.loading': 'Dein Abenteuer wird geladen...',
+  'story.notFound': 'Geschichte nicht gefunden',
+  'story.unavailable': 'Geschichte nicht verfügbar',
+  'story.lockedTitle': 'Dieser Teil ist noch verschlossen',
+  'story.lockedDismiss': 'Weiter zuhören',
+  'story.noContent': 'Für diese Geschichte gibt es keinen Inhalt.',
+  'story.settings': 'Einstellungen der Geschichte',
+  'story.replayBanner': 'Wiedergabe der Sitzung · hier ändert sich nichts am Fortschritt Ihres Kindes',
+  'story.previewBanner': 'Vorschau · Entscheidungen und Fortschritt werden nicht gespeichert',
+  'story.reviewTitle': 'Wartet auf Prüfung',
+  'story.reviewDescription': 'Diese Geschichte wurde noch nicht geprüft. Ein Erwachsener kann diese Frage beantworten, um sie zu öffnen.',
+  'story.completeTitle': 'Geschichte geschafft!',
+  'story.completeMessage': 'Du hast dieses tolle Abenteuer mit {name} beendet!',
+  'story.questChapter': '{quest} · Kapitel {chapter}',
+  'story.scanAttachment': 'Scanne dein Zubehör {attachment}',
+  'story.collect': 'Geschichte einsammeln',
+  'story.previewAgain': 'Vorschau wiederholen',
+  'story.backToEditor': 'Zurück zum Editor',
+  'story.exploreMore': 'Mehr Geschichten entdecken',
+
+  // Story navigation
+  'navigation.chooseTitle': 'Was möchtest du tun?',
+  'navigation.chooseSubtitle': 'Wähle deinen Weg in der Geschichte',
+  'navigation.choiceNumber': 'Möglichkeit {number}',
+  'navigation.previous': 'Zurück',
+  'navigation.previousLabel': 'Zum vorherigen Teil',
+  'navigation.finish': 'Geschichte beenden',
+  'navigation.continue': 'Weiter',
+  'navigation.skipLabel': 'Zum nächsten Teil springen',
+  'navigation.next': 'Vor',
+  'navigation.nextLabel': 'Zum nächsten Teil',
+  'navigation.hintEnd': 'Du bist am Ende dieser Geschichte angekommen!',
+  'navigation.hintControls': 'Mit den Knöpfen oben kannst du dich durch die Geschichte bewegen',
+  'navigation.hintAuto': 'Hör zu, die Geschichte geht von allein weiter',
+
+  // Branch choices
+  'choice.voice_response': 'Antworte mit deiner Stimme',
+  'choice.continue': 'Geschichte weiterhören',
+  'choice.explore_more': 'Mehr darüber erfahren',
+  'choice.practice_technique': 'Die Übung ausprobieren',
+  'choice.ask_question': 'Eine Frage stellen',
+  'choice.share_feeling': 'Sagen, wie du dich fühlst',
+  'choice.try_different_way': 'Es anders versuchen',
+  'choice.take_break': 'Eine Sinnespause machen',
+
+  // Voice prompts
+  'prompt.trySaying': 'Sag doch: „{response}“',
+  'prompt.heard': 'Ich habe gehört: „{response}“',
+  'prompt.speak': 'Sprechen',
+  'prompt.listening': 'Ich höre zu...',
+  'prompt.repeat': 'Wiederholen',
+  'prompt.repeatLabel': 'Frage wiederholen',
+  'prompt.typeInstead': 'Antwort lieber schreiben',
+  'prompt.hideTyping': 'Ausblenden',
+  'prompt.typePlaceholder': 'Schreib deine Antwort hier...',
+  'prompt.send': 'Senden',
+  'prompt.secondsRemaining': 'Noch {seconds} Sekunden',
+  'prompt.timeUp': 'Die Zeit ist um! Die Geschichte geht weiter...',
+
+  // Sensory breaks
+  'break.title': 'Pausenzeit',
+  'break.secondsLeft': 'Noch {seconds} Sekunden Pause',
+  'break.ready': 'Ich bin bereit weiterzumachen!',
+  'break.intro': '{name} möchte mit dir eine kleine Pause machen!',
+  'break.proprioceptive_input': 'Drück deine Füße {seconds} Sekunden lang fest in den Boden.',
+  'break.deep_pressure': 'Umarme dich ganz fest und halte die Umarmung {seconds} Sekunden lang.',
+  'break.tactile_exploration': 'Reib deine Hände langsam aneinander und spür {seconds} Sekunden lang, wie sie warm werden.',
+  'break.vestibular_movement': 'Schaukle {seconds} Sekunden lang sanft hin und her wie ein Baum im Wind.',
+  'break.auditory_processing': 'Schließ die Augen und lausche {seconds} Sekunden lang auf das leiseste Geräusch.',
+  'break.visual_organization': 'Schau dich um und finde drei Dinge in derselben Farbe. Du hast {seconds} Sekunden.',
+  'break.olfactory_grounding': 'Atme {seconds} Sekunden lang langsam durch die Nase, als würdest du an einer Blume riechen.',
+  'break.interoceptive_awareness': 'Leg eine Hand auf deinen Bauch und spür {seconds} Sekunden lang, wie er sich beim Atmen hebt und senkt.',
+
+  // Settings
+  'settings.loading': 'Einstellungen werden geladen...',
+  'settings.title': 'Genau richtig für dich',
+  'settings.subtitle': 'Passe diese Einstellungen an, damit alles perfekt für dich ist',
+  'settings.languageTitle': 'Sprache',
+  'settings.languageSubtitle': 'Die Sprache für Geschichten, Knöpfe und das Zuhören',
+  'settings.voiceTitle': 'Stimme und Ton',
+  'settings.voiceSubtitle': 'Wie du die Geschichten hören möchtest',
+  'settings.voiceSpeed': 'Sprechtempo',
+  'settings.slow': 'Langsam',
+  'settings.fast': 'Schnell',
+  'settings.voiceVolume': 'Lautstärke',
+  'settings.quiet': 'Leise',
+  'settings.loud': 'Laut',
+  'settings.autoplay': 'Geschichten automatisch abspielen',
+  'settings.pauseBetween': 'Pause zwischen den Teilen',
+  'settings.visualTitle': 'Angenehm ansehen',
+  'settings.visualSubtitle': 'Wie der Bildschirm aussieht',
+  'settings.textSize': 'Textgröße',
+  'settings.contrast': 'Kontrast',
+  'settings.contrast.normal': 'Normal',
+  'settings.contrast.high': 'Hoch',
+  'settings.contrast.ultra-high': 'Maximal',
+  'settings.reduceMotion': 'Bewegung reduzieren',
+  'settings.reduceAnimations': 'Animationen reduzieren',
+  'settings.storyTitle': 'Geschichten-Einstellungen',
+  'settings.storySubtitle': 'Wähle deine Lieblingsfigur und deine Art von Geschichte',
+  'settings.favoriteCharacter': 'Lieblingsfigur',
+  'settings.storyLength': 'Länge der Geschichten',
+  'settings.length.short': 'Kurz (3-5 Min.)',
+  'settings.length.medium': 'Mittel (6-10 Min.)',
+  'settings.length.long': 'Lang (11-15 Min.)',
+
+  // Scanner
+  'scanner.title': 'Scanne deinen Curmunchkin',
+  'scanner.subtitle': 'Halte deine Kamera auf den QR-Code, um dein Abenteuer freizuschalten!',
+  'scanner.howToTitle': 'So scannst du deinen Curmunchkin',
+  'scanner.step1': 'Such den QR-Code auf deinem Curmunchkin-Zubehör',
+  'scanner.step2': 'Halte dein Gerät ruhig und richte die Kamera auf den Code',
+  'scanner.step3': 'Warte, bis der Zauber passiert!',
+  'scanner.gotIt': 'Verstanden!',
+  'scanner.settingUp': 'Kamera wird vorbereitet...',
+  'scanner.cameraError': 'Die Kamera funktioniert nicht',
+  'scanner.tryAgain': 'Nochmal versuchen',
+  'scanner.uploadAPhoto': 'Ein Foto hochladen',
+  'scanner.enterManually': 'Code von Hand eingeben',
+  'scanner.useCamera': 'Kamera benutzen',
+  'scanner.scanning': 'Scannt...',
+  'scanner.startCamera': 'Kamera starten',
+  'scanner.photoUpload': 'Foto hochladen',
+  'scanner.uploadPhoto': 'Foto hochladen',
+  'scanner.manualEntry': 'Code eingeben',
+  'scanner.enterCode': 'Code eingeben',
+  'scanner.help': 'Klappt es nicht? Gib den Code von Hand ein oder frag einen Erwachsenen um Hilfe.',
+  'scanner.helpWithUpload': 'Klappt es nicht? Lade ein Foto vom Code hoch, gib ihn von Hand ein oder frag einen Erwachsenen um Hilfe.',
+
+  // Camera
+  'camera.torchOn': 'Taschenlampe einschalten',
+  'camera.torchOff': 'Taschenlampe ausschalten',
+  'camera.switch': 'Kamera wechseln',
+  'camera.processing': 'Wird geprüft...',
+  'camera.looking': 'Suche nach QR-Code...',
+  'camera.hint': 'Halte dein Gerät ruhig und bring den QR-Code in die Mitte des Rahmens',
+
+  // Manual code entry
+  'manual.title': 'Gib deinen Code ein',
+  'manual.subtitle': 'Tippe den Code von deinem Curmunchkin-Zubehör ein',
+  'manual.label': 'Zubehör-Code',
+  'manual.formatOk': 'Der Code sieht richtig aus!',
+  'manual.characterCount': '{count}/{total} Zeichen',
+  'manual.showHelp': 'Hilfe anzeigen',
+  'manual.submit': 'Geschichte freischalten',
+  'manual.helpTitle': 'Hier findest du deinen Code:',
+  'manual.helpQr': 'Such einen QR-Code auf deinem Curmunchkin-Zubehör',
+  'manual.helpPrinted': 'Der Code steht meistens unter oder neben dem QR-Code',
+  'manual.helpPrefix': 'Er beginnt mit „CM“, danach kommen Buchstaben und Zahlen',
+  'manual.helpExample': 'Beispiel: {example}',
+  'manual.helpOnline': 'Getippte Codes werden online geprüft, bitte also einen Erwachsenen, das Internet einzuschalten',
+
+  // Photo upload
+  'upload.subtitle': 'Mach ein Foto vom Etikett an deinem Curmunchkin-Zubehör und füge es hier ein',
+  'upload.looking': 'Wir suchen Codes in deinem Foto...',
+  'upload.drop': 'Zieh ein Foto hierher',
+  'upload.found': '{count} Codes in deinem Foto gefunden',
+  'upload.choose': 'Foto auswählen',
+  'upload.photos': 'Fotos',
+  'upload.openFailed': 'Wir konnten das Foto nicht öffnen. Probier ein anderes!',
+  'upload.tryAnother': 'Probier ein anderes Foto',
+  'upload.useManual': 'Gib den Code von Hand ein',
+
+  // Collection
+  'collection.title': 'Meine Geschichtensammlung',
+  'collection.subtitle': 'Deine gesammelten Abenteuer und Erfolge',
+  'collection.storiesCollected': 'Gesammelte Geschichten',
+  'collection.achievements': 'Erfolge',
+  'collection.collectibles': 'NFT-Sammelstücke',
+  'collection.quests': 'Abenteuerreisen',
+  'collection.chaptersComplete': '{completed} von {total} Kapiteln geschafft',
+  'collection.questComplete': 'Abenteuerreise geschafft!',
+  'collection.emptyTitle': 'Starte deine Sammlung',
+  'collection.emptyMessage': 'Scanne dein erstes Curmunchkin-Zubehör, um Geschichten freizuschalten und deine magische Sammlung zu beginnen!',
+  'collection.scanFirst': 'Erstes Zubehör scannen',
+
+  // Parent dashboard
+  'dashboard.title': 'Eltern-Übersicht',
+  'dashboard.subtitle': 'Verfolgen Sie den Fortschritt Ihres Kindes und verwalten Sie die Sicherheitseinstellungen',
+  'dashboard.progress': 'Fortschritt',
+  'dashboard.storiesCompleted': 'Abgeschlossene Geschichten',
+  'dashboard.timeSpent': 'Verbrachte Zeit',
+  'dashboard.thisWeek': 'Diese Woche',
+  'dashboard.minutes': '{minutes} Min.',
+  'dashboard.includes': 'Davon {breaks}',
+  'dashboard.breaksOne': '1 Sinnespause ({time})',
+  'dashboard.breaks': '{count} Sinnespausen ({time})',
+  'dashboard.safety': 'Sicherheit',
+  'dashboard.secure': 'Alles ist sicher',
+  'dashboard.settings': 'Einstellungen',
+  'dashboard.customizations': 'Anpassungen',
+  'dashboard.replays': 'Sitzungen ansehen',
+  'dashboard.choices': '{count} Entscheidungen',
+  'dashboard.finished': 'beendet am {date}',
+  'dashboard.replay': 'Ansehen',
+  'dashboard.writeTitle': 'Eine Geschichte schreiben',
+  'dashboard.writeSubtitle': 'Erstellen Sie eigene Abenteuer und sehen Sie sie vor dem Teilen an',
+  'dashboard.openAuthor': 'Editor öffnen',
+  'dashboard.comingSoonTitle': 'Die Eltern-Übersicht kommt bald',
+  'dashboard.comingSoonMessage': 'Ausführliche Fortschrittsberichte, therapeutische Einblicke und Kindersicherungen kommen mit dem nächsten Update.',
+
+  // Locked story parts
+  'locked.finishStory': 'Beende zuerst ein anderes Abenteuer und komm dann zurück, um diesen Teil zu öffnen!',
+  'locked.scanAttachment': 'Scanne dein Zubehör {attachment}, um diesen Teil zu öffnen!',
+  'locked.exploreEarlier': 'Entdecke zuerst die früheren Teile dieser Geschichte, um den Weg hierher zu finden.',
+  'locked.mystery': 'Dieser Teil ist noch ein Geheimnis. Frag einen Erwachsenen um Hilfe.',
+  'locked.keepExploring': 'Entdecke weiter, um diesen Teil zu öffnen!',
+};
+
+export default de;
@@ -0,0 +1,234 @@
+/**
+ * English message catalog
+ * The source catalog: every key lives here, and other languages fall back to it
+ */
+
+export const en = {
+  // Shared
+  'common.goBack': 'Go Back',
+  'common.backHome': 'Back to Home',
+
+  // Characters
+  'character.silo': 'Detail-loving and pattern-aware',
+  'character.blip': 'Energetic and creative',
+  'character.pip': 'Visual storyteller',
+  'character.tally': 'Word-loving thinker',
+  'character.tumble': 'Empathetic and persistent',
+  'character.echo': 'Quick-thinking and observant',
+  'character.sway': 'Emotionally intelligent',
+  'character.ponder': 'Adaptive and wise',
+  'character.default': 'Your Curmunchkin friend',
+
+  // Story viewer
+  'story.loading': 'Loading your story adventure...',
+  'story.notFound': 'Story Not Found',
+  'story.unavailable': 'Story Unavailable',
+  'story.lockedTitle': 'This part is still locked',
+  'story.lockedDismiss': 'Keep listening',
+  'story.noContent': 'No story content available.',
+  'story.settings': 'Story settings',
+  'story.replayBanner': "Session replay · nothing here changes your child's progress",
+  'story.previewBanner': 'Preview · choices and progress are not saved',
+  'story.reviewTitle': 'Waiting for Review',
+  'story.reviewDescription': "This story hasn't been safety reviewed yet. A grown-up can answer this question to open it.",
+  'story.completeTitle': 'Story Complete!',
+  'story.completeMessage': "You've finished this amazing adventure with {name}!",
+  'story.questChapter': '{quest} · Chapter {chapter}',
+  'story.scanAttachment': 'Scan your {attachment} attachment',
+  'story.collect': 'Collect Your Story',
+  'story.previewAgain': 'Preview Again',
+  'story.backToEditor': 'Back to Editor',
+  'story.exploreMore': 'Explore More Stories',
+
+  // Story navigation
+  'navigation.chooseTitle': 'What would you like to do?',
+  'navigation.chooseSubtitle': 'Choose your path in the story',
+  'navigation.choiceNumber': 'Choice {number}',
+  'navigation.previous': 'Previous',
+  'navigation.previousLabel': 'Go to previous part',
+  'navigation.finish': 'Finish Story',
+  'navigation.continue': 'Continue',
+  'navigation.skipLabel': 'Skip to next part',
+  'navigation.next': 'Next',
+  'navigation.nextLabel': 'Go to next part',
+  'navigation.hintEnd': "You've reached the end of this story!",
+  'navigation.hintControls': 'Use the controls above to navigate through the story',
+  'navigation.hintAuto': 'Listen to the story and it will continue automatically',
+
+  // Branch choices
+  'choice.voice_response': 'Respond with your voice',
+  'choice.continue': 'Continue the story',
+  'choice.explore_more': 'Explore this topic more',
+  'choice.practice_technique': 'Practice the technique',
+  'choice.ask_question': 'Ask a question',
+  'choice.share_feeling': 'Share how you feel',
+  'choice.try_different_way': 'Try a different approach',
+  'choice.take_break': 'Take a sensory break',
+
+  // Voice prompts
+  'prompt.trySaying': 'Try saying: "{response}"',
+  'prompt.heard': 'I heard: "{response}"',
+  'prompt.speak': 'Speak',
+  'prompt.listening': 'Listening...',
+  'prompt.repeat': 'Repeat',
+  'prompt.repeatLabel': 'Repeat prompt',
+  'prompt.typeInstead': 'Type your response instead',
+  'prompt.hideTyping': 'Hide',
+  'prompt.typePlaceholder': 'Type your response here...',
+  'prompt.send': 'Send',
+  'prompt.secondsRemaining': '{seconds} seconds remaining',
+  'prompt.timeUp': "Time's up! The story will continue...",
+
+  // Sensory breaks
+  'break.title': 'Break Time',
+  'break.secondsLeft': '{seconds} seconds of break left',
+  'break.ready': "I'm ready to keep going!",
+  'break.intro': '{name} wants to take a little break with you!',
+  'break.proprioceptive_input': 'Press your feet down into the floor, nice and strong, for {seconds} seconds.',
+  'break.deep_pressure': 'Give yourself a big, tight hug and hold the squeeze for {seconds} seconds.',
+  'break.tactile_exploration': 'Rub your hands together slowly and feel them get warm for {seconds} seconds.',
+  'break.vestibular_movement': 'Sway gently from side to side like a tree in the breeze for {seconds} seconds.',
+  'break.auditory_processing': 'Close your eyes and listen for the quietest sound you can hear for {seconds} seconds.',
+  'break.visual_organization': 'Look around and find three things that are the same color. You have {seconds} seconds.',
+  'break.olfactory_grounding': 'Take slow sniffs through your nose, like smelling a flower, for {seconds} seconds.',
+  'break.interoceptive_awareness': 'Put a hand on your tummy and feel it rise and fall as you breathe for {seconds} seconds.',
+
+  // Settings
+  'settings.loading': 'Loading settings...',
+  'settings.title': 'Make It Just Right',
+  'settings.subtitle': 'Adjust these settings to make your experience perfect for you',
+  'settings.languageTitle': 'Language',
+  'settings.languageSubtitle': 'The language for stories, buttons and listening',
+  'settings.voiceTitle': 'Voice & Sound',
+  'settings.voiceSubtitle': 'How you want to hear the stories',
+  'settings.voiceSpeed': 'Voice Speed',
+  'settings.slow': 'Slow',
+  'settings.fast': 'Fast',
+  'settings.voiceVolume': 'Voice Volume',
+  'settings.quiet': 'Quiet',
+  'settings.loud': 'Loud',
+  'settings.autoplay': 'Auto-play stories',
+  'settings.pauseBetween': 'Pause between parts',
+  'settings.visualTitle': 'Visual Comfort',
+  'settings.visualSubtitle': 'How things look on your screen',
+  'settings.textSize': 'Text Size',
+  'settings.contrast': 'Visual Contrast',
+  'settings.contrast.normal': 'Normal',
+  'settings.contrast.high': 'High',
+  'settings.contrast.ultra-high': 'Ultra',
+  'settings.reduceMotion': 'Reduce motion and movement',
+  'settings.reduceAnimations': 'Reduce animations',
+  'settings.storyTitle': 'Story Preferences',
+  'settings.storySubtitle': 'Choose your favorite character and story style',
+  'settings.favoriteCharacter': 'Favorite Character',
+  'settings.storyLength': 'Preferred Story Length',
+  'settings.length.short': 'Short (3-5min)',
+  'settings.length.medium': 'Medium (6-10min)',
+  'settings.length.long': 'Long (11-15min)',
+
+  // Scanner
+  'scanner.title': 'Scan Your Curmunchkin',
+  'scanner.subtitle': 'Point your camera at the QR code to unlock your story adventure!',
+  'scanner.howToTitle': 'How to Scan Your Curmunchkin',
+  'scanner.step1': 'Find the QR code on your Curmunchkin attachment',
+  'scanner.step2': 'Hold your device steady and point the camera at the code',
+  'scanner.step3': 'Wait for the magic to happen!',
+  'scanner.gotIt': 'Got it!',
+  'scanner.settingUp': 'Setting up camera...',
+  'scanner.cameraError': 'Camera Not Working',
+  'scanner.tryAgain': 'Try Again',
+  'scanner.uploadAPhoto': 'Upload a Photo',
+  'scanner.enterManually': 'Enter Code Manually',
+  'scanner.useCamera': 'Use Camera',
+  'scanner.scanning': 'Scanning...',
+  'scanner.startCamera': 'Start Camera',
+  'scanner.photoUpload': 'Photo Upload',
+  'scanner.uploadPhoto': 'Upload Photo',
+  'scanner.manualEntry': 'Manual Entry',
+  'scanner.enterCode': 'Enter Code',
+  'scanner.help': 'Having trouble? Try manual entry or ask a grown-up for help.',
+  'scanner.helpWithUpload': 'Having trouble? Upload a photo of the code, try manual entry, or ask a grown-up for help.',
+
+  // Camera
+  'camera.torchOn': 'Turn on flashlight',
+  'camera.torchOff': 'Turn off flashlight',
+  'camera.switch': 'Switch camera',
+  'camera.processing': 'Processing...',
+  'camera.looking': 'Looking for QR code...',
+  'camera.hint': 'Hold your device steady and center the QR code in the frame',
+
+  // Manual code entry
+  'manual.title': 'Enter Your Code',
+  'manual.subtitle': 'Type the code from your Curmunchkin attachment',
+  'manual.label': 'Attachment Code',
+  'manual.formatOk': 'Code format looks good!',
+  'manual.characterCount': '{count}/{total} characters',
+  'manual.showHelp': 'Show help',
+  'manual.submit': 'Unlock Story',
+  'manual.helpTitle': 'Where to find your code:',
+  'manual.helpQr': 'Look for a QR code on your Curmunchkin attachment',
+  'manual.helpPrinted': 'The code is usually printed below or next to the QR code',
+  'manual.helpPrefix': 'It starts with "CM" followed by letters and numbers',
+  'manual.helpExample': 'Example: {example}',
+  'manual.helpOnline': 'Typed codes are checked online, so ask a grown-up to connect to the internet',
+
+  // Photo upload
+  'upload.subtitle': 'Take a photo of the tag on your Curmunchkin attachment, then add it here',
+  'upload.looking': 'Looking for codes in your photo...',
+  'upload.drop': 'Drop a photo here',
+  'upload.found': 'Found {count} codes in your photo',
+  'upload.choose': 'Choose Photo',
+  'upload.photos': 'Photos',
+  'upload.openFailed': "We couldn't open that photo. Try another one!",
+  'upload.tryAnother': 'Try a different photo',
+  'upload.useManual': 'Use manual entry',
+
+  // Collection
+  'collection.title': 'My Story Collection',
+  'collection.subtitle': 'Your collected adventures and achievements',
+  'collection.storiesCollected': 'Stories Collected',
+  'collection.achievements': 'Achievements',
+  'collection.collectibles': 'NFT Collectibles',
+  'collection.quests': 'Quests',
+  'collection.chaptersComplete': '{completed} of {total} chapters complete',
+  'collection.questComplete': 'Quest complete!',
+  'collection.emptyTitle': 'Start Your Collection',
+  'collection.emptyMessage': 'Scan your first Curmunchkin attachment to unlock stories and start building your magical collection!',
+  'collection.scanFirst': 'Scan First Attachment',
+
+  // Parent dashboard
+  'dashboard.title': 'Parent Dashboard',
+  'dashboard.subtitle': "Monitor your child's progress and manage safety settings",
+  'dashboard.progress': 'Progress',
+  'dashboard.storiesCompleted': 'Stories completed',
+  'dashboard.timeSpent': 'Time Spent',
+  'dashboard.thisWeek': 'This week',
+  'dashboard.minutes': '{minutes}m',
+  'dashboard.includes': 'Including {breaks}',
+  'dashboard.breaksOne': '1 sensory break ({time})',
+  'dashboard.breaks': '{count} sensory breaks ({time})',
+  'dashboard.safety': 'Safety',
+  'dashboard.secure': 'All systems secure',
+  'dashboard.settings': 'Settings',
+  'dashboard.customizations': 'Customizations',
+  'dashboard.replays': 'Session Replays',
+  'dashboard.choices': '{count} choices',
+  'dashboard.finished': 'finished {date}',
+  'dashboard.replay': 'Replay',
+  'dashboard.writeTitle': 'Write a Story',
+  'dashboard.writeSubtitle': 'Create your own adventures and preview them before sharing',
+  'dashboard.openAuthor': 'Open Author',
+  'dashboard.comingSoonTitle': 'Parent Dashboard Coming Soon',
+  'dashboard.comingSoonMessage': 'Detailed progress tracking, therapeutic insights, and parental controls will be available in the next update.',
+
+  // Locked story parts
+  'locked.finishStory': 'Finish another adventure first, then come back to open this part!',
+  'locked.scanAttachment': 'Scan your {attachment} attachment to open this part!',
+  'locked.exploreEarlier': 'Explore the earlier parts of this story first to find the way here.',
+  'locked.mystery': 'This part is still a mystery. Ask a grown-up for help.',
+  'locked.keepExploring': 'Keep exploring to open this part!',
+} as const;
+
+export type MessageKey = keyof typeof en;
+
+export default en;
@@ -0,0 +1,233 @@
+/**
+ * Spanish message catalog
+ */
+
+import type { MessageCatalog } from '../messages';
+
+export const es: MessageCatalog = {
+  // Shared
+  'common.goBack': 'Volver',
+  'common.backHome': 'Volver al inicio',
+
+  // Characters
+  'character.silo': 'Atento a los detalles y a los patrones',
+  'character.blip': 'Enérgico y creativo',
+  'character.pip': 'Cuentacuentos visual',
+  'character.tally': 'Pensador amante de las palabras',
+  'character.tumble': 'Empático y constante',
+  'character.echo': 'Rápido y observador',
+  'character.sway': 'Emocionalmente sabio',
+  'character.ponder': 'Adaptable y sabio',
+  'character.default': 'Tu amigo Curmunchkin',
+
+  // Story viewer
+  'story.loading': 'Cargando tu aventura...',
+  'story.notFound': 'Historia no encontrada',
+  'story.unavailable': 'Historia no disponible',
+  'story.lockedTitle': 'Esta parte aún está cerrada',
+  'story.lockedDismiss': 'Seguir escuchando',
+  'story.noContent': 'No hay contenido para esta historia.',
+  'story.settings': 'Ajustes de la historia',
+  'story.replayBanner': 'Repetición de la sesión · nada aquí cambia el progreso de tu hijo',
+  'story.previewBanner': 'Vista previa · las elecciones y el progreso no se guardan',
+  'story.reviewTitle': 'Pendiente de revisión',
+  'story.reviewDescription': 'Esta historia aún no tiene revisión de seguridad. Un adulto puede responder esta pregunta para abrirla.',
+  'story.completeTitle': '¡Historia terminada!',
+  'story.completeMessage': '¡Has terminado esta gran aventura con {name}!',
+  'story.questChapter': '{quest} · Capítulo {chapter}',
+  'story.scanAttachment': 'Escanea tu accesorio {attachment}',
+  'story.collect': 'Guarda tu historia',
+  'story.previewAgain': 'Ver de nuevo',
+  'story.backToEditor': 'Volver al editor',
+  'story.exploreMore': 'Explorar más historias',
+
+  // Story navigation
+  'navigation.chooseTitle': '¿Qué te gustaría hacer?',
+  'navigation.chooseSubtitle': 'Elige tu camino en la historia',
+  'navigation.choiceNumber': 'Opción {number}',
+  'navigation.previous': 'Anterior',
+  'navigation.previousLabel': 'Ir a la parte anterior',
+  'navigation.finish': 'Terminar la historia',
+  'navigation.continue': 'Continuar',
+  'navigation.skipLabel': 'Saltar a la siguiente parte',
+  'navigation.next': 'Siguiente',
+  'navigation.nextLabel': 'Ir a la siguiente parte',
+  'navigation.hintEnd': '¡Has llegado al final de esta historia!',
+  'navigation.hintControls': 'Usa los botones de arriba para moverte por la historia',
+  'navigation.hintAuto': 'Escucha la historia y seguirá sola',
+
+  // Branch choices
+  'choice.voice_response': 'Responde con tu voz',
+  'choice.continue': 'Seguir con la historia',
+  'choice.explore_more': 'Descubrir más sobre esto',
+  'choice.practice_technique': 'Practicar la técnica',
+  'choice.ask_question': 'Hacer una pregunta',
+  'choice.share_feeling': 'Contar cómo te sientes',
+  'choice.try_different_way': 'Probar de otra manera',
+  'choice.take_break': 'Tomar una pausa sensorial',
+
+  // Voice prompts
+  'prompt.trySaying': 'Prueba a decir: "{response}"',
+  'prompt.heard': 'Escuché: "{response}"',
+  'prompt.speak': 'Hablar',
+  'prompt.listening': 'Escuchando...',
+  'prompt.repeat': 'Repetir',
+  'prompt.repeatLabel': 'Repetir la pregunta',
+  'prompt.typeInstead': 'Escribe tu respuesta',
+  'prompt.hideTyping': 'Ocultar',
+  'prompt.typePlaceholder': 'Escribe tu respuesta aquí...',
+  'prompt.send': 'Enviar',
+  'prompt.secondsRemaining': 'Quedan {seconds} segundos',
+  'prompt.timeUp': '¡Se acabó el tiempo! La historia continúa...',
+
+  // Sensory breaks
+  'break.title': 'Hora de una pausa',
+  'break.secondsLeft': 'Quedan {seconds} segundos de pausa',
+  'break.ready': '¡Estoy listo para seguir!',
+  'break.intro': '¡{name} quiere tomar una pequeña pausa contigo!',
+  'break.proprioceptive_input': 'Aprieta los pies contra el suelo, bien fuerte, durante {seconds} segundos.',
+  'break.deep_pressure': 'Date un abrazo grande y apretado y mantenlo durante {seconds} segundos.',
+  'break.tactile_exploration': 'Frota las manos despacio y siente cómo se calientan durante {seconds} segundos.',
+  'break.vestibular_movement': 'Balancéate suavemente de lado a lado como un árbol con la brisa durante {seconds} segundos.',
+  'break.auditory_processing': 'Cierra los ojos y busca el sonido más suave que puedas oír durante {seconds} segundos.',
+  'break.visual_organization': 'Mira a tu alrededor y encuentra tres cosas del mismo color. Tienes {seconds} segundos.',
+  'break.olfactory_grounding': 'Respira despacio por la nariz, como si olieras una flor, durante {seconds} segundos.',
+  'break.interoceptive_awareness': 'Pon una mano en la barriga y siente cómo sube y baja al respirar durante {seconds} segundos.',
+
+  // Settings
+  'settings.loading': 'Cargando ajustes...',
+  'settings.title': 'Justo a tu medida',
+  'settings.subtitle': 'Cambia estos ajustes para que todo sea perfecto para ti',
+  'settings.languageTitle': 'Idioma',
+  'settings.languageSubtitle': 'El idioma de las historias, los botones y la escucha',
+  'settings.voiceTitle': 'Voz y sonido',
+  'settings.voiceSubtitle': 'Cómo quieres escuchar las historias',
+  'settings.voiceSpeed': 'Velocidad de la voz',
+  'settings.slow': 'Lenta',
+  'settings.fast': 'Rápida',
+  'settings.voiceVolume': 'Volumen de la voz',
+  'settings.quiet': 'Bajo',
+  'settings.loud': 'Alto',
+  'settings.autoplay': 'Reproducir historias automáticamente',
+  'settings.pauseBetween': 'Pausa entre partes',
+  'settings.visualTitle': 'Comodidad visual',
+  'settings.visualSubtitle': 'Cómo se ven las cosas en tu pantalla',
+  'settings.textSize': 'Tamaño del texto',
+  'settings.contrast': 'Contraste',
+  'settings.contrast.normal': 'Normal',
+  'settings.contrast.high': 'Alto',
+  'settings.contrast.ultra-high': 'Máximo',
+  'settings.reduceMotion': 'Reducir el movimiento',
+  'settings.reduceAnimations': 'Reducir las animaciones',
+  'settings.storyTitle': 'Preferencias de historias',
+  'settings.storySubtitle': 'Elige tu personaje favorito y tu estilo de historia',
+  'settings.favoriteCharacter': 'Personaje favorito',
+  'settings.storyLength': 'Duración de las historias',
+  'settings.length.short': 'Corta (3-5 min)',
+  'settings.length.medium': 'Media (6-10 min)',
+  'settings.length.long': 'Larga (11-15 min)',
+
+  // Scanner
+  'scanner.title': 'Escanea tu Curmunchkin',
+  'scanner.subtitle': '¡Apunta tu cámara al código QR para desbloquear tu aventura!',
+  'scanner.howToTitle': 'Cómo escanear tu Curmunchkin',
+  'scanner.step1': 'Busca el código QR en tu accesorio Curmunchkin',
+  'scanner.step2': 'Sujeta tu dispositivo sin moverlo y apunta la cámara al código',
+  'scanner.step3': '¡Espera a que ocurra la magia!',
+  'scanner.gotIt': '¡Entendido!',
+  'scanner.settingUp': 'Preparando la cámara...',
+  'scanner.cameraError': 'La cámara no funciona',
+  'scanner.tryAgain': 'Intentar de nuevo',
+  'scanner.uploadAPhoto': 'Subir una foto',
+  'scanner.enterManually': 'Escribir el código',
+  'scanner.useCamera': 'Usar la cámara',
+  'scanner.scanning': 'Escaneando...',
+  'scanner.startCamera': 'Encender la cámara',
+  'scanner.photoUpload': 'Subir foto',
+  'scanner.uploadPhoto': 'Subir foto',
+  'scanner.manualEntry': 'Escribir código',
+  'scanner.enterCode': 'Escribir código',
+  'scanner.help': '¿Tienes problemas? Escribe el código o pide ayuda a un adulto.',
+  'scanner.helpWithUpload': '¿Tienes problemas? Sube una foto del código, escríbelo o pide ayuda a un adulto.',
+
+  // Camera
+  'camera.torchOn': 'Encender la linterna',
+  'camera.torchOff': 'Apagar la linterna',
+  'camera.switch': 'Cambiar de cámara',
+  'camera.processing': 'Procesando...',
+  'camera.looking': 'Buscando el código QR...',
+  'camera.hint': 'Sujeta tu dispositivo sin moverlo y centra el código QR en el marco',
+
+  // Manual code entry
+  'manual.title': 'Escribe tu código',
+  'manual.subtitle': 'Escribe el código de tu accesorio Curmunchkin',
+  'manual.label': 'Código del accesorio',
+  'manual.formatOk': '¡El código tiene buena pinta!',
+  'manual.characterCount': '{count}/{total} caracteres',
+  'manual.showHelp': 'Mostrar ayuda',
+  'manual.submit': 'Desbloquear historia',
+  'manual.helpTitle': 'Dónde encontrar tu código:',
+  'manual.helpQr': 'Busca un código QR en tu accesorio Curmunchkin',
+  'manual.helpPrinted': 'El código suele estar impreso debajo o al lado del código QR',
+  'manual.helpPrefix': 'Empieza por «CM» seguido de letras y números',
+  'manual.helpExample': 'Ejemplo: {example}',
+  'manual.helpOnline': 'Los códigos escritos se comprueban por internet, así que pide a un adulto que te conecte',
+
+  // Photo upload
+  'upload.subtitle': 'Haz una foto de la etiqueta de tu accesorio Curmunchkin y añádela aquí',
+  'upload.looking': 'Buscando códigos en tu foto...',
+  'upload.drop': 'Suelta una foto aquí',
+  'upload.found': 'Hemos encontrado {count} códigos en tu foto',
+  'upload.choose': 'Elegir foto',
+  'upload.photos': 'Fotos',
+  'upload.openFailed': 'No hemos podido abrir esa foto. ¡Prueba con otra!',
+  'upload.tryAnother': 'Prueba con otra foto',
+  'upload.useManual': 'Escribe el código a mano',
+
+  // Collection
+  'collection.title': 'Mi colección de historias',
+  'collection.subtitle': 'Tus aventuras y logros reunidos',
+  'collection.storiesCollected': 'Historias reunidas',
+  'collection.achievements': 'Logros',
+  'collection.collectibles': 'Coleccionables NFT',
+  'collection.quests': 'Misiones',
+  'collection.chaptersComplete': '{completed} de {total} capítulos terminados',
+  'collection.questComplete': '¡Misión cumplida!',
+  'collection.emptyTitle': 'Empieza tu colección',
+  'collection.emptyMessage': '¡Escanea tu primer accesorio Curmunchkin para desbloquear historias y empezar tu colección mágica!',
+  'collection.scanFirst': 'Escanear el primer accesorio',
+
+  // Parent dashboard
+  'dashboard.title': 'Panel para familias',
+  'dashboard.subtitle': 'Sigue el progreso de tu hijo y gestiona los ajustes de seguridad',
+  'dashboard.progress': 'Progreso',
+  'dashboard.storiesCompleted': 'Historias terminadas',
+  'dashboard.timeSpent': 'Tiempo dedicado',
+  'dashboard.thisWeek': 'Esta semana',
+  'dashboard.minutes': '{minutes} min',
+  'dashboard.includes': 'Incluye {breaks}',
+  'dashboard.breaksOne': '1 pausa sensorial ({time})',
+  'dashboard.breaks': '{count} pausas sensoriales ({time})',
+  'dashboard.safety': 'Seguridad',
+  'dashboard.secure': 'Todo está protegido',
+  'dashboard.settings': 'Ajustes',
+  'dashboard.customizations': 'Personalizaciones',
+  'dashboard.replays': 'Repeticiones de sesiones',
+  'dashboard.choices': '{count} elecciones',
+  'dashboard.finished': 'terminada el {date}',
+  'dashboard.replay': 'Repetir',
+  'dashboard.writeTitle': 'Escribir una historia',
+  'dashboard.writeSubtitle': 'Crea tus propias aventuras y revísalas antes de compartirlas',
+  'dashboard.openAuthor': 'Abrir el editor',
+  'dashboard.comingSoonTitle': 'El panel para familias llegará pronto',
+  'dashboard.comingSoonMessage': 'El seguimiento detallado del progreso, la información terapéutica y el control parental llegarán en la próxima actualización.',
+
+  // Locked story parts
+  'locked.finishStory': '¡Termina antes otra aventura y vuelve para abrir esta parte!',
+  'locked.scanAttachment': '¡Escanea tu accesorio {attachment} para abrir esta parte!',
+  'locked.exploreEarlier': 'Explora antes las partes anteriores de esta historia para encontrar el camino hasta aquí.',
+  'locked.mystery': 'Esta parte aún es un misterio. Pide ayuda a un adulto.',
+  'locked.keepExploring': '¡Sigue explorando para abrir esta parte!',
+};
+
+export default es;
@@ -0,0 +1,233 @@
+/**
+ * French message catalog
+ */
+
+import type { MessageCatalog } from '../messages';
+
+export const fr: MessageCatalog = {
+  // Shared
+  'common.goBack': 'Retour',
+  'common.backHome': "Retour à l'accueil",
+
+  // Characters
+  'character.silo': 'Attentif aux détails et aux motifs',
+  'character.blip': 'Énergique et créatif',
+  'character.pip': 'Conteur visuel',
+  'character.tally': 'Penseur qui adore les mots',
+  'character.tumble': 'Empathique et persévérant',
+  'character.echo': 'Vif et observateur',
+  'character.sway': 'À l’écoute des émotions',
+  'character.ponder': 'Adaptable et sage',
+  'character.default': 'Ton ami Curmunchkin',
+
+  // Story viewer
+  'story.loading': 'Ton aventure se prépare...',
+  'story.notFound': 'Histoire introuvable',
+  'story.unavailable': 'Histoire indisponible',
+  'story.lockedTitle': 'Cette partie est encore verrouillée',
+  'story.lockedDismiss': "Continuer l'écoute",
+  'story.noContent': "Cette histoire n'a pas de contenu.",
+  'story.settings': "Réglages de l'histoire",
+  'story.replayBanner': 'Revoir la séance · rien ici ne change la progression de votre enfant',
+  'story.previewBanner': 'Aperçu · les choix et la progression ne sont pas enregistrés',
+  'story.reviewTitle': 'En attente de vérification',
+  'story.reviewDescription': "Cette histoire n'a pas encore été vérifiée. Un adulte peut répondre à cette question pour l'ouvrir.",
+  'story.completeTitle': 'Histoire terminée !',
+  'story.completeMessage': 'Tu as terminé cette belle aventure avec {name} !',
+  'story.questChapter': '{quest} · Chapitre {chapter}',
+  'story.scanAttachment': 'Scanne ton accessoire {attachment}',
+  'story.collect': 'Garde ton histoire',
+  'story.previewAgain': "Revoir l'aperçu",
+  'story.backToEditor': "Retour à l'éditeur",
+  'story.exploreMore': "Découvrir d'autres histoires",
+
+  // Story navigation
+  'navigation.chooseTitle': 'Que veux-tu faire ?',
+  'navigation.chooseSubtitle': "Choisis ton chemin dans l'histoire",
+  'navigation.choiceNumber': 'Choix {number}',
+  'navigation.previous': 'Précédent',
+  'navigation.previousLabel': 'Aller à la partie précédente',
+  'navigation.finish': "Finir l'histoire",
+  'navigation.continue': 'Continuer',
+  'navigation.skipLabel': 'Passer à la partie suivante',
+  'navigation.next': 'Suivant',
+  'navigation.nextLabel': 'Aller à la partie suivante',
+  'navigation.hintEnd': 'Tu es arrivé à la fin de cette histoire !',
+  'navigation.hintControls': "Utilise les boutons ci-dessus pour avancer dans l'histoire",
+  'navigation.hintAuto': "Écoute l'histoire, elle continuera toute seule",
+
+  // Branch choices
+  'choice.voice_response': 'Réponds avec ta voix',
+  'choice.continue': "Continuer l'histoire",
+  'choice.explore_more': 'En découvrir plus',
+  'choice.practice_technique': "S'entraîner",
+  'choice.ask_question': 'Poser une question',
+  'choice.share_feeling': 'Dire comment tu te sens',
+  'choice.try_different_way': 'Essayer autrement',
+  'choice.take_break': 'Faire une pause sensorielle',
+
+  // Voice prompts
+  'prompt.trySaying': 'Essaie de dire : « {response} »',
+  'prompt.heard': "J'ai entendu : « {response} »",
+  'prompt.speak': 'Parler',
+  'prompt.listening': "J'écoute...",
+  'prompt.repeat': 'Répéter',
+  'prompt.repeatLabel': 'Répéter la question',
+  'prompt.typeInstead': 'Écrire ta réponse',
+  'prompt.hideTyping': 'Masquer',
+  'prompt.typePlaceholder': 'Écris ta réponse ici...',
+  'prompt.send': 'Envoyer',
+  'prompt.secondsRemaining': 'Encore {seconds} secondes',
+  'prompt.timeUp': "C'est l'heure ! L'histoire continue...",
+
+  // Sensory breaks
+  'break.title': "C'est la pause",
+  'break.secondsLeft': 'Encore {seconds} secondes de pause',
+  'break.ready': 'Je suis prêt à continuer !',
+  'break.intro': '{name} veut faire une petite pause avec toi !',
+  'break.proprioceptive_input': 'Appuie fort tes pieds sur le sol pendant {seconds} secondes.',
+  'break.deep_pressure': 'Fais-toi un gros câlin bien serré et garde-le pendant {seconds} secondes.',
+  'break.tactile_exploration': 'Frotte doucement tes mains et sens-les se réchauffer pendant {seconds} secondes.',
+  'break.vestibular_movement': "Balance-toi doucement de gauche à droite comme un arbre dans le vent pendant {seconds} secondes.",
+  'break.auditory_processing': 'Ferme les yeux et cherche le son le plus doux que tu entends pendant {seconds} secondes.',
+  'break.visual_organization': 'Regarde autour de toi et trouve trois choses de la même couleur. Tu as {seconds} secondes.',
+  'break.olfactory_grounding': 'Respire lentement par le nez, comme pour sentir une fleur, pendant {seconds} secondes.',
+  'break.interoceptive_awareness': 'Pose une main sur ton ventre et sens-le monter et descendre pendant {seconds} secondes.',
+
+  // Settings
+  'settings.loading': 'Chargement des réglages...',
+  'settings.title': 'Juste comme il faut',
+  'settings.subtitle': 'Change ces réglages pour que tout soit parfait pour toi',
+  'settings.languageTitle': 'Langue',
+  'settings.languageSubtitle': "La langue des histoires, des boutons et de l'écoute",
+  'settings.voiceTitle': 'Voix et son',
+  'settings.voiceSubtitle': 'Comment tu veux entendre les histoires',
+  'settings.voiceSpeed': 'Vitesse de la voix',
+  'settings.slow': 'Lente',
+  'settings.fast': 'Rapide',
+  'settings.voiceVolume': 'Volume de la voix',
+  'settings.quiet': 'Bas',
+  'settings.loud': 'Fort',
+  'settings.autoplay': 'Lire les histoires automatiquement',
+  'settings.pauseBetween': 'Pause entre les parties',
+  'settings.visualTitle': 'Confort visuel',
+  'settings.visualSubtitle': "L'apparence de ton écran",
+  'settings.textSize': 'Taille du texte',
+  'settings.contrast': 'Contraste',
+  'settings.contrast.normal': 'Normal',
+  'settings.contrast.high': 'Élevé',
+  'settings.contrast.ultra-high': 'Maximum',
+  'settings.reduceMotion': 'Réduire les mouvements',
+  'settings.reduceAnimations': 'Réduire les animations',
+  'settings.storyTitle': 'Préférences des histoires',
+  'settings.storySubtitle': "Choisis ton personnage préféré et ton style d'histoire",
+  'settings.favoriteCharacter': 'Personnage préféré',
+  'settings.storyLength': 'Durée des histoires',
+  'settings.length.short': 'Courte (3-5 min)',
+  'settings.length.medium': 'Moyenne (6-10 min)',
+  'settings.length.long': 'Longue (11-15 min)',
+
+  // Scanner
+  'scanner.title': 'Scanne ton Curmunchkin',
+  'scanner.subtitle': 'Pointe ta caméra vers le code QR pour débloquer ton aventure !',
+  'scanner.howToTitle': 'Comment scanner ton Curmunchkin',
+  'scanner.step1': 'Trouve le code QR sur ton accessoire Curmunchkin',
+  'scanner.step2': 'Tiens ton appareil bien droit et pointe la caméra vers le code',
+  'scanner.step3': 'Attends que la magie opère !',
+  'scanner.gotIt': 'Compris !',
+  'scanner.settingUp': 'Préparation de la caméra...',
+  'scanner.cameraError': 'La caméra ne fonctionne pas',
+  'scanner.tryAgain': 'Réessayer',
+  'scanner.uploadAPhoto': 'Envoyer une photo',
+  'scanner.enterManually': 'Taper le code',
+  'scanner.useCamera': 'Utiliser la caméra',
+  'scanner.scanning': 'Scan en cours...',
+  'scanner.startCamera': 'Allumer la caméra',
+  'scanner.photoUpload': 'Envoi de photo',
+  'scanner.uploadPhoto': 'Envoyer une photo',
+  'scanner.manualEntry': 'Saisie du code',
+  'scanner.enterCode': 'Taper le code',
+  'scanner.help': "Un souci ? Tape le code ou demande de l'aide à un adulte.",
+  'scanner.helpWithUpload': "Un souci ? Envoie une photo du code, tape-le ou demande de l'aide à un adulte.",
+
+  // Camera
+  'camera.torchOn': 'Allumer la lampe',
+  'camera.torchOff': 'Éteindre la lampe',
+  'camera.switch': 'Changer de caméra',
+  'camera.processing': 'Vérification...',
+  'camera.looking': 'Recherche du code QR...',
+  'camera.hint': 'Tiens ton appareil bien droit et place le code QR au centre du cadre',
+
+  // Manual code entry
+  'manual.title': 'Tape ton code',
+  'manual.subtitle': 'Tape le code de ton accessoire Curmunchkin',
+  'manual.label': "Code de l'accessoire",
+  'manual.formatOk': "Le code a l'air bon !",
+  'manual.characterCount': '{count}/{total} caractères',
+  'manual.showHelp': "Afficher l'aide",
+  'manual.submit': "Débloquer l'histoire",
+  'manual.helpTitle': 'Où trouver ton code :',
+  'manual.helpQr': 'Cherche un code QR sur ton accessoire Curmunchkin',
+  'manual.helpPrinted': 'Le code est souvent imprimé sous le code QR ou à côté',
+  'manual.helpPrefix': 'Il commence par « CM » suivi de lettres et de chiffres',
+  'manual.helpExample': 'Exemple : {example}',
+  'manual.helpOnline': 'Les codes tapés sont vérifiés sur internet, alors demande à un adulte de te connecter',
+
+  // Photo upload
+  'upload.subtitle': "Prends en photo l'étiquette de ton accessoire Curmunchkin, puis ajoute-la ici",
+  'upload.looking': 'On cherche des codes dans ta photo...',
+  'upload.drop': 'Dépose une photo ici',
+  'upload.found': '{count} codes trouvés dans ta photo',
+  'upload.choose': 'Choisir une photo',
+  'upload.photos': 'Photos',
+  'upload.openFailed': "On n'a pas pu ouvrir cette photo. Essaies-en une autre !",
+  'upload.tryAnother': 'Essaie une autre photo',
+  'upload.useManual': 'Tape le code à la main',
+
+  // Collection
+  'collection.title': "Ma collection d'histoires",
+  'collection.subtitle': 'Tes aventures et tes réussites',
+  'collection.storiesCollected': 'Histoires collectées',
+  'collection.achievements': 'Réussites',
+  'collection.collectibles': 'Objets NFT à collectionner',
+  'collection.quests': 'Quêtes',
+  'collection.chaptersComplete': '{completed} chapitres terminés sur {total}',
+  'collection.questComplete': 'Quête terminée !',
+  'collection.emptyTitle': 'Commence ta collection',
+  'collection.emptyMessage': 'Scanne ton premier accessoire Curmunchkin pour débloquer des histoires et commencer ta collection magique !',
+  'collection.scanFirst': 'Scanner le premier accessoire',
+
+  // Parent dashboard
+  'dashboard.title': 'Espace parents',
+  'dashboard.subtitle': 'Suivez les progrès de votre enfant et gérez les réglages de sécurité',
+  'dashboard.progress': 'Progression',
+  'dashboard.storiesCompleted': 'Histoires terminées',
+  'dashboard.timeSpent': 'Temps passé',
+  'dashboard.thisWeek': 'Cette semaine',
+  'dashboard.minutes': '{minutes} min',
+  'dashboard.includes': 'Dont {breaks}',
+  'dashboard.breaksOne': '1 pause sensorielle ({time})',
+  'dashboard.breaks': '{count} pauses sensorielles ({time})',
+  'dashboard.safety': 'Sécurité',
+  'dashboard.secure': 'Tout est sécurisé',
+  'dashboard.settings': 'Réglages',
+  'dashboard.customizations': 'Personnalisations',
+  'dashboard.replays': 'Revoir les séances',
+  'dashboard.choices': '{count} choix',
+  'dashboard.finished': 'terminée le {date}',
+  'dashboard.replay': 'Revoir',
+  'dashboard.writeTitle': 'Écrire une histoire',
+  'dashboard.writeSubtitle': 'Créez vos propres aventures et prévisualisez-les avant de les partager',
+  'dashboard.openAuthor': "Ouvrir l'éditeur",
+  'dashboard.comingSoonTitle': "L'espace parents arrive bientôt",
+  'dashboard.comingSoonMessage': 'Le suivi détaillé des progrès, les observations thérapeutiques et le contrôle parental arriveront dans la prochaine mise à jour.',
+
+  // Locked story parts
+  'locked.finishStory': "Termine d'abord une autre aventure, puis reviens pour ouvrir cette partie !",
+  'locked.scanAttachment': 'Scanne ton accessoire {attachment} pour ouvrir cette partie !',
+  'locked.exploreEarlier': "Explore d'abord les parties précédentes de cette histoire pour trouver le chemin jusqu'ici.",
+  'locked.mystery': "Cette partie est encore un mystère. Demande de l'aide à un adulte.",
+  'locked.keepExploring': "Continue d'explorer pour ouvrir cette partie !",
+};
+
+export default fr;
@@ -0,0 +1,14 @@
+/**
+ * Central export point for localization
+ * Provides message catalogs, locale helpers and the message hook
+ */
+
+// Export hooks
+export { default as useMessages } from './useMessages';
+
+// Export locale helpers
+export { translate, isMessageKey } from './messages';
+export { DEFAULT_LOCALE, SUPPORTED_LOCALES, getStoryLanguage, getPreferredLocale } from './locales';
+
+// Export types
+export type { MessageKey, MessageCatalog, MessageParams } from './messages';
@@ -0,0 +1,46 @@
+/**
+ * Supported locales for Curmunchkins Mystery Box Explorer
+ * A locale picks the UI catalog, the story translation and the speech language
+ */
+
+import { isStoryLanguage } from '@/types';
+import type { SpeechRecognitionLanguage, StoryLanguage, UserPreferences } from '@/types';
+
+export const DEFAULT_LOCALE: SpeechRecognitionLanguage = 'en-US';
+
+// Labels are shown in their own language so a child can find theirs
+export const SUPPORTED_LOCALES: { value: SpeechRecognitionLanguage; label: string }[] = [
+  { value: 'en-US', label: 'English (US)' },
+  { value: 'en-GB', label: 'English (UK)' },
+  { value: 'en-CA', label: 'English (Canada)' },
+  { value: 'en-AU', label: 'English (Australia)' },
+  { value: 'es-ES', label: 'Español (España)' },
+  { value: 'es-MX', label: 'Español (México)' },
+  { value: 'fr-FR', label: 'Français (France)' },
+  { value: 'fr-CA', label: 'Français (Canada)' },
+  { value: 'de-DE', label: 'Deutsch' },
+];
+
+/**
+ * Story and catalog language for a locale, e.g. 'fr-CA' -> 'fr'
+ */
+export const getStoryLanguage = (locale: SpeechRecognitionLanguage): StoryLanguage => {
+  const language = locale.split('-')[0];
+  return isStoryLanguage(language) ? language : 'en';
+};
+
+/**
+ * Locale chosen in preferences, or the default before preferences load
+ */
+export const getPreferredLocale = (
+  preferences: UserPreferences | null | undefined
+): SpeechRecognitionLanguage => {
+  return preferences?.locale ?? DEFAULT_LOCALE;
+};
+
+export default {
+  DEFAULT_LOCALE,
+  SUPPORTED_LOCALES,
+  getStoryLanguage,
+  getPreferredLocale,
+};
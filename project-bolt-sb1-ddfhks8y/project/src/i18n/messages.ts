@@ -0,0 +1,48 @@
+/**
+ * Message lookup for UI strings
+ * Catalogs only need the keys they translate; anything missing falls back to English
+ */
+
+import { en } from './catalogs/en';
+import { es } from './catalogs/es';
+import { fr } from './catalogs/fr';
+import { de } from './catalogs/de';
+import { getStoryLanguage } from './locales';
+import type { MessageKey } from './catalogs/en';
+import type { SpeechRecognitionLanguage, StoryLanguage } from '@/types';
+
+export type { MessageKey };
+
+export type MessageCatalog = Partial<Record<MessageKey, string>>;
+
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGS: Record<StoryLanguage, MessageCatalog> = { en, es, fr, de };
+
+/**
+ * Look up a UI string for a locale and fill in its {placeholders}
+ */
+export const translate = (
+  locale: SpeechRecognitionLanguage,
+  key: MessageKey,
+  params?: MessageParams
+): string => {
+  const message = CATALOGS[getStoryLanguage(locale)][key] ?? en[key];
+  if (!params) return message;
+
+  return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+};
+
+/**
+ * Whether a key exists, for messages keyed by data such as branch conditions
+ */
+export const isMessageKey = (key: string): key is MessageKey => {
+  return key in en;
+};
+
+export default {
+  translate,
+  isMessageKey,
+};
@@ -0,0 +1,23 @@
+/**
+ * Message hook
+ * Binds translate() to the locale in the user's preferences
+ */
+
+import { useCallback } from 'react';
+import { useAppStore } from '@/stores';
+import { getPreferredLocale } from './locales';
+import { translate } from './messages';
+import type { MessageKey, MessageParams } from './messages';
+
+export const useMessages = () => {
+  const locale = useAppStore((state) => getPreferredLocale(state.preferences));
+
+  const t = useCallback(
+    (key: MessageKey, params?: MessageParams) => translate(locale, key, params),
+    [locale]
+  );
+
+  return { t, locale };
+};
+
+export default useMessages;
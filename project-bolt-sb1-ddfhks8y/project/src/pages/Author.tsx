@@ -0,0 +1,29 @@
+/**
+ * Author page - Story writing tool for parents and therapists
+ * Kept behind the parent gate
+ */
+
+import React from 'react';
+import { ParentGate } from '@/components';
+import { AuthorTool } from '@/features/authoring';
+
+const Author: React.FC = () => {
+  return (
+    <div className="max-w-7xl mx-auto">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-4 font-primary">
+          Story Author
+        </h1>
+        <p className="text-lg text-gray-600">
+          Write and preview your own Curmunchkin adventures
+        </p>
+      </div>
+
+      <ParentGate description="The story author is for grown-ups. Answer this question to continue.">
+        <AuthorTool />
+      </ParentGate>
+    </div>
+  );
+};
+
+export default Author;
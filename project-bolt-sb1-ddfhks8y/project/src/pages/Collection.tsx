@@ -1,21 +1,36 @@
 /**
- * Collection page placeholder - NFT collection and progress display
- * Will be implemented in later steps
+ * Collection page - collected stories, quest progress and NFT display
+ * Finishing a story lands here, so this is where the next quest chapter is offered
  */
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { Star, Trophy, Gift, ArrowLeft } from 'lucide-react';
+import { Star, Trophy, Gift, ArrowLeft, Scan, Compass } from 'lucide-react';
+import { useStoryStore } from '@/stores';
+import { getQuests } from '@/features/storytelling/storyQuests';
+import { useMessages } from '@/i18n';
+import type { QuestProgress } from '@/types';
 
 const Collection: React.FC = () => {
+  const { unlockedStories, completedStories, questPrompt, getQuestProgress } = useStoryStore();
+  const { t } = useMessages();
+  const [questProgress, setQuestProgress] = useState<QuestProgress[]>([]);
+
+  useEffect(() => {
+    getQuestProgress().then(setQuestProgress);
+  }, [getQuestProgress, completedStories, unlockedStories]);
+
+  const quests = getQuests();
+  const startedQuests = questProgress.filter(progress => progress.completedChapters > 0);
+
   return (
     <div className="max-w-6xl mx-auto">
       <div className="mb-8">
         <h1 className="text-3xl font-bold text-gray-900 mb-4 font-primary">
-          My Story Collection
+          {t('collection.title')}
         </h1>
         <p className="text-lg text-gray-600">
-          Your collected adventures and achievements
+          {t('collection.subtitle')}
         </p>
       </div>
 
@@ -25,8 +40,8 @@ const Collection: React.FC = () => {
           <div className="w-16 h-16 bg-purple-100 rounded-2xl flex items-center justify-center mx-auto mb-4">
             <Star className="h-8 w-8 text-purple-600" />
           </div>
-          <h3 className="text-2xl font-bold text-gray-900 font-primary">0</h3>
-          <p className="text-gray-600">Stories Collected</p>
+          <h3 className="text-2xl font-bold text-gray-900 font-primary">{unlockedStories.length}</h3>
+          <p className="text-gray-600">{t('collection.storiesCollected')}</p>
         </div>
 
         <div className="bg-white rounded-2xl p-6 shadow-soft text-center">
@@ -34,7 +49,7 @@ const Collection: React.FC = () => {
             <Trophy className="h-8 w-8 text-amber-600" />
           </div>
           <h3 className="text-2xl font-bold text-gray-900 font-primary">0</h3>
-          <p className="text-gray-600">Achievements</p>
+          <p className="text-gray-600">{t('collection.achievements')}</p>
         </div>
 
         <div className="bg-white rounded-2xl p-6 shadow-soft text-center">
@@ -42,29 +57,103 @@ const Collection: React.FC = () => {
             <Gift className="h-8 w-8 text-green-600" />
           </div>
           <h3 className="text-2xl font-bold text-gray-900 font-primary">0</h3>
-          <p className="text-gray-600">NFT Collectibles</p>
+          <p className="text-gray-600">{t('collection.collectibles')}</p>
         </div>
       </div>
 
+      {/* Quests the child has started */}
+      {startedQuests.length > 0 && (
+        <div className="mb-8 space-y-4">
+          <h2 className="text-2xl font-bold text-gray-900 font-primary">{t('collection.quests')}</h2>
+          {startedQuests.map(progress => {
+            const quest = quests.find(candidate => candidate.id === progress.questId);
+            if (!quest) {
+              return null;
+            }
+            const nextChapter = quest.chapters[progress.currentChapter];
+            const isPrompted = questPrompt?.questId === quest.id;
+
+            return (
+              <div
+                key={quest.id}
+                className={`bg-white rounded-2xl p-6 shadow-soft ${isPrompted ? 'ring-2 ring-green-300' : ''}`}
+              >
+                <div className="flex items-start mb-4">
+                  <div className="w-12 h-12 bg-green-100 rounded-xl flex items-center justify-center mr-4 flex-shrink-0">
+                    <Compass className="h-6 w-6 text-green-600" />
+                  </div>
+                  <div>
+                    <h3 className="text-xl font-bold text-gray-900 font-primary">{quest.title}</h3>
+                    <p className="text-gray-600">{quest.description}</p>
+                  </div>
+                </div>
+
+                {/* Chapter progress */}
+                <div className="flex gap-2 mb-2" aria-hidden="true">
+                  {quest.chapters.map((chapter, index) => (
+                    <div
+                      key={chapter.storyId}
+                      className={`h-2 flex-1 rounded-full ${index < progress.completedChapters ? 'bg-green-500' : 'bg-gray-200'}`}
+                    />
+                  ))}
+                </div>
+                <p className="text-sm text-gray-600 mb-4">
+                  {t('collection.chaptersComplete', { completed: progress.completedChapters, total: progress.totalChapters })}
+                </p>
+
+                {progress.isCompleted ? (
+                  <p className="text-green-700 font-medium">{t('collection.questComplete')}</p>
+                ) : progress.awaitingScan ? (
+                  <div className="p-4 bg-green-50 border border-green-200 rounded-xl">
+                    <p className="text-sm font-medium text-green-700 mb-1">
+                      {t('story.questChapter', { quest: quest.title, chapter: progress.currentChapter + 1 })}
+                    </p>
+                    <h4 className="font-bold text-gray-900 mb-2">{nextChapter.title}</h4>
+                    <p className="text-gray-700 mb-4">{nextChapter.scanPrompt}</p>
+                    <Link
+                      to="/scanner"
+                      className="inline-flex items-center px-6 py-3 bg-green-600 text-white rounded-xl hover:bg-green-700 transition-colors focus-ring"
+                    >
+                      <Scan className="h-5 w-5 mr-2" />
+                      {t('story.scanAttachment', { attachment: nextChapter.attachmentType.replace('_', ' ') })}
+                    </Link>
+                  </div>
+                ) : (
+                  <Link
+                    to={`/story/${nextChapter.storyId}`}
+                    className="inline-flex items-center px-6 py-3 bg-purple-600 text-white rounded-xl hover:bg-purple-700 transition-colors focus-ring"
+                  >
+                    <Star className="h-5 w-5 mr-2" />
+                    {nextChapter.title}
+                  </Link>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {/* Empty state */}
-      <div className="bg-white rounded-2xl p-12 shadow-soft text-center">
-        <div className="w-24 h-24 bg-gray-100 rounded-2xl flex items-center justify-center mx-auto mb-6">
-          <Star className="h-12 w-12 text-gray-400" />
+      {unlockedStories.length === 0 && (
+        <div className="bg-white rounded-2xl p-12 shadow-soft text-center">
+          <div className="w-24 h-24 bg-gray-100 rounded-2xl flex items-center justify-center mx-auto mb-6">
+            <Star className="h-12 w-12 text-gray-400" />
+          </div>
+          <h3 className="text-xl font-bold text-gray-900 mb-4 font-primary">
+            {t('collection.emptyTitle')}
+          </h3>
+          <p className="text-gray-600 mb-6 max-w-md mx-auto">
+            {t('collection.emptyMessage')}
+          </p>
+          <Link
+            to="/scanner"
+            className="inline-flex items-center px-6 py-3 bg-purple-600 text-white rounded-xl hover:bg-purple-700 transition-colors focus-ring"
+          >
+            <Star className="h-5 w-5 mr-2" />
+            {t('collection.scanFirst')}
+          </Link>
         </div>
-        <h3 className="text-xl font-bold text-gray-900 mb-4 font-primary">
-          Start Your Collection
-        </h3>
-        <p className="text-gray-600 mb-6 max-w-md mx-auto">
-          Scan your first Curmunchkin attachment to unlock stories and start building your magical collection!
-        </p>
-        <Link
-          to="/scanner"
-          className="inline-flex items-center px-6 py-3 bg-purple-600 text-white rounded-xl hover:bg-purple-700 transition-colors focus-ring"
-        >
-          <Star className="h-5 w-5 mr-2" />
-          Scan First Attachment
-        </Link>
-      </div>
+      )}
 
       {/* Back navigation */}
       <div className="mt-8">
@@ -73,7 +162,7 @@ const Collection: React.FC = () => {
           className="inline-flex items-center px-6 py-3 bg-gray-100 text-gray-700 rounded-xl hover:bg-gray-200 transition-colors focus-ring"
         >
           <ArrowLeft className="h-5 w-5 mr-2" />
-          Back to Home
+          {t('common.backHome')}
         </Link>
       </div>
     </div>
@@ -3,19 +3,58 @@
  * Will be implemented in later steps
  */
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { ArrowLeft, BarChart3, Shield, Settings, Clock } from 'lucide-react';
+import { ArrowLeft, BarChart3, Shield, Settings, Clock, History, PenTool } from 'lucide-react';
+import { getCompletedStories, getProgressStats } from '@/services/storage';
+import { loadStoryManifest, getManifestEntry } from '@/features/storytelling/storyManifest';
+import { StoryPackManager } from '@/features/storyPacks';
+import { useMessages } from '@/i18n';
+import type { MessageKey, MessageParams } from '@/i18n';
+import type { StoryProgress } from '@/types';
+
+type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+// Whole minutes, rounding up so a short break still shows
+const formatMinutes = (milliseconds: number, t: Translate): string =>
+  t('dashboard.minutes', { minutes: Math.ceil(milliseconds / 60000) });
+
+const formatBreaks = (count: number, time: number, t: Translate): string =>
+  count === 1
+    ? t('dashboard.breaksOne', { time: formatMinutes(time, t) })
+    : t('dashboard.breaks', { count, time: formatMinutes(time, t) });
 
 const ParentDashboard: React.FC = () => {
+  const [completedSessions, setCompletedSessions] = useState<StoryProgress[]>([]);
+  const [sensoryBreaks, setSensoryBreaks] = useState({ count: 0, time: 0 });
+  const { t, locale } = useMessages();
+
+  // Finished stories can be replayed to see how the session went
+  useEffect(() => {
+    const loadSessions = async () => {
+      try {
+        await loadStoryManifest();
+        const completed = await getCompletedStories('current-user'); // Would get from app store
+        setCompletedSessions(completed.sort((a, b) => (b.completedAt ?? 0) - (a.completedAt ?? 0)));
+        
+        const stats = await getProgressStats('current-user'); // Would get from app store
+        setSensoryBreaks({ count: stats.sensoryBreakCount, time: stats.sensoryBreakTime });
+      } catch (error) {
+        console.error('Failed to load completed sessions:', error);
+      }
+    };
+
+    loadSessions();
+  }, []);
+
   return (
     <div className="max-w-6xl mx-auto">
       <div className="mb-8">
         <h1 className="text-3xl font-bold text-gray-900 mb-4 font-primary">
-          Parent Dashboard
+          {t('dashboard.title')}
         </h1>
         <p className="text-lg text-gray-600">
-          Monitor your child's progress and manage safety settings
+          {t('dashboard.subtitle')}
         </p>
       </div>
 
@@ -25,37 +64,104 @@ const ParentDashboard: React.FC = () => {
           <div className="w-12 h-12 bg-blue-100 rounded-xl flex items-center justify-center mb-4">
             <BarChart3 className="h-6 w-6 text-blue-600" />
           </div>
-          <h3 className="text-lg font-bold text-gray-900 mb-2 font-primary">Progress</h3>
+          <h3 className="text-lg font-bold text-gray-900 mb-2 font-primary">{t('dashboard.progress')}</h3>
           <p className="text-2xl font-bold text-blue-600">0</p>
-          <p className="text-sm text-gray-600">Stories completed</p>
+          <p className="text-sm text-gray-600">{t('dashboard.storiesCompleted')}</p>
         </div>
 
         <div className="bg-white rounded-2xl p-6 shadow-soft">
           <div className="w-12 h-12 bg-green-100 rounded-xl flex items-center justify-center mb-4">
             <Clock className="h-6 w-6 text-green-600" />
           </div>
-          <h3 className="text-lg font-bold text-gray-900 mb-2 font-primary">Time Spent</h3>
-          <p className="text-2xl font-bold text-green-600">0m</p>
-          <p className="text-sm text-gray-600">This week</p>
+          <h3 className="text-lg font-bold text-gray-900 mb-2 font-primary">{t('dashboard.timeSpent')}</h3>
+          <p className="text-2xl font-bold text-green-600">{formatMinutes(0, t)}</p>
+          <p className="text-sm text-gray-600">{t('dashboard.thisWeek')}</p>
+          {sensoryBreaks.count > 0 && (
+            <p className="text-sm text-gray-600 mt-2">
+              {t('dashboard.includes', { breaks: formatBreaks(sensoryBreaks.count, sensoryBreaks.time, t) })}
+            </p>
+          )}
         </div>
 
         <div className="bg-white rounded-2xl p-6 shadow-soft">
           <div className="w-12 h-12 bg-purple-100 rounded-xl flex items-center justify-center mb-4">
             <Shield className="h-6 w-6 text-purple-600" />
           </div>
-          <h3 className="text-lg font-bold text-gray-900 mb-2 font-primary">Safety</h3>
+          <h3 className="text-lg font-bold text-gray-900 mb-2 font-primary">{t('dashboard.safety')}</h3>
           <p className="text-2xl font-bold text-purple-600">✓</p>
-          <p className="text-sm text-gray-600">All systems secure</p>
+          <p className="text-sm text-gray-600">{t('dashboard.secure')}</p>
         </div>
 
         <div className="bg-white rounded-2xl p-6 shadow-soft">
           <div className="w-12 h-12 bg-amber-100 rounded-xl flex items-center justify-center mb-4">
             <Settings className="h-6 w-6 text-amber-600" />
           </div>
-          <h3 className="text-lg font-bold text-gray-900 mb-2 font-primary">Settings</h3>
+          <h3 className="text-lg font-bold text-gray-900 mb-2 font-primary">{t('dashboard.settings')}</h3>
           <p className="text-2xl font-bold text-amber-600">5</p>
-          <p className="text-sm text-gray-600">Customizations</p>
+          <p className="text-sm text-gray-600">{t('dashboard.customizations')}</p>
+        </div>
+      </div>
+
+      {/* Session replays */}
+      {completedSessions.length > 0 && (
+        <div className="bg-white rounded-2xl p-6 shadow-soft mb-8">
+          <div className="flex items-center mb-4">
+            <History className="h-6 w-6 text-purple-600 mr-3" />
+            <h3 className="text-lg font-bold text-gray-900 font-primary">{t('dashboard.replays')}</h3>
+          </div>
+          <ul className="divide-y divide-gray-100">
+            {completedSessions.map(session => (
+              <li key={session.storyId} className="flex items-center justify-between py-3">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {getManifestEntry(session.storyId)?.title ?? session.storyId}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {t('dashboard.choices', { count: session.choicesMade.length })}
+                    {session.sensoryBreaks?.length
+                      ? ` · ${formatBreaks(
+                        session.sensoryBreaks.length,
+                        session.sensoryBreaks.reduce((sum, record) => sum + record.duration, 0),
+                        t
+                      )}`
+                      : ''}
+                    {session.completedAt
+                      ? ` · ${t('dashboard.finished', { date: new Date(session.completedAt).toLocaleDateString(locale) })}`
+                      : ''}
+                  </p>
+                </div>
+                <Link
+                  to={`/story/${session.storyId}/replay`}
+                  className="px-4 py-2 bg-purple-100 text-purple-700 rounded-xl hover:bg-purple-200 transition-colors focus-ring"
+                >
+                  {t('dashboard.replay')}
+                </Link>
+              </li>
+            ))}
+          </ul>
         </div>
+      )}
+
+      {/* Story authoring */}
+      <div className="bg-white rounded-2xl p-6 shadow-soft mb-8 flex items-center justify-between">
+        <div className="flex items-center">
+          <PenTool className="h-6 w-6 text-purple-600 mr-3" />
+          <div>
+            <h3 className="text-lg font-bold text-gray-900 font-primary">{t('dashboard.writeTitle')}</h3>
+            <p className="text-sm text-gray-600">{t('dashboard.writeSubtitle')}</p>
+          </div>
+        </div>
+        <Link
+          to="/author"
+          className="px-4 py-2 bg-purple-100 text-purple-700 rounded-xl hover:bg-purple-200 transition-colors focus-ring"
+        >
+          {t('dashboard.openAuthor')}
+        </Link>
+      </div>
+
+      {/* Offline story packs */}
+      <div className="bg-white rounded-2xl p-6 shadow-soft mb-8">
+        <StoryPackManager />
       </div>
 
       {/* Coming soon message */}
@@ -64,10 +170,10 @@ const ParentDashboard: React.FC = () => {
           <BarChart3 className="h-12 w-12 text-gray-400" />
         </div>
         <h3 className="text-xl font-bold text-gray-900 mb-4 font-primary">
-          Parent Dashboard Coming Soon
+          {t('dashboard.comingSoonTitle')}
         </h3>
         <p className="text-gray-600 mb-6 max-w-md mx-auto">
-          Detailed progress tracking, therapeutic insights, and parental controls will be available in the next update.
+          {t('dashboard.comingSoonMessage')}
         </p>
       </div>
 
@@ -78,7 +184,7 @@ const ParentDashboard: React.FC = () => {
           className="inline-flex items-center px-6 py-3 bg-gray-100 text-gray-700 rounded-xl hover:bg-gray-200 transition-colors focus-ring"
         >
           <ArrowLeft className="h-5 w-5 mr-2" />
-          Back to Home
+          {t('common.backHome')}
         </Link>
       </div>
     </div>
@@ -5,16 +5,19 @@
 
 import React from 'react';
 import { Link } from 'react-router-dom';
-import { ArrowLeft, Volume2, Eye, Type, Palette, Zap, User } from 'lucide-react';
+import { ArrowLeft, Volume2, Eye, Type, Palette, Zap, User, Languages } from 'lucide-react';
 import { useAppStore } from '@/stores';
+import { useMessages, SUPPORTED_LOCALES } from '@/i18n';
+import { isSpeechRecognitionLanguage } from '@/types';
 
 const Settings: React.FC = () => {
   const { preferences, updateUserPreferences } = useAppStore();
+  const { t, locale } = useMessages();
 
   if (!preferences) {
     return (
       <div className="max-w-2xl mx-auto text-center">
-        <p className="text-gray-600">Loading settings...</p>
+        <p className="text-gray-600">{t('settings.loading')}</p>
       </div>
     );
   }
@@ -37,18 +40,50 @@ const Settings: React.FC = () => {
     });
   };
 
+  const updateLocale = (value: string) => {
+    if (isSpeechRecognitionLanguage(value)) {
+      updateUserPreferences({ locale: value });
+    }
+  };
+
   return (
     <div className="max-w-4xl mx-auto">
       <div className="mb-8">
         <h1 className="text-3xl font-bold text-gray-900 mb-4 font-primary">
-          Make It Just Right
+          {t('settings.title')}
         </h1>
         <p className="text-lg text-gray-600">
-          Adjust these settings to make your experience perfect for you
+          {t('settings.subtitle')}
         </p>
       </div>
 
       <div className="space-y-8">
+        {/* Language */}
+        <div className="bg-white rounded-2xl p-6 shadow-soft">
+          <div className="flex items-center mb-6">
+            <div className="w-12 h-12 bg-blue-100 rounded-xl flex items-center justify-center mr-4">
+              <Languages className="h-6 w-6 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900 font-primary">{t('settings.languageTitle')}</h2>
+              <p className="text-gray-600">{t('settings.languageSubtitle')}</p>
+            </div>
+          </div>
+
+          <select
+            value={locale}
+            onChange={(e) => updateLocale(e.target.value)}
+            aria-label={t('settings.languageTitle')}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-purple-500 focus:border-purple-500"
+          >
+            {SUPPORTED_LOCALES.map(option => (
+              <option key={option.value} value={option.value} lang={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
         {/* Voice Settings */}
         <div className="bg-white rounded-2xl p-6 shadow-soft">
           <div className="flex items-center mb-6">
@@ -56,8 +91,8 @@ const Settings: React.FC = () => {
               <Volume2 className="h-6 w-6 text-purple-600" />
             </div>
             <div>
-              <h2 className="text-xl font-bold text-gray-900 font-primary">Voice & Sound</h2>
-              <p className="text-gray-600">How you want to hear the stories</p>
+              <h2 className="text-xl font-bold text-gray-900 font-primary">{t('settings.voiceTitle')}</h2>
+              <p className="text-gray-600">{t('settings.voiceSubtitle')}</p>
             </div>
           </div>
 
@@ -65,7 +100,7 @@ const Settings: React.FC = () => {
             {/* Voice Speed */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Voice Speed
+                {t('settings.voiceSpeed')}
               </label>
               <input
                 type="range"
@@ -77,16 +112,16 @@ const Settings: React.FC = () => {
                 className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
               />
               <div className="flex justify-between text-xs text-gray-500 mt-1">
-                <span>Slow</span>
+                <span>{t('settings.slow')}</span>
                 <span>{preferences.accessibility.voiceSpeed}x</span>
-                <span>Fast</span>
+                <span>{t('settings.fast')}</span>
               </div>
             </div>
 
             {/* Voice Volume */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Voice Volume
+                {t('settings.voiceVolume')}
               </label>
               <input
                 type="range"
@@ -98,9 +133,9 @@ const Settings: React.FC = () => {
                 className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
               />
               <div className="flex justify-between text-xs text-gray-500 mt-1">
-                <span>Quiet</span>
+                <span>{t('settings.quiet')}</span>
                 <span>{Math.round(preferences.accessibility.voiceVolume * 100)}%</span>
-                <span>Loud</span>
+                <span>{t('settings.loud')}</span>
               </div>
             </div>
 
@@ -113,7 +148,7 @@ const Settings: React.FC = () => {
                   onChange={(e) => updateStoryPreferences({ autoplay: e.target.checked })}
                   className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
                 />
-                <span className="ml-2 text-sm text-gray-700">Auto-play stories</span>
+                <span className="ml-2 text-sm text-gray-700">{t('settings.autoplay')}</span>
               </label>
 
               <label className="flex items-center">
@@ -123,7 +158,7 @@ const Settings: React.FC = () => {
                   onChange={(e) => updateStoryPreferences({ pauseBetweenSegments: e.target.checked })}
                   className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
                 />
-                <span className="ml-2 text-sm text-gray-700">Pause between parts</span>
+                <span className="ml-2 text-sm text-gray-700">{t('settings.pauseBetween')}</span>
               </label>
             </div>
           </div>
@@ -136,8 +171,8 @@ const Settings: React.FC = () => {
               <Eye className="h-6 w-6 text-amber-600" />
             </div>
             <div>
-              <h2 className="text-xl font-bold text-gray-900 font-primary">Visual Comfort</h2>
-              <p className="text-gray-600">How things look on your screen</p>
+              <h2 className="text-xl font-bold text-gray-900 font-primary">{t('settings.visualTitle')}</h2>
+              <p className="text-gray-600">{t('settings.visualSubtitle')}</p>
             </div>
           </div>
 
@@ -145,7 +180,7 @@ const Settings: React.FC = () => {
             {/* Font Size */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-3">
-                Text Size
+                {t('settings.textSize')}
               </label>
               <div className="grid grid-cols-4 gap-2">
                 {(['small', 'medium', 'large', 'extra-large'] as const).map((size) => (
@@ -169,7 +204,7 @@ const Settings: React.FC = () => {
             {/* Visual Contrast */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-3">
-                Visual Contrast
+                {t('settings.contrast')}
               </label>
               <div className="grid grid-cols-3 gap-2">
                 {(['normal', 'high', 'ultra-high'] as const).map((contrast, index) => (
@@ -185,7 +220,7 @@ const Settings: React.FC = () => {
                     `}
                     autoFocus={index === 0 && preferences.accessibility.visualContrast !== 'normal'}
                   >
-                    {contrast === 'ultra-high' ? 'Ultra' : contrast}
+                    {t(`settings.contrast.${contrast}`)}
                   </button>
                 ))}
               </div>
@@ -200,7 +235,7 @@ const Settings: React.FC = () => {
                   onChange={(e) => updateAccessibility({ reduceMotion: e.target.checked })}
                   className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
                 />
-                <span className="ml-2 text-sm text-gray-700">Reduce motion and movement</span>
+                <span className="ml-2 text-sm text-gray-700">{t('settings.reduceMotion')}</span>
               </label>
 
               <label className="flex items-center">
@@ -210,7 +245,7 @@ const Settings: React.FC = () => {
                   onChange={(e) => updateAccessibility({ reduceAnimations: e.target.checked })}
                   className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
                 />
-                <span className="ml-2 text-sm text-gray-700">Reduce animations</span>
+                <span className="ml-2 text-sm text-gray-700">{t('settings.reduceAnimations')}</span>
               </label>
             </div>
           </div>
@@ -223,8 +258,8 @@ const Settings: React.FC = () => {
               <User className="h-6 w-6 text-green-600" />
             </div>
             <div>
-              <h2 className="text-xl font-bold text-gray-900 font-primary">Story Preferences</h2>
-              <p className="text-gray-600">Choose your favorite character and story style</p>
+              <h2 className="text-xl font-bold text-gray-900 font-primary">{t('settings.storyTitle')}</h2>
+              <p className="text-gray-600">{t('settings.storySubtitle')}</p>
             </div>
           </div>
 
@@ -232,28 +267,25 @@ const Settings: React.FC = () => {
             {/* Preferred Character */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-3">
-                Favorite Character
+                {t('settings.favoriteCharacter')}
               </label>
               <select
                 value={preferences.story.preferredCharacter}
                 onChange={(e) => updateStoryPreferences({ preferredCharacter: e.target.value })}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-purple-500 focus:border-purple-500"
               >
-                <option value="silo">Silo - Detail-loving and pattern-aware</option>
-                <option value="blip">Blip - Energetic and creative</option>
-                <option value="pip">Pip - Visual storyteller</option>
-                <option value="tally">Tally - Word-loving thinker</option>
-                <option value="tumble">Tumble - Empathetic and persistent</option>
-                <option value="echo">Echo - Quick-thinking and observant</option>
-                <option value="sway">Sway - Emotionally intelligent</option>
-                <option value="ponder">Ponder - Adaptive and wise</option>
+                {(['silo', 'blip', 'pip', 'tally', 'tumble', 'echo', 'sway', 'ponder'] as const).map((character) => (
+                  <option key={character} value={character}>
+                    {character.charAt(0).toUpperCase() + character.slice(1)} - {t(`character.${character}`)}
+                  </option>
+                ))}
               </select>
             </div>
 
             {/* Story Length */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-3">
-                Preferred Story Length
+                {t('settings.storyLength')}
               </label>
               <div className="grid grid-cols-3 gap-2">
                 {(['short', 'medium', 'long'] as const).map((length) => (
@@ -268,7 +300,7 @@ const Settings: React.FC = () => {
                       }
                     `}
                   >
-                    {length} ({length === 'short' ? '3-5min' : length === 'medium' ? '6-10min' : '11-15min'})
+                    {t(`settings.length.${length}`)}
                   </button>
                 ))}
               </div>
@@ -284,7 +316,7 @@ const Settings: React.FC = () => {
           className="inline-flex items-center px-6 py-3 bg-gray-100 text-gray-700 rounded-xl hover:bg-gray-200 transition-colors focus-ring"
         >
           <ArrowLeft className="h-5 w-5 mr-2" />
-          Back to Home
+          {t('common.backHome')}
         </Link>
       </div>
     </div>
@@ -6,8 +6,12 @@
 import React from 'react';
 import StoryViewer from '@/features/storytelling/StoryViewer';
 
-const Story: React.FC = () => {
-  return <StoryViewer />;
+interface StoryProps {
+  replay?: boolean; // Parent review of a recorded session
+}
+
+const Story: React.FC<StoryProps> = ({ replay = false }) => {
+  return <StoryViewer replay={replay} />;
 };
 
 export default Story;
\ No newline at end of file
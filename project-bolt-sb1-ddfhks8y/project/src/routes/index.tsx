@@ -11,6 +11,7 @@ import Story from '@/pages/Story';
 import Collection from '@/pages/Collection';
 import Settings from '@/pages/Settings';
 import ParentDashboard from '@/pages/ParentDashboard';
+import Author from '@/pages/Author';
 import ErrorBoundary from '@/components/ErrorBoundary/ErrorBoundary';
 
 export const router = createBrowserRouter([
@@ -31,6 +32,10 @@ export const router = createBrowserRouter([
         path: 'story/:storyId?',
         element: <Story />,
       },
+      {
+        path: 'story/:storyId/replay',
+        element: <Story replay />,
+      },
       {
         path: 'collection',
         element: <Collection />,
@@ -43,6 +48,10 @@ export const router = createBrowserRouter([
         path: 'parent',
         element: <ParentDashboard />,
       },
+      {
+        path: 'author',
+        element: <Author />,
+      },
       {
         path: '*',
         element: <Navigate to="/" replace />,
@@ -95,6 +104,13 @@ export const routeMetadata = {
     childFriendly: false,
     requiresParentPermission: true,
   },
+  '/author': {
+    title: 'Story Author - Write Your Own Adventures',
+    description: 'Create, preview and export Curmunchkin stories',
+    icon: 'author',
+    childFriendly: false,
+    requiresParentPermission: true,
+  },
 } as const;
 
 export type RouteKey = keyof typeof routeMetadata;
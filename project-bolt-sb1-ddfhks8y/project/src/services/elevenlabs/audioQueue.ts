@@ -191,6 +191,57 @@ export class AudioQueue {
     };
   }
 
+  /**
+   * Get the position of the audio that is playing now, in milliseconds
+   */
+  getPlaybackPosition(): { currentTime: number; duration: number | null } | null {
+    if (!this.currentAudio) {
+      return null;
+    }
+
+    const duration = this.currentAudio.duration;
+    return {
+      currentTime: this.currentAudio.currentTime * 1000,
+      duration: Number.isFinite(duration) ? duration * 1000 : null,
+    };
+  }
+
+  /**
+   * Play part of a clip outside the queue (e.g. one word the child tapped)
+   * Pass estimatedDurationMs when the times were estimated, to stretch them to the real clip.
+   */
+  playClip(audioUrl: string, startMs: number, endMs: number, estimatedDurationMs?: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const audio = new Audio(audioUrl);
+      let stopTimer: ReturnType<typeof setTimeout> | null = null;
+
+      const finish = () => {
+        if (stopTimer) {
+          clearTimeout(stopTimer);
+        }
+        audio.pause();
+        resolve();
+      };
+
+      audio.addEventListener('loadedmetadata', () => {
+        const scale = estimatedDurationMs && Number.isFinite(audio.duration)
+          ? (audio.duration * 1000) / estimatedDurationMs
+          : 1;
+        audio.currentTime = (startMs * scale) / 1000;
+        audio.play().then(() => {
+          stopTimer = setTimeout(finish, Math.max(0, (endMs - startMs) * scale));
+        }).catch(reject);
+      });
+
+      audio.addEventListener('ended', finish);
+      audio.addEventListener('error', (event) => {
+        reject(new Error(`Audio clip error: ${event.type}`));
+      });
+
+      audio.load();
+    });
+  }
+
   /**
    * Set playback event handlers
    */
@@ -48,9 +48,15 @@ export interface SynthesisResponse {
   };
 }
 
+export interface TimedSynthesisResult {
+  audioBuffer: ArrayBuffer;
+  alignment?: SynthesisResponse['alignment']; // Missing for mock audio
+}
+
 export class ElevenLabsClient {
   private config: ElevenLabsConfig;
   private cache: Map<string, ArrayBuffer> = new Map();
+  private alignmentCache: Map<string, NonNullable<SynthesisResponse['alignment']>> = new Map();
 
   constructor(config: ElevenLabsConfig) {
     this.config = config;
@@ -137,6 +143,86 @@ export class ElevenLabsClient {
     }
   }
 
+  /**
+   * Synthesize speech along with per-character timing for word highlighting
+   */
+  async synthesizeSpeechWithTimestamps(request: SynthesisRequest): Promise<TimedSynthesisResult> {
+    try {
+      // Check cache first
+      const cacheKey = this.generateCacheKey(request);
+      const cached = this.cache.get(cacheKey);
+      const cachedAlignment = this.alignmentCache.get(cacheKey);
+      if (cached && cachedAlignment) {
+        console.log('Using cached timed audio for:', request.text.slice(0, 50));
+        return { audioBuffer: cached, alignment: cachedAlignment };
+      }
+
+      // Check if API key is available
+      if (!this.config.apiKey) {
+        console.warn('No ElevenLabs API key provided. Using mock audio.');
+        return { audioBuffer: this.generateMockAudio() };
+      }
+
+      const response = await this.makeRequest(`/v1/text-to-speech/${request.voice_id}/with-timestamps`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          text: request.text,
+          model_id: request.model_id || 'eleven_monolingual_v1',
+          voice_settings: {
+            stability: 0.75,
+            similarity_boost: 0.75,
+            style: 0.5,
+            use_speaker_boost: false,
+            ...request.voice_settings,
+          },
+          output_format: request.output_format || 'mp3_44100_128',
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Timed synthesis failed: ${response.status} ${errorText}`);
+      }
+
+      const data: SynthesisResponse = await response.json();
+      if (!data.audio_base64) {
+        throw new Error('Timed synthesis returned no audio');
+      }
+
+      const audioBuffer = this.decodeBase64Audio(data.audio_base64);
+
+      // Cache the result
+      this.cache.set(cacheKey, audioBuffer);
+      if (data.alignment) {
+        this.alignmentCache.set(cacheKey, data.alignment);
+      }
+
+      console.log(`Synthesized timed audio for: "${request.text.slice(0, 50)}..."`);
+      return { audioBuffer, alignment: data.alignment };
+
+    } catch (error) {
+      console.error('Timed speech synthesis failed:', error);
+
+      // Plain synthesis still gives audio; timing is then estimated
+      return { audioBuffer: await this.synthesizeSpeech(request) };
+    }
+  }
+
+  /**
+   * Decode base64 audio from the timestamps endpoint
+   */
+  private decodeBase64Audio(audioBase64: string): ArrayBuffer {
+    const binary = atob(audioBase64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes.buffer;
+  }
+
   /**
    * Generate mock audio for testing without API key
    */
@@ -263,6 +349,7 @@ export class ElevenLabsClient {
    */
   clearCache(): void {
     this.cache.clear();
+    this.alignmentCache.clear();
     console.log('ElevenLabs audio cache cleared');
   }
 
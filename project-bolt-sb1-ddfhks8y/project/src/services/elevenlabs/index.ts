@@ -13,11 +13,18 @@ export {
   getAllCharacterVoiceModels,
   getVoiceSettingsForEmotion,
   validateVoiceModel,
-  createCustomVoiceModel
+  createCustomVoiceModel,
+  getSynthesisModelId
 } from './voiceModels';
+export {
+  splitWords,
+  getWordTimingsFromAlignment,
+  estimateWordTimings,
+  findWordAtTime
+} from './wordTimings';
 
 // Export types for convenience
-export type { ElevenLabsConfig, VoiceModel, SynthesisRequest, SynthesisResponse } from './client';
+export type { ElevenLabsConfig, VoiceModel, SynthesisRequest, SynthesisResponse, TimedSynthesisResult } from './client';
 export type { SynthesisOptions } from './voiceSynthesis';
 export type { RecognitionOptions } from './voiceRecognition';
 export type { QueuedAudio, AudioQueueConfig } from './audioQueue';
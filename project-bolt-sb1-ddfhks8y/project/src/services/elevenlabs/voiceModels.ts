@@ -3,7 +3,7 @@
  * Defines voice personalities and settings for each Munchie character
  */
 
-import type { CharacterVoice, MunchieCharacter, EmotionType } from '@/types';
+import type { CharacterVoice, MunchieCharacter, EmotionType, SpeechRecognitionLanguage } from '@/types';
 
 /**
  * Voice model configurations for all Munchie characters
@@ -370,4 +370,15 @@ export function createCustomVoiceModel(
     voiceId,
     ...overrides,
   };
-}
\ No newline at end of file
+}
+
+/**
+ * ElevenLabs model for a narration language
+ * The monolingual model only speaks English, so other languages need the multilingual one
+ */
+export function getSynthesisModelId(language: SpeechRecognitionLanguage = 'en-US'): string {
+  if (language.startsWith('en')) {
+    return import.meta.env.VITE_ELEVENLABS_MODEL || 'eleven_monolingual_v1';
+  }
+  return import.meta.env.VITE_ELEVENLABS_MULTILINGUAL_MODEL || 'eleven_multilingual_v2';
+}
@@ -5,6 +5,7 @@
 
 import type { 
   SpeechRecognitionConfig, 
+  SpeechRecognitionLanguage,
   SpeechRecognitionResult,
   VoiceCommand 
 } from '@/types';
@@ -63,9 +64,9 @@ export class VoiceRecognitionService {
   /**
    * Create a child-friendly recognition config
    */
-  createChildFriendlyConfig(): SpeechRecognitionConfig {
+  createChildFriendlyConfig(language: SpeechRecognitionLanguage = 'en-US'): SpeechRecognitionConfig {
     return {
-      language: 'en-US',
+      language,
       continuous: false,
       interimResults: true,
       maxAlternatives: 3,
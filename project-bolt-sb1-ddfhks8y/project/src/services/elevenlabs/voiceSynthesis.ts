@@ -4,9 +4,12 @@
  */
 
 import { elevenLabsClient } from './client';
-import { getCharacterVoiceModel } from './voiceModels';
+import { getCharacterVoiceModel, getSynthesisModelId } from './voiceModels';
 import { audioQueue } from './audioQueue';
+import { getWordTimingsFromAlignment, estimateWordTimings } from './wordTimings';
+import { getCachedNarration } from '@/services/storage';
 import type { 
+  AudioCache,
   VoiceSettings, 
   CharacterVoice, 
   VoiceSynthesisRequest, 
@@ -46,6 +49,12 @@ export class VoiceSynthesisService {
    */
   async synthesizeSpeech(request: VoiceSynthesisRequest, options: SynthesisOptions = {}): Promise<VoiceSynthesisResponse> {
     try {
+      // Narration rendered ahead of time (e.g. from a story pack) plays without the API
+      const cached = await getCachedNarration(request.characterId, request.emotion, request.text);
+      if (cached) {
+        return this.createCachedResponse(request, cached, options);
+      }
+
       const characterVoice = getCharacterVoiceModel(request.characterId);
       if (!characterVoice) {
         throw new Error(`Voice not found for character: ${request.characterId}`);
@@ -63,7 +72,7 @@ export class VoiceSynthesisService {
       const synthesisRequest = {
         text: request.text,
         voice_id: characterVoice.voiceId,
-        model_id: import.meta.env.VITE_ELEVENLABS_MODEL || 'eleven_monolingual_v1',
+        model_id: getSynthesisModelId(request.language),
         voice_settings: {
           stability: finalSettings.stability,
           similarity_boost: finalSettings.clarity,
@@ -72,15 +81,19 @@ export class VoiceSynthesisService {
         },
       };
 
-      // Generate audio
-      const audioBuffer = await elevenLabsClient.synthesizeSpeech(synthesisRequest);
+      // Generate audio, with character timing when the API provides it
+      const { audioBuffer, alignment } = await elevenLabsClient.synthesizeSpeechWithTimestamps(synthesisRequest);
       
       // Create audio URL
       const audioBlob = new Blob([audioBuffer], { type: 'audio/mpeg' });
       const audioUrl = URL.createObjectURL(audioBlob);
 
-      // Calculate duration (approximate)
-      const duration = this.estimateAudioDuration(request.text, finalSettings.speed);
+      // Word timing from the alignment, falling back to an estimate from speech rate
+      const alignedTimings = alignment ? getWordTimingsFromAlignment(request.text, alignment) : null;
+      const duration = alignedTimings && alignedTimings.length > 0
+        ? alignedTimings[alignedTimings.length - 1].end
+        : this.estimateAudioDuration(request.text, finalSettings.speed);
+      const wordTimings = alignedTimings || estimateWordTimings(request.text, duration);
 
       const response: VoiceSynthesisResponse = {
         audioUrl,
@@ -91,6 +104,8 @@ export class VoiceSynthesisService {
         text: request.text,
         generatedAt: Date.now(),
         cacheKey: options.cacheKey,
+        wordTimings,
+        timingSource: alignedTimings ? 'alignment' : 'estimated',
       };
 
       console.log(`Generated speech for ${request.characterId}: "${request.text.slice(0, 50)}..."`);
@@ -102,6 +117,31 @@ export class VoiceSynthesisService {
     }
   }
 
+  /**
+   * Build a response from narration stored in the audio cache
+   */
+  private createCachedResponse(
+    request: VoiceSynthesisRequest,
+    cached: AudioCache,
+    options: SynthesisOptions
+  ): VoiceSynthesisResponse {
+    const audioBlob = new Blob([cached.audioBuffer], { type: 'audio/mpeg' });
+    const { duration, wordTimings } = cached.metadata;
+
+    return {
+      audioUrl: URL.createObjectURL(audioBlob),
+      audioBuffer: cached.audioBuffer,
+      duration,
+      characterId: request.characterId,
+      emotion: request.emotion,
+      text: request.text,
+      generatedAt: cached.createdAt,
+      cacheKey: options.cacheKey ?? cached.key,
+      wordTimings: wordTimings || estimateWordTimings(request.text, duration),
+      timingSource: wordTimings ? 'alignment' : 'estimated',
+    };
+  }
+
   /**
    * Play synthesized audio with the audio queue
    */
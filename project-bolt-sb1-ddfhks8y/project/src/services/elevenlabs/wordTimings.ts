@@ -0,0 +1,99 @@
+/**
+ * Word timing for narration highlighting
+ * Builds per-word start/end times from ElevenLabs alignment data, or estimates
+ * them from the clip length when no alignment is available
+ */
+
+import type { WordTiming } from '@/types';
+import type { SynthesisResponse } from './client';
+
+type Alignment = NonNullable<SynthesisResponse['alignment']>;
+
+// Words are runs of non-space characters, the same split StoryText uses for display
+const WORD_PATTERN = /\S+/g;
+
+// Extra weight for the pause a narrator takes after punctuation, in characters
+const PUNCTUATION_PAUSE: Record<string, number> = {
+  ',': 2,
+  ';': 3,
+  ':': 3,
+  '.': 5,
+  '!': 5,
+  '?': 5,
+};
+
+/**
+ * Split text into words with their character offsets
+ */
+export const splitWords = (text: string): Array<{ word: string; charIndex: number }> => {
+  return Array.from(text.matchAll(WORD_PATTERN), match => ({
+    word: match[0],
+    charIndex: match.index ?? 0,
+  }));
+};
+
+/**
+ * Build word timings from ElevenLabs character alignment
+ * Returns null if the alignment doesn't line up with the text.
+ */
+export const getWordTimingsFromAlignment = (text: string, alignment: Alignment): WordTiming[] | null => {
+  const { characters, character_start_times_seconds: starts, character_end_times_seconds: ends } = alignment;
+
+  if (characters.length !== starts.length || characters.length !== ends.length || characters.join('') !== text) {
+    return null;
+  }
+
+  return splitWords(text).map(({ word, charIndex }) => ({
+    word,
+    charIndex,
+    start: Math.round(starts[charIndex] * 1000),
+    end: Math.round(ends[charIndex + word.length - 1] * 1000),
+  }));
+};
+
+/**
+ * Estimate word timings by sharing the clip length out by word length
+ * Longer words and words before punctuation get more of the clip.
+ */
+export const estimateWordTimings = (text: string, durationMs: number): WordTiming[] => {
+  const words = splitWords(text);
+  const weights = words.map(({ word }) => word.length + 1 + (PUNCTUATION_PAUSE[word.charAt(word.length - 1)] || 0));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  let elapsed = 0;
+  return words.map(({ word, charIndex }, index) => {
+    const start = elapsed;
+    elapsed += totalWeight > 0 ? (weights[index] / totalWeight) * durationMs : 0;
+    return {
+      word,
+      charIndex,
+      start: Math.round(start),
+      end: Math.round(elapsed),
+    };
+  });
+};
+
+/**
+ * Find the word being spoken at a point in the clip
+ * Short gaps between words keep the previous word; -1 before the first word or after the last.
+ */
+export const findWordAtTime = (timings: WordTiming[], timeMs: number): number => {
+  if (timings.length === 0 || timeMs < timings[0].start || timeMs >= timings[timings.length - 1].end) {
+    return -1;
+  }
+
+  let low = 0;
+  let high = timings.length - 1;
+
+  // Last word that has started by timeMs
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (timings[mid].start <= timeMs) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return low;
+};
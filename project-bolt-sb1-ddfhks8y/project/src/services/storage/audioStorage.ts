@@ -0,0 +1,118 @@
+/**
+ * Narration audio cache service
+ * Keeps rendered narration in IndexedDB so it can be replayed without ElevenLabs
+ */
+
+import { getDB } from './db';
+import type { AudioCache, EmotionType, MunchieCharacter } from '@/types';
+
+// Maximum size of one narration clip
+const MAX_AUDIO_SIZE = 10 * 1024 * 1024; // 10MB
+
+/**
+ * Get the cache key for a line of narration
+ * Keyed by what is said and how, so the same line is shared across stories.
+ */
+export async function getNarrationCacheKey(
+  characterId: MunchieCharacter,
+  emotion: EmotionType,
+  text: string
+): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(`${characterId}|${emotion}|${text.trim()}`)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Cache a narration clip in IndexedDB
+ */
+export async function cacheAudio(audio: AudioCache): Promise<void> {
+  try {
+    if (audio.size > MAX_AUDIO_SIZE) {
+      throw new Error(`Audio too large: ${audio.size} bytes (max: ${MAX_AUDIO_SIZE})`);
+    }
+
+    const db = await getDB();
+    await db.put('audioCache', audio);
+  } catch (error) {
+    console.error('Failed to cache audio:', error);
+    throw new Error('Audio caching failed');
+  }
+}
+
+/**
+ * Retrieve a cached narration clip by key
+ */
+export async function getCachedAudio(key: string): Promise<AudioCache | null> {
+  try {
+    const db = await getDB();
+    const audio = await db.get('audioCache', key);
+
+    if (audio) {
+      // Update access tracking
+      audio.lastAccessed = Date.now();
+      audio.accessCount += 1;
+      await db.put('audioCache', audio);
+    }
+
+    return audio || null;
+  } catch (error) {
+    console.error('Failed to retrieve cached audio:', error);
+    return null;
+  }
+}
+
+/**
+ * Retrieve the cached clip for a line of narration
+ */
+export async function getCachedNarration(
+  characterId: MunchieCharacter,
+  emotion: EmotionType,
+  text: string
+): Promise<AudioCache | null> {
+  return getCachedAudio(await getNarrationCacheKey(characterId, emotion, text));
+}
+
+/**
+ * Get all cached narration for a character
+ */
+export async function getAudioByCharacter(characterId: MunchieCharacter): Promise<AudioCache[]> {
+  try {
+    const db = await getDB();
+    return await db.getAllFromIndex('audioCache', 'by-character', characterId);
+  } catch (error) {
+    console.error('Failed to get audio by character:', error);
+    return [];
+  }
+}
+
+/**
+ * Remove a narration clip from cache
+ */
+export async function removeCachedAudio(key: string): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.delete('audioCache', key);
+  } catch (error) {
+    console.error('Failed to remove cached audio:', error);
+    throw new Error('Audio removal failed');
+  }
+}
+
+/**
+ * Clear all cached narration
+ */
+export async function clearAudioCache(): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.clear('audioCache');
+    console.log('Audio cache cleared');
+  } catch (error) {
+    console.error('Failed to clear audio cache:', error);
+    throw new Error('Audio cache clear failed');
+  }
+}
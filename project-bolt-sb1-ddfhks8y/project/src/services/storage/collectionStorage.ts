@@ -0,0 +1,34 @@
+/**
+ * Story collection storage
+ * Remembers which stories a child has unlocked, completed and favourited
+ */
+
+import { getDB } from './db';
+import type { StoryCollection } from '@/types';
+
+/**
+ * Load a user's story collection
+ */
+export async function loadStoryCollection(userId: string): Promise<StoryCollection | null> {
+  try {
+    const db = await getDB();
+    const collection = await db.get('collections', userId);
+    return collection || null;
+  } catch (error) {
+    console.error('Failed to load story collection:', error);
+    return null;
+  }
+}
+
+/**
+ * Save a user's story collection, replacing the previous copy
+ */
+export async function saveStoryCollection(collection: StoryCollection): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.put('collections', { ...collection, lastUpdated: Date.now() });
+  } catch (error) {
+    console.error('Failed to save story collection:', error);
+    throw new Error('Story collection save failed');
+  }
+}
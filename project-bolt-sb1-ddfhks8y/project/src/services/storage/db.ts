@@ -11,7 +11,10 @@ import type {
   NFTAsset, 
   ScanSession,
   VoiceSession,
-  AudioCache 
+  AudioCache,
+  StoryDraft,
+  AttachmentRedemption,
+  StoryCollection
 } from '@/types';
 
 // Database schema definition
@@ -103,11 +106,32 @@ interface CurmunchkinsDB extends DBSchema {
       'by-size': number;
     };
   };
+  
+  drafts: {
+    key: string; // story ID
+    value: StoryDraft;
+    indexes: {
+      'by-updated': number;
+    };
+  };
+  
+  redemptions: {
+    key: string; // attachment serial number
+    value: AttachmentRedemption;
+    indexes: {
+      'by-last-scanned': number;
+    };
+  };
+  
+  collections: {
+    key: string; // user ID
+    value: StoryCollection;
+  };
 }
 
 // Database configuration
 const DB_NAME = 'curmunchkins-db';
-const DB_VERSION = 2;
+const DB_VERSION = 5;
 
 // Maximum storage sizes (in bytes)
 const MAX_ASSET_SIZE = 50 * 1024 * 1024; // 50MB for assets
@@ -184,6 +208,23 @@ export async function initializeDB(): Promise<IDBPDatabase<CurmunchkinsDB>> {
           audioCacheStore.createIndex('by-last-accessed', 'lastAccessed');
           audioCacheStore.createIndex('by-size', 'size');
         }
+        
+        // Story drafts store (authoring tool)
+        if (!db.objectStoreNames.contains('drafts')) {
+          const draftsStore = db.createObjectStore('drafts', { keyPath: 'id' });
+          draftsStore.createIndex('by-updated', 'updatedAt');
+        }
+        
+        // Attachment redemption ledger
+        if (!db.objectStoreNames.contains('redemptions')) {
+          const redemptionsStore = db.createObjectStore('redemptions', { keyPath: 'serialNumber' });
+          redemptionsStore.createIndex('by-last-scanned', 'lastScannedAt');
+        }
+        
+        // Unlocked and favourite stories, which quest progress builds on
+        if (!db.objectStoreNames.contains('collections')) {
+          db.createObjectStore('collections', { keyPath: 'userId' });
+        }
       },
       
       blocked() {
@@ -230,7 +271,7 @@ export function closeDB(): void {
  */
 export async function clearAllData(): Promise<void> {
   const db = await getDB();
-  const tx = db.transaction(['stories', 'progress', 'preferences', 'assets', 'nfts', 'sessions', 'audioCache'], 'readwrite');
+  const tx = db.transaction(['stories', 'progress', 'preferences', 'assets', 'nfts', 'sessions', 'audioCache', 'drafts', 'redemptions', 'collections'], 'readwrite');
   
   await Promise.all([
     tx.objectStore('stories').clear(),
@@ -240,6 +281,9 @@ export async function clearAllData(): Promise<void> {
     tx.objectStore('nfts').clear(),
     tx.objectStore('sessions').clear(),
     tx.objectStore('audioCache').clear(),
+    tx.objectStore('drafts').clear(),
+    tx.objectStore('redemptions').clear(),
+    tx.objectStore('collections').clear(),
   ]);
   
   await tx.done;
@@ -255,7 +299,7 @@ export async function getStorageStats(): Promise<{
   itemCounts: Record<string, number>;
 }> {
   const db = await getDB();
-  const stores = ['stories', 'progress', 'preferences', 'assets', 'nfts', 'sessions', 'audioCache'] as const;
+  const stores = ['stories', 'progress', 'preferences', 'assets', 'nfts', 'sessions', 'audioCache', 'drafts', 'redemptions', 'collections'] as const;
   
   const stats = {
     totalSize: 0,
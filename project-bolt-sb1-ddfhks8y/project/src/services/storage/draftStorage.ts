@@ -0,0 +1,73 @@
+/**
+ * Story draft storage for the authoring tool
+ * Keeps work-in-progress stories in IndexedDB until they are exported
+ */
+
+import { getDB } from './db';
+import type { StoryContent, StoryDraft } from '@/types';
+
+/**
+ * Save a draft, keeping its original creation time
+ */
+export async function saveDraft(story: StoryContent): Promise<StoryDraft> {
+  try {
+    const db = await getDB();
+    const existing = await db.get('drafts', story.id);
+    const now = Date.now();
+
+    const draft: StoryDraft = {
+      id: story.id,
+      story: { ...story, lastModified: now },
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    await db.put('drafts', draft);
+    return draft;
+  } catch (error) {
+    console.error('Failed to save draft:', error);
+    throw new Error('Draft save failed');
+  }
+}
+
+/**
+ * Load a draft by story ID
+ */
+export async function loadDraft(storyId: string): Promise<StoryDraft | null> {
+  try {
+    const db = await getDB();
+    const draft = await db.get('drafts', storyId);
+    return draft || null;
+  } catch (error) {
+    console.error('Failed to load draft:', error);
+    return null;
+  }
+}
+
+/**
+ * Get all drafts, most recently edited first
+ */
+export async function getAllDrafts(): Promise<StoryDraft[]> {
+  try {
+    const db = await getDB();
+    const drafts = await db.getAllFromIndex('drafts', 'by-updated');
+    return drafts.reverse();
+  } catch (error) {
+    console.error('Failed to get drafts:', error);
+    return [];
+  }
+}
+
+/**
+ * Delete a draft
+ */
+export async function deleteDraft(storyId: string): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.delete('drafts', storyId);
+    console.log(`Draft deleted: ${storyId}`);
+  } catch (error) {
+    console.error('Failed to delete draft:', error);
+    throw new Error('Draft deletion failed');
+  }
+}
@@ -39,6 +39,7 @@ import {
   getCompletedStories,
   getInProgressStories,
   updateProgressNode,
+  recordSensoryBreak,
   completeStory,
   getProgressStats,
   initializeStoryProgress,
@@ -81,6 +82,35 @@ import {
   getLeastAccessedAssets,
 } from './assetStorage';
 
+import {
+  getNarrationCacheKey,
+  cacheAudio,
+  getCachedAudio,
+  getCachedNarration,
+  getAudioByCharacter,
+  removeCachedAudio,
+  clearAudioCache,
+} from './audioStorage';
+
+import {
+  saveDraft,
+  loadDraft,
+  getAllDrafts,
+  deleteDraft,
+} from './draftStorage';
+
+import {
+  getRedemption,
+  saveRedemption,
+  getAllRedemptions,
+  clearRedemptions,
+} from './redemptionStorage';
+
+import {
+  loadStoryCollection,
+  saveStoryCollection,
+} from './collectionStorage';
+
 // Re-export all functions for external use
 export {
   // Database initialization and management
@@ -116,6 +146,7 @@ export {
   getCompletedStories,
   getInProgressStories,
   updateProgressNode,
+  recordSensoryBreak,
   completeStory,
   getProgressStats,
   initializeStoryProgress,
@@ -154,6 +185,31 @@ export {
   clearAssetCache,
   getLargestAssets,
   getLeastAccessedAssets,
+  
+  // Narration audio cache
+  getNarrationCacheKey,
+  cacheAudio,
+  getCachedAudio,
+  getCachedNarration,
+  getAudioByCharacter,
+  removeCachedAudio,
+  clearAudioCache,
+  
+  // Authoring drafts
+  saveDraft,
+  loadDraft,
+  getAllDrafts,
+  deleteDraft,
+  
+  // Attachment redemption ledger
+  getRedemption,
+  saveRedemption,
+  getAllRedemptions,
+  clearRedemptions,
+  
+  // Story collection
+  loadStoryCollection,
+  saveStoryCollection,
 };
 
 // Re-export types for convenience
@@ -4,7 +4,8 @@
  */
 
 import { getDB } from './db';
-import type { UserPreferences, AccessibilitySettings, ThemeMode } from '@/types';
+import { isSpeechRecognitionLanguage } from '@/types';
+import type { UserPreferences, AccessibilitySettings, ThemeMode, SpeechRecognitionLanguage } from '@/types';
 
 /**
  * Save user preferences to IndexedDB
@@ -39,12 +40,21 @@ export async function loadPreferences(userId: string): Promise<UserPreferences |
   }
 }
 
+/**
+ * Pick the browser's language when we support it, otherwise US English
+ */
+function detectLocale(): SpeechRecognitionLanguage {
+  const language = typeof navigator !== 'undefined' ? navigator.language : '';
+  return isSpeechRecognitionLanguage(language) ? language : 'en-US';
+}
+
 /**
  * Get default preferences for new users
  */
 export function getDefaultPreferences(userId: string): UserPreferences {
   return {
     userId,
+    locale: detectLocale(),
     accessibility: {
       voiceSpeed: 1.0,
       voicePitch: 1.0,
@@ -9,7 +9,9 @@ import type {
   DecisionRecord, 
   UserAchievement,
   MunchieCharacter,
-  AttachmentType 
+  AttachmentType,
+  StoryVariableValue,
+  SensoryBreakRecord 
 } from '@/types';
 
 /**
@@ -94,7 +96,8 @@ export async function getInProgressStories(userId: string): Promise<StoryProgres
 export async function updateProgressNode(
   storyId: string,
   nodeId: string,
-  decision?: DecisionRecord
+  decision?: DecisionRecord,
+  variables?: Record<string, StoryVariableValue>
 ): Promise<void> {
   try {
     const db = await getDB();
@@ -116,6 +119,11 @@ export async function updateProgressNode(
       updatedProgress.choicesMade = [...existingProgress.choicesMade, decision];
     }
     
+    // Persist story variables so the child picks up the same story state next time
+    if (variables) {
+      updatedProgress.variables = variables;
+    }
+    
     // Update total time spent
     const sessionTime = Date.now() - existingProgress.lastAccessedAt;
     updatedProgress.totalTimeSpent = existingProgress.totalTimeSpent + sessionTime;
@@ -128,6 +136,34 @@ export async function updateProgressNode(
   }
 }
 
+/**
+ * Record a sensory break taken during a story
+ */
+export async function recordSensoryBreak(storyId: string, record: SensoryBreakRecord): Promise<void> {
+  try {
+    const db = await getDB();
+    const existingProgress = await db.get('progress', storyId);
+    
+    if (!existingProgress) {
+      throw new Error('Progress record not found');
+    }
+    
+    const updatedProgress: StoryProgress = {
+      ...existingProgress,
+      sensoryBreaks: [...(existingProgress.sensoryBreaks || []), record],
+      lastAccessedAt: Date.now(),
+      // Break time counts towards time spent like any other part of the story
+      totalTimeSpent: existingProgress.totalTimeSpent + (Date.now() - existingProgress.lastAccessedAt),
+    };
+    
+    await db.put('progress', updatedProgress);
+    console.log(`Sensory break recorded for story: ${storyId}`);
+  } catch (error) {
+    console.error('Failed to record sensory break:', error);
+    throw new Error('Sensory break recording failed');
+  }
+}
+
 /**
  * Mark story as completed
  */
@@ -166,6 +202,8 @@ export async function getProgressStats(userId: string): Promise<{
   completedStories: number;
   inProgressStories: number;
   totalTimeSpent: number;
+  sensoryBreakCount: number;
+  sensoryBreakTime: number; // milliseconds, included in totalTimeSpent
   averageCompletionTime: number;
   favoriteCharacter: MunchieCharacter | null;
   favoriteAttachment: AttachmentType | null;
@@ -177,6 +215,7 @@ export async function getProgressStats(userId: string): Promise<{
     const inProgress = allProgress.filter(p => !p.isCompleted && p.visitedNodes.length > 0);
     
     const totalTimeSpent = allProgress.reduce((sum, p) => sum + p.totalTimeSpent, 0);
+    const sensoryBreaks = allProgress.flatMap(p => p.sensoryBreaks || []);
     const averageCompletionTime = completed.length > 0 
       ? completed.reduce((sum, p) => sum + p.totalTimeSpent, 0) / completed.length 
       : 0;
@@ -189,6 +228,8 @@ export async function getProgressStats(userId: string): Promise<{
       completedStories: completed.length,
       inProgressStories: inProgress.length,
       totalTimeSpent,
+      sensoryBreakCount: sensoryBreaks.length,
+      sensoryBreakTime: sensoryBreaks.reduce((sum, record) => sum + record.duration, 0),
       averageCompletionTime,
       favoriteCharacter: null, // Would be calculated from story metadata
       favoriteAttachment: null, // Would be calculated from story metadata
@@ -201,6 +242,8 @@ export async function getProgressStats(userId: string): Promise<{
       completedStories: 0,
       inProgressStories: 0,
       totalTimeSpent: 0,
+      sensoryBreakCount: 0,
+      sensoryBreakTime: 0,
       averageCompletionTime: 0,
       favoriteCharacter: null,
       favoriteAttachment: null,
@@ -215,7 +258,10 @@ export async function getProgressStats(userId: string): Promise<{
 export async function initializeStoryProgress(
   userId: string,
   storyId: string,
-  startNodeId: string
+  startNodeId: string,
+  variables?: Record<string, StoryVariableValue>,
+  storyVersion?: string,
+  narratorId?: MunchieCharacter
 ): Promise<StoryProgress> {
   const initialProgress: StoryProgress = {
     storyId,
@@ -228,6 +274,9 @@ export async function initializeStoryProgress(
     totalTimeSpent: 0,
     choicesMade: [],
     isCompleted: false,
+    variables,
+    storyVersion,
+    narratorId,
   };
   
   await saveProgress(initialProgress);
@@ -0,0 +1,62 @@
+/**
+ * Attachment redemption ledger
+ * Remembers which attachment serials have unlocked stories on this device
+ */
+
+import { getDB } from './db';
+import type { AttachmentRedemption } from '@/types';
+
+/**
+ * Load the ledger entry for an attachment serial number
+ */
+export async function getRedemption(serialNumber: string): Promise<AttachmentRedemption | null> {
+  try {
+    const db = await getDB();
+    const redemption = await db.get('redemptions', serialNumber);
+    return redemption || null;
+  } catch (error) {
+    console.error('Failed to load redemption:', error);
+    return null;
+  }
+}
+
+/**
+ * Save a ledger entry, replacing any earlier one for the same serial
+ */
+export async function saveRedemption(redemption: AttachmentRedemption): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.put('redemptions', redemption);
+  } catch (error) {
+    console.error('Failed to save redemption:', error);
+    throw new Error('Redemption save failed');
+  }
+}
+
+/**
+ * Get every redeemed attachment, most recently scanned first
+ */
+export async function getAllRedemptions(): Promise<AttachmentRedemption[]> {
+  try {
+    const db = await getDB();
+    const redemptions = await db.getAllFromIndex('redemptions', 'by-last-scanned');
+    return redemptions.reverse();
+  } catch (error) {
+    console.error('Failed to get redemptions:', error);
+    return [];
+  }
+}
+
+/**
+ * Forget all redemptions on this device
+ */
+export async function clearRedemptions(): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.clear('redemptions');
+    console.log('Redemption ledger cleared');
+  } catch (error) {
+    console.error('Failed to clear redemptions:', error);
+    throw new Error('Redemption clear failed');
+  }
+}
@@ -4,13 +4,20 @@
  */
 
 import { getDB } from './db';
+import { validateStoryGraph } from '@/features/storytelling/storyValidator';
 import type { StoryContent, StoryError, MunchieCharacter, AttachmentType } from '@/types';
 
 /**
  * Cache a story in IndexedDB for offline access
+ * Stories whose graph doesn't validate are refused, whichever route they came in by.
  */
 export async function cacheStory(story: StoryContent): Promise<void> {
   try {
+    const blockingErrors = validateStoryContent(story).filter(error => !error.recoverable);
+    if (blockingErrors.length > 0) {
+      throw new Error(`Story ${story.id} failed validation: ${blockingErrors.map(error => error.message).join('; ')}`);
+    }
+    
     const db = await getDB();
     await db.put('stories', story);
     console.log(`Story cached: ${story.id}`);
@@ -27,7 +34,16 @@ export async function getCachedStory(storyId: string): Promise<StoryContent | nu
   try {
     const db = await getDB();
     const story = await db.get('stories', storyId);
-    return story || null;
+    if (!story) {
+      return null;
+    }
+    
+    // Copies cached by an older app version are re-checked; a broken one is fetched again
+    if (validateStoryContent(story).some(error => !error.recoverable)) {
+      console.warn(`Cached story ${storyId} failed validation and will be ignored`);
+      return null;
+    }
+    return story;
   } catch (error) {
     console.error('Failed to retrieve cached story:', error);
     return null;
@@ -147,45 +163,22 @@ export async function getStoriesNeedingUpdate(): Promise<StoryContent[]> {
 }
 
 /**
- * Validate story content for therapeutic appropriateness
+ * Validate story structure and therapeutic content
  */
 export function validateStoryContent(story: StoryContent): StoryError[] {
   const errors: StoryError[] = [];
   
-  // Check required fields
-  if (!story.id || !story.characterId || !story.attachmentId) {
-    errors.push({
-      code: 'INVALID_FORMAT',
-      message: 'Story missing required fields',
-      storyId: story.id,
-      timestamp: Date.now(),
-      recoverable: false,
-      suggestedAction: 'Verify story data structure',
-    });
-  }
-  
-  // Check story nodes
-  if (!story.nodes || Object.keys(story.nodes).length === 0) {
+  // Structure, reachability, branches and conditions
+  const report = validateStoryGraph(story);
+  for (const issue of report.errors) {
     errors.push({
       code: 'INVALID_FORMAT',
-      message: 'Story has no content nodes',
+      message: issue.message,
       storyId: story.id,
+      nodeId: issue.nodeId,
       timestamp: Date.now(),
       recoverable: false,
-      suggestedAction: 'Add story content nodes',
-    });
-  }
-  
-  // Check start node exists
-  if (story.startNodeId && !story.nodes[story.startNodeId]) {
-    errors.push({
-      code: 'INVALID_FORMAT',
-      message: 'Start node not found in story nodes',
-      storyId: story.id,
-      nodeId: story.startNodeId,
-      timestamp: Date.now(),
-      recoverable: true,
-      suggestedAction: 'Update start node ID or add missing node',
+      suggestedAction: 'Fix the story in the authoring tool',
     });
   }
   
@@ -280,43 +273,9 @@ export async function getStoryCacheStats(): Promise<{
  * Preload essential stories for offline use
  */
 export async function preloadEssentialStories(): Promise<void> {
-  // This would typically fetch from a CDN or API
-  // For now, we'll create sample stories for each character/attachment combination
-  
-  const essentialStories: Partial<StoryContent>[] = [
-    {
-      id: 'silo-fidget-feet-001',
-      characterId: 'silo',
-      attachmentId: 'fidget_feet',
-      metadata: {
-        title: "Silo's Fidget Feet Adventure",
-        description: 'Silo discovers how fidget feet help with focus and calm',
-        estimatedDuration: 5,
-        difficultyLevel: 'beginner',
-        sensoryFocus: ['proprioceptive_input'],
-        therapeuticGoals: ['movement_for_calm', 'focus_improvement'],
-        ageRange: { min: 4, max: 12 },
-      },
-    },
-    {
-      id: 'blip-weighted-arms-001',
-      characterId: 'blip',
-      attachmentId: 'weighted_arms',
-      metadata: {
-        title: "Blip's Weighted Arms Discovery",
-        description: 'Blip learns how weighted arms provide calming pressure',
-        estimatedDuration: 5,
-        difficultyLevel: 'beginner',
-        sensoryFocus: ['deep_pressure'],
-        therapeuticGoals: ['anxiety_reduction', 'self_regulation'],
-        ageRange: { min: 4, max: 12 },
-      },
-    },
-  ];
-  
-  // In a real implementation, these would be fetched from an API
-  // For now, we'll just log that preloading would happen here
-  console.log('Essential stories would be preloaded:', essentialStories.map(s => s.id));
+  // The preload list comes from the story manifest; the loader fetches, validates and caches each story
+  const { storyLoader } = await import('@/features/storytelling/storyLoader');
+  await storyLoader.preloadEssentialStories();
 }
 
 /**
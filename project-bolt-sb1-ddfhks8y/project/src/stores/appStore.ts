@@ -157,6 +157,10 @@ export const useAppStore = create<AppState & AppActions>()(
         // Initialize storage services
         await initializeStorage();
         
+        // Restore unlocked stories and quest progress
+        const { useStoryStore } = await import('./storyStore');
+        await useStoryStore.getState().loadCollection();
+        
         // Load user preferences
         const preferences = await loadPreferences(deviceId) || getDefaultPreferences(deviceId);
         
@@ -5,7 +5,7 @@
 
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
-import { parseAttachmentCode } from '@/features/scanning/scannerUtils';
+import { parseAttachmentCode, createScanError } from '@/features/scanning/scannerUtils';
 import type { 
   ScannerState,
   ScannerConfig,
@@ -15,7 +15,8 @@ import type {
   CameraDevice,
   AttachmentCode,
   QRCodeData,
-  ScanMethod 
+  ScanMethod,
+  FileUploadData
 } from '@/types';
 import { DEFAULT_SCANNER_CONFIG } from '@/types';
 
@@ -44,6 +45,10 @@ export interface ScannerStoreState {
   manualEntryMode: boolean;
   manualCode: string;
   
+  // Photo upload
+  fileUploadMode: boolean;
+  lastUpload: FileUploadData | null;
+  
   // Performance metrics
   scanMetrics: {
     totalScans: number;
@@ -69,7 +74,8 @@ export interface ScannerStoreActions {
   updateConfig: (updates: Partial<ScannerConfig>) => void;
   
   // Scanning operations
-  processScanResult: (qrData: QRCodeData) => Promise<void>;
+  processScanResult: (qrData: QRCodeData, method?: ScanMethod) => Promise<void>;
+  processUploadedImage: (file: File, uploadMethod: FileUploadData['userExperience']['uploadMethod']) => Promise<void>;
   validateAttachmentCode: (code: string) => Promise<AttachmentCode | null>;
   
   // Manual entry
@@ -77,6 +83,9 @@ export interface ScannerStoreActions {
   setManualCode: (code: string) => void;
   submitManualCode: () => Promise<void>;
   
+  // Photo upload
+  setFileUploadMode: (enabled: boolean) => void;
+  
   // Session management
   startScanSession: () => void;
   endScanSession: () => void;
@@ -91,6 +100,21 @@ export interface ScannerStoreActions {
   exportScanData: () => any;
 }
 
+/**
+ * Add the story unlocked by a successful scan to the child's collection
+ */
+async function unlockScannedStory(scanResult: ScanResult): Promise<void> {
+  if (!scanResult.data) {
+    return;
+  }
+
+  const { useStoryStore } = await import('./storyStore');
+  await useStoryStore.getState().unlockStory(
+    scanResult.data.unlockData.storyId,
+    scanResult.data.attachment.attachmentType
+  );
+}
+
 export const useScannerStore = create<ScannerStoreState & ScannerStoreActions>()(
   subscribeWithSelector((set, get) => ({
     // Initial state
@@ -108,6 +132,8 @@ export const useScannerStore = create<ScannerStoreState & ScannerStoreActions>()
     currentSession: null,
     manualEntryMode: false,
     manualCode: '',
+    fileUploadMode: false,
+    lastUpload: null,
     scanMetrics: {
       totalScans: 0,
       successfulScans: 0,
@@ -295,6 +321,8 @@ export const useScannerStore = create<ScannerStoreState & ScannerStoreActions>()
         lastScanResult: null,
         manualEntryMode: false,
         manualCode: '',
+        fileUploadMode: false,
+        lastUpload: null,
       });
     },
 
@@ -331,13 +359,13 @@ export const useScannerStore = create<ScannerStoreState & ScannerStoreActions>()
       }));
     },
 
-    processScanResult: async (qrData) => {
+    processScanResult: async (qrData, method = 'camera') => {
       set({ state: 'processing' });
       
       try {
         // Use scanner service to process the scan
         const { scannerService } = await import('@/features/scanning/scannerService');
-        const scanResult = await scannerService.processScan(qrData);
+        const scanResult = await scannerService.processScan(qrData, method);
         
         // Update metrics for successful scans
         if (scanResult.success) {
@@ -357,6 +385,7 @@ export const useScannerStore = create<ScannerStoreState & ScannerStoreActions>()
           });
           
           console.log('Scan successful:', scanResult.data?.attachment);
+          await unlockScannedStory(scanResult);
           
           // Auto-stop scanning after successful scan
           setTimeout(() => {
@@ -376,7 +405,7 @@ export const useScannerStore = create<ScannerStoreState & ScannerStoreActions>()
             timestamp: Date.now(),
             context: {
               scannerState: 'processing',
-              method: 'camera',
+              method,
               retryCount: 0,
             },
             recoverable: true,
@@ -390,7 +419,7 @@ export const useScannerStore = create<ScannerStoreState & ScannerStoreActions>()
         
         const failedScanResult: ScanResult = {
           success: false,
-          method: 'camera',
+          method,
           timestamp: Date.now(),
           error: {
             code: 'UNKNOWN_ERROR',
@@ -420,7 +449,7 @@ export const useScannerStore = create<ScannerStoreState & ScannerStoreActions>()
           timestamp: Date.now(),
           context: {
             scannerState: 'processing',
-            method: 'camera',
+            method,
             retryCount: 0,
           },
           recoverable: true,
@@ -434,7 +463,7 @@ export const useScannerStore = create<ScannerStoreState & ScannerStoreActions>()
       try {
         // Use the whitelist validation for attachment codes
         const { validateAttachmentCode } = await import('@/features/scanning/attachmentWhitelist');
-        const parsedCode = validateAttachmentCode(code);
+        const parsedCode = await validateAttachmentCode(code);
         return parsedCode;
       } catch (error) {
         console.error('Failed to validate attachment code:', error);
@@ -443,7 +472,7 @@ export const useScannerStore = create<ScannerStoreState & ScannerStoreActions>()
     },
 
     setManualEntryMode: (enabled) => {
-      set({ manualEntryMode: enabled });
+      set(enabled ? { manualEntryMode: true, fileUploadMode: false } : { manualEntryMode: false });
       
       if (enabled) {
         get().stopScanning();
@@ -498,6 +527,7 @@ export const useScannerStore = create<ScannerStoreState & ScannerStoreActions>()
           });
           
           console.log('Manual entry successful:', scanResult.data?.attachment);
+          await unlockScannedStory(scanResult);
         } else {
           set({
             state: 'error',
@@ -539,6 +569,76 @@ export const useScannerStore = create<ScannerStoreState & ScannerStoreActions>()
       }
     },
 
+    setFileUploadMode: (enabled) => {
+      set(enabled ? { fileUploadMode: true, manualEntryMode: false } : { fileUploadMode: false });
+
+      if (enabled) {
+        get().stopScanning();
+      }
+    },
+
+    processUploadedImage: async (file, uploadMethod) => {
+      const { lastUpload, currentSession } = get();
+      set({ state: 'processing', error: null });
+
+      try {
+        const { scanImageFile } = await import('@/features/scanning/imageScanner');
+        const { upload, codes } = await scanImageFile(file, {
+          uploadMethod,
+          retryCount: lastUpload ? lastUpload.userExperience.retryCount + 1 : 0,
+        });
+
+        set({
+          lastUpload: upload,
+          currentSession: currentSession && {
+            ...currentSession,
+            accessibility: { ...currentSession.accessibility, fileUploadUsed: true },
+          },
+        });
+
+        if (codes.length === 0) {
+          set({ state: 'error' });
+          get().setError({
+            ...createScanError(
+              'QR_CODE_NOT_DETECTED',
+              `No QR code found in ${file.name}`,
+              { scannerState: 'processing', method: 'file_upload' }
+            ),
+            suggestedActions: ['Take the photo closer to the tag', 'Use more light', 'Try manual entry'],
+            userFriendlyMessage: 'We couldn\'t find a code in that photo. Try a closer, brighter photo of the tag!',
+          });
+          return;
+        }
+
+        // The photo may also show barcodes or other QR codes, so try each until one unlocks
+        for (const qrData of codes) {
+          get().clearError();
+          await get().processScanResult(qrData, 'file_upload');
+          if (get().lastScanResult?.success) {
+            return;
+          }
+        }
+
+      } catch (error) {
+        console.error('Photo upload processing failed:', error);
+
+        set({ state: 'error' });
+        get().setError({
+          code: 'UNKNOWN_ERROR',
+          message: 'Photo upload processing failed',
+          timestamp: Date.now(),
+          context: {
+            scannerState: 'processing',
+            method: 'file_upload',
+            retryCount: 0,
+          },
+          recoverable: true,
+          suggestedActions: ['Try a different photo', 'Use manual entry'],
+          userFriendlyMessage: 'Something went wrong. Please try again!',
+        });
+      }
+    },
+
     startScanSession: () => {
       const sessionId = crypto.randomUUID();
       const session: ScanSession = {
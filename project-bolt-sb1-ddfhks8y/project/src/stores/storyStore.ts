@@ -4,17 +4,68 @@
  */
 
 import { create } from 'zustand';
+import type { StoreApi } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
 import type { 
   StoryContent,
   StoryProgress,
   StorySession,
   StoryNode,
+  StoryBranch,
+  StoryChoice,
   DecisionRecord,
   MunchieCharacter,
   AttachmentType,
-  StoryError 
+  StoryError,
+  QuestProgress,
+  SensoryBreakRecord
 } from '@/types';
+import { isAttachmentType } from '@/types';
+import { selectBranch, evaluateCondition, isChoiceLabel } from '@/features/storytelling/branchConditions';
+import type { BranchConditionContext } from '@/features/storytelling/branchConditions';
+import {
+  getUnmetRequirements,
+  isNodeUnlocked,
+  createLockedNodeError,
+} from '@/features/storytelling/nodeRequirements';
+import type { NodeRequirementContext } from '@/features/storytelling/nodeRequirements';
+import {
+  initializeVariables,
+  applyVariableAssignments,
+  getStartingVariables,
+} from '@/features/storytelling/storyVariables';
+import { localizeStory, getSourceResponse } from '@/features/storytelling/storyLocalization';
+import { chooseNarrator, castStory } from '@/features/storytelling/storyNarrator';
+import { getStoryLanguage, getPreferredLocale } from '@/i18n/locales';
+import type { StoryVariables } from '@/features/storytelling/storyVariables';
+import { needsProgressMigration, migrateProgress } from '@/features/storytelling/storyMigration';
+import {
+  getQuests,
+  getQuestsForStory,
+  getQuestProgress as calculateQuestProgress,
+  getQuestScanPrompt,
+} from '@/features/storytelling/storyQuests';
+import type { QuestScanPrompt } from '@/features/storytelling/storyQuests';
+import { getManifestEntry } from '@/features/storytelling/storyManifest';
+import {
+  getStoryTimeBudgetSeconds,
+  planStoryLength,
+  resolvePlannedNode,
+} from '@/features/storytelling/storyLength';
+import type { StoryLengthPlan } from '@/features/storytelling/storyLength';
+import { isSensoryBreakDue, createSensoryBreak } from '@/features/storytelling/sensoryBreaks';
+import type { SensoryBreak } from '@/features/storytelling/sensoryBreaks';
+import {
+  createHistoryEntry,
+  pushHistoryEntry,
+  getRewoundDecision,
+  restoreProgress,
+} from '@/features/storytelling/storyHistory';
+import type { StoryHistoryEntry, StoryRedoEntry } from '@/features/storytelling/storyHistory';
+
+export interface NavigateOptions {
+  historyEntry?: StoryHistoryEntry; // Snapshot taken before a decision was recorded
+}
 
 export interface StoryStoreState {
   // Current story state
@@ -25,12 +76,21 @@ export interface StoryStoreState {
   // Story navigation
   currentNode: StoryNode | null;
   visitedNodes: string[];
-  availableChoices: string[];
+  availableChoices: StoryChoice[]; // Choice buttons for the current node
+  nodeEnteredAt: number | null;
+  storyVariables: StoryVariables;
+  lengthPlan: StoryLengthPlan | null; // Optional nodes skipped to fit the child's time budget
+  activeBreak: SensoryBreak | null; // Sensory break playing before the current node
+  nodesSinceBreak: number;
+  navigationHistory: StoryHistoryEntry[]; // Snapshots for rewinding, newest last
+  redoStack: StoryRedoEntry[]; // Rewound steps to replay going forward, next step last
+  isPreview: boolean; // Authoring preview - nothing is written to storage
   
   // Story collection
   unlockedStories: string[];
   completedStories: string[];
   favoriteStories: string[];
+  questPrompt: QuestScanPrompt | null; // Next attachment to scan after finishing a quest chapter
   
   // Loading and error states
   isLoading: boolean;
@@ -48,12 +108,14 @@ export interface StoryStoreState {
 
 export interface StoryStoreActions {
   // Story loading
-  loadStory: (storyId: string) => Promise<void>;
+  loadStory: (storyId: string, narratorId?: MunchieCharacter) => Promise<void>;
+  loadPreviewStory: (story: StoryContent) => Promise<void>;
   unloadStory: () => void;
   
   // Story navigation
-  navigateToNode: (nodeId: string) => Promise<void>;
+  navigateToNode: (nodeId: string, options?: NavigateOptions) => Promise<void>;
   makeDecision: (choice: string, voiceResponse?: string) => Promise<void>;
+  chooseBranch: (branchId: string) => Promise<void>;
   goToNextNode: () => Promise<void>;
   goToPreviousNode: () => Promise<void>;
   
@@ -63,10 +125,13 @@ export interface StoryStoreActions {
   resumeStory: () => void;
   completeStory: () => Promise<void>;
   saveProgress: () => Promise<void>;
+  finishSensoryBreak: (skipped?: boolean) => Promise<void>;
   
   // Story collection management
+  loadCollection: () => Promise<void>;
   unlockStory: (storyId: string, attachmentType: AttachmentType) => Promise<void>;
   toggleFavoriteStory: (storyId: string) => void;
+  getQuestProgress: () => Promise<QuestProgress[]>;
   getStoryStats: () => Promise<any>;
   
   // Story preferences
@@ -84,6 +149,183 @@ export interface StoryStoreActions {
   exportStoryData: () => any;
 }
 
+/**
+ * Build the read-only context used to evaluate branch conditions
+ */
+async function buildConditionContext(
+  state: StoryStoreState,
+  choice?: string,
+  voiceResponse?: string
+): Promise<BranchConditionContext> {
+  const now = Date.now();
+  const { currentStory, currentProgress, visitedNodes, decisionsThisSession, nodeEnteredAt } = state;
+  
+  const { useAppStore } = await import('./appStore');
+  const { useScannerStore } = await import('./scannerStore');
+  
+  // Prefer the attachment that was just scanned, then the story's own attachment
+  const scannedAttachment = useScannerStore.getState().lastScanResult?.data?.attachment.attachmentType;
+  const storyAttachment = currentStory && isAttachmentType(currentStory.attachmentId)
+    ? currentStory.attachmentId
+    : null;
+  
+  return {
+    choice,
+    // Conditions are written against the English responses
+    voiceResponse: voiceResponse ? getSourceResponse(state.currentNode, voiceResponse) : undefined,
+    visitedNodes,
+    choicesMade: currentProgress?.choicesMade ?? decisionsThisSession,
+    variables: state.storyVariables,
+    elapsedSeconds: currentProgress ? (now - currentProgress.startedAt) / 1000 : 0,
+    nodeElapsedSeconds: nodeEnteredAt ? (now - nodeEnteredAt) / 1000 : 0,
+    attachment: scannedAttachment ?? storyAttachment,
+    preferences: useAppStore.getState().preferences,
+  };
+}
+
+/**
+ * Cast the story with the child's narrator and put it in their language
+ * A requested narrator (e.g. from saved progress) wins when the story allows it.
+ */
+async function prepareStoryForChild(
+  story: StoryContent,
+  requestedCharacter?: MunchieCharacter
+): Promise<StoryContent> {
+  const { useAppStore } = await import('./appStore');
+  const { useScannerStore } = await import('./scannerStore');
+  const { preferences } = useAppStore.getState();
+  
+  const narrator = chooseNarrator(story, {
+    requestedCharacter,
+    preferredCharacter: preferences?.story.preferredCharacter,
+    compatibleCharacters: useScannerStore.getState().lastScanResult?.data?.attachment.content.characterCompatibility,
+  });
+  
+  // Placeholders are filled in English and every translation before picking the language
+  return localizeStory(castStory(story, narrator), getStoryLanguage(getPreferredLocale(preferences)));
+}
+
+/**
+ * Build the history used to check node unlock requirements
+ */
+async function buildRequirementContext(state: StoryStoreState): Promise<NodeRequirementContext> {
+  const { getCompletedStories } = await import('@/services/storage');
+  const { useScannerStore } = await import('./scannerStore');
+  
+  const storedCompletions = await getCompletedStories('current-user'); // Would get from app store
+  const scannedAttachments = useScannerStore.getState().scanHistory
+    .filter(result => result.success && result.data)
+    .map(result => result.data!.attachment.attachmentType);
+  
+  return {
+    completedStories: [...new Set([
+      ...state.completedStories,
+      ...storedCompletions.map(progress => progress.storyId),
+    ])],
+    scannedAttachments: [...new Set(scannedAttachments)],
+    visitedNodes: state.visitedNodes,
+  };
+}
+
+/**
+ * Get the branches of a node whose target nodes are unlocked
+ */
+async function getOpenBranches(state: StoryStoreState, node: StoryNode): Promise<StoryBranch[]> {
+  const { currentStory } = state;
+  if (!currentStory) {
+    return [];
+  }
+  
+  const requirementContext = await buildRequirementContext(state);
+  return node.branches.filter(branch => {
+    const target = currentStory.nodes[branch.targetSegmentId];
+    return target ? isNodeUnlocked(target, requirementContext) : false;
+  });
+}
+
+/**
+ * Get the branches of a node the child can pick as choices
+ * Plain labels are always offered; expression branches only while they hold,
+ * so the child is never shown a way forward that wouldn't be taken.
+ */
+async function getAvailableChoices(state: StoryStoreState, node: StoryNode): Promise<StoryChoice[]> {
+  const openBranches = await getOpenBranches(state, node);
+  const context = await buildConditionContext(state);
+  
+  return node.branches.flatMap((branch, index): StoryChoice[] => {
+    if (!openBranches.includes(branch)) {
+      return [];
+    }
+    if (isChoiceLabel(branch.condition)) {
+      return [{ branchId: String(index), label: branch.condition.trim() }];
+    }
+    return evaluateCondition(branch.condition, context) ? [{ branchId: String(index) }] : [];
+  });
+}
+
+/**
+ * Record a decision and step to the node it leads to
+ * The history entry is taken before the decision is recorded so rewinding removes it too.
+ */
+async function followDecision(
+  get: StoreApi<StoryStoreState & StoryStoreActions>['getState'],
+  set: StoreApi<StoryStoreState & StoryStoreActions>['setState'],
+  decision: DecisionRecord,
+  targetNodeId: string
+): Promise<void> {
+  const { currentProgress, storyVariables, visitedNodes, decisionsThisSession, nodesSinceBreak } = get();
+  const historyEntry = createHistoryEntry({
+    nodeId: decision.nodeId,
+    progress: currentProgress,
+    variables: storyVariables,
+    visitedNodes,
+    sessionDecisionCount: decisionsThisSession.length,
+    nodesSinceBreak,
+  });
+  
+  // Add to session decisions and the persisted progress record
+  set(state => ({
+    decisionsThisSession: [...state.decisionsThisSession, decision],
+    currentProgress: state.currentProgress ? {
+      ...state.currentProgress,
+      choicesMade: [...state.currentProgress.choicesMade, decision],
+    } : null,
+  }));
+  
+  await get().navigateToNode(targetNodeId, { historyEntry });
+}
+
+/**
+ * Save the child's unlocked, completed and favourite stories with their quest progress
+ * Quests read unlocked stories from here, so a reload keeps them waiting for the right scan.
+ */
+async function persistCollection(state: StoryStoreState): Promise<void> {
+  try {
+    const { saveStoryCollection } = await import('@/services/storage');
+    const { useAppStore } = await import('./appStore');
+    const { preferences } = useAppStore.getState();
+    const { completedStories } = await buildRequirementContext(state);
+    
+    await saveStoryCollection({
+      userId: 'current-user', // Would get from app store
+      unlockedStories: state.unlockedStories,
+      favoriteStories: state.favoriteStories,
+      completedStories: state.completedStories,
+      totalStoriesRead: completedStories.length,
+      totalTimeSpent: state.totalTimeSpent,
+      preferredCharacter: preferences?.story.preferredCharacter ?? 'silo',
+      preferredAttachments: [...new Set(state.unlockedStories
+        .flatMap(storyId => getManifestEntry(storyId)?.attachmentType ?? []))],
+      questProgress: getQuests().map(quest =>
+        calculateQuestProgress(quest, completedStories, state.unlockedStories)
+      ),
+      lastUpdated: Date.now(),
+    });
+  } catch (error) {
+    console.error('Failed to save story collection:', error);
+  }
+}
+
 export const useStoryStore = create<StoryStoreState & StoryStoreActions>()(
   subscribeWithSelector((set, get) => ({
     // Initial state
@@ -93,9 +335,18 @@ export const useStoryStore = create<StoryStoreState & StoryStoreActions>()(
     currentNode: null,
     visitedNodes: [],
     availableChoices: [],
+    nodeEnteredAt: null,
+    storyVariables: {},
+    lengthPlan: null,
+    activeBreak: null,
+    nodesSinceBreak: 0,
+    navigationHistory: [],
+    redoStack: [],
+    isPreview: false,
     unlockedStories: [],
     completedStories: [],
     favoriteStories: [],
+    questPrompt: null,
     isLoading: false,
     error: null,
     autoplay: true,
@@ -105,21 +356,36 @@ export const useStoryStore = create<StoryStoreState & StoryStoreActions>()(
     decisionsThisSession: [],
 
     // Actions
-    loadStory: async (storyId) => {
+    loadStory: async (storyId, narratorId) => {
       set({ isLoading: true, error: null });
       
       try {
         // Load story from cache or network
         const { storyLoader } = await import('@/features/storytelling/storyLoader');
-        const story = await storyLoader.loadStory(storyId);
+        const loadedStory = await storyLoader.loadStory(storyId);
         
-        if (!story) {
+        if (!loadedStory) {
           throw new Error('Story not found');
         }
         
-        // Load existing progress
-        const { loadProgress } = await import('@/services/storage');
-        const progress = await loadProgress(storyId);
+        // Load existing progress, carrying it forward if the story has changed since
+        const { loadProgress, saveProgress, initializeStoryProgress } = await import('@/services/storage');
+        let progress = await loadProgress(storyId);
+        if (progress && needsProgressMigration(progress, loadedStory)) {
+          progress = migrateProgress(progress, loadedStory);
+          await saveProgress(progress);
+        }
+        
+        // Resumed stories keep their narrator; the text is in the child's language,
+        // falling back to English node by node
+        const story = await prepareStoryForChild(loadedStory, narratorId ?? progress?.narratorId);
+        if (progress && progress.narratorId !== story.characterId) {
+          progress = { ...progress, narratorId: story.characterId };
+          await saveProgress(progress);
+        }
+        
+        const { useAppStore } = await import('./appStore');
+        const { currentUser, preferences } = useAppStore.getState();
         
         // Get current node
         const currentNodeId = progress?.currentNodeId || story.startNodeId;
@@ -129,19 +395,51 @@ export const useStoryStore = create<StoryStoreState & StoryStoreActions>()(
           throw new Error('Story start node not found');
         }
         
+        // A first visit starts its progress record here, so every later save builds on it
+        if (!progress) {
+          progress = await initializeStoryProgress(
+            'current-user', // Would get from app store
+            storyId,
+            story.startNodeId,
+            getStartingVariables(story),
+            story.version,
+            story.characterId
+          );
+        }
+        
+        // Trim optional nodes to the child's attention span and preferred length
+        const lengthPlan = planStoryLength(story, getStoryTimeBudgetSeconds(currentUser, preferences));
+        if (lengthPlan.skippedNodes.length > 0) {
+          console.log(`Story trimmed to fit time budget, skipping: ${lengthPlan.skippedNodes.join(', ')}`);
+        }
+        if (!lengthPlan.fitsBudget) {
+          console.warn(`Story runs over the time budget even after trimming: ${lengthPlan.estimatedSeconds}s of ${lengthPlan.budgetSeconds}s`);
+        }
+        
         set({
           currentStory: story,
           currentProgress: progress,
           currentNode,
-          visitedNodes: progress?.visitedNodes || [currentNodeId],
+          visitedNodes: progress.visitedNodes,
+          nodeEnteredAt: Date.now(),
+          storyVariables: initializeVariables(story, progress.variables ?? getStartingVariables(story)),
+          lengthPlan,
+          activeBreak: null,
+          nodesSinceBreak: 0,
+          navigationHistory: [],
+          redoStack: [],
+          isPreview: false,
           isLoading: false,
         });
+        set({ availableChoices: await getAvailableChoices(get(), currentNode) });
         
         console.log(`Story loaded: ${story.metadata.title}`);
         
       } catch (error) {
         console.error('Failed to load story:', error);
-        get().setError({
+        // Stories refused by the safety review keep their reason
+        const storyError = error as Partial<StoryError>;
+        get().setError(storyError?.code === 'CONTENT_UNSAFE' ? storyError as StoryError : {
           code: 'STORY_NOT_FOUND',
           message: 'Failed to load story',
           storyId,
@@ -153,6 +451,67 @@ export const useStoryStore = create<StoryStoreState & StoryStoreActions>()(
       }
     },
 
+    loadPreviewStory: async (draft) => {
+      // Preview with the narrator and language the child would get
+      const story = await prepareStoryForChild(draft);
+      const { useAppStore } = await import('./appStore');
+      const { currentUser, preferences } = useAppStore.getState();
+      const startNode = story.nodes[story.startNodeId];
+      if (!startNode) {
+        get().setError({
+          code: 'INVALID_FORMAT',
+          message: 'Story start node not found',
+          storyId: story.id,
+          nodeId: story.startNodeId,
+          timestamp: Date.now(),
+          recoverable: true,
+          suggestedAction: 'Choose a start node before previewing',
+        });
+        return;
+      }
+      
+      // Play the whole story, with throwaway progress that is never saved
+      const storyVariables = getStartingVariables(story);
+      const now = Date.now();
+      
+      set({
+        currentStory: story,
+        currentProgress: {
+          storyId: story.id,
+          userId: 'preview',
+          currentNodeId: startNode.id,
+          visitedNodes: [startNode.id],
+          completedNodes: [],
+          startedAt: now,
+          lastAccessedAt: now,
+          totalTimeSpent: 0,
+          choicesMade: [],
+          isCompleted: false,
+          variables: storyVariables,
+          storyVersion: story.version,
+        },
+        currentSession: null,
+        currentNode: startNode,
+        visitedNodes: [startNode.id],
+        availableChoices: [],
+        nodeEnteredAt: now,
+        storyVariables,
+        lengthPlan: planStoryLength(story, getStoryTimeBudgetSeconds(currentUser, preferences)),
+        activeBreak: null,
+        nodesSinceBreak: 0,
+        navigationHistory: [],
+        redoStack: [],
+        isPreview: true,
+        questPrompt: null,
+        decisionsThisSession: [],
+        isLoading: false,
+        error: null,
+      });
+      set({ availableChoices: await getAvailableChoices(get(), startNode) });
+      
+      console.log(`Previewing story: ${story.metadata.title}`);
+    },
+
     unloadStory: () => {
       // Save progress before unloading
       get().saveProgress();
@@ -164,44 +523,118 @@ export const useStoryStore = create<StoryStoreState & StoryStoreActions>()(
         currentNode: null,
         visitedNodes: [],
         availableChoices: [],
+        nodeEnteredAt: null,
+        storyVariables: {},
+        lengthPlan: null,
+        activeBreak: null,
+        nodesSinceBreak: 0,
+        navigationHistory: [],
+        redoStack: [],
+        isPreview: false,
+        questPrompt: null,
         sessionStartTime: null,
         decisionsThisSession: [],
       });
     },
 
-    navigateToNode: async (nodeId) => {
-      const { currentStory, currentProgress } = get();
+    navigateToNode: async (requestedNodeId, options = {}) => {
+      const { currentStory, currentProgress, lengthPlan } = get();
       
       if (!currentStory || !currentProgress) {
         throw new Error('No active story');
       }
       
+      // Optional nodes trimmed for time hand over to the next node on the shortest route
+      const nodeId = resolvePlannedNode(lengthPlan, requestedNodeId);
+      
       const node = currentStory.nodes[nodeId];
       if (!node) {
         throw new Error('Node not found');
       }
       
+      // Gated nodes stay closed until their unlock requirements are met
+      const requirementContext = await buildRequirementContext(get());
+      const unmetRequirements = getUnmetRequirements(node, requirementContext);
+      if (unmetRequirements.length > 0) {
+        const { useAppStore } = await import('./appStore');
+        throw createLockedNodeError(
+          currentStory.id,
+          node,
+          unmetRequirements,
+          getPreferredLocale(useAppStore.getState().preferences)
+        );
+      }
+      
+      // Apply the node's variable assignments, using the answer given on the node we're leaving
+      const { currentNode, decisionsThisSession, storyVariables } = get();
+      
+      // Remember where the child was so the step can be rewound
+      const historyEntry = options.historyEntry ?? (currentNode ? createHistoryEntry({
+        nodeId: currentNode.id,
+        progress: currentProgress,
+        variables: storyVariables,
+        visitedNodes: get().visitedNodes,
+        sessionDecisionCount: decisionsThisSession.length,
+        nodesSinceBreak: get().nodesSinceBreak,
+      }) : null);
+      const lastDecision = decisionsThisSession[decisionsThisSession.length - 1];
+      const voiceResponse = lastDecision && lastDecision.nodeId === currentNode?.id
+        ? lastDecision.voiceResponse
+        : undefined;
+      const variables = applyVariableAssignments(
+        node.setVariables,
+        storyVariables,
+        currentStory.variables,
+        voiceResponse
+      );
+      
       // Update progress
-      const { updateProgressNode } = await import('@/services/storage');
-      await updateProgressNode(currentStory.id, nodeId);
+      if (!get().isPreview) {
+        const { updateProgressNode } = await import('@/services/storage');
+        await updateProgressNode(currentStory.id, nodeId, undefined, variables);
+      }
+      
+      // Take a sensory break before new nodes at the frequency the parent chose
+      const { useAppStore } = await import('./appStore');
+      const { preferences } = useAppStore.getState();
+      const isNewNode = !get().visitedNodes.includes(nodeId);
+      const nodesSinceBreak = get().nodesSinceBreak + (isNewNode ? 1 : 0);
+      const activeBreak = isNewNode && preferences && isSensoryBreakDue(preferences, nodesSinceBreak)
+        ? createSensoryBreak(node, currentStory.characterId, preferences)
+        : null;
       
       // Update state
       set(state => ({
+        activeBreak,
+        nodesSinceBreak: activeBreak ? 0 : nodesSinceBreak,
+        navigationHistory: historyEntry
+          ? pushHistoryEntry(state.navigationHistory, historyEntry)
+          : state.navigationHistory,
+        // Following a rewound step keeps the rest of the replay path; going elsewhere drops it
+        redoStack: state.redoStack[state.redoStack.length - 1]?.nodeId === nodeId
+          ? state.redoStack.slice(0, -1)
+          : [],
         currentNode: node,
+        availableChoices: [],
+        nodeEnteredAt: Date.now(),
+        storyVariables: variables,
         visitedNodes: [...new Set([...state.visitedNodes, nodeId])],
         currentProgress: state.currentProgress ? {
           ...state.currentProgress,
           currentNodeId: nodeId,
           visitedNodes: [...new Set([...state.visitedNodes, nodeId])],
+          totalTimeSpent: state.currentProgress.totalTimeSpent + (Date.now() - state.currentProgress.lastAccessedAt),
           lastAccessedAt: Date.now(),
+          variables,
         } : null,
       }));
+      set({ availableChoices: await getAvailableChoices(get(), node) });
       
       console.log(`Navigated to node: ${nodeId}`);
     },
 
     makeDecision: async (choice, voiceResponse) => {
-      const { currentNode, currentStory } = get();
+      const { currentNode, currentStory, nodeEnteredAt } = get();
       
       if (!currentNode || !currentStory) {
         throw new Error('No active story or node');
@@ -211,69 +644,178 @@ export const useStoryStore = create<StoryStoreState & StoryStoreActions>()(
         nodeId: currentNode.id,
         choice,
         timestamp: Date.now(),
-        responseTime: 0, // Would calculate from when choice was presented
+        responseTime: nodeEnteredAt ? Date.now() - nodeEnteredAt : 0,
         voiceResponse,
       };
       
-      // Add to session decisions
-      set(state => ({
-        decisionsThisSession: [...state.decisionsThisSession, decision],
-      }));
+      // Evaluate against the decisions made before this one
+      const context = await buildConditionContext(get(), choice, voiceResponse);
       
-      // Find next node based on choice
-      const branch = currentNode.branches.find(b => b.condition === choice);
-      if (branch) {
-        await get().navigateToNode(branch.targetSegmentId);
+      // Find next node based on choice and branch conditions, skipping locked nodes
+      const openBranches = await getOpenBranches(get(), currentNode);
+      const branch = selectBranch(openBranches, context);
+      if (!branch) {
+        // Nothing to step to, so there is no history frame to undo; leave the record as it was
+        console.log(`No branch matches decision: ${choice}`);
+        return;
       }
       
+      await followDecision(get, set, decision, branch.targetSegmentId);
+      
       console.log(`Decision made: ${choice}`);
     },
 
+    chooseBranch: async (branchId) => {
+      const { currentNode, availableChoices, nodeEnteredAt } = get();
+      
+      // Only branches offered as choices can be picked
+      const choice = availableChoices.find(option => option.branchId === branchId);
+      const branch = choice ? currentNode?.branches[Number(branchId)] : undefined;
+      if (!currentNode || !choice || !branch) {
+        console.log(`No choice matches branch: ${branchId}`);
+        return;
+      }
+      
+      const decision: DecisionRecord = {
+        nodeId: currentNode.id,
+        choice: choice.label ?? branch.condition,
+        timestamp: Date.now(),
+        responseTime: nodeEnteredAt ? Date.now() - nodeEnteredAt : 0,
+      };
+      
+      await followDecision(get, set, decision, branch.targetSegmentId);
+      
+      console.log(`Branch chosen: ${branchId}`);
+    },
+
     goToNextNode: async () => {
-      const { currentNode } = get();
+      const { currentNode, redoStack } = get();
+      
+      if (!currentNode) {
+        return;
+      }
+      
+      // After rewinding, go forward the way the child went before, to the same node
+      // with the same decision rather than picking a weighted branch again
+      const redoEntry = redoStack[redoStack.length - 1];
+      if (redoEntry) {
+        const { decision } = redoEntry;
+        if (decision) {
+          await followDecision(get, set, decision, redoEntry.nodeId);
+        } else {
+          await get().navigateToNode(redoEntry.nodeId);
+        }
+        return;
+      }
+      
+      if (currentNode.branches.length === 0) {
+        return;
+      }
       
-      if (!currentNode || currentNode.branches.length === 0) {
+      // Branches leading to locked nodes are hidden from the child
+      const openBranches = await getOpenBranches(get(), currentNode);
+      if (openBranches.length === 0) {
+        set({ availableChoices: [] });
+        // Every way forward is locked; tell the child what opens the first one
+        const { currentStory } = get();
+        const lockedNode = currentStory?.nodes[currentNode.branches[0].targetSegmentId];
+        if (currentStory && lockedNode) {
+          const requirementContext = await buildRequirementContext(get());
+          const { useAppStore } = await import('./appStore');
+          throw createLockedNodeError(
+            currentStory.id,
+            lockedNode,
+            getUnmetRequirements(lockedNode, requirementContext),
+            getPreferredLocale(useAppStore.getState().preferences)
+          );
+        }
         return;
       }
       
       // If only one branch, auto-navigate
-      if (currentNode.branches.length === 1) {
-        await get().navigateToNode(currentNode.branches[0].targetSegmentId);
+      if (openBranches.length === 1) {
+        await get().navigateToNode(openBranches[0].targetSegmentId);
+        return;
+      }
+      
+      // Follow an expression branch that already applies without a choice
+      const context = await buildConditionContext(get());
+      const branch = selectBranch(openBranches, context);
+      if (branch) {
+        await get().navigateToNode(branch.targetSegmentId);
       } else {
         // Multiple choices available - set them for UI
         set({
-          availableChoices: currentNode.branches.map(b => b.condition),
+          availableChoices: await getAvailableChoices(get(), currentNode),
         });
       }
     },
 
     goToPreviousNode: async () => {
-      const { visitedNodes } = get();
+      const { currentStory, currentNode, currentProgress, navigationHistory } = get();
+      const entry = navigationHistory[navigationHistory.length - 1];
       
-      if (visitedNodes.length < 2) {
+      if (!currentStory || !currentNode || !entry) {
         return; // Can't go back from first node
       }
       
-      const previousNodeId = visitedNodes[visitedNodes.length - 2];
-      await get().navigateToNode(previousNodeId);
+      const previousNode = currentStory.nodes[entry.nodeId];
+      if (!previousNode) {
+        return;
+      }
+      
+      // Undo the step: its decision, variable changes and any completion
+      const rewoundDecision = getRewoundDecision(currentProgress, entry);
+      const undoesCompletion = !entry.isCompleted && get().completedStories.includes(currentStory.id);
+      
+      set(state => ({
+        currentNode: previousNode,
+        availableChoices: [],
+        nodeEnteredAt: Date.now(),
+        storyVariables: entry.variables,
+        visitedNodes: entry.visitedNodes,
+        activeBreak: null,
+        nodesSinceBreak: entry.nodesSinceBreak,
+        navigationHistory: state.navigationHistory.slice(0, -1),
+        redoStack: [...state.redoStack, { nodeId: currentNode.id, decision: rewoundDecision }],
+        decisionsThisSession: state.decisionsThisSession.slice(0, entry.sessionDecisionCount),
+        currentProgress: state.currentProgress ? restoreProgress(state.currentProgress, entry) : null,
+        completedStories: entry.isCompleted
+          ? state.completedStories
+          : state.completedStories.filter(id => id !== currentStory.id),
+        questPrompt: entry.isCompleted ? state.questPrompt : null,
+      }));
+      set({ availableChoices: await getAvailableChoices(get(), previousNode) });
+      
+      await get().saveProgress();
+      
+      // The story is no longer finished, so quests and totals must not count it
+      if (undoesCompletion && !get().isPreview) {
+        await persistCollection(get());
+      }
+      
+      console.log(`Rewound to node: ${entry.nodeId}`);
     },
 
     startStory: async (storyId, characterId) => {
       try {
         // Load the story
-        await get().loadStory(storyId);
+        await get().loadStory(storyId, characterId);
         
-        const { currentStory } = get();
+        const { currentStory, currentProgress, storyVariables } = get();
         if (!currentStory) {
           throw new Error('Failed to load story');
         }
         
         // Initialize progress if not exists
         const { initializeStoryProgress } = await import('@/services/storage');
-        const progress = await initializeStoryProgress(
+        const progress = currentProgress ?? await initializeStoryProgress(
           'current-user', // Would get from app store
           storyId,
-          currentStory.startNodeId
+          currentStory.startNodeId,
+          storyVariables,
+          currentStory.version,
+          currentStory.characterId
         );
         
         // Create story session
@@ -293,6 +835,7 @@ export const useStoryStore = create<StoryStoreState & StoryStoreActions>()(
         };
         
         set({
+          currentProgress: progress,
           currentSession: session,
           sessionStartTime: Date.now(),
           decisionsThisSession: [],
@@ -336,12 +879,24 @@ export const useStoryStore = create<StoryStoreState & StoryStoreActions>()(
     },
 
     completeStory: async () => {
-      const { currentStory, currentSession } = get();
+      const { currentStory, currentSession, isPreview } = get();
       
       if (!currentStory) {
         return;
       }
       
+      // Previews finish without recording a completion or prompting for quests
+      if (isPreview) {
+        set(state => ({
+          currentProgress: state.currentProgress ? {
+            ...state.currentProgress,
+            isCompleted: true,
+            completedAt: Date.now(),
+          } : null,
+        }));
+        return;
+      }
+      
       try {
         // Mark story as completed
         const { completeStory } = await import('@/services/storage');
@@ -360,10 +915,26 @@ export const useStoryStore = create<StoryStoreState & StoryStoreActions>()(
         // Add to completed stories
         set(state => ({
           completedStories: [...new Set([...state.completedStories, currentStory.id])],
+          currentProgress: state.currentProgress ? {
+            ...state.currentProgress,
+            isCompleted: true,
+            completedAt: state.currentProgress.completedAt ?? Date.now(),
+          } : null,
         }));
         
         console.log(`Story completed: ${currentStory.metadata.title}`);
         
+        // Invite the child to scan for the next chapter of any quest this story belongs to
+        const { completedStories } = await buildRequirementContext(get());
+        const questPrompt = getQuestsForStory(currentStory.id)
+          .map(quest => getQuestScanPrompt(
+            quest,
+            calculateQuestProgress(quest, completedStories, get().unlockedStories)
+          ))
+          .find(prompt => prompt !== null) ?? null;
+        set({ questPrompt });
+        await persistCollection(get());
+        
         // Trigger NFT minting (would integrate with blockchain store)
         // get().mintStoryNFT(currentStory.id);
         
@@ -381,9 +952,9 @@ export const useStoryStore = create<StoryStoreState & StoryStoreActions>()(
     },
 
     saveProgress: async () => {
-      const { currentProgress } = get();
+      const { currentProgress, isPreview } = get();
       
-      if (!currentProgress) {
+      if (!currentProgress || isPreview) {
         return;
       }
       
@@ -396,6 +967,59 @@ export const useStoryStore = create<StoryStoreState & StoryStoreActions>()(
       }
     },
 
+    finishSensoryBreak: async (skipped = false) => {
+      const { activeBreak, currentStory } = get();
+      if (!activeBreak || !currentStory) {
+        return;
+      }
+      
+      const record: SensoryBreakRecord = {
+        nodeId: activeBreak.nodeId,
+        strategy: activeBreak.strategy,
+        startedAt: activeBreak.startedAt,
+        duration: Date.now() - activeBreak.startedAt,
+        skipped,
+      };
+      
+      // Count the break towards time spent as storage does, so the next save keeps it
+      set(state => ({
+        activeBreak: null,
+        nodeEnteredAt: Date.now(),
+        currentProgress: state.currentProgress ? {
+          ...state.currentProgress,
+          sensoryBreaks: [...(state.currentProgress.sensoryBreaks || []), record],
+          totalTimeSpent: state.currentProgress.totalTimeSpent + (Date.now() - state.currentProgress.lastAccessedAt),
+          lastAccessedAt: Date.now(),
+        } : null,
+      }));
+      
+      if (get().isPreview) {
+        return;
+      }
+      
+      try {
+        const { recordSensoryBreak } = await import('@/services/storage');
+        await recordSensoryBreak(currentStory.id, record);
+      } catch (error) {
+        console.error('Failed to record sensory break:', error);
+      }
+    },
+
+    loadCollection: async () => {
+      const { loadStoryCollection } = await import('@/services/storage');
+      const collection = await loadStoryCollection('current-user'); // Would get from app store
+      if (!collection) {
+        return;
+      }
+      
+      // Keep anything unlocked this session before the saved copy arrived
+      set(state => ({
+        unlockedStories: [...new Set([...collection.unlockedStories, ...state.unlockedStories])],
+        completedStories: [...new Set([...collection.completedStories, ...state.completedStories])],
+        favoriteStories: [...new Set([...collection.favoriteStories, ...state.favoriteStories])],
+      }));
+    },
+
     unlockStory: async (storyId, attachmentType) => {
       try {
         // Check if story is already unlocked
@@ -408,12 +1032,13 @@ export const useStoryStore = create<StoryStoreState & StoryStoreActions>()(
         // Add to unlocked stories
         set(state => ({
           unlockedStories: [...state.unlockedStories, storyId],
+          // The child found the attachment the quest was asking for
+          questPrompt: state.questPrompt?.chapter.storyId === storyId ? null : state.questPrompt,
         }));
         
         console.log(`Story unlocked: ${storyId} (${attachmentType})`);
         
-        // Save to storage
-        // This would be implemented with user preferences
+        await persistCollection(get());
         
       } catch (error) {
         console.error('Failed to unlock story:', error);
@@ -437,6 +1062,21 @@ export const useStoryStore = create<StoryStoreState & StoryStoreActions>()(
             : [...state.favoriteStories, storyId],
         };
       });
+      persistCollection(get());
+    },
+
+    getQuestProgress: async () => {
+      try {
+        const { loadStoryManifest } = await import('@/features/storytelling/storyManifest');
+        await loadStoryManifest();
+        
+        const { completedStories } = await buildRequirementContext(get());
+        const { unlockedStories } = get();
+        return getQuests().map(quest => calculateQuestProgress(quest, completedStories, unlockedStories));
+      } catch (error) {
+        console.error('Failed to get quest progress:', error);
+        return [];
+      }
     },
 
     getStoryStats: async () => {
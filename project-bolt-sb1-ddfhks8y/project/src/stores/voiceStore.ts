@@ -19,6 +19,19 @@ import type {
 } from '@/types';
 import { DEFAULT_VOICE_SETTINGS } from '@/types';
 import { getCharacterVoiceModel } from '@/services/elevenlabs/voiceModels';
+import { getPreferredLocale } from '@/i18n/locales';
+
+// How often the highlighted word follows the audio
+const WORD_TRACKING_INTERVAL = 50; // milliseconds
+
+let wordTrackingTimer: ReturnType<typeof setInterval> | null = null;
+
+const stopWordTracking = () => {
+  if (wordTrackingTimer) {
+    clearInterval(wordTrackingTimer);
+    wordTrackingTimer = null;
+  }
+};
 
 export interface VoiceStoreState {
   // Voice settings
@@ -30,6 +43,8 @@ export interface VoiceStoreState {
   isPaused: boolean;
   currentAudioId: string | null;
   playbackProgress: number;
+  currentNarration: VoiceSynthesisResponse | null; // Last narrated clip, kept for word replay
+  currentWordIndex: number; // Word being spoken, -1 when none
   
   // Session state
   currentSession: VoiceSession | null;
@@ -62,6 +77,7 @@ export interface VoiceStoreActions {
   pauseNarration: () => void;
   resumeNarration: () => void;
   stopNarration: () => void;
+  replayWord: (wordIndex: number) => Promise<boolean>;
   
   // Speech recognition
   startListening: (expectedPhrases?: string[]) => Promise<SpeechRecognitionResult>;
@@ -94,6 +110,8 @@ export const useVoiceStore = create<VoiceStoreState & VoiceStoreActions>()(
     isPaused: false,
     currentAudioId: null,
     playbackProgress: 0,
+    currentNarration: null,
+    currentWordIndex: -1,
     currentSession: null,
     currentInteraction: null,
     isListening: false,
@@ -180,15 +198,19 @@ export const useVoiceStore = create<VoiceStoreState & VoiceStoreActions>()(
         // Synthesize and play audio
         const { 
           voiceSynthesisService, 
-          audioQueue 
+          audioQueue,
+          findWordAtTime,
         } = await import('@/services/elevenlabs');
         
+        // Narrate in the child's language
+        const { useAppStore } = await import('./appStore');
         const synthesisResult = await voiceSynthesisService.synthesizeSpeech({
           text,
           characterId,
           emotion,
           settings: mergedSettings,
           priority: 'normal',
+          language: getPreferredLocale(useAppStore.getState().preferences),
         });
         
         // Queue audio for playback
@@ -199,14 +221,44 @@ export const useVoiceStore = create<VoiceStoreState & VoiceStoreActions>()(
           audio: synthesisResult,
           priority: 'high',
           onStart: () => {
-            set({ isPlaying: true, isPaused: false, currentAudioId: audioId });
+            set({
+              isPlaying: true,
+              isPaused: false,
+              currentAudioId: audioId,
+              currentNarration: synthesisResult,
+              currentWordIndex: -1,
+            });
+
+            // Follow the audio word by word for text highlighting
+            stopWordTracking();
+            const timings = synthesisResult.wordTimings || [];
+            if (timings.length > 0) {
+              wordTrackingTimer = setInterval(() => {
+                const position = audioQueue.getPlaybackPosition();
+                if (!position) {
+                  return;
+                }
+
+                // Estimated timings assume our guessed length; stretch them to the real clip
+                const scale = synthesisResult.timingSource === 'estimated' && position.duration
+                  ? synthesisResult.duration / position.duration
+                  : 1;
+                const wordIndex = findWordAtTime(timings, position.currentTime * scale);
+                if (wordIndex !== get().currentWordIndex) {
+                  set({ currentWordIndex: wordIndex });
+                }
+              }, WORD_TRACKING_INTERVAL);
+            }
           },
           onComplete: () => {
-            set({ isPlaying: false, isPaused: false, currentAudioId: null, playbackProgress: 100 });
+            stopWordTracking();
+            set({ isPlaying: false, isPaused: false, currentAudioId: null, playbackProgress: 100, currentWordIndex: -1 });
           },
           onError: (error) => {
             console.error('Audio playback error:', error);
+            stopWordTracking();
             set({ 
+              currentWordIndex: -1,
               isPlaying: false, 
               isPaused: false, 
               currentAudioId: null,
@@ -263,7 +315,36 @@ export const useVoiceStore = create<VoiceStoreState & VoiceStoreActions>()(
       import('@/services/elevenlabs/audioQueue').then(({ audioQueue }) => {
         audioQueue.stop();
       });
-      set({ isPlaying: false, isPaused: false, currentAudioId: null });
+      stopWordTracking();
+      set({ isPlaying: false, isPaused: false, currentAudioId: null, currentWordIndex: -1 });
+    },
+
+    replayWord: async (wordIndex) => {
+      const { currentNarration, isPlaying } = get();
+      const timing = currentNarration?.wordTimings?.[wordIndex];
+
+      // Only replay once the narration has finished or been paused
+      if (!currentNarration || !timing || isPlaying) {
+        return false;
+      }
+
+      try {
+        const { audioQueue } = await import('@/services/elevenlabs/audioQueue');
+
+        set({ currentWordIndex: wordIndex });
+        await audioQueue.playClip(
+          currentNarration.audioUrl,
+          timing.start,
+          timing.end,
+          currentNarration.timingSource === 'estimated' ? currentNarration.duration : undefined
+        );
+        return true;
+      } catch (error) {
+        console.error('Failed to replay word:', error);
+        return false;
+      } finally {
+        set({ currentWordIndex: -1 });
+      }
     },
 
     // Speech recognition
@@ -278,8 +359,11 @@ export const useVoiceStore = create<VoiceStoreState & VoiceStoreActions>()(
           throw new Error('Speech recognition is not supported in this browser');
         }
         
-        // Create child-friendly config
-        const config = voiceRecognitionService.createChildFriendlyConfig();
+        // Create child-friendly config, listening in the child's language
+        const { useAppStore } = await import('./appStore');
+        const config = voiceRecognitionService.createChildFriendlyConfig(
+          getPreferredLocale(useAppStore.getState().preferences)
+        );
         
         // Start listening
         const result = await voiceRecognitionService.startListening(config, {
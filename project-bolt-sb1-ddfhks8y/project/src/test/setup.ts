@@ -0,0 +1,11 @@
+/**
+ * Shared test setup
+ * Puts timers and mocks back after each test so fake clocks don't leak between files
+ */
+
+import { afterEach, vi } from 'vitest';
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
@@ -10,20 +10,41 @@ export type {
   SensoryStrategy,
   EmotionType,
   RarityTier,
+  AgeBand,
+  StoryLanguage,
   VisualCue,
   VoicePrompt,
+  StoryTextVariant,
   StorySegment,
+  VoicePromptTranslation,
+  StorySegmentTranslation,
   StoryBranch,
+  StoryChoice,
+  StoryVariableType,
+  StoryVariableValue,
+  StoryVariableDefinition,
+  StoryVariableAssignment,
   StoryNode,
   StoryMetadata,
   StoryContent,
+  StoryMigration,
+  StoryManifestEntry,
+  StoryManifest,
   StoryProgress,
   DecisionRecord,
+  SensoryBreakRecord,
   StorySession,
   StoryCollection,
+  QuestChapter,
+  StoryQuest,
+  QuestProgress,
   ContentSafetyCheck,
+  StoryValidationIssueCode,
+  StoryValidationIssue,
+  StoryValidationReport,
   StoryAnalytics,
   StoryTemplate,
+  StoryDraft,
   StoryError,
   StoryNodeUpdate,
   StoryContentUpdate,
@@ -35,6 +56,7 @@ export {
   isAttachmentType,
   isSensoryStrategy,
   isEmotionType,
+  isStoryLanguage,
 } from './story.types';
 
 // User-related types
@@ -67,6 +89,7 @@ export type {
   VoiceSettings,
   CharacterVoice,
   VoiceSynthesisRequest,
+  WordTiming,
   VoiceSynthesisResponse,
   SpeechRecognitionConfig,
   SpeechRecognitionResult,
@@ -136,7 +159,14 @@ export type {
   CameraDevice,
   ScannerConfig,
   QRCodeData,
+  QRPayload,
+  AttachmentRejectionReason,
+  AttachmentAuthenticity,
+  AttachmentTerms,
+  RevokedSerialRange,
+  SignedAttachmentCode,
   AttachmentCode,
+  AttachmentRedemption,
   ScanResult,
   ScanErrorCode,
   ScanError,
@@ -160,6 +190,17 @@ export {
   QR_CODE_FORMATS,
 } from './scanner.types';
 
+// Story pack types
+export type {
+  StoryPackStoryEntry,
+  StoryPackAudioEntry,
+  StoryPackImageEntry,
+  StoryPackManifest,
+  StoryPackExportOptions,
+  StoryPackExportResult,
+  StoryPackImportResult,
+} from './storyPack.types';
+
 // Theme and accessibility types (from styles/themes.ts)
 export type {
   ThemeMode,
@@ -124,6 +124,57 @@ export interface QRCodeData {
   };
 }
 
+// What a scanned QR code carries, whichever printed form it came in
+export interface QRPayload {
+  format: 'raw' | 'uri'; // Printed CMXX123456Y01.SIGNATURE code or a curmunchkins:// link
+  version: string; // Payload format version, 'v1' for bare codes
+  code: string; // The attachment code itself
+  attachmentType?: AttachmentType; // Declared in the URI path
+  packId?: string; // Groups the codes printed on one box
+  suggestedStoryId?: string; // Story the packaging wants opened first
+  terms?: string; // Expiry and per-device limit printed after the code; the signature covers them
+  signature?: string; // Factory signature, checked offline (see attachmentAuthenticity)
+}
+
+// A code's QR contents as the publisher's server returns them for a typed code
+export interface SignedAttachmentCode {
+  code: string;
+  terms?: string;
+  signature: string; // base64url ECDSA P-256 over the code and terms
+}
+
+// Why an attachment code was refused
+export type AttachmentRejectionReason =
+  | 'missing_signature'
+  | 'invalid_signature'
+  | 'revoked_serial'
+  | 'invalid_terms'
+  | 'verification_unavailable' // No Web Crypto, e.g. an insecure context
+  | 'lookup_unavailable'; // A typed code's signature couldn't be fetched, e.g. offline
+
+// What a genuine code allows, read from the terms printed with it
+export interface AttachmentTerms {
+  expiresAt?: number; // Never expires when unset
+  maxRedemptionsPerDevice: number;
+}
+
+export type AttachmentAuthenticity =
+  | { authentic: true; terms: AttachmentTerms }
+  | {
+      authentic: false;
+      errorCode: Extract<ScanErrorCode, 'VALIDATION_FAILED' | 'ATTACHMENT_NOT_RECOGNIZED'>;
+      reason: AttachmentRejectionReason;
+      message: string;
+    };
+
+// Serial numbers withdrawn after a leak or recall, inclusive
+export interface RevokedSerialRange {
+  attachmentType?: AttachmentType; // Every type when omitted
+  from: number;
+  to: number;
+  note: string;
+}
+
 export interface AttachmentCode {
   code: string;
   attachmentType: AttachmentType;
@@ -132,9 +183,11 @@ export interface AttachmentCode {
   // Validation data
   validation: {
     checksum: string;
+    signature?: string; // Factory signature, verified against the bundled public key
     isValid: boolean;
-    expiresAt?: number;
+    expiresAt?: number; // No new unlocks after this; earlier unlocks still reopen
     activatedAt?: number;
+    maxRedemptionsPerDevice?: number; // Child profiles on one device that can redeem it, 1 when unset
   };
   
   // Metadata
@@ -154,6 +207,18 @@ export interface AttachmentCode {
   };
 }
 
+// Local record of what one physical attachment has unlocked on this device
+export interface AttachmentRedemption {
+  serialNumber: string; // e.g. 'S123456'
+  code: string;
+  attachmentType: AttachmentType;
+  storyId: string; // Story the code last opened; rescans reopen it
+  redeemedBy: string[]; // User IDs
+  firstRedeemedAt: number;
+  lastScannedAt: number;
+  scanCount: number;
+}
+
 export interface ScanResult {
   success: boolean;
   method: ScanMethod;
@@ -162,12 +227,18 @@ export interface ScanResult {
   // Successful scan data
   data?: {
     qrCode: QRCodeData;
+    payload?: QRPayload;
     attachment: AttachmentCode;
     unlockData: {
       storyId: string;
       characterId: string;
       newContent: boolean;
       previouslyUnlocked: boolean;
+      quest?: {
+        questId: string;
+        chapterIndex: number;
+        totalChapters: number;
+      };
     };
   };
   
@@ -197,6 +268,7 @@ export type ScanErrorCode =
   | 'QR_CODE_NOT_DETECTED'
   | 'QR_CODE_UNREADABLE'
   | 'INVALID_QR_FORMAT'
+  | 'UNSUPPORTED_QR_VERSION'
   | 'ATTACHMENT_NOT_RECOGNIZED'
   | 'ATTACHMENT_EXPIRED'
   | 'ATTACHMENT_ALREADY_USED'
@@ -366,7 +438,7 @@ export const isScanMethod = (value: string): value is ScanMethod => {
 export const isScanErrorCode = (value: string): value is ScanErrorCode => {
   return [
     'CAMERA_PERMISSION_DENIED', 'CAMERA_NOT_AVAILABLE', 'CAMERA_INITIALIZATION_FAILED',
-    'QR_CODE_NOT_DETECTED', 'QR_CODE_UNREADABLE', 'INVALID_QR_FORMAT',
+    'QR_CODE_NOT_DETECTED', 'QR_CODE_UNREADABLE', 'INVALID_QR_FORMAT', 'UNSUPPORTED_QR_VERSION',
     'ATTACHMENT_NOT_RECOGNIZED', 'ATTACHMENT_EXPIRED', 'ATTACHMENT_ALREADY_USED',
     'NETWORK_ERROR', 'VALIDATION_FAILED', 'TIMEOUT', 'UNKNOWN_ERROR'
   ].includes(value);
@@ -433,6 +505,14 @@ export const QR_CODE_FORMATS = {
   CURMUNCHKINS: {
     prefix: 'curmunchkins://',
     version: 'v1',
+    supportedVersions: ['v1'],
     structure: 'curmunchkins://v1/attachment/{type}/{code}',
+    // Optional query fields, e.g. ?pack=P2024A&story=silo-fidget-feet-001
+    queryFields: {
+      packId: 'pack',
+      suggestedStoryId: 'story',
+      terms: 'terms',
+      signature: 'sig',
+    },
   },
 } as const;
\ No newline at end of file
@@ -45,11 +45,17 @@ export type EmotionType =
 
 export type RarityTier = 'common' | 'rare' | 'epic' | 'legendary';
 
+export type AgeBand = '4-6' | '7-9' | '10-12';
+
+// Languages story content can be written in; English is the source every story has
+export type StoryLanguage = 'en' | 'es' | 'fr' | 'de';
+
 export interface VisualCue {
   type: 'animation' | 'highlight' | 'glow' | 'pulse' | 'bounce';
   target: string; // CSS selector or element ID
   duration: number; // milliseconds
   intensity: 'subtle' | 'moderate' | 'strong';
+  delay?: number; // milliseconds after the segment's narration starts
 }
 
 export interface VoicePrompt {
@@ -58,24 +64,70 @@ export interface VoicePrompt {
   timeout: number; // milliseconds to wait for response
   fallbackAction: 'continue' | 'repeat' | 'skip';
   encouragement: string; // What to say if child doesn't respond
+  sourceResponses?: string[]; // English expectedResponses, set on translated prompts (see storyLocalization.ts)
+}
+
+// Alternate wording of a segment for an age band and/or difficulty level
+export interface StoryTextVariant {
+  ageBand?: AgeBand;
+  difficultyLevel?: 'beginner' | 'intermediate' | 'advanced';
+  text: string;
 }
 
 export interface StorySegment {
   id: string;
-  text: string;
+  text: string; // Default wording, used when no variant fits the child
+  textVariants?: StoryTextVariant[];
   voiceEmotion: EmotionType;
   visualCues: VisualCue[];
   voicePrompts?: VoicePrompt[];
   duration: number; // Expected reading/listening time in seconds
   pauseAfter?: number; // Optional pause for processing
+  translations?: Partial<Record<StoryLanguage, StorySegmentTranslation>>;
+}
+
+// A prompt in another language; expectedResponses line up with the English ones by index
+export interface VoicePromptTranslation {
+  text: string;
+  expectedResponses: string[];
+  encouragement: string;
+}
+
+// A segment in another language; prompts line up with the English prompts by index
+export interface StorySegmentTranslation {
+  text: string;
+  textVariants?: StoryTextVariant[];
+  voicePrompts?: VoicePromptTranslation[];
 }
 
 export interface StoryBranch {
-  condition: string; // Condition for taking this branch
+  condition: string; // Choice label (e.g. 'timeout') or expression, see branchConditions.ts
   targetSegmentId: string;
   weight: number; // Probability weight for random selection
 }
 
+// A branch the child can pick on the current node
+export interface StoryChoice {
+  branchId: string; // Index of the branch in StoryNode.branches
+  label?: string; // Set for plain-label branches; expression branches have nothing readable to show
+}
+
+export type StoryVariableType = 'number' | 'boolean' | 'string';
+
+export type StoryVariableValue = number | boolean | string;
+
+export interface StoryVariableDefinition {
+  type: StoryVariableType;
+  defaultValue: StoryVariableValue;
+  description?: string; // Authoring note, e.g. "Name the child picks for the pet"
+}
+
+export interface StoryVariableAssignment {
+  variable: string;
+  operation: 'set' | 'increment' | 'decrement' | 'toggle' | 'set_from_response';
+  value?: StoryVariableValue; // Used by 'set', 'increment' and 'decrement'
+}
+
 export interface StoryNode {
   id: string;
   attachmentType: AttachmentType;
@@ -83,7 +135,9 @@ export interface StoryNode {
   branches: StoryBranch[];
   sensoryStrategy: SensoryStrategy;
   isEndNode: boolean;
+  isOptional?: boolean; // May be skipped to fit a short attention span
   unlockRequirements?: string[]; // Prerequisites for accessing this node
+  setVariables?: StoryVariableAssignment[]; // Applied when the node is entered
 }
 
 export interface StoryMetadata {
@@ -97,20 +151,56 @@ export interface StoryMetadata {
     min: number;
     max: number;
   };
+  translations?: Partial<Record<StoryLanguage, { title: string; description: string }>>;
 }
 
 export interface StoryContent {
   id: string;
   attachmentId: string;
-  characterId: MunchieCharacter;
+  characterId: MunchieCharacter; // Default narrator
+  narrators?: MunchieCharacter[]; // Other characters who can tell this story, see storyNarrator.ts
   metadata: StoryMetadata;
   startNodeId: string;
   nodes: Record<string, StoryNode>;
+  variables?: Record<string, StoryVariableDefinition>; // Story state remembered across sessions
+  migrations?: StoryMigration[]; // Carries saved progress forward from earlier versions
+  safetyChecks?: ContentSafetyCheck[]; // Content reviews; the latest human review decides the rating
   version: string;
   lastModified: number;
   createdAt: number;
 }
 
+// Node ID changes between two story versions, declared by the author
+export interface StoryMigration {
+  fromVersion: string;
+  toVersion: string;
+  nodeIdMap: Record<string, string | null>; // Old node ID -> new node ID, or null when the node was removed
+}
+
+// Story manifest (public/stories/manifest.json) - the single index of published stories
+export interface StoryManifestEntry {
+  id: string;
+  file: string; // File name inside /stories/
+  title: string;
+  characterId: MunchieCharacter;
+  attachmentType: AttachmentType;
+  difficultyLevel: StoryMetadata['difficultyLevel'];
+  ageRange: {
+    min: number;
+    max: number;
+  };
+  version: string; // Matches StoryContent.version
+  contentHash: string; // SHA-256 (hex) of the story file
+  essential?: boolean; // Preloaded for offline use
+}
+
+export interface StoryManifest {
+  manifestVersion: number; // Bumped whenever the published story set changes
+  generatedAt: number;
+  stories: StoryManifestEntry[];
+  quests?: StoryQuest[];
+}
+
 export interface StoryProgress {
   storyId: string;
   userId: string;
@@ -123,6 +213,10 @@ export interface StoryProgress {
   totalTimeSpent: number; // milliseconds
   choicesMade: DecisionRecord[];
   isCompleted: boolean;
+  variables?: Record<string, StoryVariableValue>;
+  storyVersion?: string; // Story version the progress was recorded against
+  sensoryBreaks?: SensoryBreakRecord[];
+  narratorId?: MunchieCharacter; // Keeps the same narrator when the story is resumed
 }
 
 export interface DecisionRecord {
@@ -133,6 +227,15 @@ export interface DecisionRecord {
   voiceResponse?: string; // What the child said, if applicable
 }
 
+// A sensory break taken between story nodes
+export interface SensoryBreakRecord {
+  nodeId: string; // Node the break was taken before
+  strategy: SensoryStrategy;
+  startedAt: number;
+  duration: number; // milliseconds actually spent on the break
+  skipped: boolean; // Child chose to carry on before the timer finished
+}
+
 export interface StorySession {
   id: string;
   storyId: string;
@@ -158,9 +261,35 @@ export interface StoryCollection {
   totalTimeSpent: number;
   preferredCharacter: MunchieCharacter;
   preferredAttachments: AttachmentType[];
+  questProgress?: QuestProgress[];
   lastUpdated: number;
 }
 
+// Quests link stories across attachments into a chaptered arc
+export interface QuestChapter {
+  storyId: string;
+  attachmentType: AttachmentType; // Scanning this attachment opens the chapter
+  title: string;
+  scanPrompt: string; // Character line inviting the child to scan for this chapter
+}
+
+export interface StoryQuest {
+  id: string;
+  title: string;
+  description: string;
+  characterId: MunchieCharacter;
+  chapters: QuestChapter[];
+}
+
+export interface QuestProgress {
+  questId: string;
+  currentChapter: number; // Index of the first chapter not yet completed
+  completedChapters: number;
+  totalChapters: number;
+  awaitingScan: boolean; // The current chapter's story hasn't been unlocked yet
+  isCompleted: boolean;
+}
+
 // Story validation and content safety
 export interface ContentSafetyCheck {
   storyId: string;
@@ -173,6 +302,51 @@ export interface ContentSafetyCheck {
   notes: string;
 }
 
+// Story graph validation (used by the loader and authoring tools)
+export type StoryValidationIssueCode =
+  | 'MISSING_FIELD'
+  | 'MISSING_START_NODE'
+  | 'MISSING_CONTENT'
+  | 'BROKEN_BRANCH'
+  | 'UNREACHABLE_NODE'
+  | 'DEAD_END'
+  | 'END_NODE_NOT_TERMINAL'
+  | 'CYCLE_WITHOUT_EXIT'
+  | 'INVALID_BRANCH_WEIGHT'
+  | 'BRANCH_WEIGHTS_MISMATCH'
+  | 'INVALID_CONDITION'
+  | 'TIMEOUT_WITHOUT_BRANCH'
+  | 'DURATION_MISMATCH'
+  | 'UNKNOWN_REQUIREMENT'
+  | 'UNDECLARED_VARIABLE'
+  | 'INVALID_MIGRATION'
+  | 'UNKNOWN_NARRATOR'
+  | 'NARRATOR_NAME_IN_TEXT'
+  | 'UNKNOWN_CUE_TARGET';
+
+export interface StoryValidationIssue {
+  code: StoryValidationIssueCode;
+  severity: 'error' | 'warning';
+  message: string;
+  nodeId?: string;
+  relatedNodeIds?: string[]; // e.g. the members of a cycle
+}
+
+export interface StoryValidationReport {
+  storyId: string;
+  isValid: boolean; // True when there are no errors (warnings are allowed)
+  errors: StoryValidationIssue[];
+  warnings: StoryValidationIssue[];
+  stats: {
+    totalNodes: number;
+    reachableNodes: number;
+    endNodes: number;
+    shortestPathSeconds: number | null; // Quickest route from start to an end node
+    longestPathSeconds: number | null; // Slowest route to an end node, including prompt timeouts
+  };
+  validatedAt: number;
+}
+
 // Story analytics for therapeutic insights
 export interface StoryAnalytics {
   storyId: string;
@@ -203,6 +377,14 @@ export interface StoryTemplate {
   difficultyLevel: 'beginner' | 'intermediate' | 'advanced';
 }
 
+// Work-in-progress story from the authoring tool, kept in IndexedDB until exported
+export interface StoryDraft {
+  id: string; // Same as story.id
+  story: StoryContent;
+  createdAt: number;
+  updatedAt: number;
+}
+
 // Error handling for story loading and playback
 export interface StoryError {
   code: 'STORY_NOT_FOUND' | 'INVALID_FORMAT' | 'NETWORK_ERROR' | 'PERMISSION_DENIED' | 'CONTENT_UNSAFE';
@@ -238,6 +420,10 @@ export const isEmotionType = (value: string): value is EmotionType => {
   return ['calm', 'excited', 'curious', 'gentle', 'encouraging', 'understanding', 'playful', 'reassuring'].includes(value);
 };
 
+export const isStoryLanguage = (value: string): value is StoryLanguage => {
+  return ['en', 'es', 'fr', 'de'].includes(value);
+};
+
 // Utility types for story manipulation
 export type StoryNodeUpdate = Partial<Omit<StoryNode, 'id'>>;
 export type StoryContentUpdate = Partial<Omit<StoryContent, 'id' | 'createdAt'>>;
@@ -0,0 +1,74 @@
+/**
+ * Story pack type definitions for Curmunchkins Mystery Box Explorer
+ * A story pack bundles stories, pre-rendered narration and images into one
+ * archive so devices can be loaded offline (e.g. a classroom over USB)
+ */
+
+import type { MunchieCharacter, EmotionType } from './story.types';
+import type { WordTiming } from './voice.types';
+
+export interface StoryPackStoryEntry {
+  id: string;
+  path: string; // File inside the archive
+  title: string;
+  version: string; // Matches StoryContent.version
+  characterId: MunchieCharacter;
+  contentHash: string; // SHA-256 (hex) of the file
+}
+
+// Narration for one segment, as spoken by one character
+export interface StoryPackAudioEntry {
+  key: string; // audioCache key for the character, emotion and text
+  path: string;
+  characterId: MunchieCharacter;
+  emotion: EmotionType;
+  text: string;
+  duration: number; // milliseconds
+  wordTimings?: WordTiming[];
+  contentHash: string;
+}
+
+export interface StoryPackImageEntry {
+  id: string; // assets store ID
+  path: string;
+  mimeType: string;
+  characterId?: string;
+  storyId?: string;
+  contentHash: string;
+}
+
+// manifest.json at the root of every pack
+export interface StoryPackManifest {
+  packFormat: number; // Bumped when the archive layout changes
+  id: string;
+  title: string;
+  description?: string;
+  createdAt: number;
+  stories: StoryPackStoryEntry[];
+  audio: StoryPackAudioEntry[];
+  images: StoryPackImageEntry[];
+}
+
+export interface StoryPackExportOptions {
+  title: string;
+  description?: string;
+  characters?: MunchieCharacter[]; // Narrators to pre-render; defaults to each story's own character
+  includeAudio?: boolean;
+  includeImages?: boolean;
+  onProgress?: (completed: number, total: number) => void; // Narration lines rendered so far
+}
+
+export interface StoryPackExportResult {
+  manifest: StoryPackManifest;
+  archive: Blob;
+  missingAudio: number; // Lines that will fall back to live narration
+}
+
+export interface StoryPackImportResult {
+  packId: string;
+  title: string;
+  storyIds: string[]; // Stories now playable from the cache
+  audioImported: number;
+  imagesImported: number;
+  skipped: string[]; // Entries that could not be stored, with the reason
+}
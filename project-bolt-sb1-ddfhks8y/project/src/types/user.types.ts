@@ -3,7 +3,8 @@
  * Defines user profiles, preferences, and progress tracking
  */
 
-import type { MunchieCharacter, AttachmentType, SensoryStrategy } from './story.types';
+import type { MunchieCharacter, AttachmentType, SensoryStrategy, AgeBand } from './story.types';
+import type { SpeechRecognitionLanguage } from './voice.types';
 
 export type UserRole = 'child' | 'parent' | 'therapist' | 'educator';
 
@@ -29,7 +30,7 @@ export interface UserProfile {
   
   // Child-specific information (optional, parent-controlled)
   childInfo?: {
-    ageRange: '4-6' | '7-9' | '10-12';
+    ageRange: AgeBand;
     accessibilityNeeds: AccessibilityNeed[];
     sensoryPreferences: SensoryStrategy[];
     communicationStyle: 'verbal' | 'non_verbal' | 'mixed';
@@ -48,6 +49,7 @@ export interface UserProfile {
 
 export interface UserPreferences {
   userId: string;
+  locale?: SpeechRecognitionLanguage; // UI, story and speech language; en-US when unset
   
   // Accessibility settings
   accessibility: {
@@ -336,7 +338,7 @@ export type UserProgressUpdate = Partial<Omit<UserProgress, 'userId'>>;
 
 // Privacy-safe user data (for analytics and sharing)
 export interface AnonymizedUserData {
-  ageRange?: '4-6' | '7-9' | '10-12';
+  ageRange?: AgeBand;
   accessibilityNeeds: AccessibilityNeed[];
   sensoryPreferences: SensoryStrategy[];
   usagePatterns: {
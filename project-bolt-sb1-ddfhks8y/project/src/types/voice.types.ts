@@ -9,7 +9,11 @@ export type VoiceProvider = 'elevenlabs' | 'browser' | 'mock';
 
 export type VoiceQuality = 'low' | 'medium' | 'high' | 'ultra';
 
-export type SpeechRecognitionLanguage = 'en-US' | 'en-GB' | 'en-CA' | 'en-AU';
+export type SpeechRecognitionLanguage =
+  | 'en-US' | 'en-GB' | 'en-CA' | 'en-AU'
+  | 'es-ES' | 'es-MX'
+  | 'fr-FR' | 'fr-CA'
+  | 'de-DE';
 
 export interface VoiceSettings {
   provider: VoiceProvider;
@@ -45,6 +49,15 @@ export interface VoiceSynthesisRequest {
   settings?: Partial<VoiceSettings>;
   priority: 'low' | 'normal' | 'high' | 'urgent';
   cacheKey?: string;
+  language?: SpeechRecognitionLanguage; // Picks the TTS model; defaults to English
+}
+
+// When a word is spoken within a narration clip
+export interface WordTiming {
+  word: string;
+  charIndex: number; // Offset of the word in the narrated text
+  start: number; // milliseconds
+  end: number; // milliseconds
 }
 
 export interface VoiceSynthesisResponse {
@@ -56,6 +69,8 @@ export interface VoiceSynthesisResponse {
   text: string;
   generatedAt: number;
   cacheKey?: string;
+  wordTimings?: WordTiming[];
+  timingSource?: 'alignment' | 'estimated'; // ElevenLabs alignment data, or guessed from speech rate
 }
 
 export interface SpeechRecognitionConfig {
@@ -132,6 +147,8 @@ export interface AudioCache {
     text: string;
     duration: number;
     settings: VoiceSettings;
+    wordTimings?: WordTiming[];
+    packId?: string; // Story pack the narration was imported from
   };
   createdAt: number;
   lastAccessed: number;
@@ -272,7 +289,7 @@ export const isVoiceQuality = (value: string): value is VoiceQuality => {
 };
 
 export const isSpeechRecognitionLanguage = (value: string): value is SpeechRecognitionLanguage => {
-  return ['en-US', 'en-GB', 'en-CA', 'en-AU'].includes(value);
+  return ['en-US', 'en-GB', 'en-CA', 'en-AU', 'es-ES', 'es-MX', 'fr-FR', 'fr-CA', 'de-DE'].includes(value);
 };
 
 export const isVoiceCommand = (value: string): value is VoiceCommand => {